@@ -3,7 +3,7 @@ import {
   NAMESPACES,
   parseTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -12,43 +12,53 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.AdvanceCTE
 const SOURCE_DIR = getSourcePath('AdvanceCTE')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface FullCrosswalkRow {
-  careerCluster: string
-  subCluster: string
-  sOCCode: string
-  occupationTitle: string
-  'cIPCode2020)': string
-  'cIPTitle2020)': string
-  '2DigitNAICS': string
-  nAICSTitle: string
-}
-
-interface SOCCareerClusterRow {
-  sOCCode: string
-  occupationTitle: string
-  careerCluster: string
-  subCluster: string
-}
-
-interface CIPCareerClusterRow {
-  'cIPCode2020)': string
-  'cIPTitle2020)': string
-  careerCluster: string
-  subCluster: string
-}
+const FULL_CROSSWALK_SCHEMA = defineSchema({
+  columns: {
+    careerCluster: {},
+    subCluster: {},
+    sOCCode: {},
+    occupationTitle: { optional: true },
+    'cIPCode2020)': { optional: true },
+    'cIPTitle2020)': { optional: true },
+    '2DigitNAICS': {},
+    nAICSTitle: { optional: true },
+  },
+})
+
+const SOC_CAREER_CLUSTER_SCHEMA = defineSchema({
+  columns: {
+    sOCCode: {},
+    occupationTitle: { optional: true },
+    careerCluster: {},
+    subCluster: {},
+  },
+})
+
+const CIP_CAREER_CLUSTER_SCHEMA = defineSchema({
+  columns: {
+    'cIPCode2020)': { optional: true },
+    'cIPTitle2020)': { optional: true },
+    careerCluster: {},
+    subCluster: {},
+  },
+})
+type CIPCareerClusterRow = SchemaRow<typeof CIP_CAREER_CLUSTER_SCHEMA>
 
 function transformCareerClusters(): void {
   console.log('Transforming AdvanceCTE Career Clusters...')
 
   try {
-    const data = parseTSV<SOCCareerClusterRow>(join(SOURCE_DIR, 'AdvanceCTE.SOC-CareerClusters.SOC---CC---Sub-Clusters.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'AdvanceCTE.SOC-CareerClusters.SOC---CC---Sub-Clusters.tsv'), SOC_CAREER_CLUSTER_SCHEMA)
 
     // Extract unique career clusters
     const clustersMap = new Map<string, string>()
@@ -94,7 +104,7 @@ function transformCareerClusters(): void {
     writeStandardTSV(join(DATA_DIR, 'AdvanceCTE.SubClusters.tsv'), subClusterRecords)
 
     // Write SubCluster -> CareerCluster relationships
-    const clusterHierarchy: Record<string, string>[] = Array.from(subClustersMap.entries()).map(([key, sc]) => ({
+    const clusterHierarchy: RelationshipRecord[] = Array.from(subClustersMap.entries()).map(([key, sc]) => ({
       fromNs: NS,
       fromType: 'SubCluster',
       fromId: toWikipediaStyleId(sc.name),
@@ -103,11 +113,7 @@ function transformCareerClusters(): void {
       toId: toWikipediaStyleId(sc.parent),
       relationshipType: 'childOf',
     }))
-    writeTSV(
-      join(REL_DIR, 'AdvanceCTE.SubCluster.CareerCluster.tsv'),
-      clusterHierarchy,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'AdvanceCTE.SubCluster.CareerCluster.tsv'), clusterHierarchy)
   } catch (e) {
     console.log('Error processing Career Clusters:', e)
   }
@@ -117,10 +123,10 @@ function transformSOCCareerClusterCrosswalk(): void {
   console.log('Transforming SOC-CareerCluster Crosswalk...')
 
   try {
-    const data = parseTSV<SOCCareerClusterRow>(join(SOURCE_DIR, 'AdvanceCTE.SOC-CareerClusters.SOC---CC---Sub-Clusters.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'AdvanceCTE.SOC-CareerClusters.SOC---CC---Sub-Clusters.tsv'), SOC_CAREER_CLUSTER_SCHEMA)
 
     // Write SOC -> CareerCluster relationships
-    const socClusterRels: Record<string, string>[] = []
+    const socClusterRels: RelationshipRecord[] = []
     const seenSOCCluster = new Set<string>()
 
     for (const row of data) {
@@ -141,14 +147,10 @@ function transformSOCCareerClusterCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'SOC.CareerCluster.tsv'),
-      socClusterRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'SOC.CareerCluster.tsv'), socClusterRels)
 
     // Write SOC -> SubCluster relationships
-    const socSubClusterRels: Record<string, string>[] = []
+    const socSubClusterRels: RelationshipRecord[] = []
     const seenSOCSubCluster = new Set<string>()
 
     for (const row of data) {
@@ -169,11 +171,7 @@ function transformSOCCareerClusterCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'SOC.SubCluster.tsv'),
-      socSubClusterRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'SOC.SubCluster.tsv'), socSubClusterRels)
   } catch (e) {
     console.log('Error processing SOC-CareerCluster crosswalk:', e)
   }
@@ -183,7 +181,7 @@ function transformCIPCareerClusterCrosswalk(): void {
   console.log('Transforming CIP-CareerCluster Crosswalk...')
 
   try {
-    const data = parseTSV<CIPCareerClusterRow>(join(SOURCE_DIR, 'AdvanceCTE.CIP-CareerClusters.CIP---CC---Sub-Clusters.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'AdvanceCTE.CIP-CareerClusters.CIP---CC---Sub-Clusters.tsv'), CIP_CAREER_CLUSTER_SCHEMA)
 
     // Write CIP programs as standardized records
     const cipMap = new Map<string, CIPCareerClusterRow>()
@@ -205,7 +203,7 @@ function transformCIPCareerClusterCrosswalk(): void {
     writeStandardTSV(join(DATA_DIR, 'AdvanceCTE.CIP.tsv'), cipRecords)
 
     // Write CIP -> CareerCluster relationships
-    const cipClusterRels: Record<string, string>[] = []
+    const cipClusterRels: RelationshipRecord[] = []
     const seenCIPCluster = new Set<string>()
 
     for (const row of data) {
@@ -227,14 +225,10 @@ function transformCIPCareerClusterCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'CIP.CareerCluster.tsv'),
-      cipClusterRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'CIP.CareerCluster.tsv'), cipClusterRels)
 
     // Write CIP -> SubCluster relationships
-    const cipSubClusterRels: Record<string, string>[] = []
+    const cipSubClusterRels: RelationshipRecord[] = []
     const seenCIPSubCluster = new Set<string>()
 
     for (const row of data) {
@@ -256,11 +250,7 @@ function transformCIPCareerClusterCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'CIP.SubCluster.tsv'),
-      cipSubClusterRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'CIP.SubCluster.tsv'), cipSubClusterRels)
   } catch (e) {
     console.log('Error processing CIP-CareerCluster crosswalk:', e)
   }
@@ -270,10 +260,10 @@ function transformFullCrosswalk(): void {
   console.log('Transforming Full Crosswalk (SOC-CIP-CC-NAICS)...')
 
   try {
-    const data = parseTSV<FullCrosswalkRow>(join(SOURCE_DIR, 'AdvanceCTE.FullCrosswalk.SOC---CIP---CC.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'AdvanceCTE.FullCrosswalk.SOC---CIP---CC.tsv'), FULL_CROSSWALK_SCHEMA)
 
     // Write SOC-CIP relationships
-    const socCipRels: Record<string, string>[] = []
+    const socCipRels: RelationshipRecord[] = []
     const seenSOCCIP = new Set<string>()
 
     for (const row of data) {
@@ -295,14 +285,10 @@ function transformFullCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'SOC.CIP.tsv'),
-      socCipRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'SOC.CIP.tsv'), socCipRels)
 
     // Write SOC-NAICS relationships
-    const socNaicsRels: Record<string, string>[] = []
+    const socNaicsRels: RelationshipRecord[] = []
     const seenSOCNAICS = new Set<string>()
 
     for (const row of data) {
@@ -324,14 +310,10 @@ function transformFullCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'SOC.NAICS.tsv'),
-      socNaicsRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'SOC.NAICS.tsv'), socNaicsRels)
 
     // Write CareerCluster-NAICS relationships
-    const ccNaicsRels: Record<string, string>[] = []
+    const ccNaicsRels: RelationshipRecord[] = []
     const seenCCNAICS = new Set<string>()
 
     for (const row of data) {
@@ -353,11 +335,7 @@ function transformFullCrosswalk(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'CareerCluster.NAICS.tsv'),
-      ccNaicsRels,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'CareerCluster.NAICS.tsv'), ccNaicsRels)
   } catch (e) {
     console.log('Error processing Full Crosswalk:', e)
   }
@@ -375,6 +353,26 @@ export async function transformAdvanceCTE(): Promise<void> {
   console.log('=== AdvanceCTE Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'advancecte',
+  description: 'AdvanceCTE career cluster crosswalks',
+  run: transformAdvanceCTE,
+  sources: ['AdvanceCTE'],
+  outputs: [
+    'AdvanceCTE.CareerClusters.tsv',
+    'AdvanceCTE.SubClusters.tsv',
+    'relationships/AdvanceCTE.SubCluster.CareerCluster.tsv',
+    'relationships/SOC.CareerCluster.tsv',
+    'relationships/SOC.SubCluster.tsv',
+    'AdvanceCTE.CIP.tsv',
+    'relationships/CIP.CareerCluster.tsv',
+    'relationships/CIP.SubCluster.tsv',
+    'relationships/SOC.CIP.tsv',
+    'relationships/SOC.NAICS.tsv',
+    'relationships/CareerCluster.NAICS.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformAdvanceCTE()
@@ -3,7 +3,7 @@ import {
   NAMESPACES,
   parseTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -12,40 +12,51 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.APQC
 const SOURCE_DIR = getSourcePath('APQC')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface ProcessData {
-  pcfId: string
-  hierarchyId: string
-  name: string
-  elementDescription: string
-  industry: string
-  metricsAvailable: string
-  differenceIndex: string
-  changeDetails: string
-}
-
-interface MetricData {
-  processElementID: string
-  hierarchyID: string
-  processElement: string
-  metricCategory: string
-  metricID: string
-  metricName: string
-  formula: string
-  units: string
-}
-
-interface GlossaryData {
-  processElementID: string
-  processElement: string
-  definition: string
-}
+const PROCESS_SCHEMA = defineSchema({
+  columns: {
+    pcfId: {},
+    hierarchyId: {},
+    name: {},
+    elementDescription: {},
+    industry: {},
+    metricsAvailable: { optional: true },
+    differenceIndex: { optional: true },
+    changeDetails: { optional: true },
+  },
+})
+type ProcessData = SchemaRow<typeof PROCESS_SCHEMA>
+
+const METRIC_SCHEMA = defineSchema({
+  columns: {
+    processElementID: {},
+    hierarchyID: { optional: true },
+    processElement: {},
+    metricCategory: {},
+    metricID: {},
+    metricName: {},
+    formula: {},
+    units: {},
+  },
+})
+type MetricData = SchemaRow<typeof METRIC_SCHEMA>
+
+const GLOSSARY_SCHEMA = defineSchema({
+  columns: {
+    processElementID: {},
+    processElement: {},
+    definition: {},
+  },
+})
 
 function getProcessLevel(hierarchyId: string): string {
   if (!hierarchyId) return 'Unknown'
@@ -63,7 +74,7 @@ function getParentHierarchyId(hierarchyId: string): string | null {
 
 function transformProcesses(): void {
   console.log('Transforming APQC Processes...')
-  const data = parseTSV<ProcessData>(join(SOURCE_DIR, 'APQC.Processes.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'APQC.Processes.tsv'), PROCESS_SCHEMA)
 
   // Create a map for hierarchy lookups
   const hierarchyMap = new Map<string, ProcessData>()
@@ -84,7 +95,7 @@ function transformProcesses(): void {
   writeStandardTSV(join(DATA_DIR, 'APQC.Processes.tsv'), records)
 
   // Write process hierarchy relationships
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
   for (const row of data) {
     const parentHierarchyId = getParentHierarchyId(row.hierarchyId)
     if (parentHierarchyId) {
@@ -98,22 +109,18 @@ function transformProcesses(): void {
           toType: getProcessLevel(parentHierarchyId),
           toId: parent.pcfId,
           relationshipType: 'childOf',
-          hierarchyId: row.hierarchyId,
+          properties: { hierarchyId: row.hierarchyId },
         })
       }
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'APQC.Process.Process.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'hierarchyId']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'APQC.Process.Process.tsv'), relationships)
 }
 
 function transformIndustries(): void {
   console.log('Transforming APQC Industries...')
-  const data = parseTSV<ProcessData>(join(SOURCE_DIR, 'APQC.Processes.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'APQC.Processes.tsv'), PROCESS_SCHEMA)
 
   // Get unique industries
   const industriesSet = new Set<string>()
@@ -148,7 +155,7 @@ function transformIndustries(): void {
   writeStandardTSV(join(DATA_DIR, 'APQC.Industries.tsv'), records)
 
   // Write process-industry relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.industry)
     .map(row => ({
       fromNs: NS,
@@ -160,16 +167,12 @@ function transformIndustries(): void {
       relationshipType: 'applicableTo',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'APQC.Process.Industry.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'APQC.Process.Industry.tsv'), relationships)
 }
 
 function transformMetrics(): void {
   console.log('Transforming APQC Metrics...')
-  const data = parseTSV<MetricData>(join(SOURCE_DIR, 'APQC.Metrics.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'APQC.Metrics.tsv'), METRIC_SCHEMA)
 
   // Get unique metrics
   const metricsMap = new Map<string, MetricData>()
@@ -212,7 +215,7 @@ function transformMetrics(): void {
   writeStandardTSV(join(DATA_DIR, 'APQC.MetricCategories.tsv'), categoryRecords)
 
   // Write process-metric relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.metricID && row.processElementID)
     .map(row => ({
       fromNs: NS,
@@ -222,19 +225,15 @@ function transformMetrics(): void {
       toType: 'Metric',
       toId: row.metricID,
       relationshipType: 'measuredBy',
-      category: row.metricCategory,
+      properties: { category: row.metricCategory },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'APQC.Process.Metric.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'category']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'APQC.Process.Metric.tsv'), relationships)
 }
 
 function transformGlossary(): void {
   console.log('Transforming APQC Glossary...')
-  const data = parseTSV<GlossaryData>(join(SOURCE_DIR, 'APQC.GlossaryTerms.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'APQC.GlossaryTerms.tsv'), GLOSSARY_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.processElement && row.definition)
@@ -263,6 +262,23 @@ export async function transformAPQC(): Promise<void> {
   console.log('=== APQC Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'apqc',
+  description: 'APQC process classification framework',
+  run: transformAPQC,
+  sources: ['APQC'],
+  outputs: [
+    'APQC.Processes.tsv',
+    'relationships/APQC.Process.Process.tsv',
+    'APQC.Industries.tsv',
+    'relationships/APQC.Process.Industry.tsv',
+    'APQC.Metrics.tsv',
+    'APQC.MetricCategories.tsv',
+    'relationships/APQC.Process.Metric.tsv',
+    'APQC.Glossary.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformAPQC()
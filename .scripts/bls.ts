@@ -3,6 +3,7 @@ import { existsSync } from 'fs'
 import {
   NAMESPACES,
   parseTSV,
+  disambiguateIds,
   writeStandardTSV,
   writeTSV,
   writeRelationshipTSV,
@@ -16,56 +17,71 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import { CURRENT_EDITIONS, findEditions, versionedFile, versionedId, type Edition } from './vintages'
+import { concordanceEditions, concordanceEditionCodes } from './concordances'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.BLS
 const SOURCE_DIR = getSourcePath('BLS')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface EmploymentRow {
-  socCode: string
-  occupationTitle: string
-  totalEmployment: string
-  employmentRSE: string
-  source: string
-}
-
-interface IndustryRow {
-  industry_code: string
-  industry_name: string
-  display_level: string
-  selectable: string
-  sort_sequence: string
-}
-
-interface OccupationRow {
-  occupation_code: string
-  occupation_name: string
-  occupation_description: string
-  display_level: string
-  selectable: string
-  sort_sequence: string
-}
-
-interface EducationRow {
-  OCC_CODE: string
-  OCC_TITLE: string
-  Less_than_H_S_diploma: string
-  High_school_diploma_or_equivalent: string
-  Some_college_no_degree: string
-  Associates_degree: string
-  Bachelors_degree: string
-  Masters_degree: string
-  Doctoral_or_professional_degree: string
-}
-
-interface STEMRow {
-  OCC_CODE: string
-  OCC_TITLE: string
-  TOT_EMP: string
-  STEM_EMP: string
-  STEM_PERCENT: string
-}
+const EMPLOYMENT_SCHEMA = defineSchema({
+  columns: {
+    socCode: {},
+    occupationTitle: {},
+    totalEmployment: {},
+    employmentRSE: {},
+    source: {},
+  },
+})
+type EmploymentRow = SchemaRow<typeof EMPLOYMENT_SCHEMA>
+
+const INDUSTRY_SCHEMA = defineSchema({
+  columns: {
+    industry_code: {},
+    industry_name: {},
+    display_level: { optional: true },
+    selectable: { optional: true },
+    sort_sequence: { optional: true },
+  },
+})
+
+const OCCUPATION_SCHEMA = defineSchema({
+  columns: {
+    occupation_code: {},
+    occupation_name: {},
+    occupation_description: {},
+    display_level: { optional: true },
+    selectable: { optional: true },
+    sort_sequence: { optional: true },
+  },
+})
+
+const EDUCATION_SCHEMA = defineSchema({
+  columns: {
+    OCC_CODE: {},
+    OCC_TITLE: {},
+    Less_than_H_S_diploma: {},
+    High_school_diploma_or_equivalent: {},
+    Some_college_no_degree: {},
+    Associates_degree: {},
+    Bachelors_degree: {},
+    Masters_degree: {},
+    Doctoral_or_professional_degree: {},
+  },
+})
+
+const STEM_SCHEMA = defineSchema({
+  columns: {
+    OCC_CODE: {},
+    OCC_TITLE: {},
+    TOT_EMP: {},
+    STEM_EMP: {},
+    STEM_PERCENT: {},
+  },
+})
 
 function getSOCLevel(code: string): string {
   if (!code) return 'Occupation'
@@ -101,60 +117,51 @@ function getParentSOCCode(code: string): string | null {
   return baseCode.slice(0, 5) + '00'
 }
 
-function transformEmployment(): void {
-  console.log('Transforming BLS Employment data...')
-  const data = parseTSV<EmploymentRow>(join(SOURCE_DIR, 'Occupations.Employment.tsv'))
-
-  // Create a map for hierarchy lookups
-  const codeMap = new Map<string, EmploymentRow>()
-  for (const row of data) {
-    if (row.socCode) {
-      codeMap.set(row.socCode, row)
-    }
-  }
+function transformEmployment(edition: Edition, data: EmploymentRow[]): void {
+  console.log(`Transforming BLS Employment data (SOC ${edition.version})...`)
 
-  const records: StandardRecord[] = data
+  const records: StandardRecord[] = disambiguateIds(data
     .filter(row => row.socCode && row.occupationTitle)
     .map(row => ({
       ns: NS,
       type: getSOCLevel(row.socCode),
-      id: toWikipediaStyleId(row.occupationTitle),
+      id: versionedId(toWikipediaStyleId(row.occupationTitle), edition),
       name: row.occupationTitle,
       description: `Total Employment: ${row.totalEmployment?.trim() || 'N/A'}`,
       code: row.socCode,
       includedIn: getAggregationsForType('Occupation'),
-    }))
-
-  writeStandardTSV(join(DATA_DIR, 'BLS.Occupations.tsv'), records)
+      version: edition.version,
+    })))
 
-  // Write hierarchy relationships
-  const relationships: Record<string, string>[] = []
-  for (const row of data) {
-    const code = row.socCode
-    if (!code) continue
+  writeStandardTSV(join(DATA_DIR, versionedFile('BLS.Occupations.tsv', edition)), records)
 
+  // Write hierarchy relationships. Codes are shared between SOC editions, so only
+  // the current edition's endpoints use codes; the others use their versioned ids.
+  const idByCode = new Map(records.map(r => [r.code, r.id]))
+  const idOf = (code: string) => edition.current ? code : idByCode.get(code)!
+  const relationships: RelationshipRecord[] = []
+  for (const { code } of records) {
     const parentCode = getParentSOCCode(code)
-    if (parentCode && codeMap.has(parentCode)) {
+    if (parentCode && idByCode.has(parentCode)) {
       relationships.push({
         fromNs: NS,
         fromType: getSOCLevel(code),
-        fromId: code,
+        fromId: idOf(code),
         toNs: NS,
         toType: getSOCLevel(parentCode),
-        toId: parentCode,
+        toId: idOf(parentCode),
         relationshipType: 'childOf',
       })
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'BLS.Occupation.Occupation.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, versionedFile('BLS.Occupation.Occupation.tsv', edition)), relationships)
+
+  // O*NET-SOC is based on the current SOC edition
+  if (!edition.current) return
 
   // Write BLS to ONET occupation linkages
-  const onetRelationships: Record<string, string>[] = data
+  const onetRelationships: RelationshipRecord[] = data
     .filter(row => row.socCode)
     .map(row => {
       // Convert BLS SOC code to ONET format (add .00 suffix if needed)
@@ -172,16 +179,12 @@ function transformEmployment(): void {
       }
     })
 
-  writeTSV(
-    join(REL_DIR, 'BLS.ONET.Occupation.tsv'),
-    onetRelationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'BLS.ONET.Occupation.tsv'), onetRelationships)
 }
 
 function transformEmploymentStats(): void {
   console.log('Transforming BLS Employment Statistics...')
-  const data = parseTSV<EmploymentRow>(join(SOURCE_DIR, 'Occupations.Employment.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'Occupations.Employment.tsv'), EMPLOYMENT_SCHEMA)
 
   // Write employment statistics as extended data
   const statsRecords: Record<string, string>[] = data
@@ -223,7 +226,7 @@ function transformIndustries(): void {
     return
   }
 
-  const data = parseTSV<IndustryRow>(sourceFile)
+  const data = parseTSV(sourceFile, INDUSTRY_SCHEMA)
 
   const industries: StandardRecord[] = data
     .filter(row => row.industry_code && row.industry_name)
@@ -270,7 +273,7 @@ function transformOESOccupations(): void {
     return
   }
 
-  const data = parseTSV<OccupationRow>(sourceFile)
+  const data = parseTSV(sourceFile, OCCUPATION_SCHEMA)
 
   const occupations: StandardRecord[] = data
     .filter(row => row.occupation_code && row.occupation_name)
@@ -282,6 +285,7 @@ function transformOESOccupations(): void {
       description: cleanDescription(row.occupation_description || ''),
       code: row.occupation_code,
       includedIn: getAggregationsForType('Occupation'),
+      version: CURRENT_EDITIONS.SOC,
     }))
 
   writeStandardTSV(join(DATA_DIR, 'BLS.OESOccupations.tsv'), occupations)
@@ -296,7 +300,7 @@ function transformEducation(): void {
     return
   }
 
-  const data = parseTSV<EducationRow>(sourceFile)
+  const data = parseTSV(sourceFile, EDUCATION_SCHEMA)
 
   // Define education levels
   const educationLevels = [
@@ -322,7 +326,7 @@ function transformEducation(): void {
   writeStandardTSV(join(DATA_DIR, 'BLS.Education.tsv'), educationRecords)
 
   // Write occupation-education relationships
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
 
   for (const row of data) {
     if (!row.OCC_CODE) continue
@@ -349,7 +353,7 @@ function transformEducation(): void {
             toType: 'Education',
             toId: toWikipediaStyleId(eduLevel.name),
             relationshipType: 'hasEducationDistribution',
-            percentage: edu.value,
+            properties: { percentage: Number(edu.value) },
           })
         }
       }
@@ -357,11 +361,7 @@ function transformEducation(): void {
   }
 
   if (relationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'BLS.Occupation.Education.tsv'),
-      relationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'percentage']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'BLS.Occupation.Education.tsv'), relationships)
   }
 }
 
@@ -374,7 +374,7 @@ function transformSTEM(): void {
     return
   }
 
-  const data = parseTSV<STEMRow>(sourceFile)
+  const data = parseTSV(sourceFile, STEM_SCHEMA)
 
   const stemRecords: StandardRecord[] = data
     .filter(row => row.OCC_CODE && row.OCC_TITLE)
@@ -412,7 +412,23 @@ export async function transformBLS(): Promise<void> {
   console.log('=== BLS Transformation ===')
   ensureOutputDirs()
 
-  transformEmployment()
+  // The current SOC edition, and any other with an Occupations.Employment.<version>.tsv source
+  const editions = findEditions(SOURCE_DIR, 'Occupations.Employment.tsv', 'SOC')
+  for (const edition of editions) {
+    transformEmployment(edition, parseTSV(join(SOURCE_DIR, versionedFile('Occupations.Employment.tsv', edition)), EMPLOYMENT_SCHEMA))
+  }
+
+  // Older editions without a source file: the detailed occupations of their concordance
+  for (const edition of concordanceEditions('SOC', editions)) {
+    const codes = concordanceEditionCodes('SOC', edition)
+    transformEmployment(edition, codes.map(({ code, title }) => ({
+      socCode: code,
+      occupationTitle: title,
+      totalEmployment: '',
+      employmentRSE: '',
+      source: '',
+    })))
+  }
   transformEmploymentStats()
   transformIndustries()
   transformOESOccupations()
@@ -422,6 +438,32 @@ export async function transformBLS(): Promise<void> {
   console.log('=== BLS Transformation Complete ===\n')
 }
 
+// Editions read from a source file, and the older ones taken from a concordance table
+const EDITIONS = findEditions(SOURCE_DIR, 'Occupations.Employment.tsv', 'SOC')
+const CONCORDANCE_EDITIONS = concordanceEditions('SOC', EDITIONS)
+
+export const transformer: TransformerDescriptor = {
+  name: 'bls',
+  description: 'BLS employment statistics and industry data',
+  run: transformBLS,
+  sources: ['BLS'],
+  outputs: [
+    ...[...EDITIONS, ...CONCORDANCE_EDITIONS].flatMap(edition => [
+      'BLS.Occupations.tsv',
+      'relationships/BLS.Occupation.Occupation.tsv',
+    ].map(file => versionedFile(file, edition))),
+    'relationships/BLS.ONET.Occupation.tsv',
+    'BLS.EmploymentStats.tsv',
+    'BLS.Industries.tsv',
+    'relationships/BLS.NAICS.Industry.tsv',
+    'BLS.OESOccupations.tsv',
+    'BLS.Education.tsv',
+    'relationships/BLS.Occupation.Education.tsv',
+    'BLS.STEM.tsv',
+    'relationships/BLS.Occupation.STEM.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformBLS()
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for build-db.ts
+ * Run with: bun test .scripts/build-db.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { buildDatabase, formatReport } from './build-db'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+let dbPath: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'build-db-'))
+  dbPath = join(dataDir, 'standards.db')
+  mkdirSync(join(dataDir, 'relationships'))
+
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Growing soybeans for oil', code: '111110', includedIn: 'business.org.ai' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', description: 'Growing oilseeds except soybeans', code: '11112' },
+  ]))
+  writeFileSync(join(dataDir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Farmers', name: 'Farmers and Ranchers', description: 'Operate farms', code: '11-9013.00' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming (again)', code: '111110' },
+  ]))
+  writeFileSync(join(dataDir, 'Graph.Types.tsv'), [
+    'type\tcanonicalDomain\tsupersetDomain\tcount\taggregations',
+    'Industry\tnaics.org.ai\tindustries.org.ai\t2\tbusiness.org.ai',
+  ].join('\n'))
+  writeFileSync(join(dataDir, 'Graph.Domains.tsv'), [
+    'domain\ttypes\trecordCount\tisCanonical\tisSuperset\tisAggregation',
+    'naics.org.ai\tIndustry\t2\ttrue\tfalse\tfalse',
+  ].join('\n'))
+  writeFileSync(join(dataDir, 'relationships', 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'ONET.Occupation.Technology.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Farmers', toNs: 'onet.org.ai', toType: 'Technology', toId: 'Excel', relationshipType: 'uses', hotTechnology: 'true', inDemand: 'false' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('buildDatabase', () => {
+  test('loads entities, relationships and graph indexes', async () => {
+    const report = await buildDatabase(dataDir, dbPath)
+    expect(report).toEqual({ entities: 3, duplicates: 1, relationships: 2, graphTypes: 1, graphDomains: 1, files: 4 })
+    expect(existsSync(`${dbPath}.tmp`)).toBe(false)
+    expect(formatReport(report, dbPath)).toContain('Loaded 3 entities (1 duplicate rows skipped)')
+
+    const db = new Database(dbPath, { readonly: true })
+    try {
+      expect(db.query('SELECT name, source FROM entities WHERE ns = ? AND type = ? AND id = ?').get('naics.org.ai', 'Industry', 'Soybean_Farming'))
+        .toEqual({ name: 'Soybean Farming', source: 'NAICS.Industries.tsv' })
+      expect(db.query('SELECT id FROM entities WHERE code = ?').all('11-9013.00')).toEqual([{ id: 'Farmers' }])
+
+      const search = db.query(`
+        SELECT e.id FROM entities_fts JOIN entities e ON e.rowid = entities_fts.rowid
+        WHERE entities_fts MATCH ? ORDER BY rank
+      `)
+      expect(search.all('oilseeds')).toEqual([{ id: 'Oilseed_Farming' }])
+      expect(search.all('farm*').map(r => (r as { id: string }).id).sort()).toEqual(['Farmers', 'Oilseed_Farming', 'Soybean_Farming'])
+
+      expect(db.query('SELECT toId, relationshipType FROM relationships WHERE fromNs = ? AND fromType = ? AND fromId = ?').all('naics.org.ai', 'Industry', 'Soybean_Farming'))
+        .toEqual([{ toId: 'Oilseed_Farming', relationshipType: 'childOf' }])
+      const uses = db.query("SELECT properties FROM relationships WHERE relationshipType = 'uses'").get() as { properties: string }
+      expect(JSON.parse(uses.properties)).toEqual({ hotTechnology: true, inDemand: false })
+
+      expect(db.query('SELECT * FROM graph_types').all()).toEqual([
+        { type: 'Industry', canonicalDomain: 'naics.org.ai', supersetDomain: 'industries.org.ai', count: 2, aggregations: 'business.org.ai' },
+      ])
+      expect(db.query('SELECT domain, isCanonical FROM graph_domains').all()).toEqual([{ domain: 'naics.org.ai', isCanonical: 1 }])
+
+      const indexes = db.query("SELECT name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%' ORDER BY name").all()
+      expect(indexes.map(r => (r as { name: string }).name)).toEqual([
+        'entities_code', 'entities_name', 'relationships_from', 'relationships_to', 'relationships_type',
+      ])
+    } finally {
+      db.close()
+    }
+  })
+
+  test('keeps the previous database when a build fails', async () => {
+    await buildDatabase(dataDir, dbPath)
+    writeFileSync(join(dataDir, 'Graph.Types.tsv'), 'type\nIndustry')
+
+    await expect(buildDatabase(dataDir, dbPath)).rejects.toThrow()
+    expect(existsSync(`${dbPath}.tmp`)).toBe(false)
+
+    const db = new Database(dbPath, { readonly: true })
+    expect(db.query('SELECT COUNT(*) AS n FROM entities').get()).toEqual({ n: 3 })
+    db.close()
+  })
+})
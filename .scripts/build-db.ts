@@ -0,0 +1,253 @@
+#!/usr/bin/env bun
+/**
+ * SQLite Database Build
+ *
+ * Loads every .data entity file and relationship file into a single bun:sqlite
+ * database, .data/standards.db, so the dataset can be distributed and queried as
+ * one file:
+ *
+ *   entities        keyed by (ns, type, id), indexed on code and name
+ *   entities_fts    FTS5 index over entity name and description
+ *   relationships   indexed on the from and to endpoints and on relationshipType;
+ *                   property columns are stored as typed JSON in `properties`
+ *   graph_types     Graph.Types.tsv from graph-integration.ts
+ *   graph_domains   Graph.Domains.tsv from graph-integration.ts
+ *   sources         the .data files loaded, with their row counts
+ *
+ * An entity written by several files is stored once, from the first file in name
+ * order. The database is built next to the output and renamed into place, so a
+ * failed build leaves the previous one intact.
+ *
+ * Usage:
+ *   bun run .scripts/build-db.ts
+ */
+
+import { Database } from 'bun:sqlite'
+import { existsSync, rmSync, renameSync } from 'fs'
+import { join } from 'path'
+import { streamDataTSV, listDataFiles, getDataPath, STANDARD_HEADERS, RELATIONSHIP_HEADERS } from './utils'
+import { relationshipPropertiesJSON } from './relationship-schemas'
+import type { TransformerDescriptor } from './registry'
+
+export const DB_FILE = 'standards.db'
+
+const GRAPH_TYPES_FILE = 'Graph.Types.tsv'
+const GRAPH_DOMAINS_FILE = 'Graph.Domains.tsv'
+
+const SCHEMA = `
+CREATE TABLE entities (
+  ns TEXT NOT NULL,
+  type TEXT NOT NULL,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  code TEXT NOT NULL,
+  sameAs TEXT NOT NULL,
+  includedIn TEXT NOT NULL,
+  version TEXT NOT NULL,
+  source TEXT NOT NULL,
+  PRIMARY KEY (ns, type, id)
+);
+
+CREATE TABLE relationships (
+  fromNs TEXT NOT NULL,
+  fromType TEXT NOT NULL,
+  fromId TEXT NOT NULL,
+  toNs TEXT NOT NULL,
+  toType TEXT NOT NULL,
+  toId TEXT NOT NULL,
+  relationshipType TEXT NOT NULL,
+  properties TEXT,
+  source TEXT NOT NULL
+);
+
+CREATE TABLE graph_types (
+  type TEXT PRIMARY KEY,
+  canonicalDomain TEXT NOT NULL,
+  supersetDomain TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  aggregations TEXT NOT NULL
+);
+
+CREATE TABLE graph_domains (
+  domain TEXT PRIMARY KEY,
+  types TEXT NOT NULL,
+  recordCount INTEGER NOT NULL,
+  isCanonical INTEGER NOT NULL,
+  isSuperset INTEGER NOT NULL,
+  isAggregation INTEGER NOT NULL
+);
+
+CREATE TABLE sources (
+  file TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  rows INTEGER NOT NULL
+);
+`
+
+// Created after loading, which is faster than maintaining them row by row
+const INDEXES = `
+CREATE INDEX entities_code ON entities (code);
+CREATE INDEX entities_name ON entities (name);
+CREATE INDEX relationships_from ON relationships (fromNs, fromType, fromId);
+CREATE INDEX relationships_to ON relationships (toNs, toType, toId);
+CREATE INDEX relationships_type ON relationships (relationshipType);
+
+CREATE VIRTUAL TABLE entities_fts USING fts5 (name, description, content = 'entities', content_rowid = 'rowid');
+INSERT INTO entities_fts (entities_fts) VALUES ('rebuild');
+`
+
+export interface DatabaseReport {
+  entities: number
+  duplicates: number                    // entity rows already loaded from another file
+  relationships: number
+  graphTypes: number
+  graphDomains: number
+  files: number
+}
+
+async function loadEntities(db: Database, dataDir: string, report: DatabaseReport): Promise<void> {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO entities (ns, type, id, name, description, code, sameAs, includedIn, version, source)
+    VALUES ($ns, $type, $id, $name, $description, $code, $sameAs, $includedIn, $version, $source)
+  `)
+  const addSource = db.prepare('INSERT INTO sources (file, kind, rows) VALUES (?, ?, ?)')
+
+  for (const file of listDataFiles(dataDir)) {
+    let rows = 0
+    db.run('BEGIN')
+    for await (const record of streamDataTSV(join(dataDir, file))) {
+      // Only entity files have ns, type and id columns (Graph.* indexes are loaded separately)
+      if (rows === 0 && !['ns', 'type', 'id'].every(col => col in record)) break
+      if (!record.ns || !record.type || !record.id) continue
+
+      const values: Record<string, string> = { $source: file }
+      for (const col of STANDARD_HEADERS) values[`$${col}`] = record[col] || ''
+      const { changes } = insert.run(values)
+      if (changes === 0) report.duplicates++
+      report.entities += changes
+      rows++
+    }
+    db.run('COMMIT')
+
+    if (rows > 0) {
+      addSource.run(file, 'entities', rows)
+      report.files++
+    }
+  }
+}
+
+async function loadRelationships(db: Database, dataDir: string, report: DatabaseReport): Promise<void> {
+  const insert = db.prepare(`
+    INSERT INTO relationships (fromNs, fromType, fromId, toNs, toType, toId, relationshipType, properties, source)
+    VALUES ($fromNs, $fromType, $fromId, $toNs, $toType, $toId, $relationshipType, $properties, $source)
+  `)
+  const addSource = db.prepare('INSERT INTO sources (file, kind, rows) VALUES (?, ?, ?)')
+  const relDir = join(dataDir, 'relationships')
+
+  for (const file of listDataFiles(relDir)) {
+    let rows = 0
+    db.run('BEGIN')
+    for await (const record of streamDataTSV(join(relDir, file))) {
+      const values: Record<string, string | null> = {
+        $properties: relationshipPropertiesJSON(record, file),
+        $source: `relationships/${file}`,
+      }
+      for (const col of RELATIONSHIP_HEADERS) values[`$${col}`] = record[col] || ''
+      insert.run(values)
+      rows++
+    }
+    db.run('COMMIT')
+
+    report.relationships += rows
+    addSource.run(`relationships/${file}`, 'relationships', rows)
+    report.files++
+  }
+}
+
+async function loadGraphIndexes(db: Database, dataDir: string, report: DatabaseReport): Promise<void> {
+  const typesPath = join(dataDir, GRAPH_TYPES_FILE)
+  if (existsSync(typesPath)) {
+    const insert = db.prepare('INSERT OR REPLACE INTO graph_types VALUES (?, ?, ?, ?, ?)')
+    for await (const r of streamDataTSV(typesPath)) {
+      insert.run(r.type, r.canonicalDomain, r.supersetDomain || '', Number(r.count) || 0, r.aggregations || '')
+      report.graphTypes++
+    }
+  }
+
+  const domainsPath = join(dataDir, GRAPH_DOMAINS_FILE)
+  if (existsSync(domainsPath)) {
+    const insert = db.prepare('INSERT OR REPLACE INTO graph_domains VALUES (?, ?, ?, ?, ?, ?)')
+    for await (const r of streamDataTSV(domainsPath)) {
+      insert.run(r.domain, r.types || '', Number(r.recordCount) || 0, r.isCanonical === 'true' ? 1 : 0, r.isSuperset === 'true' ? 1 : 0, r.isAggregation === 'true' ? 1 : 0)
+      report.graphDomains++
+    }
+  }
+}
+
+/**
+ * Build the database from a data directory, replacing any previous build
+ */
+export async function buildDatabase(dataDir: string = getDataPath(), dbPath: string = join(dataDir, DB_FILE)): Promise<DatabaseReport> {
+  const report: DatabaseReport = { entities: 0, duplicates: 0, relationships: 0, graphTypes: 0, graphDomains: 0, files: 0 }
+  const tmpPath = `${dbPath}.tmp`
+  rmSync(tmpPath, { force: true })
+
+  const db = new Database(tmpPath, { create: true })
+  try {
+    // Nothing to recover if the build is interrupted; the temporary file is discarded
+    db.run('PRAGMA journal_mode = OFF')
+    db.run('PRAGMA synchronous = OFF')
+    db.run(SCHEMA)
+
+    await loadEntities(db, dataDir, report)
+    await loadRelationships(db, dataDir, report)
+    await loadGraphIndexes(db, dataDir, report)
+
+    db.run(INDEXES)
+    db.run('ANALYZE')
+    db.run('PRAGMA journal_mode = DELETE')
+    db.close()
+  } catch (e) {
+    db.close()
+    rmSync(tmpPath, { force: true })
+    throw e
+  }
+
+  renameSync(tmpPath, dbPath)
+  return report
+}
+
+/**
+ * Format the build report for the console
+ */
+export function formatReport(report: DatabaseReport, dbPath: string): string {
+  return [
+    `Loaded ${report.entities} entities (${report.duplicates} duplicate rows skipped) and ${report.relationships} relationships from ${report.files} files`,
+    `Loaded ${report.graphTypes} graph types and ${report.graphDomains} graph domains`,
+    `Wrote ${dbPath}`,
+  ].join('\n')
+}
+
+export async function transformBuildDatabase(): Promise<void> {
+  console.log('=== SQLite Database ===')
+  const dbPath = join(getDataPath(), DB_FILE)
+  console.log(formatReport(await buildDatabase(getDataPath(), dbPath), dbPath))
+  console.log('=== SQLite Database Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'build-db',
+  description: 'Single-file SQLite database with FTS5 search (optional, runs only when named)',
+  run: transformBuildDatabase,
+  aliases: ['db'],
+  optional: true,
+  inputs: ['*', GRAPH_TYPES_FILE, GRAPH_DOMAINS_FILE],
+  outputs: [DB_FILE],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const dbPath = join(getDataPath(), DB_FILE)
+  console.log(formatReport(await buildDatabase(getDataPath(), dbPath), dbPath))
+}
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for check-domains.ts
+ * Run with: bun test .scripts/check-domains.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DOMAINS, hasRole } from './domains'
+import { checkDomains, checkRepositoryDomains, loadTypeConfigRows, type TypeConfigRow } from './check-domains'
+
+// Every registered domain as a namespace, so only the issues under test are reported
+const ALL_NAMESPACES = Object.fromEntries(Object.keys(DOMAINS).map(domain => [domain, domain]))
+
+function row(type: string, canonical: string, superset: string, aggregations: string): TypeConfigRow {
+  return { type, canonical_domain: canonical, superset_domain: superset, aggregation_domains: aggregations }
+}
+
+describe('checkDomains', () => {
+  test('accepts the declarations in this repository', () => {
+    expect(checkRepositoryDomains()).toEqual([])
+  })
+
+  test('reports domains missing from the registry or from NAMESPACES', () => {
+    const { 'retail.org.ai': _, ...withoutRetail } = ALL_NAMESPACES
+    const issues = checkDomains({
+      namespaces: { ...withoutRetail, Acme: 'acme.org.ai' },
+      typeAggregations: {},
+      typeConfig: [],
+    })
+    expect(issues).toEqual([
+      'NAMESPACES.Acme: acme.org.ai is not in the domain registry',
+      'retail.org.ai is registered but missing from NAMESPACES',
+    ])
+  })
+
+  test('checks the role of each domain a type declares', () => {
+    const issues = checkDomains({
+      namespaces: ALL_NAMESPACES,
+      typeAggregations: { Industry: ['business.org.ai', 'industries.org.ai', 'naics.org.ai'] },
+      typeConfig: [
+        row('Industry', 'naics.org.ai', 'industries.org.ai', 'business.org.ai'),
+        row('Widget', 'widgets.org.ai', 'business.org.ai', 'retail.org.ai'),
+      ],
+    })
+    expect(issues).toEqual([
+      'TYPE_AGGREGATIONS.Industry: naics.org.ai is registered as canonical, not superset/aggregation',
+      'TYPE_AGGREGATIONS.Industry: naics.org.ai missing from .ns-types.tsv',
+      '.ns-types.tsv Widget: widgets.org.ai is not in the domain registry',
+      '.ns-types.tsv Widget: business.org.ai is registered as aggregation, not superset',
+      '.ns-types.tsv Widget: type is missing from TYPE_AGGREGATIONS',
+      ...Object.keys(DOMAINS)
+        .filter(domain => hasRole(domain, 'superset') && domain !== 'industries.org.ai')
+        .map(domain => `${domain} is a superset domain but no type in .ns-types.tsv uses it`),
+    ])
+  })
+
+  test('compares the domains of each type in both directions, and the types in .data', () => {
+    const issues = checkDomains({
+      namespaces: ALL_NAMESPACES,
+      typeAggregations: {
+        Industry: ['business.org.ai', 'industries.org.ai'],
+        Occupation: ['business.org.ai', 'occupations.org.ai'],
+        Skill: ['business.org.ai'],
+      },
+      typeConfig: [
+        row('Industry', 'naics.org.ai', 'industries.org.ai', 'business.org.ai'),
+        row('Occupation', 'onet.org.ai', '-', 'business.org.ai|tech.org.ai'),
+      ],
+      dataTypes: ['Occupation', 'Widget', 'Skill'],
+    }).filter(issue => !issue.includes('no type in .ns-types.tsv uses it'))
+
+    expect(issues).toEqual([
+      '.ns-types.tsv Occupation: tech.org.ai missing from TYPE_AGGREGATIONS.Occupation',
+      'TYPE_AGGREGATIONS.Occupation: occupations.org.ai missing from .ns-types.tsv',
+      'TYPE_AGGREGATIONS.Skill: type has no .ns-types.tsv row',
+      '.data type Skill is missing from .ns-types.tsv',
+      '.data type Widget is missing from TYPE_AGGREGATIONS and .ns-types.tsv',
+    ])
+  })
+})
+
+describe('loadTypeConfigRows', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'check-domains-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('skips comment rows and tolerates a missing file', () => {
+    const filePath = join(dir, '.ns-types.tsv')
+    writeFileSync(filePath, [
+      'type\tcanonical_domain\tsuperset_domain\taggregation_domains',
+      '# Industries',
+      'Industry\tnaics.org.ai\tindustries.org.ai\tbusiness.org.ai',
+    ].join('\n'))
+
+    expect(loadTypeConfigRows(filePath)).toEqual([row('Industry', 'naics.org.ai', 'industries.org.ai', 'business.org.ai')])
+    expect(loadTypeConfigRows(join(dir, 'missing.tsv'))).toEqual([])
+  })
+})
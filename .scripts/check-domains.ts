@@ -0,0 +1,175 @@
+#!/usr/bin/env bun
+/**
+ * Domain Registry Consistency Check
+ *
+ * Checks that the places declaring domains and types agree with the registry in
+ * domains.ts:
+ *
+ *   NAMESPACES         every value is registered, and every registered domain is
+ *                      the namespace of some source
+ *   TYPE_AGGREGATIONS  every domain is a registered superset or aggregation domain
+ *   .ns-types.tsv      every canonical, superset and aggregation domain is
+ *                      registered with that role, and every superset domain is
+ *                      the superset of some type
+ *   both               every type of one has an entry in the other, with the same
+ *                      domains: TYPE_AGGREGATIONS lists the superset and the
+ *                      aggregation domains of the .ns-types.tsv row
+ *   .data              run directly, every entity type in .data is declared in both
+ *
+ * generate.ts runs the check (without .data) before any transform and stops on a problem.
+ *
+ * Usage:
+ *   bun run .scripts/check-domains.ts
+ */
+
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { parseTSV, streamEntities, getDataPath, NAMESPACES, TYPE_AGGREGATIONS } from './utils'
+import { DOMAINS, hasRole, isDomain, domainsWithRole, type DomainRole } from './domains'
+
+export const TYPE_CONFIG_FILE = '.ns-types.tsv'
+
+export interface TypeConfigRow {
+  type: string
+  canonical_domain: string
+  superset_domain: string
+  aggregation_domains: string
+}
+
+export interface DomainDeclarations {
+  namespaces: Record<string, string>
+  typeAggregations: Record<string, readonly string[]>
+  typeConfig: TypeConfigRow[]
+  dataTypes?: Iterable<string>                    // entity types found in .data
+}
+
+/**
+ * Load the .ns-types.tsv rows, skipping comment rows
+ */
+export function loadTypeConfigRows(filePath: string = join(process.cwd(), TYPE_CONFIG_FILE)): TypeConfigRow[] {
+  if (!existsSync(filePath)) return []
+  return parseTSV<TypeConfigRow>(filePath).filter(row => row.type && !row.type.startsWith('#'))
+}
+
+/**
+ * Collect the entity types of every entity file in a data directory
+ */
+export async function loadDataTypes(dataDir: string = getDataPath()): Promise<Set<string>> {
+  const types = new Set<string>()
+  for await (const { record } of streamEntities(dataDir)) types.add(record.type)
+  return types
+}
+
+function declared(domain: string | undefined): domain is string {
+  return !!domain && domain !== '-'
+}
+
+/**
+ * List every disagreement between the declarations and the registry
+ */
+export function checkDomains(declarations: DomainDeclarations): string[] {
+  const issues: string[] = []
+
+  const expectRole = (domain: string, roles: DomainRole[], where: string) => {
+    if (!isDomain(domain)) {
+      issues.push(`${where}: ${domain} is not in the domain registry`)
+    } else if (!roles.some(role => hasRole(domain, role))) {
+      issues.push(`${where}: ${domain} is registered as ${DOMAINS[domain].roles.join('/')}, not ${roles.join('/')}`)
+    }
+  }
+
+  // NAMESPACES
+  const namespaceDomains = new Set(Object.values(declarations.namespaces))
+  for (const [source, domain] of Object.entries(declarations.namespaces)) {
+    if (!isDomain(domain)) issues.push(`NAMESPACES.${source}: ${domain} is not in the domain registry`)
+  }
+  for (const domain of Object.keys(DOMAINS)) {
+    if (!namespaceDomains.has(domain)) issues.push(`${domain} is registered but missing from NAMESPACES`)
+  }
+
+  // TYPE_AGGREGATIONS
+  for (const [type, domains] of Object.entries(declarations.typeAggregations)) {
+    for (const domain of domains) expectRole(domain, ['superset', 'aggregation'], `TYPE_AGGREGATIONS.${type}`)
+  }
+
+  // .ns-types.tsv
+  const supersetsInUse = new Set<string>()
+  for (const row of declarations.typeConfig) {
+    const where = `${TYPE_CONFIG_FILE} ${row.type}`
+    const aggregations = (row.aggregation_domains || '').split('|').filter(Boolean)
+    if (declared(row.canonical_domain)) expectRole(row.canonical_domain, ['canonical'], where)
+    if (declared(row.superset_domain)) {
+      expectRole(row.superset_domain, ['superset'], where)
+      supersetsInUse.add(row.superset_domain)
+    }
+    for (const domain of aggregations) {
+      expectRole(domain, ['aggregation'], where)
+    }
+
+    const aggregated = declarations.typeAggregations[row.type]
+    if (!aggregated) {
+      issues.push(`${where}: type is missing from TYPE_AGGREGATIONS`)
+      continue
+    }
+    const configured = new Set([...(declared(row.superset_domain) ? [row.superset_domain] : []), ...aggregations])
+    const onlyConfigured = [...configured].filter(domain => !aggregated.includes(domain))
+    const onlyAggregated = aggregated.filter(domain => !configured.has(domain))
+    if (onlyConfigured.length > 0) {
+      issues.push(`${where}: ${onlyConfigured.join(', ')} missing from TYPE_AGGREGATIONS.${row.type}`)
+    }
+    if (onlyAggregated.length > 0) {
+      issues.push(`TYPE_AGGREGATIONS.${row.type}: ${onlyAggregated.join(', ')} missing from ${TYPE_CONFIG_FILE}`)
+    }
+  }
+  const configuredTypes = new Set(declarations.typeConfig.map(row => row.type))
+  if (declarations.typeConfig.length > 0) {
+    for (const type of Object.keys(declarations.typeAggregations)) {
+      if (!configuredTypes.has(type)) issues.push(`TYPE_AGGREGATIONS.${type}: type has no ${TYPE_CONFIG_FILE} row`)
+    }
+  }
+  if (declarations.typeConfig.length > 0) {
+    for (const domain of domainsWithRole('superset')) {
+      if (!supersetsInUse.has(domain)) issues.push(`${domain} is a superset domain but no type in ${TYPE_CONFIG_FILE} uses it`)
+    }
+  }
+
+  // .data
+  for (const type of [...(declarations.dataTypes || [])].sort()) {
+    const missing = [
+      ...(type in declarations.typeAggregations ? [] : ['TYPE_AGGREGATIONS']),
+      ...(configuredTypes.has(type) ? [] : [TYPE_CONFIG_FILE]),
+    ]
+    if (missing.length > 0) issues.push(`.data type ${type} is missing from ${missing.join(' and ')}`)
+  }
+
+  return issues
+}
+
+/**
+ * Check the declarations in this repository, and the types in .data when given
+ */
+export function checkRepositoryDomains(rootDir: string = process.cwd(), dataTypes?: Iterable<string>): string[] {
+  return checkDomains({
+    namespaces: NAMESPACES,
+    typeAggregations: TYPE_AGGREGATIONS,
+    typeConfig: loadTypeConfigRows(join(rootDir, TYPE_CONFIG_FILE)),
+    dataTypes,
+  })
+}
+
+/**
+ * Format issues for the console
+ */
+export function formatReport(issues: string[]): string {
+  if (issues.length === 0) {
+    return `Domain registry: ${Object.keys(DOMAINS).length} domains, all declarations consistent`
+  }
+  return [`Domain registry: ${issues.length} inconsistencies`, ...issues.map(issue => `  ${issue}`)].join('\n')
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const issues = checkRepositoryDomains(process.cwd(), await loadDataTypes())
+  console.log(formatReport(issues))
+  process.exit(issues.length > 0 ? 1 : 0)
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for check-relationships.ts
+ * Run with: bun test .scripts/check-relationships.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { buildEntityIndex, resolveEndpoint, checkRelationships, formatReport } from './check-relationships'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'check-relationships-'))
+  mkdirSync(join(dataDir, 'relationships'))
+
+  writeFileSync(join(dataDir, 'USITC.HTS.Subheadings.tsv'), entityFixture([
+    { ns: 'us.org.ai', type: 'HTSSubheading', id: '010121_Purebred_horses', name: 'Purebred horses', code: '010121' },
+    { ns: 'us.org.ai', type: 'HTSSubheading', id: '010129_Other_horses', name: 'Other horses', code: '010129' },
+  ]))
+  writeFileSync(join(dataDir, 'USITC.HTS.Codes.tsv'), entityFixture([
+    { ns: 'us.org.ai', type: 'HTSCode', id: '0101210010_Males', name: 'Males', code: '0101210010' },
+    { ns: 'us.org.ai', type: 'HTSCode', id: '0101210020_Females', name: 'Females', code: '0101210020' },
+  ]))
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', code: '111110' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', code: '1111' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming_Other', name: 'Other Oilseed Farming', code: '1111' },
+  ]))
+  writeFileSync(join(dataDir, 'Graph.Types.tsv'), 'type\tcanonicalDomain\nIndustry\tnaics.org.ai')
+
+  writeFileSync(join(dataDir, 'relationships', 'USITC.Code.Subheading.tsv'), relationshipFixture([
+    { fromNs: 'us.org.ai', fromType: 'HTSCode', fromId: '0101210010', toNs: 'us.org.ai', toType: 'HTSSubheading', toId: '010121', relationshipType: 'childOf' },
+    { fromNs: 'us.org.ai', fromType: 'HTSCode', fromId: '0101210020_Females', toNs: 'us.org.ai', toType: 'HTSSubheading', toId: '010121_Purebred_horses', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'Census.CBP.NAICS.tsv'), relationshipFixture([
+    { fromNs: 'us.org.ai', fromType: 'CBPEstablishment', fromId: 'A', toNs: 'naics.org.ai', toType: 'Industry', toId: '1111', relationshipType: 'classifiedAs' },
+    { fromNs: 'us.org.ai', fromType: 'CBPEstablishment', fromId: 'B', toNs: 'naics.org.ai', toType: 'Industry', toId: 'No_Such_Industry', relationshipType: 'classifiedAs' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'Clean.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('resolveEndpoint', () => {
+  test('classifies endpoints', async () => {
+    const index = await buildEntityIndex(dataDir)
+
+    expect(resolveEndpoint(index, 'naics.org.ai', 'Industry', 'Soybean_Farming')).toEqual({ status: 'ok' })
+    expect(resolveEndpoint(index, 'naics.org.ai', 'Industry', '111110')).toEqual({ status: 'code', id: 'Soybean_Farming' })
+    expect(resolveEndpoint(index, 'naics.org.ai', 'Industry', '1111')).toEqual({ status: 'ambiguous' })
+    expect(resolveEndpoint(index, 'naics.org.ai', 'Industry', 'Nothing')).toEqual({ status: 'missing' })
+    expect(resolveEndpoint(index, 'naics.org.ai', 'Sector', '11')).toEqual({ status: 'unknownType' })
+  })
+})
+
+describe('checkRelationships', () => {
+  test('reports dangling endpoints per file', async () => {
+    const reports = new Map((await checkRelationships(dataDir)).map(r => [r.file, r]))
+
+    const usitc = reports.get('USITC.Code.Subheading.tsv')!
+    expect(usitc.rows).toBe(2)
+    expect(usitc.dangling).toEqual({ from: 1, to: 1 })
+    expect(usitc.rewritable).toBe(2)
+    expect(usitc.rewritten).toBe(0)
+
+    const census = reports.get('Census.CBP.NAICS.tsv')!
+    expect(census.dangling).toEqual({ from: 2, to: 2 })
+    expect(census.samples.map(s => s.resolution.status)).toEqual(['unknownType', 'ambiguous', 'unknownType', 'missing'])
+
+    expect(reports.get('Clean.tsv')!.dangling).toEqual({ from: 0, to: 0 })
+  })
+
+  test('rewrites code endpoints with unique matches when fixing', async () => {
+    const reports = new Map((await checkRelationships(dataDir, true)).map(r => [r.file, r]))
+    expect(reports.get('USITC.Code.Subheading.tsv')!.rewritten).toBe(2)
+
+    const rewritten = readFileSync(join(dataDir, 'relationships', 'USITC.Code.Subheading.tsv'), 'utf-8').split('\n')
+    expect(rewritten[1]).toBe('us.org.ai\tHTSCode\t0101210010_Males\tus.org.ai\tHTSSubheading\t010121_Purebred_horses\tchildOf')
+    expect(existsSync(join(dataDir, 'relationships', 'USITC.Code.Subheading.tsv.tmp'))).toBe(false)
+
+    // Files without rewritable endpoints are left as they were
+    expect(readFileSync(join(dataDir, 'relationships', 'Census.CBP.NAICS.tsv'), 'utf-8')).toContain('\tNo_Such_Industry\t')
+    expect((await checkRelationships(dataDir)).find(r => r.file === 'USITC.Code.Subheading.tsv')!.dangling).toEqual({ from: 0, to: 0 })
+  })
+})
+
+describe('formatReport', () => {
+  test('lists files with dangling endpoints and samples', async () => {
+    const output = formatReport(await checkRelationships(dataDir))
+
+    expect(output).toContain('USITC.Code.Subheading.tsv: 2 dangling endpoints in 2 rows (from 1, to 1), 2 rewritable by code')
+    expect(output).toContain('  to us.org.ai/HTSSubheading/010121 (code of 010121_Purebred_horses)')
+    expect(output).toContain('  to naics.org.ai/Industry/No_Such_Industry (missing)')
+    expect(output).not.toContain('Clean.tsv')
+    expect(output).toContain('2 of 3 relationship files have dangling endpoints (6 total)')
+  })
+})
@@ -0,0 +1,189 @@
+#!/usr/bin/env bun
+/**
+ * Relationship Referential Integrity Check
+ *
+ * Loads every entity file in .data and checks that both endpoints of every row in
+ * .data/relationships point at an existing (ns, type, id). Reports dangling
+ * endpoints per file with counts and samples.
+ *
+ * Some transforms write raw codes (HTS codes, O*NET-SOC codes, NAICS codes) as
+ * endpoint ids instead of the Wikipedia-style entity ids. When such a code matches
+ * the `code` of exactly one entity of the endpoint's ns and type, the endpoint is
+ * reported as rewritable; run with --fix to rewrite those endpoints in place.
+ *
+ * Usage:
+ *   bun run .scripts/check-relationships.ts [--fix]
+ */
+
+import { join } from 'path'
+import { streamEntities, rewriteDataTSV, listDataFiles, entityKey, getDataPath } from './utils'
+
+const SAMPLE_SIZE = 5
+
+export interface EntityIndex {
+  ids: Set<string>                      // ns, type and id of every entity
+  types: Set<string>                    // ns and type pairs that have entities
+  codes: Map<string, string | null>     // ns, type and code -> id, null when the code is not unique
+}
+
+export type EndpointResolution =
+  | { status: 'ok' }
+  | { status: 'code'; id: string }      // id is a code that uniquely matches this entity id
+  | { status: 'ambiguous' }             // id is a code shared by several entities
+  | { status: 'missing' }               // entities of this type exist, but not this one
+  | { status: 'unknownType' }           // no entities of this ns and type exist at all
+
+export interface DanglingEndpoint {
+  side: 'from' | 'to'
+  ns: string
+  type: string
+  id: string
+  resolution: Exclude<EndpointResolution, { status: 'ok' }>
+}
+
+export interface RelationshipFileReport {
+  file: string
+  rows: number
+  dangling: { from: number; to: number }
+  rewritable: number
+  rewritten: number
+  samples: DanglingEndpoint[]
+}
+
+/**
+ * Index the ids and codes of every entity file in a data directory.
+ * Files without ns, type and id columns (such as the Graph.* indexes) are skipped.
+ */
+export async function buildEntityIndex(dataDir: string = getDataPath()): Promise<EntityIndex> {
+  const index: EntityIndex = { ids: new Set(), types: new Set(), codes: new Map() }
+
+  for await (const { record } of streamEntities(dataDir)) {
+    index.ids.add(entityKey(record.ns, record.type, record.id))
+    index.types.add(entityKey(record.ns, record.type, ''))
+
+    if (record.code) {
+      const key = entityKey(record.ns, record.type, record.code)
+      index.codes.set(key, index.codes.has(key) ? null : record.id)
+    }
+  }
+
+  return index
+}
+
+/**
+ * Resolve a relationship endpoint against the entity index
+ */
+export function resolveEndpoint(index: EntityIndex, ns: string, type: string, id: string): EndpointResolution {
+  if (index.ids.has(entityKey(ns, type, id))) return { status: 'ok' }
+  if (!index.types.has(entityKey(ns, type, ''))) return { status: 'unknownType' }
+
+  const byCode = index.codes.get(entityKey(ns, type, id))
+  if (byCode === null) return { status: 'ambiguous' }
+  if (byCode !== undefined) return { status: 'code', id: byCode }
+  return { status: 'missing' }
+}
+
+/**
+ * Check one relationship file, optionally rewriting code-based endpoints to entity ids
+ */
+export async function checkRelationshipFile(
+  filePath: string,
+  file: string,
+  index: EntityIndex,
+  fix: boolean = false
+): Promise<RelationshipFileReport> {
+  const report: RelationshipFileReport = { file, rows: 0, dangling: { from: 0, to: 0 }, rewritable: 0, rewritten: 0, samples: [] }
+
+  await rewriteDataTSV(filePath, record => {
+    report.rows++
+
+    for (const side of ['from', 'to'] as const) {
+      const ns = record[`${side}Ns`]
+      const type = record[`${side}Type`]
+      const id = record[`${side}Id`]
+      const resolution = resolveEndpoint(index, ns, type, id)
+      if (resolution.status === 'ok') continue
+
+      report.dangling[side]++
+      if (report.samples.length < SAMPLE_SIZE) {
+        report.samples.push({ side, ns, type, id, resolution })
+      }
+
+      if (resolution.status === 'code') {
+        report.rewritable++
+        if (fix) {
+          record[`${side}Id`] = resolution.id
+          report.rewritten++
+        }
+      }
+    }
+  }, fix)
+
+  return report
+}
+
+/**
+ * Check every relationship file in a data directory
+ */
+export async function checkRelationships(dataDir: string = getDataPath(), fix: boolean = false): Promise<RelationshipFileReport[]> {
+  const index = await buildEntityIndex(dataDir)
+  const relDir = join(dataDir, 'relationships')
+
+  const reports: RelationshipFileReport[] = []
+  for (const file of listDataFiles(relDir)) {
+    reports.push(await checkRelationshipFile(join(relDir, file), file, index, fix))
+  }
+  return reports
+}
+
+function describeEndpoint(endpoint: DanglingEndpoint): string {
+  const target = `${endpoint.side} ${endpoint.ns}/${endpoint.type}/${endpoint.id}`
+  switch (endpoint.resolution.status) {
+    case 'code':
+      return `${target} (code of ${endpoint.resolution.id})`
+    case 'ambiguous':
+      return `${target} (code shared by several entities)`
+    case 'unknownType':
+      return `${target} (no ${endpoint.type} entities in ${endpoint.ns})`
+    default:
+      return `${target} (missing)`
+  }
+}
+
+/**
+ * Format reports for the console, listing only files with dangling endpoints
+ */
+export function formatReport(reports: RelationshipFileReport[]): string {
+  const lines: string[] = []
+
+  for (const report of reports) {
+    const dangling = report.dangling.from + report.dangling.to
+    if (dangling === 0) continue
+
+    const rewrite = report.rewritten > 0
+      ? `, ${report.rewritten} rewritten`
+      : report.rewritable > 0 ? `, ${report.rewritable} rewritable by code` : ''
+    lines.push(`${report.file}: ${dangling} dangling endpoints in ${report.rows} rows (from ${report.dangling.from}, to ${report.dangling.to})${rewrite}`)
+    for (const sample of report.samples) {
+      lines.push(`  ${describeEndpoint(sample)}`)
+    }
+  }
+
+  const files = reports.filter(r => r.dangling.from + r.dangling.to > 0).length
+  const total = reports.reduce((sum, r) => sum + r.dangling.from + r.dangling.to, 0)
+  lines.push('')
+  lines.push(`${files} of ${reports.length} relationship files have dangling endpoints (${total} total)`)
+
+  return lines.join('\n')
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const fix = process.argv.includes('--fix')
+  const reports = await checkRelationships(getDataPath(), fix)
+  console.log(formatReport(reports))
+
+  // Endpoints rewritten by --fix no longer dangle
+  const remaining = reports.some(r => r.dangling.from + r.dangling.to > r.rewritten)
+  process.exit(remaining ? 1 : 0)
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for concordances.ts
+ * Run with: bun test .scripts/concordances.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as XLSX from 'xlsx'
+import { classifyConcordance, readConcordance, buildConcordance, concordanceEditions, concordanceEditionCodes, findUNSPSCConcordances, CONCORDANCES } from './concordances'
+import { entityFixture } from './test-fixtures'
+
+describe('classifyConcordance', () => {
+  test('types pairs as replacements, splits and merges', () => {
+    const pairs = classifyConcordance([
+      { from: 'A', to: '1' },
+      { from: 'B', to: '2' },
+      { from: 'B', to: '3' },
+      { from: 'C', to: '4' },
+      { from: 'D', to: '4' },
+    ])
+
+    expect(pairs.map(p => `${p.from}->${p.to} ${p.relationshipType}`)).toEqual([
+      'A->1 replacedBy',
+      'B->2 splitInto',
+      'B->3 splitInto',
+      'C->4 mergedInto',
+      'D->4 mergedInto',
+    ])
+  })
+})
+
+describe('concordance tables', () => {
+  let dir: string
+  let sourceDir: string
+  let dataDir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'concordances-'))
+    sourceDir = join(dir, 'source')
+    dataDir = join(dir, 'data')
+    mkdirSync(join(sourceDir, 'Census'), { recursive: true })
+    mkdirSync(join(sourceDir, 'UNSPSC'), { recursive: true })
+    mkdirSync(dataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('reads spreadsheets with title rows above the header', () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['2022 NAICS to 2017 NAICS'],
+      [],
+      ['2022 NAICS Code', '2022 NAICS Title', '2017 NAICS Code', '2017 NAICS Title'],
+      [111120, 'Oilseed Farming', 111120, 'Oilseed Farming'],
+      [111120, 'Oilseed Farming', 111120, 'Oilseed Farming'],
+      ['', '', '', ''],
+      ['* Footnote', '', '', ''],
+    ]), 'Sheet1')
+    const file = join(sourceDir, 'Census', '2022_to_2017_NAICS.xlsx')
+    XLSX.writeFile(workbook, file)
+
+    expect(readConcordance(file, CONCORDANCES[0].columns)).toEqual([{ from: '111120', to: '111120' }])
+    expect(() => readConcordance(file, { from: 'fromCode', to: 'toCode' })).toThrow('no header row')
+  })
+
+  test('takes old editions without a source file from the concordance titles', () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['2022 NAICS Code', '2022 NAICS Title', '2017 NAICS Code', '2017 NAICS Title'],
+      [111120, 'Oilseed (except Soybean) Farming', 111120, 'Oilseed (except Soybean) Farming'],
+      [111191, 'Oilseed and Grain Combination Farming', 111191, 'Oilseed and Grain Combination Farming'],
+      [111191, 'Oilseed and Grain Combination Farming', 111199, 'All Other Grain Farming'],
+    ]), 'Sheet1')
+    XLSX.writeFile(workbook, join(sourceDir, 'Census', '2022_to_2017_NAICS.xlsx'))
+
+    const current = { version: '2022', current: true }
+    const edition2017 = { version: '2017', current: false }
+    expect(concordanceEditions('NAICS', [current], sourceDir)).toEqual([edition2017])
+    expect(concordanceEditionCodes('NAICS', edition2017, sourceDir)).toEqual([
+      { code: '111120', title: 'Oilseed (except Soybean) Farming' },
+      { code: '111191', title: 'Oilseed and Grain Combination Farming' },
+      { code: '111199', title: 'All Other Grain Farming' },
+    ])
+    expect(concordanceEditions('NAICS', [current, edition2017], sourceDir)).toEqual([])
+    expect(concordanceEditions('SOC', [{ version: '2018', current: true }], sourceDir)).toEqual([])
+  })
+
+  test('links codes to the entities of their editions', () => {
+    writeFileSync(join(sourceDir, 'UNSPSC', 'UNSPSC.Concordance.v25.v26.tsv'), [
+      'fromCode\ttoCode',
+      '10101501\t10101501',
+      '10101502\t10101503',
+      '10101502\t10101504',
+      '10101599\t10101501',
+    ].join('\n') + '\n')
+    writeFileSync(join(dataDir, 'UNSPSC.Products.v25.tsv'), entityFixture([
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Cats_(v25)', name: 'Cats', code: '10101501' },
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Dogs_(v25)', name: 'Dogs', code: '10101502' },
+    ]))
+    writeFileSync(join(dataDir, 'UNSPSC.Products.tsv'), entityFixture([
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Cats', name: 'Cats', code: '10101501' },
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Small_Dogs', name: 'Small Dogs', code: '10101503' },
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Large_Dogs', name: 'Large Dogs', code: '10101504' },
+    ]))
+
+    const [spec] = findUNSPSCConcordances(sourceDir)
+    expect(spec).toMatchObject({ from: 'v25', to: 'v26', output: 'UNSPSC.Concordance.tsv' })
+
+    const { relationships, report } = buildConcordance(spec, sourceDir, dataDir)
+    expect(relationships.map(r => `${r.fromId} ${r.relationshipType} ${r.toId}`)).toEqual([
+      'Cats_(v25) mergedInto Cats',
+      'Dogs_(v25) splitInto Small_Dogs',
+      'Dogs_(v25) splitInto Large_Dogs',
+    ])
+    expect(relationships[0].properties).toEqual({ fromVersion: 'v25', toVersion: 'v26' })
+    expect(report).toMatchObject({ pairs: 4, relationships: 3, types: { mergedInto: 1, splitInto: 2 }, unresolved: ['v25 10101599'] })
+  })
+
+  test('does not read an edition without versioned files as the current one', () => {
+    writeFileSync(join(sourceDir, 'UNSPSC', 'UNSPSC.Concordance.v24.v26.tsv'), 'fromCode\ttoCode\n10101501\t10101501\n')
+    writeFileSync(join(dataDir, 'UNSPSC.Products.tsv'), entityFixture([
+      { ns: 'unspsc.org.ai', type: 'Commodity', id: 'Cats', name: 'Cats', code: '10101501' },
+    ]))
+
+    const { relationships, report } = buildConcordance(findUNSPSCConcordances(sourceDir)[0], sourceDir, dataDir)
+    expect(relationships).toEqual([])
+    expect(report.unresolved).toEqual(['v24 10101501'])
+  })
+})
@@ -0,0 +1,376 @@
+#!/usr/bin/env bun
+/**
+ * Classification Concordances
+ *
+ * Loads the official concordance tables between editions of a classification
+ * (see vintages.ts) as relationships from each code of the old edition to the
+ * codes of the new edition it maps to:
+ *
+ *   NAICS   2017 -> 2022        Census/2022_to_2017_NAICS.xlsx
+ *   SOC     2010 -> 2018        BLS/soc_2010_to_2018_crosswalk.xlsx
+ *   UNSPSC  version to version  UNSPSC/UNSPSC.Concordance.<from>.<to>.tsv
+ *                               (fromCode and toCode columns)
+ *
+ * The relationship type follows from the shape of the mapping:
+ *
+ *   replacedBy  the old code maps to one new code, which no other old code maps to
+ *   splitInto   the old code maps to several new codes
+ *   mergedInto  the old code maps to one new code, which other old codes map to too
+ *
+ * Codes are resolved against the .data files of their edition, so the editions
+ * involved must be generated first. naics.ts and bls.ts read an old edition from
+ * its own source file (.source/NAICS/NAICS.Industries.2017.tsv) when there is one,
+ * and otherwise take its codes and titles from the concordance table (see
+ * concordanceEditions). Pairs with a code no entity of its edition holds are
+ * skipped and reported.
+ *
+ * Usage:
+ *   bun run .scripts/concordances.ts
+ */
+
+import { join } from 'path'
+import { existsSync, readdirSync } from 'fs'
+import * as XLSX from 'xlsx'
+import {
+  NAMESPACES,
+  parseTSV,
+  parseDataTSV,
+  writeRelationshipTSV,
+  getSourcePath,
+  getDataPath,
+  getRelationshipsPath,
+  ensureOutputDirs,
+  type RelationshipRecord,
+} from './utils'
+import { CURRENT_EDITIONS, versionedFile, type Edition, type VersionedClassification } from './vintages'
+import type { TransformerDescriptor } from './registry'
+
+export type ConcordanceType = 'replacedBy' | 'splitInto' | 'mergedInto'
+
+export interface ConcordanceSpec {
+  classification: VersionedClassification
+  ns: string
+  from: string                              // version of the old edition
+  to: string                                // version of the new edition
+  source: string                            // relative to .source/
+  columns: {                                // headers of the table's columns:
+    from: string                            //   codes of the old edition
+    to: string                              //   codes of the new edition
+    fromTitle?: string                      //   titles of the old edition, when the table has them
+  }
+  entityFiles: string[]                     // .data files of the current edition holding the codes
+  output: string                            // relationship file, shared by the classification's concordances
+}
+
+export interface ConcordancePair {
+  from: string
+  to: string
+}
+
+export interface EditionCode {
+  code: string
+  title: string
+}
+
+export interface ClassifiedPair extends ConcordancePair {
+  relationshipType: ConcordanceType
+}
+
+export interface ConcordanceReport {
+  classification: VersionedClassification
+  from: string
+  to: string
+  pairs: number
+  relationships: number
+  types: Partial<Record<ConcordanceType, number>>
+  unresolved: string[]                      // codes without an entity in their edition, e.g. "2017 111110"
+}
+
+const UNSPSC_CONCORDANCE = /^UNSPSC\.Concordance\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\.tsv$/
+
+export const CONCORDANCES: ConcordanceSpec[] = [
+  {
+    classification: 'NAICS',
+    ns: NAMESPACES.NAICS,
+    from: '2017',
+    to: '2022',
+    source: 'Census/2022_to_2017_NAICS.xlsx',
+    columns: { from: '2017 NAICS Code', to: '2022 NAICS Code', fromTitle: '2017 NAICS Title' },
+    entityFiles: ['NAICS.Industries.tsv'],
+    output: 'NAICS.Concordance.tsv',
+  },
+  {
+    classification: 'SOC',
+    ns: NAMESPACES.BLS,
+    from: '2010',
+    to: '2018',
+    source: 'BLS/soc_2010_to_2018_crosswalk.xlsx',
+    columns: { from: '2010 SOC Code', to: '2018 SOC Code', fromTitle: '2010 SOC Title' },
+    entityFiles: ['BLS.Occupations.tsv'],
+    output: 'SOC.Concordance.tsv',
+  },
+]
+
+/**
+ * The UNSPSC concordances found in a source directory
+ */
+export function findUNSPSCConcordances(sourceDir: string): ConcordanceSpec[] {
+  const dir = join(sourceDir, 'UNSPSC')
+  if (!existsSync(dir)) return []
+
+  return readdirSync(dir).sort().flatMap(file => {
+    const match = file.match(UNSPSC_CONCORDANCE)
+    if (!match) return []
+    return [{
+      classification: 'UNSPSC' as const,
+      ns: NAMESPACES.UNSPSC,
+      from: match[1],
+      to: match[2],
+      source: `UNSPSC/${file}`,
+      columns: { from: 'fromCode', to: 'toCode' },
+      entityFiles: ['UNSPSC.Products.tsv'],
+      output: 'UNSPSC.Concordance.tsv',
+    }]
+  })
+}
+
+function normalizeHeader(header: unknown): string {
+  return String(header).toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Read columns of a concordance table as trimmed strings. Spreadsheets may have
+ * title rows above the header row, which is found by its column names.
+ */
+function readColumns(filePath: string, columns: string[]): string[][] {
+  let rows: unknown[][]
+  if (filePath.endsWith('.tsv')) {
+    rows = parseTSV<Record<string, string>>(filePath).map(row => columns.map(column => row[column]))
+  } else {
+    const workbook = XLSX.readFile(filePath)
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    const data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }) as unknown[][]
+
+    const wanted = columns.map(normalizeHeader)
+    const headerIndex = data.findIndex(row => wanted.every(header => row.map(normalizeHeader).includes(header)))
+    if (headerIndex < 0) {
+      throw new Error(`${filePath}: no header row with ${columns.map(column => `"${column}"`).join(' and ')}`)
+    }
+    const header = data[headerIndex].map(normalizeHeader)
+    const indexes = wanted.map(name => header.indexOf(name))
+    rows = data.slice(headerIndex + 1).map(row => indexes.map(index => row[index]))
+  }
+
+  return rows.map(row => row.map(cell => String(cell ?? '').trim()))
+}
+
+// Footnotes and blank rows have no codes
+const isCode = (cell: string) => /^\S+$/.test(cell)
+
+/**
+ * Read the code pairs of a concordance table
+ */
+export function readConcordance(filePath: string, columns: { from: string; to: string }): ConcordancePair[] {
+  const pairs = new Map<string, ConcordancePair>()
+  for (const [from, to] of readColumns(filePath, [columns.from, columns.to])) {
+    if (!isCode(from) || !isCode(to)) continue
+    pairs.set(`${from}\t${to}`, { from, to })
+  }
+  return [...pairs.values()]
+}
+
+/**
+ * Read the codes and titles of a concordance's old edition. The table lists only
+ * the codes that map across, so for NAICS and SOC these are the detailed codes.
+ */
+export function readEditionCodes(filePath: string, columns: { from: string; fromTitle: string }): EditionCode[] {
+  const codes = new Map<string, EditionCode>()
+  for (const [code, title] of readColumns(filePath, [columns.from, columns.fromTitle])) {
+    if (isCode(code) && title && !codes.has(code)) codes.set(code, { code, title })
+  }
+  return [...codes.values()]
+}
+
+// Concordances of a classification whose table is present and has the old edition's titles
+function titledConcordances(classification: VersionedClassification, sourceDir: string): ConcordanceSpec[] {
+  return CONCORDANCES.filter(spec =>
+    spec.classification === classification && spec.columns.fromTitle && existsSync(join(sourceDir, spec.source))
+  )
+}
+
+/**
+ * The old editions of a classification that have no source file of their own
+ * but a concordance table with their titles
+ */
+export function concordanceEditions(
+  classification: VersionedClassification,
+  editions: Edition[],
+  sourceDir: string = getSourcePath(''),
+): Edition[] {
+  return titledConcordances(classification, sourceDir)
+    .filter(spec => !editions.some(edition => edition.version === spec.from))
+    .map(spec => ({ version: spec.from, current: false }))
+}
+
+/**
+ * The codes and titles of an old edition from its concordance table
+ */
+export function concordanceEditionCodes(
+  classification: VersionedClassification,
+  edition: Edition,
+  sourceDir: string = getSourcePath(''),
+): EditionCode[] {
+  const spec = titledConcordances(classification, sourceDir).find(spec => spec.from === edition.version)
+  if (!spec) return []
+  return readEditionCodes(join(sourceDir, spec.source), { from: spec.columns.from, fromTitle: spec.columns.fromTitle! })
+}
+
+/**
+ * Type each pair by the shape of the mapping around it
+ */
+export function classifyConcordance(pairs: ConcordancePair[]): ClassifiedPair[] {
+  const targets = new Map<string, number>()
+  const sources = new Map<string, number>()
+  for (const pair of pairs) {
+    targets.set(pair.from, (targets.get(pair.from) || 0) + 1)
+    sources.set(pair.to, (sources.get(pair.to) || 0) + 1)
+  }
+
+  return pairs.map(pair => ({
+    ...pair,
+    relationshipType: targets.get(pair.from)! > 1 ? 'splitInto' : sources.get(pair.to)! > 1 ? 'mergedInto' : 'replacedBy',
+  }))
+}
+
+/**
+ * The .data file of an edition: the current edition's is unversioned, any other's
+ * is suffixed with its version
+ */
+function editionFile(spec: ConcordanceSpec, file: string, version: string): string {
+  return versionedFile(file, { version, current: CURRENT_EDITIONS[spec.classification] === version })
+}
+
+/**
+ * Map the codes of one edition to its entities
+ */
+export function loadEditionCodes(
+  dataDir: string,
+  spec: ConcordanceSpec,
+  version: string,
+): Map<string, { type: string; id: string }> {
+  const codes = new Map<string, { type: string; id: string }>()
+
+  for (const file of spec.entityFiles) {
+    const path = join(dataDir, editionFile(spec, file, version))
+    if (!existsSync(path)) continue
+
+    for (const row of parseDataTSV<Record<string, string>>(path)) {
+      if (row.code && row.id && !codes.has(row.code)) codes.set(row.code, { type: row.type, id: row.id })
+    }
+  }
+  return codes
+}
+
+/**
+ * Build the relationships of one concordance
+ */
+export function buildConcordance(
+  spec: ConcordanceSpec,
+  sourceDir: string = getSourcePath(''),
+  dataDir: string = getDataPath(),
+): { relationships: RelationshipRecord[]; report: ConcordanceReport } {
+  const pairs = classifyConcordance(readConcordance(join(sourceDir, spec.source), spec.columns))
+  const fromCodes = loadEditionCodes(dataDir, spec, spec.from)
+  const toCodes = loadEditionCodes(dataDir, spec, spec.to)
+
+  const report: ConcordanceReport = {
+    classification: spec.classification,
+    from: spec.from,
+    to: spec.to,
+    pairs: pairs.length,
+    relationships: 0,
+    types: {},
+    unresolved: [],
+  }
+  const unresolved = new Set<string>()
+  const relationships: RelationshipRecord[] = []
+
+  for (const pair of pairs) {
+    const from = fromCodes.get(pair.from)
+    const to = toCodes.get(pair.to)
+    if (!from) unresolved.add(`${spec.from} ${pair.from}`)
+    if (!to) unresolved.add(`${spec.to} ${pair.to}`)
+    if (!from || !to) continue
+
+    relationships.push({
+      fromNs: spec.ns,
+      fromType: from.type,
+      fromId: from.id,
+      toNs: spec.ns,
+      toType: to.type,
+      toId: to.id,
+      relationshipType: pair.relationshipType,
+      properties: { fromVersion: spec.from, toVersion: spec.to },
+    })
+    report.types[pair.relationshipType] = (report.types[pair.relationshipType] || 0) + 1
+  }
+
+  report.relationships = relationships.length
+  report.unresolved = [...unresolved].sort()
+  return { relationships, report }
+}
+
+export async function transformConcordances(): Promise<void> {
+  console.log('=== Classification Concordances ===')
+  ensureOutputDirs()
+
+  const sourceDir = getSourcePath('')
+  const outputs = new Map<string, RelationshipRecord[]>()
+
+  for (const spec of [...CONCORDANCES, ...findUNSPSCConcordances(sourceDir)]) {
+    const name = `${spec.classification} ${spec.from} -> ${spec.to}`
+    if (!existsSync(join(sourceDir, spec.source))) {
+      console.log(`Skipping ${name} - ${spec.source} not found`)
+      continue
+    }
+    if (spec.from === spec.to) {
+      console.log(`Skipping ${name} - both sides are the same edition`)
+      continue
+    }
+
+    const { relationships, report } = buildConcordance(spec, sourceDir)
+    const types = Object.entries(report.types).map(([type, count]) => `${count} ${type}`).join(', ')
+    console.log(`${name}: ${report.relationships} of ${report.pairs} pairs${types ? ` (${types})` : ''}`)
+    if (report.unresolved.length > 0) {
+      console.log(`  ${report.unresolved.length} codes without an entity, e.g. ${report.unresolved.slice(0, 5).join(', ')}`)
+    }
+    outputs.set(spec.output, [...(outputs.get(spec.output) || []), ...relationships])
+  }
+
+  for (const [output, relationships] of outputs) {
+    writeRelationshipTSV(join(getRelationshipsPath(), output), relationships)
+    console.log(`Wrote ${relationships.length} relationships to ${output}`)
+  }
+
+  console.log('=== Classification Concordances Complete ===\n')
+}
+
+// The concordances found when the descriptor is loaded, with the .data files of both editions
+const SPECS = [...CONCORDANCES, ...findUNSPSCConcordances(getSourcePath(''))]
+
+export const transformer: TransformerDescriptor = {
+  name: 'concordances',
+  description: 'replacedBy, splitInto and mergedInto relationships between NAICS, SOC and UNSPSC editions',
+  run: transformConcordances,
+  group: 'crosswalk',
+  sources: [...CONCORDANCES.map(spec => spec.source), 'UNSPSC'],
+  inputs: [...new Set(SPECS.flatMap(spec =>
+    [spec.from, spec.to].flatMap(version => spec.entityFiles.map(file => editionFile(spec, file, version)))
+  ))],
+  outputs: [...new Set(SPECS.map(spec => `relationships/${spec.output}`))],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  transformConcordances()
+}
@@ -0,0 +1,87 @@
+/**
+ * Domain registry
+ *
+ * Every *.org.ai domain the pipeline writes to or links to, with its roles:
+ *
+ *   canonical    authoritative home of a standard's entities (naics.org.ai)
+ *   superset     merges the entities of one kind across standards (industries.org.ai)
+ *   aggregation  groups entities of many kinds for a sector (business.org.ai)
+ *
+ * A domain may have several roles: healthcare.org.ai is the canonical home of the
+ * healthcare terminologies and also aggregates healthcare entities from elsewhere.
+ * `owned` marks the domains we hold, which verify-domains.ts accepts in MDX
+ * canonical URLs.
+ *
+ * NAMESPACES and TYPE_AGGREGATIONS in utils.ts only accept registered domains, and
+ * check-domains.ts checks them and .ns-types.tsv against this registry.
+ */
+
+export type DomainRole = 'canonical' | 'superset' | 'aggregation'
+
+export interface DomainSpec {
+  roles: readonly DomainRole[]
+  owned: boolean
+}
+
+export const DOMAINS = {
+  // Canonical
+  'standards.org.ai': { roles: ['canonical'], owned: true },
+  'us.org.ai': { roles: ['canonical'], owned: true },
+  'onet.org.ai': { roles: ['canonical'], owned: true },
+  'naics.org.ai': { roles: ['canonical'], owned: true },
+  'napcs.org.ai': { roles: ['canonical'], owned: false },
+  'apqc.org.ai': { roles: ['canonical'], owned: true },
+  'gs1.org.ai': { roles: ['canonical'], owned: true },
+  'un.org.ai': { roles: ['canonical'], owned: true },
+  'iso.org.ai': { roles: ['canonical'], owned: true },
+  'iana.org.ai': { roles: ['canonical'], owned: true },
+  'w3.org.ai': { roles: ['canonical'], owned: true },
+  'schema.org.ai': { roles: ['canonical'], owned: true },
+  'hl7.org.ai': { roles: ['canonical'], owned: false },
+  'x12.org.ai': { roles: ['canonical'], owned: false },
+  'commerce.org.ai': { roles: ['canonical'], owned: false },
+
+  // Canonical for some standards, and aggregating a sector
+  'healthcare.org.ai': { roles: ['canonical', 'aggregation'], owned: false },
+  'finance.org.ai': { roles: ['canonical', 'aggregation'], owned: false },
+  'education.org.ai': { roles: ['canonical', 'aggregation'], owned: false },
+  'edi.org.ai': { roles: ['canonical', 'aggregation'], owned: false },
+
+  // Superset
+  'process.org.ai': { roles: ['superset'], owned: false },
+  'tasks.org.ai': { roles: ['superset'], owned: false },
+  'industries.org.ai': { roles: ['superset'], owned: false },
+  'occupations.org.ai': { roles: ['superset'], owned: false },
+  'skills.org.ai': { roles: ['superset'], owned: false },
+  'products.org.ai': { roles: ['superset'], owned: false },
+  'services.org.ai': { roles: ['superset'], owned: false },
+
+  // Aggregation
+  'business.org.ai': { roles: ['aggregation'], owned: false },
+  'manufacturing.org.ai': { roles: ['aggregation'], owned: false },
+  'retail.org.ai': { roles: ['aggregation'], owned: false },
+  'logistics.org.ai': { roles: ['aggregation'], owned: false },
+  'tech.org.ai': { roles: ['aggregation'], owned: false },
+  'web.org.ai': { roles: ['aggregation'], owned: false },
+} as const satisfies Record<string, DomainSpec>
+
+export type Domain = keyof typeof DOMAINS
+
+export function isDomain(domain: string): domain is Domain {
+  return Object.prototype.hasOwnProperty.call(DOMAINS, domain)
+}
+
+/**
+ * Whether a registered domain has a role; unregistered domains have none
+ */
+export function hasRole(domain: string, role: DomainRole): boolean {
+  return isDomain(domain) && (DOMAINS[domain].roles as readonly DomainRole[]).includes(role)
+}
+
+export function domainsWithRole(role: DomainRole): Domain[] {
+  return (Object.keys(DOMAINS) as Domain[]).filter(domain => hasRole(domain, role))
+}
+
+export function ownedDomains(): Domain[] {
+  return (Object.keys(DOMAINS) as Domain[]).filter(domain => DOMAINS[domain].owned)
+}
@@ -36,6 +36,11 @@ echo "Downloading Military Crosswalk..."
 curl -L -o "military_crosswalk.xlsx" \
   "https://www.bls.gov/emp/tables/military-crosswalk.xlsx" || true
 
+# SOC 2010 to 2018 crosswalk (the SOC 2010 edition and its concordance, see concordances.ts)
+echo "Downloading SOC 2010 to 2018 Crosswalk..."
+curl -L -o "soc_2010_to_2018_crosswalk.xlsx" \
+  "https://www.bls.gov/soc/2018/soc_2010_to_2018_crosswalk.xlsx" || true
+
 # Educational Attainment
 echo ""
 echo "Note: Educational attainment tables require manual download"
@@ -55,6 +60,7 @@ echo ""
 echo "Downloaded:"
 echo "  - OES May 2024 (employment and wage data)"
 echo "  - Military crosswalk (if available)"
+echo "  - SOC 2010 to 2018 crosswalk (if available)"
 echo ""
 echo "Manual download required:"
 echo "  - Educational attainment tables"
@@ -10,6 +10,7 @@ set -e
 
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 SOURCE_DIR="$(dirname "$SCRIPT_DIR")/.source/NAICS"
+CENSUS_DIR="$(dirname "$SCRIPT_DIR")/.source/Census"
 
 echo "Downloading NAICS 2022..."
 echo "Source directory: $SOURCE_DIR"
@@ -28,6 +29,12 @@ echo "Downloading NAICS 2022 Descriptions..."
 curl -L -o "2022_NAICS_Descriptions.xlsx" \
   "https://www.census.gov/naics/2022NAICS/2022_NAICS_Descriptions.xlsx" || true
 
+# 2022 to 2017 concordance (the NAICS 2017 edition and its concordance, see concordances.ts)
+echo "Downloading NAICS 2022 to 2017 Concordance..."
+mkdir -p "$CENSUS_DIR"
+curl -L -o "$CENSUS_DIR/2022_to_2017_NAICS.xlsx" \
+  "https://www.census.gov/naics/concordances/2022_to_2017_NAICS.xlsx" || true
+
 echo ""
 echo "✓ NAICS 2022 downloaded successfully"
 echo ""
@@ -26,6 +26,9 @@ echo ""
 echo "Alternatively, if you have UNSPSC data from another source:"
 echo "- Place UNSPSC.Codes.tsv in: $SOURCE_DIR/"
 echo ""
+echo "UNSPSC.Codes.tsv is read as version v26 (CURRENT_EDITIONS in vintages.ts)."
+echo "Save other versions as UNSPSC.Codes.<version>.tsv, e.g. UNSPSC.Codes.v25.tsv"
+echo ""
 echo "After download, run: bun run generate:unspsc"
 echo ""
 
@@ -5,7 +5,7 @@ import {
   parseTSV,
   parseCSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -14,7 +14,10 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // Use NAMESPACES from utils for e-commerce standards
 const ECLASS_NS = NAMESPACES.ECLASS
@@ -37,13 +40,15 @@ function transformEclass(): void {
   // Transform Segments
   if (existsSync(segmentsFile)) {
     try {
-      interface EclassSegmentRow {
-        code: string
-        name: string
-        description: string
-      }
-
-      const segments = parseTSV<EclassSegmentRow>(segmentsFile)
+      const ECLASS_SEGMENT_SCHEMA = defineSchema({
+        columns: {
+          code: {},
+          name: {},
+          description: {},
+        },
+      })
+
+      const segments = parseTSV(segmentsFile, ECLASS_SEGMENT_SCHEMA)
       console.log(`Processing ${segments.length} eCl@ss segments...`)
 
       // Transform Segments
@@ -73,15 +78,17 @@ function transformEclass(): void {
   // Transform Structure (hierarchy information)
   if (existsSync(structureFile)) {
     try {
-      interface EclassStructureRow {
-        level: string
-        name: string
-        code_format: string
-        description: string
-        example: string
-      }
-
-      const structure = parseTSV<EclassStructureRow>(structureFile)
+      const ECLASS_STRUCTURE_SCHEMA = defineSchema({
+        columns: {
+          level: {},
+          name: {},
+          code_format: { optional: true },
+          description: {},
+          example: { optional: true },
+        },
+      })
+
+      const structure = parseTSV(structureFile, ECLASS_STRUCTURE_SCHEMA)
       console.log(`Processing ${structure.length} eCl@ss structure levels...`)
 
       const structureRecords: StandardRecord[] = structure
@@ -119,13 +126,15 @@ function transformEtim(): void {
   // Transform Groups
   if (existsSync(groupsFile)) {
     try {
-      interface EtimGroupRow {
-        code: string
-        name: string
-        description: string
-      }
-
-      const groups = parseTSV<EtimGroupRow>(groupsFile)
+      const ETIM_GROUP_SCHEMA = defineSchema({
+        columns: {
+          code: {},
+          name: {},
+          description: {},
+        },
+      })
+
+      const groups = parseTSV(groupsFile, ETIM_GROUP_SCHEMA)
       console.log(`Processing ${groups.length} ETIM groups...`)
 
       const groupRecords: StandardRecord[] = groups
@@ -152,15 +161,17 @@ function transformEtim(): void {
   // Transform Classes
   if (existsSync(classesFile)) {
     try {
-      interface EtimClassFileRow {
-        group: string
-        class_code: string
-        class_name: string
-        description: string
-        example_products: string
-      }
-
-      const classes = parseTSV<EtimClassFileRow>(classesFile)
+      const ETIM_CLASS_SCHEMA = defineSchema({
+        columns: {
+          group: {},
+          class_code: {},
+          class_name: {},
+          description: {},
+          example_products: { optional: true },
+        },
+      })
+
+      const classes = parseTSV(classesFile, ETIM_CLASS_SCHEMA)
       console.log(`Processing ${classes.length} ETIM classes...`)
 
       const classRecords: StandardRecord[] = classes
@@ -181,7 +192,7 @@ function transformEtim(): void {
       }
 
       // Write Class-Group relationships
-      const classGroupRels: Record<string, string>[] = classes
+      const classGroupRels: RelationshipRecord[] = classes
         .filter(row => row.class_code && row.group)
         .map(row => ({
           fromNs: ETIM_NS,
@@ -194,11 +205,7 @@ function transformEtim(): void {
         }))
 
       if (classGroupRels.length > 0) {
-        writeTSV(
-          join(REL_DIR, 'Ecommerce.ETIM.Class.Group.tsv'),
-          classGroupRels,
-          ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-        )
+        writeRelationshipTSV(join(REL_DIR, 'Ecommerce.ETIM.Class.Group.tsv'), classGroupRels)
         console.log(`Wrote ${classGroupRels.length} ETIM class-group relationships`)
       }
     } catch (e) {
@@ -222,31 +229,27 @@ function transformSchemaOrg(): void {
   // Transform Types
   if (existsSync(typesFile)) {
     try {
-      interface SchemaTypeFileRow {
-        id: string
-        label: string
-        parent: string
-        comment: string | { '@language': string; '@value': string }
-      }
-
-      const types = parseTSV<SchemaTypeFileRow>(typesFile)
+      const SCHEMA_TYPE_SCHEMA = defineSchema({
+        columns: {
+          id: {},
+          label: {},
+          parent: {},
+          comment: {},
+        },
+      })
+
+      const types = parseTSV(typesFile, SCHEMA_TYPE_SCHEMA)
       console.log(`Processing ${types.length} Schema.org types...`)
 
       const typeRecords: StandardRecord[] = types
         .filter(row => row.id)
         .map(row => {
-          // Handle both string and object formats for comment/label
-          let name = typeof row.label === 'string' ? row.label : (row.label as any)?.['@value'] || row.id.replace('schema:', '')
-          let description = typeof row.comment === 'string'
-            ? row.comment
-            : (row.comment as any)?.['@value'] || ''
-
           return {
             ns: SCHEMA_NS,
             type: 'Type',
             id: row.id.replace('schema:', ''),
-            name: name,
-            description: cleanDescription(description),
+            name: row.label,
+            description: cleanDescription(row.comment),
             code: row.id.replace('schema:', ''),
             includedIn: getAggregationsForType('Type'),
           }
@@ -258,7 +261,7 @@ function transformSchemaOrg(): void {
       }
 
       // Write type hierarchy relationships
-      const typeHierarchyRels: Record<string, string>[] = types
+      const typeHierarchyRels: RelationshipRecord[] = types
         .filter(row => row.parent && row.id)
         .map(row => ({
           fromNs: SCHEMA_NS,
@@ -271,11 +274,7 @@ function transformSchemaOrg(): void {
         }))
 
       if (typeHierarchyRels.length > 0) {
-        writeTSV(
-          join(REL_DIR, 'Ecommerce.SchemaOrg.Type.Type.tsv'),
-          typeHierarchyRels,
-          ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-        )
+        writeRelationshipTSV(join(REL_DIR, 'Ecommerce.SchemaOrg.Type.Type.tsv'), typeHierarchyRels)
         console.log(`Wrote ${typeHierarchyRels.length} Schema.org type hierarchy relationships`)
       }
     } catch (e) {
@@ -286,15 +285,17 @@ function transformSchemaOrg(): void {
   // Transform Properties
   if (existsSync(propertiesFile)) {
     try {
-      interface SchemaPropertyFileRow {
-        id: string
-        label: string
-        domain: string
-        range: string
-        comment: string
-      }
-
-      const properties = parseTSV<SchemaPropertyFileRow>(propertiesFile)
+      const SCHEMA_PROPERTY_SCHEMA = defineSchema({
+        columns: {
+          id: {},
+          label: {},
+          domain: {},
+          range: { optional: true },
+          comment: {},
+        },
+      })
+
+      const properties = parseTSV(propertiesFile, SCHEMA_PROPERTY_SCHEMA)
       console.log(`Processing ${properties.length} Schema.org properties...`)
 
       const propertyRecords: StandardRecord[] = properties
@@ -315,7 +316,7 @@ function transformSchemaOrg(): void {
       }
 
       // Write Type-Property relationships (domain)
-      const typePropRels: Record<string, string>[] = []
+      const typePropRels: RelationshipRecord[] = []
       for (const row of properties) {
         if (row.domain && row.id) {
           const domains = row.domain.split(',').map(d => d.trim().replace('schema:', ''))
@@ -336,11 +337,7 @@ function transformSchemaOrg(): void {
       }
 
       if (typePropRels.length > 0) {
-        writeTSV(
-          join(REL_DIR, 'Ecommerce.SchemaOrg.Type.Property.tsv'),
-          typePropRels,
-          ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-        )
+        writeRelationshipTSV(join(REL_DIR, 'Ecommerce.SchemaOrg.Type.Property.tsv'), typePropRels)
         console.log(`Wrote ${typePropRels.length} Schema.org type-property relationships`)
       }
     } catch (e) {
@@ -351,13 +348,15 @@ function transformSchemaOrg(): void {
   // Transform Enumerations
   if (existsSync(enumerationsFile)) {
     try {
-      interface SchemaEnumerationFileRow {
-        id: string
-        label: string
-        comment: string
-      }
-
-      const enumerations = parseTSV<SchemaEnumerationFileRow>(enumerationsFile)
+      const SCHEMA_ENUMERATION_SCHEMA = defineSchema({
+        columns: {
+          id: {},
+          label: {},
+          comment: {},
+        },
+      })
+
+      const enumerations = parseTSV(enumerationsFile, SCHEMA_ENUMERATION_SCHEMA)
       console.log(`Processing ${enumerations.length} Schema.org enumerations...`)
 
       const enumRecords: StandardRecord[] = enumerations
@@ -383,14 +382,16 @@ function transformSchemaOrg(): void {
   // Transform Enumeration Members
   if (existsSync(enumMembersFile)) {
     try {
-      interface SchemaEnumMemberFileRow {
-        enumeration: string
-        id: string
-        label: string
-        comment: string
-      }
-
-      const members = parseTSV<SchemaEnumMemberFileRow>(enumMembersFile)
+      const SCHEMA_ENUM_MEMBER_SCHEMA = defineSchema({
+        columns: {
+          enumeration: {},
+          id: {},
+          label: {},
+          comment: {},
+        },
+      })
+
+      const members = parseTSV(enumMembersFile, SCHEMA_ENUM_MEMBER_SCHEMA)
       console.log(`Processing ${members.length} Schema.org enumeration members...`)
 
       const memberRecords: StandardRecord[] = members
@@ -410,7 +411,7 @@ function transformSchemaOrg(): void {
       }
 
       // Write Enumeration-Member relationships
-      const enumMemberRels: Record<string, string>[] = members
+      const enumMemberRels: RelationshipRecord[] = members
         .filter(row => row.enumeration && row.id)
         .map(row => ({
           fromNs: SCHEMA_NS,
@@ -423,11 +424,7 @@ function transformSchemaOrg(): void {
         }))
 
       if (enumMemberRels.length > 0) {
-        writeTSV(
-          join(REL_DIR, 'Ecommerce.SchemaOrg.Enumeration.Member.tsv'),
-          enumMemberRels,
-          ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-        )
+        writeRelationshipTSV(join(REL_DIR, 'Ecommerce.SchemaOrg.Enumeration.Member.tsv'), enumMemberRels)
         console.log(`Wrote ${enumMemberRels.length} Schema.org enumeration-member relationships`)
       }
     } catch (e) {
@@ -452,6 +449,27 @@ export async function transformEcommerce(): Promise<void> {
   console.log('=== E-commerce Standards Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'ecommerce',
+  description: 'E-commerce standards (ECLASS, ETIM, Schema.org)',
+  run: transformEcommerce,
+  sources: ['Ecommerce'],
+  outputs: [
+    'Ecommerce.ECLASS.Segments.tsv',
+    'Ecommerce.ECLASS.Structure.tsv',
+    'Ecommerce.ETIM.Groups.tsv',
+    'Ecommerce.ETIM.Classes.tsv',
+    'relationships/Ecommerce.ETIM.Class.Group.tsv',
+    'Ecommerce.SchemaOrg.Types.tsv',
+    'relationships/Ecommerce.SchemaOrg.Type.Type.tsv',
+    'Ecommerce.SchemaOrg.Properties.tsv',
+    'relationships/Ecommerce.SchemaOrg.Type.Property.tsv',
+    'Ecommerce.SchemaOrg.Enumerations.tsv',
+    'Ecommerce.SchemaOrg.EnumerationMembers.tsv',
+    'relationships/Ecommerce.SchemaOrg.Enumeration.Member.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformEcommerce()
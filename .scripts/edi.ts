@@ -15,6 +15,8 @@ import {
   getAggregationsForType,
   type StandardRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // EDI Namespaces - proper namespace mapping
 const NS_X12 = NAMESPACES.X12 // x12.org.ai
@@ -29,81 +31,101 @@ const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
 // X12 Interfaces
-interface X12TransactionSetRow {
-  code: string
-  name: string
-  description: string
-  category: string
-}
-
-interface X12SegmentRow {
-  code: string
-  name: string
-  description: string
-}
-
-interface X12ElementRow {
-  code: string
-  name: string
-  dataType: string
-  minLength: string
-  maxLength: string
-  description: string
-}
+const X12_TRANSACTION_SET_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    category: { optional: true },
+  },
+})
+
+const X12_SEGMENT_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+  },
+})
+
+const X12_ELEMENT_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    dataType: {},
+    minLength: {},
+    maxLength: {},
+    description: {},
+  },
+})
 
 // EANCOM Interfaces
-interface EANCOMMessageRow {
-  code: string
-  name: string
-  description: string
-  category: string
-}
-
-interface EANCOMSegmentRow {
-  code: string
-  name: string
-  description: string
-}
-
-interface EANCOMDataElementRow {
-  code: string
-  name: string
-  dataType: string
-  minLength: string
-  maxLength: string
-  description: string
-}
+const EANCOM_MESSAGE_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    category: { optional: true },
+  },
+})
+
+const EANCOM_SEGMENT_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+  },
+})
+
+const EANCOM_DATA_ELEMENT_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    dataType: {},
+    minLength: {},
+    maxLength: {},
+    description: {},
+  },
+})
 
 // Peppol Interfaces
-interface PeppolDocumentRow {
-  code: string
-  name: string
-  description: string
-  version: string
-}
-
-interface PeppolBusinessProcessRow {
-  code: string
-  name: string
-  description: string
-  profile: string
-}
-
-interface PeppolParticipantSchemeRow {
-  icd: string
-  schemeID: string
-  schemeName: string
-  issuingOrganization: string
-  status: string
-}
-
-interface PeppolCodelistRow {
-  codelistName: string
-  code: string
-  name: string
-  description: string
-  category: string
-}
+const PEPPOL_DOCUMENT_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    version: {},
+  },
+})
+
+const PEPPOL_BUSINESS_PROCESS_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    profile: {},
+  },
+})
+
+const PEPPOL_PARTICIPANT_SCHEME_SCHEMA = defineSchema({
+  columns: {
+    icd: {},
+    schemeID: {},
+    schemeName: {},
+    issuingOrganization: {},
+    status: {},
+  },
+})
+
+const PEPPOL_CODELIST_SCHEMA = defineSchema({
+  columns: {
+    codelistName: {},
+    code: {},
+    name: {},
+    description: {},
+    category: { optional: true },
+  },
+})
 
 // X12 Transformation Functions
 function transformX12TransactionSets(): void {
@@ -115,7 +137,7 @@ function transformX12TransactionSets(): void {
     return
   }
 
-  const data = parseTSV<X12TransactionSetRow>(sourceFile)
+  const data = parseTSV(sourceFile, X12_TRANSACTION_SET_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -142,7 +164,7 @@ function transformX12Segments(): void {
     return
   }
 
-  const data = parseTSV<X12SegmentRow>(sourceFile)
+  const data = parseTSV(sourceFile, X12_SEGMENT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -169,7 +191,7 @@ function transformX12Elements(): void {
     return
   }
 
-  const data = parseTSV<X12ElementRow>(sourceFile)
+  const data = parseTSV(sourceFile, X12_ELEMENT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -197,7 +219,7 @@ function transformEANCOMMessages(): void {
     return
   }
 
-  const data = parseTSV<EANCOMMessageRow>(sourceFile)
+  const data = parseTSV(sourceFile, EANCOM_MESSAGE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -224,7 +246,7 @@ function transformEANCOMSegments(): void {
     return
   }
 
-  const data = parseTSV<EANCOMSegmentRow>(sourceFile)
+  const data = parseTSV(sourceFile, EANCOM_SEGMENT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -251,7 +273,7 @@ function transformEANCOMDataElements(): void {
     return
   }
 
-  const data = parseTSV<EANCOMDataElementRow>(sourceFile)
+  const data = parseTSV(sourceFile, EANCOM_DATA_ELEMENT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -279,7 +301,7 @@ function transformPeppolDocuments(): void {
     return
   }
 
-  const data = parseTSV<PeppolDocumentRow>(sourceFile)
+  const data = parseTSV(sourceFile, PEPPOL_DOCUMENT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -306,7 +328,7 @@ function transformPeppolBusinessProcesses(): void {
     return
   }
 
-  const data = parseTSV<PeppolBusinessProcessRow>(sourceFile)
+  const data = parseTSV(sourceFile, PEPPOL_BUSINESS_PROCESS_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -333,7 +355,7 @@ function transformPeppolParticipantSchemes(): void {
     return
   }
 
-  const data = parseTSV<PeppolParticipantSchemeRow>(sourceFile)
+  const data = parseTSV(sourceFile, PEPPOL_PARTICIPANT_SCHEME_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.icd && row.schemeID)
@@ -360,7 +382,7 @@ function transformPeppolCodelists(): void {
     return
   }
 
-  const data = parseTSV<PeppolCodelistRow>(sourceFile)
+  const data = parseTSV(sourceFile, PEPPOL_CODELIST_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -405,6 +427,25 @@ export async function transformEDI(): Promise<void> {
   console.log('\n=== EDI Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'edi',
+  description: 'EDI standards (X12, EANCOM, Peppol)',
+  run: transformEDI,
+  sources: ['EDI/X12', 'EDI/EANCOM', 'EDI/Peppol'],
+  outputs: [
+    'EDI.X12.TransactionSets.tsv',
+    'EDI.X12.Segments.tsv',
+    'EDI.X12.Elements.tsv',
+    'EDI.EANCOM.Messages.tsv',
+    'EDI.EANCOM.Segments.tsv',
+    'EDI.EANCOM.DataElements.tsv',
+    'EDI.Peppol.Documents.tsv',
+    'EDI.Peppol.BusinessProcesses.tsv',
+    'EDI.Peppol.ParticipantSchemes.tsv',
+    'EDI.Peppol.Codelists.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformEDI()
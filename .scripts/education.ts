@@ -26,6 +26,8 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // Use proper education namespace
 const EDUCATION_NS = NAMESPACES.ISCED // education.org.ai
@@ -34,80 +36,104 @@ const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
 // ISCED Interfaces
-interface ISCEDLevel {
-  code: string
-  name: string
-  description: string
-  ageRange?: string
-  duration?: string
-  orientation?: string
-}
-
-interface ISCEDField {
-  code: string
-  name: string
-  broadField?: string
-  narrowField?: string
-  detailedField?: string
-}
-
-interface ISCEDProgramme {
-  code: string
-  orientation: string
-  description: string
-  applicableLevels?: string
-  emphasis?: string
-}
+const ISCED_LEVEL_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    ageRange: { optional: true },
+    duration: { optional: true },
+    orientation: { optional: true },
+  },
+})
+type ISCEDLevel = SchemaRow<typeof ISCED_LEVEL_SCHEMA>
+
+const ISCED_FIELD_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    broadField: { optional: true },
+    narrowField: { optional: true },
+    detailedField: { optional: true },
+  },
+})
+type ISCEDField = SchemaRow<typeof ISCED_FIELD_SCHEMA>
+
+const ISCED_PROGRAMME_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    orientation: {},
+    description: {},
+    applicableLevels: { optional: true },
+    emphasis: { optional: true },
+  },
+})
+type ISCEDProgramme = SchemaRow<typeof ISCED_PROGRAMME_SCHEMA>
 
 // CEDS Interfaces
-interface CEDSElement {
-  elementId: string
-  name: string
-  definition: string
-  domain: string
-  entity: string
-  dataType: string
-  optionSet: string
-}
-
-interface CEDSOptionSet {
-  optionSetName: string
-  code: string
-  description: string
-  definition: string
-  domain: string
-}
-
-interface CEDSDomain {
-  code: string
-  name: string
-  description: string
-  category: string
-  focus: string
-}
-
-interface CEDSEntity {
-  code: string
-  name: string
-  description: string
-  domain: string
-  superType?: string
-  category?: string
-}
+const CEDS_ELEMENT_SCHEMA = defineSchema({
+  columns: {
+    elementId: {},
+    name: {},
+    definition: {},
+    domain: { optional: true },
+    entity: { optional: true },
+    dataType: { optional: true },
+    optionSet: { optional: true },
+  },
+})
+type CEDSElement = SchemaRow<typeof CEDS_ELEMENT_SCHEMA>
+
+const CEDS_OPTION_SET_SCHEMA = defineSchema({
+  columns: {
+    optionSetName: {},
+    code: {},
+    description: {},
+    definition: {},
+    domain: { optional: true },
+  },
+})
+type CEDSOptionSet = SchemaRow<typeof CEDS_OPTION_SET_SCHEMA>
+
+const CEDS_DOMAIN_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    category: { optional: true },
+    focus: { optional: true },
+  },
+})
+type CEDSDomain = SchemaRow<typeof CEDS_DOMAIN_SCHEMA>
+
+const CEDS_ENTITY_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    domain: { optional: true },
+    superType: { optional: true },
+    category: { optional: true },
+  },
+})
+type CEDSEntity = SchemaRow<typeof CEDS_ENTITY_SCHEMA>
 
 // CASE Interfaces
-interface CASEFramework {
-  code: string
-  name: string
-  description: string
-  creator?: string
-  publisher?: string
-  subject?: string
-  educationLevel?: string
-  jurisdiction?: string
-  language?: string
-  adoptionStatus?: string
-}
+const CASE_FRAMEWORK_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    creator: { optional: true },
+    publisher: { optional: true },
+    subject: { optional: true },
+    educationLevel: { optional: true },
+    jurisdiction: { optional: true },
+    language: { optional: true },
+    adoptionStatus: { optional: true },
+  },
+})
+type CASEFramework = SchemaRow<typeof CASE_FRAMEWORK_SCHEMA>
 
 interface CASEStandard {
   code: string
@@ -164,7 +190,7 @@ function transformISCEDLevels(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'ISCED', 'Levels.tsv')
-  const levels = parseTSV<ISCEDLevel>(sourcePath)
+  const levels = parseTSV(sourcePath, ISCED_LEVEL_SCHEMA)
 
   const levelRecords: StandardRecord[] = levels.map(level => ({
     ns: EDUCATION_NS,
@@ -187,7 +213,7 @@ function transformISCEDFields(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'ISCED', 'Fields.tsv')
-  const fields = parseTSV<ISCEDField>(sourcePath)
+  const fields = parseTSV(sourcePath, ISCED_FIELD_SCHEMA)
 
   const fieldRecords: StandardRecord[] = fields.map(field => {
     // Build description from hierarchical field structure
@@ -224,7 +250,7 @@ function transformISCEDProgrammes(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'ISCED', 'Programmes.tsv')
-  const programmes = parseTSV<ISCEDProgramme>(sourcePath)
+  const programmes = parseTSV(sourcePath, ISCED_PROGRAMME_SCHEMA)
 
   const programmeRecords: StandardRecord[] = programmes.map(programme => ({
     ns: EDUCATION_NS,
@@ -247,7 +273,7 @@ function transformCEDSElements(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CEDS', 'Elements.tsv')
-  const elements = parseTSV<CEDSElement>(sourcePath)
+  const elements = parseTSV(sourcePath, CEDS_ELEMENT_SCHEMA)
 
   const elementRecords: StandardRecord[] = elements.map(element => ({
     ns: EDUCATION_NS,
@@ -270,7 +296,7 @@ function transformCEDSDomains(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CEDS', 'Domains.tsv')
-  const domains = parseTSV<CEDSDomain>(sourcePath)
+  const domains = parseTSV(sourcePath, CEDS_DOMAIN_SCHEMA)
 
   const domainRecords: StandardRecord[] = domains.map(domain => ({
     ns: EDUCATION_NS,
@@ -293,7 +319,7 @@ function transformCEDSEntities(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CEDS', 'Entities.tsv')
-  const entities = parseTSV<CEDSEntity>(sourcePath)
+  const entities = parseTSV(sourcePath, CEDS_ENTITY_SCHEMA)
 
   const entityRecords: StandardRecord[] = entities.map(entity => ({
     ns: EDUCATION_NS,
@@ -316,7 +342,7 @@ function transformCEDSOptionSets(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CEDS', 'OptionSets.tsv')
-  const optionSets = parseTSV<CEDSOptionSet>(sourcePath)
+  const optionSets = parseTSV(sourcePath, CEDS_OPTION_SET_SCHEMA)
 
   // Group by option set name to create unique option sets
   const uniqueOptionSets = new Map<string, CEDSOptionSet>()
@@ -348,7 +374,7 @@ function transformCASEFrameworks(): void {
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CASE', 'Frameworks.tsv')
-  const frameworks = parseTSV<CASEFramework>(sourcePath)
+  const frameworks = parseTSV(sourcePath, CASE_FRAMEWORK_SCHEMA)
 
   const frameworkRecords: StandardRecord[] = frameworks.map(framework => ({
     ns: EDUCATION_NS,
@@ -370,17 +396,20 @@ function transformCASECompetencyTypes(): void {
   console.log('Transforming CASE Competency Types...')
 
   // Define interface for competency type
-  interface CASECompetencyType {
-    code: string
-    name: string
-    description: string
-    usage: string
-    examples: string
-  }
+  const CASE_COMPETENCY_TYPE_SCHEMA = defineSchema({
+    columns: {
+      code: {},
+      name: {},
+      description: {},
+      usage: { optional: true },
+      examples: { optional: true },
+    },
+  })
+  type CASECompetencyType = SchemaRow<typeof CASE_COMPETENCY_TYPE_SCHEMA>
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CASE', 'CompetencyTypes.tsv')
-  const competencyTypes = parseTSV<CASECompetencyType>(sourcePath)
+  const competencyTypes = parseTSV(sourcePath, CASE_COMPETENCY_TYPE_SCHEMA)
 
   const competencyTypeRecords: StandardRecord[] = competencyTypes.map(type => ({
     ns: EDUCATION_NS,
@@ -401,18 +430,21 @@ function transformCASEAssociationTypes(): void {
   console.log('Transforming CASE Association Types...')
 
   // Define interface for association type
-  interface CASEAssociationType {
-    code: string
-    name: string
-    description: string
-    direction: string
-    usage: string
-    examples: string
-  }
+  const CASE_ASSOCIATION_TYPE_SCHEMA = defineSchema({
+    columns: {
+      code: {},
+      name: {},
+      description: {},
+      direction: { optional: true },
+      usage: { optional: true },
+      examples: { optional: true },
+    },
+  })
+  type CASEAssociationType = SchemaRow<typeof CASE_ASSOCIATION_TYPE_SCHEMA>
 
   // Read from source TSV file
   const sourcePath = join(SOURCE_DIR, 'CASE', 'AssociationTypes.tsv')
-  const associationTypes = parseTSV<CASEAssociationType>(sourcePath)
+  const associationTypes = parseTSV(sourcePath, CASE_ASSOCIATION_TYPE_SCHEMA)
 
   const associationTypeRecords: StandardRecord[] = associationTypes.map(type => ({
     ns: EDUCATION_NS,
@@ -452,6 +484,25 @@ export async function transformEducation(): Promise<void> {
   console.log('\n=== Education Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'education',
+  description: 'Education standards (ISCED, CEDS, CASE)',
+  run: transformEducation,
+  sources: ['Education'],
+  outputs: [
+    'Education.ISCED.Levels.tsv',
+    'Education.ISCED.Fields.tsv',
+    'Education.ISCED.Programmes.tsv',
+    'Education.CEDS.Elements.tsv',
+    'Education.CEDS.Domains.tsv',
+    'Education.CEDS.Entities.tsv',
+    'Education.CEDS.OptionSets.tsv',
+    'Education.CASE.Frameworks.tsv',
+    'Education.CASE.CompetencyTypes.tsv',
+    'Education.CASE.AssociationTypes.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformEducation().catch(console.error)
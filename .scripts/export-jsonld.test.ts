@@ -0,0 +1,120 @@
+/**
+ * Unit tests for export-jsonld.ts
+ * Run with: bun test .scripts/export-jsonld.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { exportJsonLd, buildContext, buildNode, formatReport } from './export-jsonld'
+import { VOCAB_BASE } from './relationship-types'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+let relDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'export-jsonld-'))
+  relDir = join(dataDir, 'relationships')
+  mkdirSync(relDir)
+
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Growing soybeans', code: '111110', includedIn: 'business.org.ai|manufacturing.org.ai' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', code: '11111' },
+  ]))
+  writeFileSync(join(dataDir, 'Industries.Industries.tsv'), entityFixture([
+    { ns: 'industries.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', code: '111110', sameAs: 'https://naics.org.ai/Industry/Soybean_Farming' },
+    { ns: 'unknown.org.ai', type: 'Thing', id: 'A', name: 'A' },
+  ]))
+  writeFileSync(join(relDir, 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(relDir, 'Industries.NAICS.tsv'), relationshipFixture([
+    { fromNs: 'industries.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Soybean_Farming', relationshipType: 'sameAs' },
+    { fromNs: 'industries.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'classifiedAs' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('buildContext', () => {
+  test('maps the standard columns and the relationship types to terms', () => {
+    const context = buildContext('naics.org.ai', ['childOf', 'sameAs'])
+    expect(context['@vocab']).toBe('https://naics.org.ai/')
+    expect(context.name).toBe('schema:name')
+    expect(context.code).toBe('skos:notation')
+    expect(context.includedIn).toEqual({ '@id': 'skos:inScheme', '@type': '@id' })
+    expect(context.childOf).toEqual({ '@id': 'skos:broader', '@type': '@id' })
+    expect(context.sameAs).toEqual({ '@id': 'schema:sameAs', '@type': '@id' })
+  })
+})
+
+describe('buildNode', () => {
+  test('uses the entity IRI and merges links with a field of the same name', () => {
+    const node = buildNode(
+      { ns: 'industries.org.ai', type: 'Industry', id: 'A', name: 'A', description: '', code: '', sameAs: 'https://naics.org.ai/Industry/A', includedIn: '' },
+      new Map([['sameAs', ['https://naics.org.ai/Industry/B']]])
+    )
+    expect(node).toEqual({
+      '@id': 'https://industries.org.ai/Industry/A',
+      '@type': 'Industry',
+      name: 'A',
+      sameAs: ['https://naics.org.ai/Industry/A', 'https://naics.org.ai/Industry/B'],
+    })
+  })
+})
+
+describe('exportJsonLd', () => {
+  test('writes one document per type with the context inline', async () => {
+    const reports = await exportJsonLd(dataDir)
+    expect(reports.map(r => [r.ns, r.types, r.links])).toEqual([
+      ['industries.org.ai', { Industry: 1 }, 2],
+      ['naics.org.ai', { Industry: 2 }, 1],
+    ])
+
+    const document = JSON.parse(readFileSync(join(dataDir, 'jsonld', 'naics.org.ai', 'Industry.jsonld'), 'utf-8'))
+    expect(document['@context']).toEqual(buildContext('naics.org.ai', ['childOf']))
+    expect(document['@graph']).toEqual([
+      {
+        '@id': 'https://naics.org.ai/Industry/Soybean_Farming',
+        '@type': 'Industry',
+        name: 'Soybean Farming',
+        description: 'Growing soybeans',
+        code: '111110',
+        includedIn: ['https://business.org.ai', 'https://manufacturing.org.ai'],
+        childOf: ['https://naics.org.ai/Industry/Oilseed_Farming'],
+      },
+      { '@id': 'https://naics.org.ai/Industry/Oilseed_Farming', '@type': 'Industry', name: 'Oilseed Farming', code: '11111' },
+    ])
+
+    // Every property is a keyword or a term the context defines
+    const context = JSON.parse(readFileSync(join(dataDir, 'jsonld', 'industries.org.ai', 'context.jsonld'), 'utf-8'))['@context']
+    const graph = JSON.parse(readFileSync(join(dataDir, 'jsonld', 'industries.org.ai', 'Industry.jsonld'), 'utf-8'))['@graph']
+    for (const node of graph) {
+      for (const key of Object.keys(node)) {
+        expect(key.startsWith('@') || key in context).toBe(true)
+      }
+    }
+    expect(context.classifiedAs).toEqual({ '@id': `${VOCAB_BASE}classifiedAs`, '@type': '@id' })
+
+    expect(existsSync(join(dataDir, 'jsonld', 'unknown.org.ai'))).toBe(false)
+    expect(formatReport(reports)).toContain('Exported 2 namespaces')
+  })
+
+  test('writes NDJSON referring to the namespace context', async () => {
+    await exportJsonLd(dataDir, 'ndjson')
+
+    const lines = readFileSync(join(dataDir, 'jsonld', 'naics.org.ai', 'Industry.ndjson'), 'utf-8').trim().split('\n')
+    expect(lines.map(line => JSON.parse(line)['@id'])).toEqual([
+      'https://naics.org.ai/Industry/Soybean_Farming',
+      'https://naics.org.ai/Industry/Oilseed_Farming',
+    ])
+    expect(JSON.parse(lines[0])['@context']).toBe('context.jsonld')
+    expect(existsSync(join(dataDir, 'jsonld', 'naics.org.ai', 'context.jsonld'))).toBe(true)
+    expect(existsSync(join(dataDir, 'jsonld', 'naics.org.ai', 'Industry.jsonld'))).toBe(false)
+  })
+})
@@ -0,0 +1,274 @@
+#!/usr/bin/env bun
+/**
+ * JSON-LD Export
+ *
+ * Writes the .data entities of every namespace in NAMESPACES as linked data, to
+ * .data/jsonld/<ns>/. Each namespace gets a generated context.jsonld mapping the
+ * standard columns to schema.org and SKOS terms:
+ *
+ *   name         schema:name
+ *   description  schema:description
+ *   code         skos:notation
+ *   sameAs       schema:sameAs (IRI)
+ *   includedIn   skos:inScheme (IRIs of the aggregation domains)
+ *   version      schema:version (edition of a versioned classification)
+ *
+ * Entity types expand against the namespace (Industry -> https://naics.org.ai/Industry)
+ * and nodes use the buildId IRIs. Outgoing relationships are embedded as typed links
+ * named after their relationship type, mapped to the schema.org, SKOS, OWL or RDFS
+ * predicate registered in relationship-types.ts (see relationshipPredicate).
+ * Relationship properties (importance ratings, crosswalk flags) are not embedded;
+ * they stay in the TSV and Parquet exports.
+ *
+ * Two layouts are available:
+ *
+ *   document (default)  one <Type>.jsonld per type, with the context inline and the
+ *                       entities in @graph
+ *   ndjson              one <Type>.ndjson per type, one node per line, referring to
+ *                       the context.jsonld next to it
+ *
+ * Usage:
+ *   bun run .scripts/export-jsonld.ts [--ndjson]
+ */
+
+import { rmSync, mkdirSync, writeFileSync, createWriteStream, type WriteStream } from 'fs'
+import { once } from 'events'
+import { join } from 'path'
+import { streamDataTSV, streamEntities, listDataFiles, entityKey, getDataPath, buildId, NAMESPACES } from './utils'
+import { relationshipPredicate, PREDICATE_PREFIXES } from './relationship-types'
+import { GRAPH_INDEXES } from './graph-integration'
+import type { TransformerDescriptor } from './registry'
+
+export type JsonLdLayout = 'document' | 'ndjson'
+
+export const JSONLD_DIR = 'jsonld'
+export const CONTEXT_FILE = 'context.jsonld'
+
+// Terms for the standard columns; a relationship type with the same name shares the term
+const FIELD_TERMS: Record<string, string | { '@id': string; '@type': '@id' }> = {
+  name: 'schema:name',
+  description: 'schema:description',
+  code: 'skos:notation',
+  sameAs: { '@id': 'schema:sameAs', '@type': '@id' },
+  includedIn: { '@id': 'skos:inScheme', '@type': '@id' },
+  version: 'schema:version',
+}
+
+export type JsonLdContext = Record<string, unknown>
+export type JsonLdNode = Record<string, unknown>
+
+export interface JsonLdExportReport {
+  ns: string
+  types: Record<string, number>         // type -> entities written
+  links: number
+}
+
+/**
+ * Build the context for a namespace, with a term for each relationship type its
+ * entities link with
+ */
+export function buildContext(ns: string, relationshipTypes: Iterable<string> = []): JsonLdContext {
+  const context: JsonLdContext = {
+    '@version': 1.1,
+    '@vocab': `https://${ns}/`,
+    ...PREDICATE_PREFIXES,
+    ...FIELD_TERMS,
+  }
+  for (const type of [...relationshipTypes].sort()) {
+    if (type in FIELD_TERMS) continue
+    context[type] = { '@id': relationshipPredicate(type), '@type': '@id' }
+  }
+  return context
+}
+
+/**
+ * Build the node for an entity row and its outgoing links (relationship type -> IRIs)
+ */
+export function buildNode(record: Record<string, string>, links?: Map<string, string[]>): JsonLdNode {
+  const node: JsonLdNode = {
+    '@id': buildId(record.ns, record.type, record.id),
+    '@type': record.type,
+  }
+  for (const field of ['name', 'description', 'code', 'sameAs', 'version']) {
+    if (record[field]) node[field] = record[field]
+  }
+  if (record.includedIn) {
+    node.includedIn = record.includedIn.split('|').filter(Boolean).map(domain => `https://${domain}`)
+  }
+
+  for (const [type, targets] of links || []) {
+    const existing = node[type]
+    node[type] = existing === undefined ? targets : [...[existing].flat(), ...targets]
+  }
+  return node
+}
+
+/**
+ * Index the outgoing relationships of every entity in the exported namespaces,
+ * keyed by entity, as relationship type -> target IRIs
+ */
+async function indexLinks(dataDir: string, namespaces: Set<string>): Promise<Map<string, Map<string, string[]>>> {
+  const links = new Map<string, Map<string, string[]>>()
+  const relDir = join(dataDir, 'relationships')
+
+  for (const file of listDataFiles(relDir)) {
+    for await (const r of streamDataTSV(join(relDir, file))) {
+      if (!namespaces.has(r.fromNs) || !r.relationshipType) continue
+
+      const key = entityKey(r.fromNs, r.fromType, r.fromId)
+      let byType = links.get(key)
+      if (!byType) {
+        byType = new Map()
+        links.set(key, byType)
+      }
+      const target = buildId(r.toNs, r.toType, r.toId)
+      const targets = byType.get(r.relationshipType)
+      if (!targets) {
+        byType.set(r.relationshipType, [target])
+      } else if (!targets.includes(target)) {
+        targets.push(target)
+      }
+    }
+  }
+
+  return links
+}
+
+/**
+ * Incremental writer for the entities of one type
+ */
+function createNodeWriter(filePath: string, layout: JsonLdLayout, context: JsonLdContext) {
+  const stream: WriteStream = createWriteStream(filePath, { encoding: 'utf-8' })
+  let failure: Error | undefined
+  stream.on('error', e => { failure = e })
+  let count = 0
+
+  if (layout === 'document') {
+    const inline = JSON.stringify(context, null, 2).replace(/\n/g, '\n  ')
+    stream.write(`{\n  "@context": ${inline},\n  "@graph": [`)
+  }
+
+  return {
+    get count() {
+      return count
+    },
+
+    async write(node: JsonLdNode) {
+      if (failure) throw failure
+      const chunk = layout === 'document'
+        ? `${count > 0 ? ',' : ''}\n    ${JSON.stringify(node)}`
+        : `${JSON.stringify({ '@context': CONTEXT_FILE, ...node })}\n`
+      count++
+      if (!stream.write(chunk)) {
+        await once(stream, 'drain')
+      }
+    },
+
+    async close() {
+      if (failure) throw failure
+      if (layout === 'document') {
+        stream.write('\n  ]\n}\n')
+      }
+      stream.end()
+      await once(stream, 'finish')
+    },
+  }
+}
+
+/**
+ * Export the entities of every namespace in NAMESPACES, replacing the previous output
+ */
+export async function exportJsonLd(dataDir: string = getDataPath(), layout: JsonLdLayout = 'document'): Promise<JsonLdExportReport[]> {
+  const outputDir = join(dataDir, JSONLD_DIR)
+  rmSync(outputDir, { recursive: true, force: true })
+
+  const namespaces = new Set<string>(Object.values(NAMESPACES))
+  const links = await indexLinks(dataDir, namespaces)
+
+  // Each namespace's context has terms for the relationship types its entities use
+  const relationshipTypes = new Map<string, Set<string>>()
+  for (const [key, byType] of links) {
+    const ns = key.slice(0, key.indexOf('\t'))
+    if (!relationshipTypes.has(ns)) relationshipTypes.set(ns, new Set())
+    for (const type of byType.keys()) relationshipTypes.get(ns)!.add(type)
+  }
+  const contexts = new Map<string, JsonLdContext>()
+  const contextFor = (ns: string) => {
+    let context = contexts.get(ns)
+    if (!context) {
+      context = buildContext(ns, relationshipTypes.get(ns))
+      contexts.set(ns, context)
+      mkdirSync(join(outputDir, ns), { recursive: true })
+      writeFileSync(join(outputDir, ns, CONTEXT_FILE), JSON.stringify({ '@context': context }, null, 2) + '\n')
+    }
+    return context
+  }
+
+  const writers = new Map<string, ReturnType<typeof createNodeWriter>>()
+  const reports = new Map<string, JsonLdExportReport>()
+
+  for await (const { record } of streamEntities(dataDir)) {
+    if (!namespaces.has(record.ns)) continue
+
+    const writerKey = `${record.ns}\t${record.type}`
+    let writer = writers.get(writerKey)
+    if (!writer) {
+      const context = contextFor(record.ns)
+      const extension = layout === 'document' ? 'jsonld' : 'ndjson'
+      writer = createNodeWriter(join(outputDir, record.ns, `${record.type}.${extension}`), layout, context)
+      writers.set(writerKey, writer)
+    }
+
+    const entityLinks = links.get(entityKey(record.ns, record.type, record.id))
+    await writer.write(buildNode(record, entityLinks))
+
+    let report = reports.get(record.ns)
+    if (!report) {
+      report = { ns: record.ns, types: {}, links: 0 }
+      reports.set(record.ns, report)
+    }
+    report.types[record.type] = (report.types[record.type] || 0) + 1
+    for (const targets of entityLinks?.values() || []) report.links += targets.length
+  }
+
+  for (const writer of writers.values()) {
+    await writer.close()
+  }
+
+  return [...reports.values()].sort((a, b) => a.ns.localeCompare(b.ns))
+}
+
+/**
+ * Format reports for the console
+ */
+export function formatReport(reports: JsonLdExportReport[]): string {
+  const lines = reports.map(report => {
+    const types = Object.keys(report.types).length
+    const entities = Object.values(report.types).reduce((sum, n) => sum + n, 0)
+    return `${report.ns}: ${entities} entities of ${types} types, ${report.links} links`
+  })
+  lines.push(`Exported ${reports.length} namespaces to .data/${JSONLD_DIR}`)
+  return lines.join('\n')
+}
+
+export async function transformJsonLdExport(): Promise<void> {
+  console.log('=== JSON-LD Export ===')
+  console.log(formatReport(await exportJsonLd()))
+  console.log('=== JSON-LD Export Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'jsonld',
+  description: 'JSON-LD documents with a generated @context per namespace (optional, runs only when named)',
+  run: transformJsonLdExport,
+  aliases: ['export-jsonld'],
+  optional: true,
+  inputs: ['*', ...GRAPH_INDEXES],
+  outputs: [JSONLD_DIR],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const layout: JsonLdLayout = process.argv.includes('--ndjson') ? 'ndjson' : 'document'
+  console.log(formatReport(await exportJsonLd(getDataPath(), layout)))
+}
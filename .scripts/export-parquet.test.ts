@@ -0,0 +1,109 @@
+/**
+ * Unit tests for export-parquet.ts
+ * Run with: bun test .scripts/export-parquet.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { exportParquet, indexSourceFolders, resolveSourceFolder, formatReport } from './export-parquet'
+import { readParquet } from './parquet'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let rootDir: string
+let dataDir: string
+let relDir: string
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'export-parquet-'))
+  dataDir = join(rootDir, '.data')
+  relDir = join(dataDir, 'relationships')
+  mkdirSync(relDir, { recursive: true })
+  for (const dir of ['NAICS', 'ONET', 'US/Census', 'W3C/CSS', 'unspsc']) {
+    mkdirSync(join(rootDir, dir), { recursive: true })
+  }
+
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', code: '111110' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', description: 'Growing oilseeds', code: '11111' },
+  ]))
+  writeFileSync(join(dataDir, 'ONET.Skills.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Skill', id: 'Reading_Comprehension', name: 'Reading Comprehension', code: '2.A.1.a', category: 'Basic' },
+  ]))
+  writeFileSync(join(dataDir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Chief_Executives', name: 'Chief Executives', code: '11-1011.00' },
+  ]))
+  writeFileSync(join(relDir, 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(relDir, 'ONET.Occupation.Skill.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Chief_Executives', toNs: 'onet.org.ai', toType: 'Skill', toId: 'Reading_Comprehension', relationshipType: 'requiresSkill', importance: '3.75' },
+  ]))
+  writeFileSync(join(relDir, 'ONET.Occupation.Technology.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Chief_Executives', toNs: 'onet.org.ai', toType: 'Technology', toId: 'Excel', relationshipType: 'uses', hotTechnology: 'true', inDemand: 'false' },
+  ]))
+  writeFileSync(join(relDir, 'SOC.CIP.tsv'), relationshipFixture([
+    { fromNs: 'soc.org.ai', fromType: 'Occupation', fromId: '11-1011', toNs: 'cip.org.ai', toType: 'Program', toId: '52.0201', relationshipType: 'relatedTo' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(rootDir, { recursive: true, force: true })
+})
+
+describe('resolveSourceFolder', () => {
+  test('matches the deepest folder named by the file, ignoring case', () => {
+    const folders = indexSourceFolders(rootDir)
+    expect(resolveSourceFolder('NAICS.Industries.tsv', folders)).toBe('NAICS')
+    expect(resolveSourceFolder('W3C.CSS.Properties.tsv', folders)).toBe(join('W3C', 'CSS'))
+    expect(resolveSourceFolder('W3C.HTML.Elements.tsv', folders)).toBe('W3C')
+    expect(resolveSourceFolder('Census.States.tsv', folders)).toBe(join('US', 'Census'))
+    expect(resolveSourceFolder('UNSPSC.Hierarchy.tsv', folders)).toBe('unspsc')
+    expect(resolveSourceFolder('SOC.CIP.tsv', folders)).toBeUndefined()
+  })
+})
+
+describe('exportParquet', () => {
+  test('writes typed things and relationships per source folder', async () => {
+    const result = await exportParquet(dataDir, rootDir)
+    expect(result.skipped).toEqual([join('relationships', 'SOC.CIP.tsv')])
+    expect(result.reports.map(r => [r.folder, r.things, r.relationships])).toEqual([
+      ['NAICS', 2, 1],
+      ['ONET', 2, 2],
+    ])
+
+    const things = readParquet(join(rootDir, 'ONET', 'things.parquet'))
+    expect(things.columns.map(c => c.name)).toEqual(['ns', 'type', 'id', 'name', 'description', 'code', 'sameAs', 'includedIn', 'version', 'category'])
+    expect(things.columns.slice(0, 3).every(c => !c.optional)).toBe(true)
+    expect(things.rows).toEqual([
+      { ns: 'onet.org.ai', type: 'Occupation', id: 'Chief_Executives', name: 'Chief Executives', description: null, code: '11-1011.00', sameAs: null, includedIn: null, version: null, category: null },
+      { ns: 'onet.org.ai', type: 'Skill', id: 'Reading_Comprehension', name: 'Reading Comprehension', description: null, code: '2.A.1.a', sameAs: null, includedIn: null, version: null, category: 'Basic' },
+    ])
+    expect(things.metadata.sources).toBe('ONET.Occupations.tsv,ONET.Skills.tsv')
+
+    const relationships = readParquet(join(rootDir, 'ONET', 'relationships.parquet'))
+    expect(relationships.columns.slice(7)).toEqual([
+      { name: 'importance', type: 'number', optional: true },
+      { name: 'hotTechnology', type: 'boolean', optional: true },
+      { name: 'inDemand', type: 'boolean', optional: true },
+    ])
+    expect(relationships.rows.map(r => [r.relationshipType, r.importance, r.hotTechnology, r.inDemand])).toEqual([
+      ['requiresSkill', 3.75, null, null],
+      ['uses', null, true, false],
+    ])
+
+    expect(existsSync(join(rootDir, 'NAICS', 'relationships.parquet'))).toBe(true)
+    expect(existsSync(join(rootDir, 'unspsc', 'things.parquet'))).toBe(false)
+    expect(formatReport(result)).toContain('Skipped 1 files that name no source folder')
+  })
+
+  test('rejects invalid property values without leaving a partial file', async () => {
+    writeFileSync(join(relDir, 'ONET.Occupation.Skill.tsv'), relationshipFixture([
+      { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Chief_Executives', toNs: 'onet.org.ai', toType: 'Skill', toId: 'Reading_Comprehension', relationshipType: 'requiresSkill', importance: 'high' },
+    ]))
+
+    await expect(exportParquet(dataDir, rootDir)).rejects.toThrow('invalid number "high" in property importance of row 1')
+    expect(existsSync(join(rootDir, 'ONET', 'relationships.parquet'))).toBe(false)
+  })
+})
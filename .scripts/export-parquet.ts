@@ -0,0 +1,282 @@
+#!/usr/bin/env bun
+/**
+ * Parquet Export
+ *
+ * Writes things.parquet and relationships.parquet into each source folder from the
+ * .data entity and relationship TSVs. A file belongs to the deepest folder named by
+ * the leading segments of its name, ignoring case, either at the top level or one
+ * level below it:
+ *
+ *   NAICS.Industries.tsv                       -> NAICS/
+ *   W3C.CSS.Properties.tsv                     -> W3C/CSS/
+ *   Census.States.tsv                          -> US/Census/
+ *   relationships/UNSPSC.Hierarchy.tsv         -> unspsc/
+ *
+ * Files that name no folder (relationships/SOC.CIP.tsv) are reported and skipped.
+ *
+ * Columns are typed: ns, type and the relationship endpoint columns use dictionary
+ * encoding, empty optional values become nulls, and the property columns declared in
+ * relationship-schemas.ts keep their number, integer and boolean types. Columns only
+ * some files have are optional. This is an optional stage; run it after generating.
+ *
+ * Usage:
+ *   bun run .scripts/export-parquet.ts
+ */
+
+import { readdirSync, statSync, rmSync } from 'fs'
+import { join, relative } from 'path'
+import { streamDataTSV, listDataFiles, getDataPath, STANDARD_HEADERS, RELATIONSHIP_HEADERS } from './utils'
+import { getRelationshipProperties, isValidPropertyText } from './relationship-schemas'
+import { createParquetWriter, type ParquetColumn, type ParquetValue } from './parquet'
+import type { TransformerDescriptor } from './registry'
+
+export const THINGS_FILE = 'things.parquet'
+export const RELATIONSHIPS_FILE = 'relationships.parquet'
+
+const REQUIRED_THING_COLUMNS = ['ns', 'type', 'id']
+const DICTIONARY_COLUMNS = ['ns', 'type', 'fromNs', 'fromType', 'toNs', 'toType', 'relationshipType']
+
+// Top-level directories that never hold exported data
+const IGNORED_DIRS = new Set(['node_modules'])
+
+export interface ParquetExportReport {
+  folder: string                        // relative to the root directory
+  things: number
+  relationships: number
+  files: string[]                       // .data files included, relative to .data
+}
+
+/**
+ * Index the folders a .data file can be exported to, keyed by their dotted lower
+ * case name. Second-level folders are also keyed by their own name unless two
+ * groups share it.
+ */
+export function indexSourceFolders(rootDir: string): Map<string, string> {
+  const index = new Map<string, string>()
+  const byName = new Map<string, string | null>()
+
+  const subdirs = (dir: string) => readdirSync(dir)
+    .filter(name => !name.startsWith('.') && !IGNORED_DIRS.has(name) && statSync(join(dir, name)).isDirectory())
+    .sort()
+
+  for (const top of subdirs(rootDir)) {
+    index.set(top.toLowerCase(), top)
+    for (const sub of subdirs(join(rootDir, top))) {
+      const path = join(top, sub)
+      index.set(`${top}.${sub}`.toLowerCase(), path)
+      const key = sub.toLowerCase()
+      byName.set(key, byName.has(key) ? null : path)
+    }
+  }
+
+  for (const [key, path] of byName) {
+    if (path && !index.has(key)) index.set(key, path)
+  }
+  return index
+}
+
+/**
+ * Find the folder a .data file belongs to, or undefined if its name matches none
+ */
+export function resolveSourceFolder(file: string, folders: Map<string, string>): string | undefined {
+  const segments = file.replace(/\.tsv$/, '').toLowerCase().split('.')
+  for (let length = segments.length - 1; length > 0; length--) {
+    const folder = folders.get(segments.slice(0, length).join('.'))
+    if (folder) return folder
+  }
+  return undefined
+}
+
+async function readHeaders(filePath: string): Promise<string[]> {
+  for await (const record of streamDataTSV(filePath)) {
+    return Object.keys(record)
+  }
+  return []
+}
+
+/**
+ * Build the columns for a set of files: the standard columns, then the columns only
+ * some files have, in order of appearance
+ */
+async function buildColumns(filePaths: string[], standard: string[], required: string[]): Promise<ParquetColumn[]> {
+  const columns = new Map<string, ParquetColumn>()
+  for (const name of standard) {
+    columns.set(name, {
+      name,
+      type: 'string',
+      ...(required.includes(name) ? {} : { optional: true }),
+      ...(DICTIONARY_COLUMNS.includes(name) ? { dictionary: true } : {}),
+    })
+  }
+
+  for (const filePath of filePaths) {
+    const declared = getRelationshipProperties(filePath)
+    for (const name of await readHeaders(filePath)) {
+      const type = declared[name]?.type || 'string'
+      const existing = columns.get(name)
+      if (!existing) {
+        columns.set(name, { name, type, optional: true })
+      } else if (existing.type !== type && !standard.includes(name)) {
+        throw new Error(`${filePath}: column ${name} is ${type} here but ${existing.type} in another file of the folder`)
+      }
+    }
+  }
+
+  return [...columns.values()]
+}
+
+function toValue(text: string | undefined, column: ParquetColumn): ParquetValue {
+  if (text === undefined || text === '') return null
+  switch (column.type) {
+    case 'number':
+    case 'integer':
+      return Number(text)
+    case 'boolean':
+      return text === 'true'
+    default:
+      return text
+  }
+}
+
+/**
+ * Write one Parquet file from a set of TSVs, returning the number of rows
+ */
+async function writeParquetFile(
+  outputPath: string,
+  filePaths: string[],
+  standard: string[],
+  required: string[],
+  dataDir: string
+): Promise<number> {
+  const columns = await buildColumns(filePaths, standard, required)
+  const writer = createParquetWriter(outputPath, columns, {
+    metadata: { sources: filePaths.map(f => relative(dataDir, f)).join(',') },
+  })
+
+  try {
+    for (const filePath of filePaths) {
+      const declared = getRelationshipProperties(filePath)
+      let rowNumber = 0
+      for await (const record of streamDataTSV(filePath)) {
+        rowNumber++
+        const row: Record<string, ParquetValue> = {}
+        for (const column of columns) {
+          const text = record[column.name]
+          const spec = declared[column.name]
+          if (spec && text !== undefined && !isValidPropertyText(text, spec)) {
+            throw new Error(`${filePath}: invalid ${spec.type} ${JSON.stringify(text)} in property ${column.name} of row ${rowNumber}`)
+          }
+          row[column.name] = toValue(text, column)
+        }
+        try {
+          await writer.write(row)
+        } catch (e) {
+          throw new Error(`${filePath}: ${(e as Error).message}`)
+        }
+      }
+    }
+  } catch (e) {
+    // Leave no partial file behind
+    await writer.close()
+    rmSync(outputPath, { force: true })
+    throw e
+  }
+
+  await writer.close()
+  return writer.count
+}
+
+/**
+ * Export every .data entity and relationship file to its source folder
+ */
+export async function exportParquet(dataDir: string = getDataPath(), rootDir: string = process.cwd()): Promise<{ reports: ParquetExportReport[]; skipped: string[] }> {
+  const folders = indexSourceFolders(rootDir)
+  const groups = new Map<string, { things: string[]; relationships: string[] }>()
+  const skipped: string[] = []
+
+  const assign = (file: string, kind: 'things' | 'relationships', filePath: string) => {
+    const folder = resolveSourceFolder(file, folders)
+    if (!folder) {
+      skipped.push(relative(dataDir, filePath))
+      return
+    }
+    if (!groups.has(folder)) groups.set(folder, { things: [], relationships: [] })
+    groups.get(folder)![kind].push(filePath)
+  }
+
+  for (const file of listDataFiles(dataDir)) {
+    assign(file, 'things', join(dataDir, file))
+  }
+  const relDir = join(dataDir, 'relationships')
+  for (const file of listDataFiles(relDir)) {
+    assign(file, 'relationships', join(relDir, file))
+  }
+
+  const reports: ParquetExportReport[] = []
+  for (const folder of [...groups.keys()].sort()) {
+    const { things, relationships } = groups.get(folder)!
+    const report: ParquetExportReport = {
+      folder,
+      things: 0,
+      relationships: 0,
+      files: [...things, ...relationships].map(f => relative(dataDir, f)),
+    }
+
+    // Replace the previous export, so a folder that lost its files has no stale output
+    for (const [kind, files, standard, required, output] of [
+      ['things', things, STANDARD_HEADERS, REQUIRED_THING_COLUMNS, THINGS_FILE],
+      ['relationships', relationships, RELATIONSHIP_HEADERS, RELATIONSHIP_HEADERS, RELATIONSHIPS_FILE],
+    ] as const) {
+      const outputPath = join(rootDir, folder, output)
+      rmSync(outputPath, { force: true })
+      if (files.length > 0) {
+        report[kind] = await writeParquetFile(outputPath, [...files], standard, required, dataDir)
+      }
+    }
+
+    reports.push(report)
+  }
+
+  return { reports, skipped }
+}
+
+/**
+ * Format the export results for the console
+ */
+export function formatReport({ reports, skipped }: { reports: ParquetExportReport[]; skipped: string[] }): string {
+  const lines: string[] = []
+
+  for (const report of reports) {
+    lines.push(`${report.folder}: ${report.things} things, ${report.relationships} relationships from ${report.files.length} files`)
+  }
+  if (skipped.length > 0) {
+    lines.push('')
+    lines.push(`Skipped ${skipped.length} files that name no source folder:`)
+    for (const file of skipped) {
+      lines.push(`  ${file}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+export async function transformParquetExport(): Promise<void> {
+  console.log('=== Parquet Export ===')
+  console.log(formatReport(await exportParquet()))
+  console.log('=== Parquet Export Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'parquet',
+  description: 'things.parquet and relationships.parquet per source folder (optional, runs only when named)',
+  run: transformParquetExport,
+  aliases: ['export-parquet'],
+  optional: true,
+  // Writes into the source folders rather than .data, so it has no declared outputs and always runs
+  inputs: ['*'],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  console.log(formatReport(await exportParquet()))
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for export-rdf.ts
+ * Run with: bun test .scripts/export-rdf.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { exportRdf, entityTriples, relationshipTriple, formatReport } from './export-rdf'
+import { parseNTriples, parseTurtle, RDF_TYPE } from './rdf'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'export-rdf-'))
+  mkdirSync(join(dataDir, 'relationships'))
+
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Growing "soybeans"', code: '111110', includedIn: 'business.org.ai' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', code: '11111' },
+  ]))
+  writeFileSync(join(dataDir, 'Industries.Industries.tsv'), entityFixture([
+    { ns: 'industries.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', code: '111110', sameAs: 'https://naics.org.ai/Industry/Soybean_Farming' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'industries.org.ai', toType: 'Industry', toId: 'Soybean_Farming', relationshipType: 'classifiedAs' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('entityTriples', () => {
+  test('describes an entity with type, label, notation and sameAs', () => {
+    const triples = entityTriples({
+      ns: 'industries.org.ai', type: 'Industry', id: 'A', name: 'A', description: '', code: '1',
+      sameAs: 'https://naics.org.ai/Industry/A', includedIn: '',
+    })
+    expect(triples.map(t => [t.predicate, t.object])).toEqual([
+      [RDF_TYPE, { iri: 'https://industries.org.ai/Industry' }],
+      ['http://www.w3.org/2000/01/rdf-schema#label', { literal: 'A' }],
+      ['http://www.w3.org/2004/02/skos/core#notation', { literal: '1' }],
+      ['http://www.w3.org/2002/07/owl#sameAs', { iri: 'https://naics.org.ai/Industry/A' }],
+    ])
+  })
+})
+
+describe('relationshipTriple', () => {
+  test('maps the relationship type to its predicate', () => {
+    const record = {
+      fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'A',
+      toNs: 'naics.org.ai', toType: 'Industry', toId: 'B', relationshipType: 'childOf',
+    }
+    expect(relationshipTriple(record)).toEqual({
+      subject: 'https://naics.org.ai/Industry/A',
+      predicate: 'http://www.w3.org/2004/02/skos/core#broader',
+      object: { iri: 'https://naics.org.ai/Industry/B' },
+    })
+    expect(relationshipTriple({ ...record, relationshipType: 'classifiedAs' }).predicate).toBe('https://standards.org.ai/vocab/classifiedAs')
+  })
+})
+
+describe('exportRdf', () => {
+  test('writes N-Triples for the graph and Turtle per namespace', async () => {
+    const reports = await exportRdf(dataDir)
+    expect(reports).toEqual([
+      { ns: 'industries.org.ai', entities: 1, relationships: 0, triples: 4 },
+      { ns: 'naics.org.ai', entities: 2, relationships: 2, triples: 10 },
+    ])
+
+    const nTriples = parseNTriples(readFileSync(join(dataDir, 'rdf', 'standards.nt'), 'utf-8'))
+    expect(nTriples).toHaveLength(14)
+
+    // The namespace's Turtle holds the same triples as its share of the N-Triples
+    const turtle = parseTurtle(readFileSync(join(dataDir, 'rdf', 'naics.org.ai.ttl'), 'utf-8'))
+    const fromNaics = nTriples.filter(t => t.subject.startsWith('https://naics.org.ai/'))
+    expect(turtle).toEqual(fromNaics)
+    expect(turtle).toContainEqual({
+      subject: 'https://naics.org.ai/Industry/Soybean_Farming',
+      predicate: 'http://www.w3.org/2000/01/rdf-schema#comment',
+      object: { literal: 'Growing "soybeans"' },
+    })
+    expect(readFileSync(join(dataDir, 'rdf', 'naics.org.ai.ttl'), 'utf-8')).toContain('<Industry/Soybean_Farming> a <Industry> ;')
+
+    expect(formatReport(reports)).toContain('Exported 14 triples in 2 namespaces')
+  })
+})
@@ -0,0 +1,204 @@
+#!/usr/bin/env bun
+/**
+ * RDF Export
+ *
+ * Writes the whole standards graph as RDF to .data/rdf/:
+ *
+ *   standards.nt   every triple, as N-Triples
+ *   <ns>.ttl       the triples about each namespace's resources, as Turtle with
+ *                  the namespace as @base and the vocabularies as prefixes
+ *
+ * Every entity row becomes the resource https://{ns}/{type}/{id} (buildId) with
+ * rdf:type https://{ns}/{type}, rdfs:label (name), rdfs:comment (description),
+ * skos:notation (code), owl:sameAs, skos:inScheme (includedIn domains) and
+ * schema:version (the edition of a versioned classification). Every
+ * relationship row becomes one triple, using the predicate relationshipPredicate
+ * maps its type to. An entity written by several files is exported once.
+ *
+ * The output is parsed back once written, and the export fails if any file does
+ * not parse or holds a different number of triples than were written.
+ *
+ * Usage:
+ *   bun run .scripts/export-rdf.ts
+ */
+
+import { rmSync, readFileSync, createReadStream } from 'fs'
+import { createInterface } from 'readline'
+import { join } from 'path'
+import { streamDataTSV, streamEntities, listDataFiles, getDataPath, buildId, type TSVWriter } from './utils'
+import { relationshipPredicate, PREDICATE_PREFIXES, VOCAB_BASE } from './relationship-types'
+import { GRAPH_INDEXES } from './graph-integration'
+import {
+  createNTriplesWriter,
+  createTurtleWriter,
+  expandPrefixedName,
+  parseNTriples,
+  parseTurtle,
+  RDF_PREFIXES,
+  RDF_TYPE,
+  type Triple,
+} from './rdf'
+import type { TransformerDescriptor } from './registry'
+
+export const RDF_DIR = 'rdf'
+export const NTRIPLES_FILE = 'standards.nt'
+
+export const TURTLE_PREFIXES: Record<string, string> = {
+  ...RDF_PREFIXES,
+  ...PREDICATE_PREFIXES,
+  vocab: VOCAB_BASE,
+}
+
+const RDFS_LABEL = `${RDF_PREFIXES.rdfs}label`
+const RDFS_COMMENT = `${RDF_PREFIXES.rdfs}comment`
+const SKOS_NOTATION = `${RDF_PREFIXES.skos}notation`
+const SKOS_IN_SCHEME = `${RDF_PREFIXES.skos}inScheme`
+const OWL_SAME_AS = `${RDF_PREFIXES.owl}sameAs`
+const SCHEMA_VERSION = `${RDF_PREFIXES.schema}version`
+
+export interface RdfExportReport {
+  ns: string
+  entities: number
+  relationships: number
+  triples: number
+}
+
+/**
+ * The triples describing an entity row
+ */
+export function entityTriples(record: Record<string, string>): Triple[] {
+  const subject = buildId(record.ns, record.type, record.id)
+  const triples: Triple[] = [{ subject, predicate: RDF_TYPE, object: { iri: `https://${record.ns}/${record.type}` } }]
+
+  if (record.name) triples.push({ subject, predicate: RDFS_LABEL, object: { literal: record.name } })
+  if (record.description) triples.push({ subject, predicate: RDFS_COMMENT, object: { literal: record.description } })
+  if (record.code) triples.push({ subject, predicate: SKOS_NOTATION, object: { literal: record.code } })
+  if (record.sameAs) triples.push({ subject, predicate: OWL_SAME_AS, object: { iri: record.sameAs } })
+  for (const domain of (record.includedIn || '').split('|').filter(Boolean)) {
+    triples.push({ subject, predicate: SKOS_IN_SCHEME, object: { iri: `https://${domain}` } })
+  }
+  if (record.version) triples.push({ subject, predicate: SCHEMA_VERSION, object: { literal: record.version } })
+
+  return triples
+}
+
+/**
+ * The triple for a relationship row
+ */
+export function relationshipTriple(record: Record<string, string>): Triple {
+  return {
+    subject: buildId(record.fromNs, record.fromType, record.fromId),
+    predicate: expandPrefixedName(relationshipPredicate(record.relationshipType), TURTLE_PREFIXES),
+    object: { iri: buildId(record.toNs, record.toType, record.toId) },
+  }
+}
+
+async function countNTriples(filePath: string): Promise<number> {
+  let count = 0
+  let line = 0
+  for await (const text of createInterface({ input: createReadStream(filePath, { encoding: 'utf-8' }), crlfDelay: Infinity })) {
+    line++
+    count += parseNTriples(text, `${filePath} line ${line}`).length
+  }
+  return count
+}
+
+/**
+ * Parse the written files back and check they hold what was written
+ */
+async function validate(outputDir: string, written: Map<string, number>): Promise<void> {
+  for (const [file, expected] of written) {
+    const filePath = join(outputDir, file)
+    const parsed = file.endsWith('.nt')
+      ? await countNTriples(filePath)
+      : parseTurtle(readFileSync(filePath, 'utf-8'), filePath).length
+    if (parsed !== expected) {
+      throw new Error(`${filePath}: parsed ${parsed} triples, wrote ${expected}`)
+    }
+  }
+}
+
+/**
+ * Export every entity and relationship file, replacing the previous output
+ */
+export async function exportRdf(dataDir: string = getDataPath()): Promise<RdfExportReport[]> {
+  const outputDir = join(dataDir, RDF_DIR)
+  rmSync(outputDir, { recursive: true, force: true })
+
+  const nTriples = createNTriplesWriter(join(outputDir, NTRIPLES_FILE))
+  const turtle = new Map<string, TSVWriter<Triple>>()
+  const reports = new Map<string, RdfExportReport>()
+
+  const reportFor = (ns: string) => {
+    let report = reports.get(ns)
+    if (!report) {
+      report = { ns, entities: 0, relationships: 0, triples: 0 }
+      reports.set(ns, report)
+      turtle.set(ns, createTurtleWriter(join(outputDir, `${ns}.ttl`), { base: `https://${ns}/`, prefixes: TURTLE_PREFIXES }))
+    }
+    return report
+  }
+  const write = async (ns: string, triple: Triple) => {
+    await nTriples.write(triple)
+    await turtle.get(ns)!.write(triple)
+    reportFor(ns).triples++
+  }
+
+  for await (const { record } of streamEntities(dataDir)) {
+    reportFor(record.ns).entities++
+    for (const triple of entityTriples(record)) {
+      await write(record.ns, triple)
+    }
+  }
+
+  const relDir = join(dataDir, 'relationships')
+  for (const file of listDataFiles(relDir)) {
+    for await (const record of streamDataTSV(join(relDir, file))) {
+      if (!record.fromNs || !record.relationshipType) continue
+
+      reportFor(record.fromNs).relationships++
+      await write(record.fromNs, relationshipTriple(record))
+    }
+  }
+
+  await nTriples.close()
+  const written = new Map<string, number>([[NTRIPLES_FILE, nTriples.count]])
+  for (const [ns, writer] of turtle) {
+    await writer.close()
+    written.set(`${ns}.ttl`, writer.count)
+  }
+  await validate(outputDir, written)
+
+  return [...reports.values()].sort((a, b) => a.ns.localeCompare(b.ns))
+}
+
+/**
+ * Format reports for the console
+ */
+export function formatReport(reports: RdfExportReport[]): string {
+  const lines = reports.map(r => `${r.ns}: ${r.triples} triples (${r.entities} entities, ${r.relationships} relationships)`)
+  const total = reports.reduce((sum, r) => sum + r.triples, 0)
+  lines.push(`Exported ${total} triples in ${reports.length} namespaces to .data/${RDF_DIR}`)
+  return lines.join('\n')
+}
+
+export async function transformRdfExport(): Promise<void> {
+  console.log('=== RDF Export ===')
+  console.log(formatReport(await exportRdf()))
+  console.log('=== RDF Export Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'rdf',
+  description: 'N-Triples of the whole graph and Turtle per namespace (optional, runs only when named)',
+  run: transformRdfExport,
+  aliases: ['export-rdf'],
+  optional: true,
+  inputs: ['*', ...GRAPH_INDEXES],
+  outputs: [RDF_DIR],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  console.log(formatReport(await exportRdf()))
+}
@@ -5,7 +5,7 @@ import {
   parseTSV,
   parseCSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -16,6 +16,8 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // Define namespaces for finance standards
 const ISO20022_NS = NAMESPACES.ISO20022
@@ -32,27 +34,33 @@ const REL_DIR = getRelationshipsPath()
 // ISO 20022 - Financial Services Messages
 // ============================================================================
 
-interface ISO20022BusinessAreaRow {
-  Code: string
-  Name: string
-  Description: string
-}
-
-interface ISO20022MessageDefinitionRow {
-  MessageID: string
-  BusinessArea: string
-  Name: string
-  Description: string
-  Usage: string
-}
-
-interface ISO20022DataTypeRow {
-  DataType: string
-  Category: string
-  Description: string
-  Format: string
-  Example: string
-}
+const ISO20022_BUSINESS_AREA_SCHEMA = defineSchema({
+  columns: {
+    Code: {},
+    Name: {},
+    Description: {},
+  },
+})
+
+const ISO20022_MESSAGE_DEFINITION_SCHEMA = defineSchema({
+  columns: {
+    MessageID: {},
+    BusinessArea: {},
+    Name: {},
+    Description: {},
+    Usage: { optional: true },
+  },
+})
+
+const ISO20022_DATA_TYPE_SCHEMA = defineSchema({
+  columns: {
+    DataType: {},
+    Category: { optional: true },
+    Description: {},
+    Format: { optional: true },
+    Example: { optional: true },
+  },
+})
 
 function transformISO20022(): void {
   console.log('Transforming ISO 20022...')
@@ -60,7 +68,7 @@ function transformISO20022(): void {
   // Transform Business Areas
   const businessAreasFile = join(SOURCE_DIR, 'ISO20022', 'BusinessAreas.tsv')
   if (existsSync(businessAreasFile)) {
-    const businessAreas = parseTSV<ISO20022BusinessAreaRow>(businessAreasFile)
+    const businessAreas = parseTSV(businessAreasFile, ISO20022_BUSINESS_AREA_SCHEMA)
     const businessAreaRecords: StandardRecord[] = businessAreas.map(ba => ({
       ns: ISO20022_NS,
       type: 'ISO20022.BusinessArea',
@@ -77,7 +85,7 @@ function transformISO20022(): void {
   // Transform Message Definitions
   const messageDefsFile = join(SOURCE_DIR, 'ISO20022', 'MessageDefinitions.tsv')
   if (existsSync(messageDefsFile)) {
-    const messageDefs = parseTSV<ISO20022MessageDefinitionRow>(messageDefsFile)
+    const messageDefs = parseTSV(messageDefsFile, ISO20022_MESSAGE_DEFINITION_SCHEMA)
     const messageDefRecords: StandardRecord[] = messageDefs.map(md => ({
       ns: ISO20022_NS,
       type: 'ISO20022.Message',
@@ -91,7 +99,7 @@ function transformISO20022(): void {
     console.log(`  - Processed ${messageDefRecords.length} messages`)
 
     // Create relationships: Message -> BusinessArea
-    const businessAreas = parseTSV<ISO20022BusinessAreaRow>(businessAreasFile)
+    const businessAreas = parseTSV(businessAreasFile, ISO20022_BUSINESS_AREA_SCHEMA)
     const messageBusinessAreaRels: RelationshipRecord[] = messageDefs
       .filter(md => md.BusinessArea)
       .map(md => {
@@ -112,11 +120,7 @@ function transformISO20022(): void {
       .filter((rel): rel is RelationshipRecord => rel !== null)
 
     if (messageBusinessAreaRels.length > 0) {
-      writeTSV(
-        join(REL_DIR, 'Finance.ISO20022.Message.BusinessArea.tsv'),
-        messageBusinessAreaRels as unknown as Record<string, string>[],
-        ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-      )
+      writeRelationshipTSV(join(REL_DIR, 'Finance.ISO20022.Message.BusinessArea.tsv'), messageBusinessAreaRels)
       console.log(`  - Created ${messageBusinessAreaRels.length} message-business area relationships`)
     }
   }
@@ -124,7 +128,7 @@ function transformISO20022(): void {
   // Transform Data Types
   const dataTypesFile = join(SOURCE_DIR, 'ISO20022', 'DataTypes.tsv')
   if (existsSync(dataTypesFile)) {
-    const dataTypes = parseTSV<ISO20022DataTypeRow>(dataTypesFile)
+    const dataTypes = parseTSV(dataTypesFile, ISO20022_DATA_TYPE_SCHEMA)
     const dataTypeRecords: StandardRecord[] = dataTypes.map(dt => ({
       ns: ISO20022_NS,
       type: 'ISO20022.DataType',
@@ -143,25 +147,29 @@ function transformISO20022(): void {
 // LEI - Legal Entity Identifier
 // ============================================================================
 
-interface LEIRegistrationAuthorityRow {
-  'Registration Authority Code': string
-  Country: string
-  'Country Code': string
-  'Jurisdiction (country or region)': string
-  'International name of Register': string
-  'Local name of Register': string
-  'International name of organisation responsible for the Register': string
-  'Local name of organisation responsible for the Register': string
-  Website: string
-  Comments: string
-}
-
-interface LEIEntityTypeRow {
-  Code: string
-  Name: string
-  Description: string
-  Standard: string
-}
+const LEI_REGISTRATION_AUTHORITY_SCHEMA = defineSchema({
+  columns: {
+    'Registration Authority Code': {},
+    Country: {},
+    'Country Code': { optional: true },
+    'Jurisdiction (country or region)': {},
+    'International name of Register': {},
+    'Local name of Register': { optional: true },
+    'International name of organisation responsible for the Register': {},
+    'Local name of organisation responsible for the Register': { optional: true },
+    Website: { optional: true },
+    Comments: {},
+  },
+})
+
+const LEI_ENTITY_TYPE_SCHEMA = defineSchema({
+  columns: {
+    Code: {},
+    Name: {},
+    Description: {},
+    Standard: { optional: true },
+  },
+})
 
 function transformLEI(): void {
   console.log('Transforming LEI...')
@@ -169,18 +177,12 @@ function transformLEI(): void {
   // Transform Registration Authorities
   const registrationAuthoritiesFile = join(SOURCE_DIR, 'LEI', 'RegistrationAuthorities.tsv')
   if (existsSync(registrationAuthoritiesFile)) {
-    const authorities = parseTSV<Record<string, string>>(registrationAuthoritiesFile)
+    // The GLEIF file has BOM and quote noise around its first header, which the schema normalizes
+    const authorities = parseTSV(registrationAuthoritiesFile, LEI_REGISTRATION_AUTHORITY_SCHEMA)
     const authorityRecords: StandardRecord[] = authorities
       .map(auth => {
-        // Handle the field with potential BOM and quotes - try multiple variations
-        const code = auth['Registration Authority Code'] ||
-                     auth['﻿"Registration Authority Code"'] ||
-                     auth['"﻿""Registration Authority Code"""'] ||
-                     Object.keys(auth).find(k => k.includes('Registration Authority Code')) &&
-                     auth[Object.keys(auth).find(k => k.includes('Registration Authority Code'))!] ||
-                     ''
-
-        if (!code || !code.trim()) return null
+        const code = auth['Registration Authority Code']
+        if (!code.trim()) return null
 
         const name = auth['International name of Register'] ||
                      auth['International name of organisation responsible for the Register'] ||
@@ -209,7 +211,7 @@ function transformLEI(): void {
   // Transform Entity Types
   const entityTypesFile = join(SOURCE_DIR, 'LEI', 'EntityTypes.tsv')
   if (existsSync(entityTypesFile)) {
-    const entityTypes = parseTSV<LEIEntityTypeRow>(entityTypesFile)
+    const entityTypes = parseTSV(entityTypesFile, LEI_ENTITY_TYPE_SCHEMA)
     const entityTypeRecords: StandardRecord[] = entityTypes
       .filter(et => et.Name && et.Name.trim())
       .map(et => ({
@@ -230,13 +232,15 @@ function transformLEI(): void {
 // ISIN - International Securities Identification Number
 // ============================================================================
 
-interface ISINIssuingAgencyRow {
-  CountryCode: string
-  Country: string
-  Agency: string
-  Type: string
-  Website: string
-}
+const ISIN_ISSUING_AGENCY_SCHEMA = defineSchema({
+  columns: {
+    CountryCode: {},
+    Country: {},
+    Agency: {},
+    Type: {},
+    Website: { optional: true },
+  },
+})
 
 function transformISIN(): void {
   console.log('Transforming ISIN...')
@@ -244,7 +248,7 @@ function transformISIN(): void {
   // Transform Issuing Agencies
   const agenciesFile = join(SOURCE_DIR, 'ISIN', 'IssuingAgencies.tsv')
   if (existsSync(agenciesFile)) {
-    const agencies = parseTSV<ISINIssuingAgencyRow>(agenciesFile)
+    const agencies = parseTSV(agenciesFile, ISIN_ISSUING_AGENCY_SCHEMA)
     const agencyRecords: StandardRecord[] = agencies
       .filter(agency => agency.Agency && agency.Agency.trim())
       .map(agency => ({
@@ -265,21 +269,25 @@ function transformISIN(): void {
 // MCC - Merchant Category Codes
 // ============================================================================
 
-interface MCCCategoryRow {
-  RangeStart: string
-  RangeEnd: string
-  Category: string
-  Description: string
-}
-
-interface MCCCodeRow {
-  MCC: string
-  Description: string
-  CombinedDescription: string
-  USDADescription: string
-  IRSDescription: string
-  IRSReportable: string
-}
+const MCC_CATEGORY_SCHEMA = defineSchema({
+  columns: {
+    RangeStart: {},
+    RangeEnd: {},
+    Category: {},
+    Description: {},
+  },
+})
+
+const MCC_CODE_SCHEMA = defineSchema({
+  columns: {
+    MCC: {},
+    Description: {},
+    CombinedDescription: {},
+    USDADescription: { optional: true },
+    IRSDescription: { optional: true },
+    IRSReportable: { optional: true },
+  },
+})
 
 function transformMCC(): void {
   console.log('Transforming MCC...')
@@ -287,7 +295,7 @@ function transformMCC(): void {
   // Transform Categories
   const categoriesFile = join(SOURCE_DIR, 'MCC', 'Categories.tsv')
   if (existsSync(categoriesFile)) {
-    const categories = parseTSV<MCCCategoryRow>(categoriesFile)
+    const categories = parseTSV(categoriesFile, MCC_CATEGORY_SCHEMA)
     const categoryRecords: StandardRecord[] = categories
       .filter(cat => cat.Category && cat.Category.trim())
       .map(cat => ({
@@ -306,7 +314,7 @@ function transformMCC(): void {
   // Transform Codes
   const codesFile = join(SOURCE_DIR, 'MCC', 'Codes.tsv')
   if (existsSync(codesFile)) {
-    const codes = parseTSV<MCCCodeRow>(codesFile)
+    const codes = parseTSV(codesFile, MCC_CODE_SCHEMA)
     const codeRecords: StandardRecord[] = codes
       .filter(code => code.MCC && code.MCC.trim())
       .map(code => ({
@@ -322,7 +330,7 @@ function transformMCC(): void {
     console.log(`  - Processed ${codeRecords.length} codes`)
 
     // Create relationships: Code -> Category
-    const categories = parseTSV<MCCCategoryRow>(categoriesFile)
+    const categories = parseTSV(categoriesFile, MCC_CATEGORY_SCHEMA)
     const codeCategoryRels: RelationshipRecord[] = []
 
     for (const code of codes) {
@@ -351,11 +359,7 @@ function transformMCC(): void {
     }
 
     if (codeCategoryRels.length > 0) {
-      writeTSV(
-        join(REL_DIR, 'Finance.MCC.Code.Category.tsv'),
-        codeCategoryRels as unknown as Record<string, string>[],
-        ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-      )
+      writeRelationshipTSV(join(REL_DIR, 'Finance.MCC.Code.Category.tsv'), codeCategoryRels)
       console.log(`  - Created ${codeCategoryRels.length} code-category relationships`)
     }
   }
@@ -365,20 +369,24 @@ function transformMCC(): void {
 // SWIFT - BIC/SWIFT Codes
 // ============================================================================
 
-interface SWIFTStructureRow {
-  Position: string
-  Length: string
-  Component: string
-  Type: string
-  Description: string
-  Example: string
-}
-
-interface SWIFTCountryCodeRow {
-  Code: string
-  Country: string
-  Region: string
-}
+const SWIFT_STRUCTURE_SCHEMA = defineSchema({
+  columns: {
+    Position: {},
+    Length: {},
+    Component: {},
+    Type: {},
+    Description: {},
+    Example: { optional: true },
+  },
+})
+
+const SWIFT_COUNTRY_CODE_SCHEMA = defineSchema({
+  columns: {
+    Code: {},
+    Country: {},
+    Region: {},
+  },
+})
 
 function transformSWIFT(): void {
   console.log('Transforming SWIFT...')
@@ -386,7 +394,7 @@ function transformSWIFT(): void {
   // Transform Country Codes
   const countryCodesFile = join(SOURCE_DIR, 'SWIFT', 'CountryCodes.tsv')
   if (existsSync(countryCodesFile)) {
-    const countryCodes = parseTSV<SWIFTCountryCodeRow>(countryCodesFile)
+    const countryCodes = parseTSV(countryCodesFile, SWIFT_COUNTRY_CODE_SCHEMA)
     const countryCodeRecords: StandardRecord[] = countryCodes
       .filter(cc => cc.Code && cc.Code.trim())
       .map(cc => ({
@@ -405,7 +413,7 @@ function transformSWIFT(): void {
   // Transform Structure (BIC/SWIFT code structure)
   const structureFile = join(SOURCE_DIR, 'SWIFT', 'Structure.tsv')
   if (existsSync(structureFile)) {
-    const structure = parseTSV<SWIFTStructureRow>(structureFile)
+    const structure = parseTSV(structureFile, SWIFT_STRUCTURE_SCHEMA)
     const structureRecords: StandardRecord[] = structure
       .filter(s => s.Component && s.Component.trim())
       .map(s => ({
@@ -435,7 +443,7 @@ function transformMCCNAICSRelationships(): void {
     return
   }
 
-  const categories = parseTSV<MCCCategoryRow>(categoriesFile)
+  const categories = parseTSV(categoriesFile, MCC_CATEGORY_SCHEMA)
 
   // Define mapping from MCC categories to NAICS industries/sectors
   // Maps MCC category ID (Wikipedia-style) to NAICS ID and relationship description
@@ -446,88 +454,88 @@ function transformMCCNAICSRelationships(): void {
     relationshipType: string
   }> = [
     // Agricultural Services (0001-1499) -> Agriculture, Forestry, Fishing and Hunting (11)
-    { mccCategoryId: 'Agricultural_Services', naicsId: 'Agriculture,_Forestry,_Fishing_and_Hunting', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Agricultural_Services', naicsId: 'Agriculture,_Forestry,_Fishing_and_Hunting', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Contracted Services (1500-2999) -> Construction (23)
-    { mccCategoryId: 'Contracted_Services', naicsId: 'Construction', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Contracted_Services', naicsId: 'Construction', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Airlines (3000-3299) -> Air Transportation (481)
-    { mccCategoryId: 'Airlines', naicsId: 'Air_Transportation', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Airlines', naicsId: 'Air_Transportation', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Car Rental (3300-3499) -> Rental and Leasing Services (532)
-    { mccCategoryId: 'Car_Rental', naicsId: 'Rental_and_Leasing_Services', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Car_Rental', naicsId: 'Rental_and_Leasing_Services', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Lodging (3500-3999) -> Accommodation (721)
-    { mccCategoryId: 'Lodging', naicsId: 'Accommodation', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Lodging', naicsId: 'Accommodation', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Transportation Services (4000-4799) -> Transportation (48-49)
-    { mccCategoryId: 'Transportation_Services', naicsId: 'Transit_and_Ground_Passenger_Transportation', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Transportation_Services', naicsId: 'Transit_and_Ground_Passenger_Transportation', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Telecommunication Services (4800-4899) -> Telecommunications (517)
-    { mccCategoryId: 'Telecommunication_Services', naicsId: 'Telecommunications', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Telecommunication_Services', naicsId: 'Telecommunications', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Retail Outlet Services (5000-5599) -> General Merchandise Retailers (452)
-    { mccCategoryId: 'Retail_Outlet_Services', naicsId: 'General_Merchandise_Retailers', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Retail_Outlet_Services', naicsId: 'General_Merchandise_Retailers', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Clothing Stores (5600-5699) -> Clothing Retailers (448)
-    { mccCategoryId: 'Clothing_Stores', naicsId: 'Clothing,_Clothing_Accessories,_Shoe,_and_Jewelry_Retailers', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Clothing_Stores', naicsId: 'Clothing,_Clothing_Accessories,_Shoe,_and_Jewelry_Retailers', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Miscellaneous Stores (5700-5799) -> Sporting Goods, Hobby, Book Retailers (451)
-    { mccCategoryId: 'Miscellaneous_Stores', naicsId: 'Sporting_Goods,_Hobby,_Musical_Instrument,_Book,_and_Miscellaneous_Retailers', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Miscellaneous_Stores', naicsId: 'Sporting_Goods,_Hobby,_Musical_Instrument,_Book,_and_Miscellaneous_Retailers', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Eating and Drinking Places (5800-5999) -> Food Services and Drinking Places (722)
-    { mccCategoryId: 'Eating_and_Drinking_Places', naicsId: 'Food_Services_and_Drinking_Places', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Eating_and_Drinking_Places', naicsId: 'Food_Services_and_Drinking_Places', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Financial Institutions (6000-6299) -> Finance and Insurance (52)
-    { mccCategoryId: 'Financial_Institutions', naicsId: 'Finance_and_Insurance', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Financial_Institutions', naicsId: 'Finance_and_Insurance', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Insurance (6300-6399) -> Insurance Carriers and Related Activities (524)
-    { mccCategoryId: 'Insurance', naicsId: 'Insurance_Carriers_and_Related_Activities', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Insurance', naicsId: 'Insurance_Carriers_and_Related_Activities', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Insurance Services (6400-6513) -> Insurance Carriers and Related Activities (524)
-    { mccCategoryId: 'Insurance_Services', naicsId: 'Insurance_Carriers_and_Related_Activities', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Insurance_Services', naicsId: 'Insurance_Carriers_and_Related_Activities', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Personal Services (7000-7299) -> Personal and Laundry Services (812)
-    { mccCategoryId: 'Personal_Services', naicsId: 'Personal_and_Laundry_Services', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Personal_Services', naicsId: 'Personal_and_Laundry_Services', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Business Services (7300-7399) -> Professional, Scientific, and Technical Services (54)
-    { mccCategoryId: 'Business_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Business_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Automotive Repair Services (7500-7599) -> Repair and Maintenance (811)
-    { mccCategoryId: 'Automotive_Repair_Services', naicsId: 'Repair_and_Maintenance', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Automotive_Repair_Services', naicsId: 'Repair_and_Maintenance', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Miscellaneous Repair Services (7600-7699) -> Repair and Maintenance (811)
-    { mccCategoryId: 'Miscellaneous_Repair_Services', naicsId: 'Repair_and_Maintenance', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Miscellaneous_Repair_Services', naicsId: 'Repair_and_Maintenance', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Recreation Services (7800-7999) -> Arts, Entertainment, and Recreation (71)
-    { mccCategoryId: 'Recreation_Services', naicsId: 'Arts,_Entertainment,_and_Recreation', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Recreation_Services', naicsId: 'Arts,_Entertainment,_and_Recreation', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Medical and Health Services (8000-8099) -> Health Care and Social Assistance (62)
-    { mccCategoryId: 'Medical_and_Health_Services', naicsId: 'Health_Care_and_Social_Assistance', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Medical_and_Health_Services', naicsId: 'Health_Care_and_Social_Assistance', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Legal and Educational Services (8100-8299) -> Educational Services (61)
-    { mccCategoryId: 'Legal_and_Educational_Services', naicsId: 'Educational_Services', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Legal_and_Educational_Services', naicsId: 'Educational_Services', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Accounting and Bookkeeping (8300-8399) -> Professional, Scientific, and Technical Services (54)
-    { mccCategoryId: 'Accounting_and_Bookkeeping', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Accounting_and_Bookkeeping', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Professional Services (8400-8499) -> Professional, Scientific, and Technical Services (54)
-    { mccCategoryId: 'Professional_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Professional_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Membership Organizations (8600-8699) -> Religious, Grantmaking, Civic, Professional, and Similar Organizations (813)
-    { mccCategoryId: 'Membership_Organizations', naicsId: 'Religious,_Grantmaking,_Civic,_Professional,_and_Similar_Organizations', naicsType: 'Subsector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Membership_Organizations', naicsId: 'Religious,_Grantmaking,_Civic,_Professional,_and_Similar_Organizations', naicsType: 'Subsector', relationshipType: 'classifiesMerchantsIn' },
 
     // Architectural and Engineering Services (8700-8899) -> Professional, Scientific, and Technical Services (54)
-    { mccCategoryId: 'Architectural_and_Engineering_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Architectural_and_Engineering_Services', naicsId: 'Professional,_Scientific,_and_Technical_Services', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Government Services (9000-9099) -> Public Administration (92)
-    { mccCategoryId: 'Government_Services', naicsId: 'Public_Administration', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Government_Services', naicsId: 'Public_Administration', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Professional and Government Services (9100-9399) -> Public Administration (92)
-    { mccCategoryId: 'Professional_and_Government_Services', naicsId: 'Public_Administration', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Professional_and_Government_Services', naicsId: 'Public_Administration', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
 
     // Government and Utilities (9400-9799) -> Utilities (22)
-    { mccCategoryId: 'Government_and_Utilities', naicsId: 'Utilities', naicsType: 'Sector', relationshipType: 'classifies_merchants_in' },
+    { mccCategoryId: 'Government_and_Utilities', naicsId: 'Utilities', naicsType: 'Sector', relationshipType: 'classifiesMerchantsIn' },
   ]
 
   // Create relationship records
@@ -552,11 +560,7 @@ function transformMCCNAICSRelationships(): void {
     }))
 
   if (relationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'Finance.MCC.Category.NAICS.Industry.tsv'),
-      relationships as unknown as Record<string, string>[],
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'Finance.MCC.Category.NAICS.Industry.tsv'), relationships)
     console.log(`  - Created ${relationships.length} MCC-NAICS relationships`)
   } else {
     console.log('  - No MCC-NAICS relationships created')
@@ -610,6 +614,28 @@ export async function transformFinance(): Promise<void> {
   console.log('=== Finance Standards Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'finance',
+  description: 'Financial standards (ISO 20022, LEI, ISIN, MCC, SWIFT)',
+  run: transformFinance,
+  sources: ['Finance'],
+  outputs: [
+    'Finance.ISO20022.BusinessAreas.tsv',
+    'Finance.ISO20022.Messages.tsv',
+    'relationships/Finance.ISO20022.Message.BusinessArea.tsv',
+    'Finance.ISO20022.DataTypes.tsv',
+    'Finance.LEI.RegistrationAuthorities.tsv',
+    'Finance.LEI.EntityTypes.tsv',
+    'Finance.ISIN.Agencies.tsv',
+    'Finance.MCC.Categories.tsv',
+    'Finance.MCC.Codes.tsv',
+    'relationships/Finance.MCC.Code.Category.tsv',
+    'Finance.SWIFT.Countries.tsv',
+    'Finance.SWIFT.Structure.tsv',
+    'relationships/Finance.MCC.Category.NAICS.Industry.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformFinance()
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for graph-integration.ts
+ * Run with: bun test .scripts/graph-integration.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseTSV, type StandardRecord } from './utils'
+import { createGraphRecords, createShardedTSVWriter, dedupeGraphRecords, writeGraphRelationships } from './graph-integration'
+import { relationshipFixture } from './test-fixtures'
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'graph-integration-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function record(ns: string, type: string, id: string, name: string = id): StandardRecord {
+  return { ns, type, id, name, description: '', code: '', sameAs: '', includedIn: '' }
+}
+
+describe('dedupeGraphRecords', () => {
+  const typeConfig = new Map([['Industry', { canonical: 'naics.org.ai', superset: 'industries.org.ai', aggregations: [] }]])
+
+  test('keeps one record per canonical URL, preferring the canonical domain', () => {
+    const records = createGraphRecords([
+      record('industries.org.ai', 'Industry', 'Farming', 'Farming (superset)'),
+      record('naics.org.ai', 'Industry', 'Farming', 'Farming'),
+      record('business.org.ai', 'Industry', 'Farming', 'Farming (aggregation)'),
+      record('industries.org.ai', 'Industry', 'Agriculture'),
+      record('onet.org.ai', 'Occupation', 'Farmers'),
+    ], typeConfig)
+
+    const { things, duplicates } = dedupeGraphRecords(records)
+    expect(duplicates).toBe(2)
+    expect(things.map(t => [t.canonicalUrl, t.name])).toEqual([
+      ['https://naics.org.ai/Industry/Agriculture', 'Agriculture'],
+      ['https://naics.org.ai/Industry/Farming', 'Farming'],
+      ['https://onet.org.ai/Occupation/Farmers', 'Farmers'],
+    ])
+    expect(things[1].supersetUrl).toBe('https://industries.org.ai/Industry/Farming')
+    expect(things[2].supersetUrl).toBeUndefined()
+  })
+})
+
+describe('createShardedTSVWriter', () => {
+  test('writes a single table without a shard number', async () => {
+    const writer = createShardedTSVWriter(dir, 'Graph.Things', ['id'], 2)
+    await writer.write({ id: 'a' })
+    await writer.close()
+    expect(readdirSync(dir)).toEqual(['Graph.Things.tsv'])
+  })
+
+  test('starts a new shard every maxRows rows', async () => {
+    const writer = createShardedTSVWriter(dir, 'Graph.Things', ['id'], 2)
+    for (const id of ['a', 'b', 'c', 'd', 'e']) await writer.write({ id })
+    await writer.close()
+
+    expect(writer.count).toBe(5)
+    expect(readdirSync(dir).sort()).toEqual(['Graph.Things.001.tsv', 'Graph.Things.002.tsv', 'Graph.Things.003.tsv'])
+    expect(parseTSV(join(dir, 'Graph.Things.003.tsv'))).toEqual([{ id: 'e' }])
+  })
+})
+
+describe('writeGraphRelationships', () => {
+  test('merges relationship files with their source and properties', async () => {
+    const relDir = join(dir, 'relationships')
+    const outputDir = join(dir, 'graph')
+    mkdirSync(relDir)
+    writeFileSync(join(relDir, 'ONET.Occupation.Skill.tsv'), relationshipFixture([
+      { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Farmers', toNs: 'onet.org.ai', toType: 'Skill', toId: 'Monitoring', relationshipType: 'requires', importance: '3.5' },
+    ]))
+    writeFileSync(join(relDir, 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+      { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+    ]))
+
+    expect(await writeGraphRelationships(relDir, outputDir)).toBe(2)
+    expect(parseTSV(join(outputDir, 'Graph.Relationships.tsv'))).toEqual([
+      {
+        fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming',
+        toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming',
+        relationshipType: 'childOf', properties: '', source: 'NAICS.Industry.Industry.tsv',
+      },
+      {
+        fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Farmers',
+        toNs: 'onet.org.ai', toType: 'Skill', toId: 'Monitoring',
+        relationshipType: 'requires', properties: '{"importance":3.5}', source: 'ONET.Occupation.Skill.tsv',
+      },
+    ])
+  })
+})
@@ -6,23 +6,49 @@
  * 1. Combines all canonical and superset data into a unified graph
  * 2. Creates routing metadata for type → domain resolution
  * 3. Generates master index files for fast lookups
+ *
+ * The unified graph is written to .data/graph/, apart from the per-source files so
+ * that scans of .data and .data/relationships do not read it twice:
+ * - Graph.Things.tsv - one row per canonical URL, with canonical and superset URLs
+ * - Graph.Relationships.tsv - every .data/relationships file merged, with the
+ *   property columns as JSON and the file each row came from
+ * Tables over SHARD_ROWS rows are split into Graph.Things.001.tsv, .002, ...
  */
 
 import { join } from 'path'
-import { readdirSync, existsSync } from 'fs'
+import { readdirSync, existsSync, rmSync, renameSync } from 'fs'
 import {
-  parseTSV,
+  parseDataTSV,
   writeTSV,
   writeStandardTSV,
+  streamDataTSV,
+  listDataFiles,
+  createTSVWriter,
   getDataPath,
   ensureOutputDirs,
+  STANDARD_HEADERS,
+  RELATIONSHIP_HEADERS,
   type StandardRecord,
+  type TSVWriter,
 } from './utils'
+import { relationshipPropertiesJSON } from './relationship-schemas'
+import { hasRole, isDomain } from './domains'
+import { loadTypeConfigRows } from './check-domains'
+import type { TransformerDescriptor } from './registry'
 
 const DATA_DIR = getDataPath()
 const GRAPH_NS = 'graph.org.ai'
 
-interface GraphRecord extends StandardRecord {
+export const GRAPH_DIR = 'graph'
+
+// Type, domain and routing indexes at the top of .data/, read by build-db, jsonld and rdf
+export const GRAPH_INDEXES = ['Graph.Types.tsv', 'Graph.Domains.tsv', 'Graph.Routing.tsv']
+export const SHARD_ROWS = 1_000_000
+
+const THING_HEADERS = [...STANDARD_HEADERS, 'canonicalUrl', 'supersetUrl']
+const GRAPH_RELATIONSHIP_HEADERS = [...RELATIONSHIP_HEADERS, 'properties', 'source']
+
+export interface GraphRecord extends StandardRecord {
   canonicalUrl: string
   supersetUrl?: string
 }
@@ -56,22 +82,12 @@ function loadTypeConfig(): Map<string, { canonical: string; superset?: string; a
 
   const typeConfig = new Map<string, { canonical: string; superset?: string; aggregations: string[] }>()
 
-  interface TypeConfigRow {
-    type: string
-    canonical_domain: string
-    superset_domain: string
-    aggregation_domains: string
-  }
-
-  const data = parseTSV<TypeConfigRow>(configFile)
-  for (const row of data) {
-    if (row.type && !row.type.startsWith('#')) {
-      typeConfig.set(row.type, {
-        canonical: row.canonical_domain || '',
-        superset: row.superset_domain && row.superset_domain !== '-' ? row.superset_domain : undefined,
-        aggregations: row.aggregation_domains ? row.aggregation_domains.split('|') : [],
-      })
-    }
+  for (const row of loadTypeConfigRows(configFile)) {
+    typeConfig.set(row.type, {
+      canonical: row.canonical_domain && row.canonical_domain !== '-' ? row.canonical_domain : '',
+      superset: row.superset_domain && row.superset_domain !== '-' ? row.superset_domain : undefined,
+      aggregations: row.aggregation_domains ? row.aggregation_domains.split('|') : [],
+    })
   }
 
   return typeConfig
@@ -87,7 +103,7 @@ function loadAllData(): StandardRecord[] {
 
   for (const file of files) {
     try {
-      const records = parseTSV<StandardRecord>(join(DATA_DIR, file))
+      const records = parseDataTSV<StandardRecord>(join(DATA_DIR, file))
       allRecords.push(...records)
       console.log(`Loaded ${records.length} records from ${file}`)
     } catch (e) {
@@ -144,9 +160,11 @@ function buildDomainIndex(records: StandardRecord[]): DomainIndex[] {
     stat.count++
   }
 
-  // Determine domain classification
-  const supersetDomains = new Set(['process.org.ai', 'industries.org.ai', 'occupations.org.ai', 'products.org.ai', 'services.org.ai', 'skills.org.ai', 'tasks.org.ai'])
-  const aggregationDomains = new Set(['business.org.ai', 'manufacturing.org.ai', 'healthcare.org.ai', 'finance.org.ai', 'retail.org.ai', 'tech.org.ai', 'logistics.org.ai', 'education.org.ai'])
+  // Classify domains by their roles in the registry; unregistered domains count as canonical
+  const unregistered = Array.from(domainStats.keys()).filter(domain => !isDomain(domain))
+  if (unregistered.length > 0) {
+    console.log(`Warning: domains missing from the registry in domains.ts: ${unregistered.sort().join(', ')}`)
+  }
 
   const domainIndex: DomainIndex[] = []
   for (const [domain, stat] of domainStats) {
@@ -154,9 +172,9 @@ function buildDomainIndex(records: StandardRecord[]): DomainIndex[] {
       domain,
       types: Array.from(stat.types).sort(),
       recordCount: stat.count,
-      isCanonical: !supersetDomains.has(domain) && !aggregationDomains.has(domain),
-      isSuperset: supersetDomains.has(domain),
-      isAggregation: aggregationDomains.has(domain),
+      isCanonical: hasRole(domain, 'canonical') || !isDomain(domain),
+      isSuperset: hasRole(domain, 'superset'),
+      isAggregation: hasRole(domain, 'aggregation'),
     })
   }
 
@@ -166,7 +184,7 @@ function buildDomainIndex(records: StandardRecord[]): DomainIndex[] {
 /**
  * Create unified graph records with canonical URLs
  */
-function createGraphRecords(records: StandardRecord[], typeConfig: Map<string, { canonical: string; superset?: string; aggregations: string[] }>): GraphRecord[] {
+export function createGraphRecords(records: StandardRecord[], typeConfig: Map<string, { canonical: string; superset?: string; aggregations: string[] }>): GraphRecord[] {
   return records.map(record => {
     const config = typeConfig.get(record.type)
     const canonicalDomain = config?.canonical || record.ns
@@ -179,6 +197,123 @@ function createGraphRecords(records: StandardRecord[], typeConfig: Map<string, {
   })
 }
 
+/**
+ * Keep one record per canonical URL, preferring the one from the canonical domain
+ * over superset and aggregation copies, then the first seen. Sorted by canonical URL.
+ */
+export function dedupeGraphRecords(records: GraphRecord[]): { things: GraphRecord[]; duplicates: number } {
+  const byUrl = new Map<string, GraphRecord>()
+  let duplicates = 0
+
+  for (const record of records) {
+    const existing = byUrl.get(record.canonicalUrl)
+    if (existing) {
+      duplicates++
+      const isCanonical = (r: GraphRecord) => r.canonicalUrl.startsWith(`https://${r.ns}/`)
+      if (isCanonical(existing) || !isCanonical(record)) continue
+    }
+    byUrl.set(record.canonicalUrl, record)
+  }
+
+  const things = [...byUrl.values()].sort((a, b) => (a.canonicalUrl < b.canonicalUrl ? -1 : a.canonicalUrl > b.canonicalUrl ? 1 : 0))
+  return { things, duplicates }
+}
+
+/**
+ * Open a TSV writer that starts a new shard every maxRows rows. The first shard is
+ * written as <name>.tsv and renamed to <name>.001.tsv if a second one is needed.
+ */
+export function createShardedTSVWriter(
+  dir: string,
+  name: string,
+  headers: string[],
+  maxRows: number = SHARD_ROWS,
+): TSVWriter<Record<string, string | undefined>> & { readonly files: string[] } {
+  const shardPath = (n: number) => join(dir, `${name}.${String(n).padStart(3, '0')}.tsv`)
+  const files: string[] = []
+  let writer: TSVWriter<Record<string, string | undefined>> | undefined
+  let count = 0
+
+  return {
+    get count() {
+      return count
+    },
+
+    get files() {
+      return files
+    },
+
+    async write(record) {
+      if (!writer || writer.count >= maxRows) {
+        if (writer) {
+          await writer.close()
+          if (files.length === 1) {
+            renameSync(files[0], shardPath(1))
+            files[0] = shardPath(1)
+          }
+        }
+        files.push(files.length === 0 ? join(dir, `${name}.tsv`) : shardPath(files.length + 1))
+        writer = createTSVWriter(files[files.length - 1], headers)
+      }
+      await writer.write(record)
+      count++
+    },
+
+    async close() {
+      if (!writer) {
+        console.log(`Skipping ${name} - no records`)
+        return
+      }
+      await writer.close()
+      if (files.length > 1) {
+        console.log(`Wrote ${count} records to ${name} in ${files.length} shards`)
+      }
+    },
+  }
+}
+
+/**
+ * Write the deduplicated graph.org.ai entity table
+ */
+async function writeGraphThings(things: GraphRecord[], outputDir: string): Promise<void> {
+  const writer = createShardedTSVWriter(outputDir, 'Graph.Things', THING_HEADERS)
+  for (const thing of things) {
+    await writer.write({
+      ns: thing.ns,
+      type: thing.type,
+      id: thing.id,
+      name: thing.name,
+      description: thing.description,
+      code: thing.code,
+      sameAs: thing.sameAs,
+      includedIn: thing.includedIn,
+      version: thing.version,
+      canonicalUrl: thing.canonicalUrl,
+      supersetUrl: thing.supersetUrl,
+    })
+  }
+  await writer.close()
+}
+
+/**
+ * Merge every relationship file into one table, recording the file each row came from
+ */
+export async function writeGraphRelationships(relationshipsDir: string, outputDir: string, maxRows: number = SHARD_ROWS): Promise<number> {
+  const writer = createShardedTSVWriter(outputDir, 'Graph.Relationships', GRAPH_RELATIONSHIP_HEADERS, maxRows)
+  const files = listDataFiles(relationshipsDir)
+
+  for (const file of files) {
+    for await (const record of streamDataTSV(join(relationshipsDir, file))) {
+      const row: Record<string, string | undefined> = { properties: relationshipPropertiesJSON(record, file) || '', source: file }
+      for (const col of RELATIONSHIP_HEADERS) row[col] = record[col]
+      await writer.write(row)
+    }
+  }
+
+  await writer.close()
+  return writer.count
+}
+
 /**
  * Generate routing configuration for graph.org.ai
  */
@@ -247,6 +382,15 @@ export async function buildUniversalGraph(): Promise<void> {
   )
   console.log(`Wrote ${routingConfig.length} routing configurations`)
 
+  // Write the unified entity and relationship tables
+  const graphDir = join(DATA_DIR, GRAPH_DIR)
+  rmSync(graphDir, { recursive: true, force: true })
+  const { things, duplicates } = dedupeGraphRecords(createGraphRecords(allRecords, typeConfig))
+  await writeGraphThings(things, graphDir)
+  console.log(`Wrote ${things.length} graph things (${duplicates} duplicate records merged)`)
+  const relationshipCount = await writeGraphRelationships(join(DATA_DIR, 'relationships'), graphDir)
+  console.log(`Wrote ${relationshipCount} graph relationships`)
+
   // Summary stats
   console.log('\n=== Graph Summary ===')
   console.log(`Total records: ${allRecords.length.toLocaleString()}`)
@@ -264,6 +408,14 @@ export async function buildUniversalGraph(): Promise<void> {
   console.log('\n=== Universal Graph Integration Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'graph',
+  description: 'graph.org.ai type, domain and routing indexes (runs after all other transforms)',
+  run: buildUniversalGraph,
+  inputs: ['*'],
+  outputs: [...GRAPH_INDEXES, GRAPH_DIR],
+}
+
 // Run if called directly
 if (import.meta.main) {
   buildUniversalGraph()
@@ -4,7 +4,7 @@ import {
   NAMESPACES,
   parseTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -13,118 +13,144 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.GS1
 const SOURCE_DIR = getSourcePath('GS1')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface GPCSchemaRow {
-  segmentCode: string
-  segmentTitle: string
-  segmentDefinition: string
-  familyCode: string
-  familyTitle: string
-  familyDefinition: string
-  classCode: string
-  classTitle: string
-  classDefinition: string
-  brickCode: string
-  brickTitle: string
-  brickDefinitionIncludes: string
-  brickDefinitionExcludes: string
-  attributeCode: string
-  attributeTitle: string
-  attributeDefinition: string
-  attributeValueCode: string
-  attributeValueTitle: string
-  attributeValueDefinition: string
-}
-
-interface VocabularyRow {
-  id: string
-  label: string
-  type: string
-  description: string
-  source: string
-  verb: string
-  noun: string
-  relatedEvent: string
-}
-
-interface LocationTypeRow {
-  id: string
-  label: string
-  type: string
-  description: string
-  source: string
-  parentType: string
-  glnFunctionalType: string
-}
-
-interface BusinessStepRow {
-  businessStep: string
-  verb: string
-  noun: string
-  description: string
-}
-
-interface DispositionRow {
-  disposition: string
-  verb: string
-  description: string
-}
-
-interface IdentifierRow {
-  identifier: string
-  class: string
-  description: string
-}
-
-interface GLNFunctionalTypeRow {
-  id: string
-  label: string
-  description: string
-}
-
-interface LocationRelationshipRow {
-  id: string
-  label: string
-  description: string
-  sourceType: string
-  targetType: string
-}
-
-interface SchemaRow {
-  id: string
-  name: string
-  version: string
-  description: string
-  url: string
-}
-
-interface EPCISEventTypeRow {
-  id: string
-  label: string
-  type: string
-  description: string
-  captures: string
-}
-
-interface GTINStructureRow {
-  id: string
-  label: string
-  type: string
-  description: string
-  length: string
-  structure: string
-  usage: string
-}
+const GPC_SCHEMA = defineSchema({
+  columns: {
+    segmentCode: {},
+    segmentTitle: {},
+    segmentDefinition: {},
+    familyCode: {},
+    familyTitle: {},
+    familyDefinition: {},
+    classCode: {},
+    classTitle: {},
+    classDefinition: {},
+    brickCode: {},
+    brickTitle: {},
+    brickDefinitionIncludes: {},
+    brickDefinitionExcludes: {},
+    attributeCode: {},
+    attributeTitle: {},
+    attributeDefinition: {},
+    attributeValueCode: { optional: true },
+    attributeValueTitle: { optional: true },
+    attributeValueDefinition: { optional: true },
+  },
+})
+type GPCSchemaRow = SchemaRow<typeof GPC_SCHEMA>
+
+const VOCABULARY_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    type: {},
+    description: {},
+    source: { optional: true },
+    verb: {},
+    noun: {},
+    relatedEvent: { optional: true },
+  },
+})
+
+const LOCATION_TYPE_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    type: {},
+    description: {},
+    source: { optional: true },
+    parentType: {},
+    glnFunctionalType: { optional: true },
+  },
+})
+
+const BUSINESS_STEP_SCHEMA = defineSchema({
+  columns: {
+    businessStep: {},
+    verb: {},
+    noun: {},
+    description: {},
+  },
+})
+
+const DISPOSITION_SCHEMA = defineSchema({
+  columns: {
+    disposition: {},
+    verb: {},
+    description: {},
+  },
+})
+
+const IDENTIFIER_SCHEMA = defineSchema({
+  columns: {
+    identifier: {},
+    class: { optional: true },
+    description: {},
+  },
+})
+
+const GLN_FUNCTIONAL_TYPE_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    description: {},
+  },
+})
+
+const LOCATION_RELATIONSHIP_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    description: {},
+    sourceType: { optional: true },
+    targetType: { optional: true },
+  },
+})
+
+const GS1_SCHEMAS_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    name: {},
+    version: {},
+    description: {},
+    url: {},
+  },
+})
+
+const EPCIS_EVENT_TYPE_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    type: {},
+    description: {},
+    captures: {},
+  },
+})
+
+const GTIN_STRUCTURE_SCHEMA = defineSchema({
+  columns: {
+    id: {},
+    label: {},
+    type: {},
+    description: {},
+    length: {},
+    structure: {},
+    usage: {},
+  },
+})
 
 function transformGPCHierarchy(): void {
   console.log('Transforming GS1 GPC Hierarchy...')
-  const data = parseTSV<GPCSchemaRow>(join(SOURCE_DIR, 'GS1.Schema.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'GS1.Schema.tsv'), GPC_SCHEMA)
 
   // Extract unique segments
   const segmentsMap = new Map<string, GPCSchemaRow>()
@@ -212,7 +238,7 @@ function transformGPCHierarchy(): void {
   writeStandardTSV(join(DATA_DIR, 'GS1.Attributes.tsv'), attributeRecords)
 
   // Write hierarchy relationships
-  const hierarchyRelationships: Record<string, string>[] = []
+  const hierarchyRelationships: RelationshipRecord[] = []
 
   // Family -> Segment
   for (const row of familiesMap.values()) {
@@ -259,14 +285,10 @@ function transformGPCHierarchy(): void {
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'GS1.Hierarchy.tsv'),
-    hierarchyRelationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'GS1.Hierarchy.tsv'), hierarchyRelationships)
 
   // Write brick-attribute relationships
-  const brickAttributeRelationships: Record<string, string>[] = []
+  const brickAttributeRelationships: RelationshipRecord[] = []
   const seenBrickAttr = new Set<string>()
 
   for (const row of data) {
@@ -287,17 +309,13 @@ function transformGPCHierarchy(): void {
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'GS1.Brick.Attribute.tsv'),
-    brickAttributeRelationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'GS1.Brick.Attribute.tsv'), brickAttributeRelationships)
 }
 
 function transformVocabulary(): void {
   console.log('Transforming GS1 Vocabulary...')
   try {
-    const data = parseTSV<VocabularyRow>(join(SOURCE_DIR, 'GS1.Vocabulary.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'GS1.Vocabulary.tsv'), VOCABULARY_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -320,7 +338,7 @@ function transformVocabulary(): void {
 function transformLocationTypes(): void {
   console.log('Transforming GS1 Location Types...')
   try {
-    const data = parseTSV<LocationTypeRow>(join(SOURCE_DIR, 'GS1.Location.Types.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'GS1.Location.Types.tsv'), LOCATION_TYPE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -337,7 +355,7 @@ function transformLocationTypes(): void {
     writeStandardTSV(join(DATA_DIR, 'GS1.LocationTypes.tsv'), records)
 
     // Write location type hierarchy
-    const relationships: Record<string, string>[] = data
+    const relationships: RelationshipRecord[] = data
       .filter(row => row.parentType)
       .map(row => ({
         fromNs: NS,
@@ -349,11 +367,7 @@ function transformLocationTypes(): void {
         relationshipType: 'subtypeOf',
       }))
 
-    writeTSV(
-      join(REL_DIR, 'GS1.LocationType.LocationType.tsv'),
-      relationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'GS1.LocationType.LocationType.tsv'), relationships)
   } catch (e) {
     console.log('GS1.Location.Types.tsv not found, skipping...')
   }
@@ -362,7 +376,7 @@ function transformLocationTypes(): void {
 function transformBusinessSteps(): void {
   console.log('Transforming GS1 Business Steps...')
   try {
-    const data = parseTSV<BusinessStepRow>(join(SOURCE_DIR, 'GS1.BusinessStep.VerbMapping.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'GS1.BusinessStep.VerbMapping.tsv'), BUSINESS_STEP_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.businessStep)
@@ -392,7 +406,7 @@ function transformDispositions(): void {
   }
 
   try {
-    const data = parseTSV<DispositionRow>(sourceFile)
+    const data = parseTSV(sourceFile, DISPOSITION_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.disposition)
@@ -422,7 +436,7 @@ function transformIdentifiers(): void {
   }
 
   try {
-    const data = parseTSV<IdentifierRow>(sourceFile)
+    const data = parseTSV(sourceFile, IDENTIFIER_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.identifier)
@@ -452,7 +466,7 @@ function transformGLNFunctionalTypes(): void {
   }
 
   try {
-    const data = parseTSV<GLNFunctionalTypeRow>(sourceFile)
+    const data = parseTSV(sourceFile, GLN_FUNCTIONAL_TYPE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -482,7 +496,7 @@ function transformLocationRelationships(): void {
   }
 
   try {
-    const data = parseTSV<LocationRelationshipRow>(sourceFile)
+    const data = parseTSV(sourceFile, LOCATION_RELATIONSHIP_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -512,7 +526,7 @@ function transformSchemas(): void {
   }
 
   try {
-    const data = parseTSV<SchemaRow>(sourceFile)
+    const data = parseTSV(sourceFile, GS1_SCHEMAS_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.name)
@@ -542,7 +556,7 @@ function transformEPCISEventTypes(): void {
   }
 
   try {
-    const data = parseTSV<EPCISEventTypeRow>(sourceFile)
+    const data = parseTSV(sourceFile, EPCIS_EVENT_TYPE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -572,7 +586,7 @@ function transformGTINStructures(): void {
   }
 
   try {
-    const data = parseTSV<GTINStructureRow>(sourceFile)
+    const data = parseTSV(sourceFile, GTIN_STRUCTURE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.id && row.label)
@@ -611,6 +625,33 @@ export async function transformGS1(): Promise<void> {
   console.log('=== GS1 Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'gs1',
+  description: 'GS1 product/location standards (GPC, EPCIS, CBV, Digital Link)',
+  run: transformGS1,
+  sources: ['GS1'],
+  outputs: [
+    'GS1.Segments.tsv',
+    'GS1.Families.tsv',
+    'GS1.Classes.tsv',
+    'GS1.Bricks.tsv',
+    'GS1.Attributes.tsv',
+    'relationships/GS1.Hierarchy.tsv',
+    'relationships/GS1.Brick.Attribute.tsv',
+    'GS1.Vocabulary.tsv',
+    'GS1.LocationTypes.tsv',
+    'relationships/GS1.LocationType.LocationType.tsv',
+    'GS1.BusinessSteps.tsv',
+    'GS1.Dispositions.tsv',
+    'GS1.IdentifierTypes.tsv',
+    'GS1.GLNFunctionalTypes.tsv',
+    'GS1.LocationRelationships.tsv',
+    'GS1.Schemas.tsv',
+    'GS1.EPCIS.EventTypes.tsv',
+    'GS1.GTIN.Structures.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformGS1()
@@ -3,7 +3,9 @@ import {
   NAMESPACES,
   parseTSV,
   parseCSV,
+  streamTSV,
   writeStandardTSV,
+  createStandardTSVWriter,
   writeTSV,
   toWikipediaStyleId,
   cleanDescription,
@@ -14,6 +16,8 @@ import {
   getAggregationsForType,
   type StandardRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // Define namespaces for healthcare standards
 const NDC_NS = NAMESPACES.NDC
@@ -59,77 +63,82 @@ interface RxNormTermTypeRow {
  * NPI Data Interfaces
  * Source: https://npiregistry.cms.hhs.gov/
  */
-interface NPITaxonomyRow {
-  code: string
-  grouping: string
-  classification: string
-  specialization: string
-  display_name: string
-  section: string
-}
+const NPI_TAXONOMY_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    grouping: {},
+    classification: {},
+    specialization: {},
+    display_name: {},
+    section: { optional: true },
+  },
+})
 
 /**
  * CPT Data Interfaces
  * Source: https://www.ama-assn.org/practice-management/cpt
  */
-interface CPTCategoryRow {
-  category_range: string
-  category_name: string
-  description: string
-}
+const CPT_CATEGORY_SCHEMA = defineSchema({
+  columns: {
+    category_range: {},
+    category_name: {},
+    description: {},
+  },
+})
 
 /**
  * HCPCS Data Interfaces
  * Source: https://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets
  */
-interface HCPCSCodeRow {
-  code: string
-  long_description: string
-  short_description: string
-  coverage_code: string
-  add_date: string
-  effective_date: string
-  action_code: string
-}
+const HCPCS_CODE_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    long_description: {},
+    short_description: {},
+    coverage_code: { optional: true },
+    add_date: { optional: true },
+    effective_date: { optional: true },
+    action_code: { optional: true },
+  },
+})
 
 /**
  * Transform NDC Drug Products
  */
-function transformNDCProducts(): void {
+async function transformNDCProducts(): Promise<void> {
   console.log('Transforming NDC Drug Products...')
-  const data = parseTSV<NDCProductRow>(join(NDC_SOURCE_DIR, 'products.tsv'))
+  const records = createStandardTSVWriter(join(DATA_DIR, 'NDC.Products.tsv'))
 
-  const records: StandardRecord[] = data
-    .filter(row => row.product_ndc)
-    .map(row => {
-      const name = row.brand_name || row.generic_name
-      return {
-        ns: NDC_NS,
-        type: 'NDC_Product',
-        id: toWikipediaStyleId(name),
-        name: name,
-        description: cleanDescription(
-          `${row.generic_name} - ${row.dosage_form || 'Drug Product'} (NDC: ${row.product_ndc})`
-        ),
-        code: row.product_ndc,
-        includedIn: getAggregationsForType('Drug'),
-      }
+  for await (const row of streamTSV<NDCProductRow>(join(NDC_SOURCE_DIR, 'products.tsv'))) {
+    if (!row.product_ndc) continue
+    const name = row.brand_name || row.generic_name
+    await records.write({
+      ns: NDC_NS,
+      type: 'NDC_Product',
+      id: toWikipediaStyleId(name),
+      name: name,
+      description: cleanDescription(
+        `${row.generic_name} - ${row.dosage_form || 'Drug Product'} (NDC: ${row.product_ndc})`
+      ),
+      code: row.product_ndc,
+      includedIn: getAggregationsForType('Drug'),
     })
+  }
 
-  writeStandardTSV(join(DATA_DIR, 'NDC.Products.tsv'), records)
-  console.log(`  Processed ${records.length} NDC products`)
+  await records.close()
+  console.log(`  Processed ${records.count} NDC products`)
 }
 
 /**
  * Transform RxNorm Term Types
  */
-function transformRxNormTermTypes(): void {
+async function transformRxNormTermTypes(): Promise<void> {
   console.log('Transforming RxNorm Term Types...')
-  const data = parseTSV<RxNormTermTypeRow>(join(RXNORM_SOURCE_DIR, 'term_types.tsv'))
+  const records = createStandardTSVWriter(join(DATA_DIR, 'RxNorm.TermTypes.tsv'))
 
-  const records: StandardRecord[] = data
-    .filter(row => row.term_type)
-    .map(row => ({
+  for await (const row of streamTSV<RxNormTermTypeRow>(join(RXNORM_SOURCE_DIR, 'term_types.tsv'))) {
+    if (!row.term_type) continue
+    await records.write({
       ns: RXNORM_NS,
       type: 'RxNorm_TermType',
       id: toWikipediaStyleId(row.term_type),
@@ -137,10 +146,11 @@ function transformRxNormTermTypes(): void {
       description: cleanDescription(row.description || ''),
       code: row.term_type,
       includedIn: getAggregationsForType('Code'),
-    }))
+    })
+  }
 
-  writeStandardTSV(join(DATA_DIR, 'RxNorm.TermTypes.tsv'), records)
-  console.log(`  Processed ${records.length} RxNorm term types`)
+  await records.close()
+  console.log(`  Processed ${records.count} RxNorm term types`)
 }
 
 /**
@@ -148,7 +158,7 @@ function transformRxNormTermTypes(): void {
  */
 function transformNPITaxonomyCodes(): void {
   console.log('Transforming NPI Taxonomy Codes...')
-  const data = parseTSV<NPITaxonomyRow>(join(NPI_SOURCE_DIR, 'taxonomy_codes.tsv'))
+  const data = parseTSV(join(NPI_SOURCE_DIR, 'taxonomy_codes.tsv'), NPI_TAXONOMY_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code)
@@ -173,7 +183,7 @@ function transformNPITaxonomyCodes(): void {
  */
 function transformCPTCategories(): void {
   console.log('Transforming CPT Categories...')
-  const data = parseTSV<CPTCategoryRow>(join(CPT_SOURCE_DIR, 'categories.tsv'))
+  const data = parseTSV(join(CPT_SOURCE_DIR, 'categories.tsv'), CPT_CATEGORY_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.category_range && row.category_name)
@@ -196,7 +206,7 @@ function transformCPTCategories(): void {
  */
 function transformHCPCSCodes(): void {
   console.log('Transforming HCPCS Codes...')
-  const data = parseTSV<HCPCSCodeRow>(join(HCPCS_SOURCE_DIR, 'codes.tsv'))
+  const data = parseTSV(join(HCPCS_SOURCE_DIR, 'codes.tsv'), HCPCS_CODE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code)
@@ -223,14 +233,14 @@ export async function transformHealthcareDrugs(): Promise<void> {
 
   // NDC Transformations
   try {
-    transformNDCProducts()
+    await transformNDCProducts()
   } catch (error) {
     console.error('NDC transformation error:', error)
   }
 
   // RxNorm Transformations
   try {
-    transformRxNormTermTypes()
+    await transformRxNormTermTypes()
   } catch (error) {
     console.error('RxNorm transformation error:', error)
   }
@@ -259,6 +269,27 @@ export async function transformHealthcareDrugs(): Promise<void> {
   console.log('\n=== Healthcare Drugs & Providers Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'healthcare-drugs',
+  description: 'Healthcare drug and provider standards (NDC, RxNorm, NPI, CPT, HCPCS)',
+  run: transformHealthcareDrugs,
+  group: 'healthcare',
+  sources: [
+    'Healthcare/NDC',
+    'Healthcare/RxNorm',
+    'Healthcare/NPI',
+    'Healthcare/CPT',
+    'Healthcare/HCPCS',
+  ],
+  outputs: [
+    'NDC.Products.tsv',
+    'RxNorm.TermTypes.tsv',
+    'NPI.Taxonomies.tsv',
+    'CPT.Categories.tsv',
+    'HCPCS.Codes.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformHealthcareDrugs()
@@ -25,6 +25,8 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.FHIR
 const SOURCE_DIR = getSourcePath('Healthcare/FHIR')
@@ -32,18 +34,22 @@ const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
 // FHIR Resource TSV interface
-interface FHIRResourceRow {
-  resource_name: string
-  category: string
-  description: string
-}
+const FHIR_RESOURCE_SCHEMA = defineSchema({
+  columns: {
+    resource_name: {},
+    category: { optional: true },
+    description: {},
+  },
+})
 
 // FHIR DataType TSV interface
-interface FHIRDataTypeRow {
-  datatype_name: string
-  category: string
-  description: string
-}
+const FHIR_DATA_TYPE_SCHEMA = defineSchema({
+  columns: {
+    datatype_name: {},
+    category: { optional: true },
+    description: {},
+  },
+})
 
 /**
  * Transform FHIR Resources from TSV file
@@ -52,7 +58,7 @@ function transformResources(): void {
   console.log('Transforming FHIR Resources...')
 
   try {
-    const data = parseTSV<FHIRResourceRow>(join(SOURCE_DIR, 'resources.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'resources.tsv'), FHIR_RESOURCE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.resource_name)
@@ -80,7 +86,7 @@ function transformDataTypes(): void {
   console.log('Transforming FHIR Data Types...')
 
   try {
-    const data = parseTSV<FHIRDataTypeRow>(join(SOURCE_DIR, 'datatypes.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'datatypes.tsv'), FHIR_DATA_TYPE_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.datatype_name)
@@ -114,6 +120,19 @@ export async function transformHealthcareFHIR(): Promise<void> {
   console.log('\n=== FHIR Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'healthcare-fhir',
+  description: 'HL7 FHIR healthcare interoperability standards',
+  run: transformHealthcareFHIR,
+  aliases: ['fhir'],
+  group: 'healthcare',
+  sources: ['Healthcare/FHIR'],
+  outputs: [
+    'FHIR.Resources.tsv',
+    'FHIR.DataTypes.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformHealthcareFHIR().catch(console.error)
@@ -4,7 +4,9 @@ import {
   NAMESPACES,
   parseTSV,
   parseCSV,
+  streamTSV,
   writeStandardTSV,
+  createStandardTSVWriter,
   writeTSV,
   toWikipediaStyleId,
   cleanDescription,
@@ -15,6 +17,8 @@ import {
   getAggregationsForType,
   type StandardRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS_ICD = NAMESPACES.ICD
 const NS_SNOMED = NAMESPACES.SNOMED
@@ -27,11 +31,13 @@ const REL_DIR = getRelationshipsPath()
 // ICD Interfaces
 // ============================================================================
 
-interface ICDChapterRow {
-  chapter_number: string
-  code_range: string
-  title: string
-}
+const ICD_CHAPTER_SCHEMA = defineSchema({
+  columns: {
+    chapter_number: {},
+    code_range: {},
+    title: {},
+  },
+})
 
 interface ICDCodeRow {
   code: string
@@ -54,16 +60,20 @@ interface SNOMEDHierarchyRow {
 // LOINC Interfaces
 // ============================================================================
 
-interface LOINCPartRow {
-  part_type: string
-  description: string
-  examples: string
-}
-
-interface LOINCCategoryRow {
-  category: string
-  description: string
-}
+const LOINC_PART_SCHEMA = defineSchema({
+  columns: {
+    part_type: {},
+    description: {},
+    examples: { optional: true },
+  },
+})
+
+const LOINC_CATEGORY_SCHEMA = defineSchema({
+  columns: {
+    category: {},
+    description: {},
+  },
+})
 
 // ============================================================================
 // ICD Transformation Functions
@@ -74,7 +84,7 @@ function transformICDChapters(): void {
   const sourceFile = join(SOURCE_DIR, 'ICD/chapters.tsv')
 
   try {
-    const data = parseTSV<ICDChapterRow>(sourceFile)
+    const data = parseTSV(sourceFile, ICD_CHAPTER_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.chapter_number)
@@ -95,16 +105,17 @@ function transformICDChapters(): void {
   }
 }
 
-function transformICDCodes(): void {
+async function transformICDCodes(): Promise<void> {
   console.log('Transforming ICD Codes...')
   const sourceFile = join(SOURCE_DIR, 'ICD/codes.tsv')
 
   try {
-    const data = parseTSV<ICDCodeRow>(sourceFile)
+    // ICD-10-CM has close to 100,000 codes, so rows are streamed straight to the output
+    const records = createStandardTSVWriter(join(DATA_DIR, 'ICD.Codes.tsv'))
 
-    const records: StandardRecord[] = data
-      .filter(row => row.code)
-      .map(row => ({
+    for await (const row of streamTSV<ICDCodeRow>(sourceFile)) {
+      if (!row.code) continue
+      await records.write({
         ns: NS_ICD,
         type: 'Code',
         id: toWikipediaStyleId(row.short_description || row.code),
@@ -112,10 +123,11 @@ function transformICDCodes(): void {
         description: cleanDescription(row.long_description || ''),
         code: row.code,
         includedIn: getAggregationsForType('Code'),
-      }))
+      })
+    }
 
-    writeStandardTSV(join(DATA_DIR, 'ICD.Codes.tsv'), records)
-    console.log(`  Processed ${records.length} ICD codes`)
+    await records.close()
+    console.log(`  Processed ${records.count} ICD codes`)
   } catch (e) {
     console.log('Error processing ICD codes:', e)
   }
@@ -125,16 +137,16 @@ function transformICDCodes(): void {
 // SNOMED Transformation Functions
 // ============================================================================
 
-function transformSNOMEDConcepts(): void {
+async function transformSNOMEDConcepts(): Promise<void> {
   console.log('Transforming SNOMED Concepts...')
   const sourceFile = join(SOURCE_DIR, 'SNOMED/hierarchy.tsv')
 
   try {
-    const data = parseTSV<SNOMEDHierarchyRow>(sourceFile)
+    const records = createStandardTSVWriter(join(DATA_DIR, 'SNOMED.Concepts.tsv'))
 
-    const records: StandardRecord[] = data
-      .filter(row => row.concept_id)
-      .map(row => ({
+    for await (const row of streamTSV<SNOMEDHierarchyRow>(sourceFile)) {
+      if (!row.concept_id) continue
+      await records.write({
         ns: NS_SNOMED,
         type: 'Concept',
         id: toWikipediaStyleId(row.fully_specified_name),
@@ -142,10 +154,11 @@ function transformSNOMEDConcepts(): void {
         description: cleanDescription(row.description),
         code: row.concept_id,
         includedIn: getAggregationsForType('Concept'),
-      }))
+      })
+    }
 
-    writeStandardTSV(join(DATA_DIR, 'SNOMED.Concepts.tsv'), records)
-    console.log(`  Processed ${records.length} SNOMED concepts`)
+    await records.close()
+    console.log(`  Processed ${records.count} SNOMED concepts`)
   } catch (e) {
     console.log('Error processing SNOMED concepts:', e)
   }
@@ -160,7 +173,7 @@ function transformLOINCParts(): void {
   const sourceFile = join(SOURCE_DIR, 'LOINC/parts.tsv')
 
   try {
-    const data = parseTSV<LOINCPartRow>(sourceFile)
+    const data = parseTSV(sourceFile, LOINC_PART_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.part_type)
@@ -186,7 +199,7 @@ function transformLOINCCategories(): void {
   const sourceFile = join(SOURCE_DIR, 'LOINC/categories.tsv')
 
   try {
-    const data = parseTSV<LOINCCategoryRow>(sourceFile)
+    const data = parseTSV(sourceFile, LOINC_CATEGORY_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.category)
@@ -218,11 +231,11 @@ export async function transformHealthcareTerminology(): Promise<void> {
   // Transform ICD
   console.log('\n--- ICD Transformation ---')
   transformICDChapters()
-  transformICDCodes()
+  await transformICDCodes()
 
   // Transform SNOMED
   console.log('\n--- SNOMED Transformation ---')
-  transformSNOMEDConcepts()
+  await transformSNOMEDConcepts()
 
   // Transform LOINC
   console.log('\n--- LOINC Transformation ---')
@@ -232,6 +245,21 @@ export async function transformHealthcareTerminology(): Promise<void> {
   console.log('\n=== Healthcare Terminology Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'healthcare-terminology',
+  description: 'Healthcare terminology standards (ICD, SNOMED, LOINC)',
+  run: transformHealthcareTerminology,
+  group: 'healthcare',
+  sources: ['Healthcare/ICD', 'Healthcare/SNOMED', 'Healthcare/LOINC'],
+  outputs: [
+    'ICD.Chapters.tsv',
+    'ICD.Codes.tsv',
+    'SNOMED.Concepts.tsv',
+    'LOINC.Parts.tsv',
+    'LOINC.Categories.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformHealthcareTerminology()
@@ -19,6 +19,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.IANA
 const SOURCE_DIR = getSourcePath('IANA')
@@ -162,6 +163,19 @@ export async function transformIANA(): Promise<void> {
   console.log('\n=== IANA Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'iana',
+  description: 'IANA timezone database',
+  run: transformIANA,
+  sources: ['IANA'],
+  outputs: [
+    'IANA.Timezones.tsv',
+    'IANA.Zones.tsv',
+    'relationships/Zone.Timezone.tsv',
+    'relationships/Zone.Country.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformIANA().catch(console.error)
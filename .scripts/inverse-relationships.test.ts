@@ -0,0 +1,105 @@
+/**
+ * Unit tests for inverse-relationships.ts
+ * Run with: bun test .scripts/inverse-relationships.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { invertRelationship, materializeInverses, formatReport } from './inverse-relationships'
+import { RELATIONSHIP_HEADERS } from './utils'
+import { relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+let relDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'inverse-relationships-'))
+  relDir = join(dataDir, 'relationships')
+  mkdirSync(relDir)
+
+  writeFileSync(join(relDir, 'NAICS.Hierarchy.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Wheat_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Grain_Farming', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(relDir, 'ONET.Occupation.Skill.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: '11-1011.00', toNs: 'onet.org.ai', toType: 'Skill', toId: '2.A.1.a', relationshipType: 'requiresSkill', importance: '3.75' },
+  ]))
+  writeFileSync(join(relDir, 'ONET.Occupation.Occupation.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'A', toNs: 'onet.org.ai', toType: 'Occupation', toId: 'B', relationshipType: 'relatedTo', relatednessScore: '' },
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'B', toNs: 'onet.org.ai', toType: 'Occupation', toId: 'A', relationshipType: 'relatedTo', relatednessScore: '' },
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'A', toNs: 'onet.org.ai', toType: 'Occupation', toId: 'C', relationshipType: 'relatedTo', relatednessScore: '' },
+  ]))
+  writeFileSync(join(relDir, 'Census.CBP.NAICS.tsv'), relationshipFixture([
+    { fromNs: 'us.org.ai', fromType: 'CBPEstablishment', fromId: 'A', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'classifiedAs' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('invertRelationship', () => {
+  test('swaps endpoints, uses the inverse type and marks the edge as derived', () => {
+    const record = {
+      fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: '11-1011.00',
+      toNs: 'onet.org.ai', toType: 'Skill', toId: '2.A.1.a',
+      relationshipType: 'requiresSkill', importance: '3.75',
+    }
+    expect(invertRelationship(record, 'ONET.Occupation.Skill.tsv')).toEqual({
+      fromNs: 'onet.org.ai', fromType: 'Skill', fromId: '2.A.1.a',
+      toNs: 'onet.org.ai', toType: 'Occupation', toId: '11-1011.00',
+      relationshipType: 'skillRequiredBy', importance: '3.75',
+      derived: 'true', derivedFrom: 'ONET.Occupation.Skill.tsv',
+    })
+    expect(invertRelationship({ ...record, relationshipType: 'classifiedAs' }, 'x.tsv')).toBeUndefined()
+  })
+})
+
+describe('materializeInverses', () => {
+  test('writes a parallel file per relationship file', async () => {
+    const reports = new Map((await materializeInverses(dataDir)).map(r => [r.file, r]))
+
+    expect(readFileSync(join(relDir, 'inverse', 'NAICS.Hierarchy.tsv'), 'utf-8')).toBe(relationshipFixture([
+      { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Oilseed_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Soybean_Farming', relationshipType: 'parentOf', derived: 'true', derivedFrom: 'NAICS.Hierarchy.tsv' },
+      { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Grain_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Wheat_Farming', relationshipType: 'parentOf', derived: 'true', derivedFrom: 'NAICS.Hierarchy.tsv' },
+    ]))
+    expect(readFileSync(join(relDir, 'inverse', 'ONET.Occupation.Skill.tsv'), 'utf-8').split('\n')[0])
+      .toBe([...RELATIONSHIP_HEADERS, 'importance', 'derived', 'derivedFrom'].join('\t'))
+
+    // Symmetric edges asserted in both directions are not derived again
+    expect(reports.get('ONET.Occupation.Occupation.tsv')).toEqual({
+      file: 'ONET.Occupation.Occupation.tsv', rows: 3, derived: 1, asserted: 2, unregistered: 0,
+    })
+
+    expect(reports.get('Census.CBP.NAICS.tsv')!.unregistered).toBe(1)
+    expect(existsSync(join(relDir, 'inverse', 'Census.CBP.NAICS.tsv'))).toBe(false)
+  })
+
+  test('writes a combined table and replaces previous output', async () => {
+    await materializeInverses(dataDir)
+    await materializeInverses(dataDir, 'combined')
+
+    expect(existsSync(join(relDir, 'inverse', 'NAICS.Hierarchy.tsv'))).toBe(false)
+    const lines = readFileSync(join(relDir, 'inverse', 'Inverses.tsv'), 'utf-8').split('\n')
+    expect(lines[0]).toBe([...RELATIONSHIP_HEADERS, 'derived', 'derivedFrom'].join('\t'))
+    expect(lines).toContain('onet.org.ai\tSkill\t2.A.1.a\tonet.org.ai\tOccupation\t11-1011.00\tskillRequiredBy\ttrue\tONET.Occupation.Skill.tsv')
+    expect(lines).toHaveLength(5)
+  })
+
+  test('does not read its own output as input', async () => {
+    await materializeInverses(dataDir)
+    const reports = await materializeInverses(dataDir)
+    expect(reports.map(r => r.file)).not.toContain('inverse')
+    expect(reports.reduce((sum, r) => sum + r.derived, 0)).toBe(4)
+  })
+})
+
+describe('formatReport', () => {
+  test('summarizes derived edges and skipped files', async () => {
+    const output = formatReport(await materializeInverses(dataDir))
+    expect(output).toContain('Census.CBP.NAICS.tsv: 1 rows with unregistered relationship types skipped')
+    expect(output).toContain('Derived 4 inverse edges from 7 edges in 4 relationship files (2 already asserted)')
+  })
+})
@@ -0,0 +1,180 @@
+#!/usr/bin/env bun
+/**
+ * Inverse Relationship Materialization
+ *
+ * Relationship files are written in one direction (an occupation requiresSkill a
+ * skill, a NAICS industry childOf its parent). This optional stage writes the
+ * inverse of every edge, using the inverse name registered in relationship-types.ts
+ * (skillRequiredBy, parentOf), so consumers can navigate in both directions.
+ *
+ * Derived edges go to .data/relationships/inverse/ and never mix with the edges the
+ * transforms assert. Every derived row has `derived` set to true and `derivedFrom`
+ * set to the file it was derived from. Two layouts are available:
+ *
+ *   parallel (default)  one file per relationship file, with the same name and the
+ *                       source file's property columns
+ *   combined            a single Inverses.tsv with the standard columns only
+ *
+ * Edges with unregistered types are skipped (run normalize-relationship-types.ts
+ * first), as are inverses the source file already asserts, such as both directions
+ * of a symmetric relatedTo.
+ *
+ * Usage:
+ *   bun run .scripts/inverse-relationships.ts [--combined]
+ */
+
+import { existsSync, rmSync } from 'fs'
+import { join } from 'path'
+import { streamDataTSV, createTSVWriter, listDataFiles, getDataPath, RELATIONSHIP_HEADERS, type TSVWriter } from './utils'
+import { getRelationshipType } from './relationship-types'
+import type { TransformerDescriptor } from './registry'
+
+export type InverseLayout = 'parallel' | 'combined'
+
+export const INVERSE_DIR = 'inverse'
+export const COMBINED_FILE = 'Inverses.tsv'
+
+const DERIVED_HEADERS = ['derived', 'derivedFrom']
+
+export interface InverseFileReport {
+  file: string
+  rows: number
+  derived: number
+  asserted: number                      // inverses already present in the file
+  unregistered: number                  // rows whose type is not in the vocabulary
+}
+
+function edgeKey(record: Record<string, string>): string {
+  return RELATIONSHIP_HEADERS.map(col => record[col]).join('\t')
+}
+
+/**
+ * Build the inverse of a relationship row, or undefined if its type is not registered
+ */
+export function invertRelationship(record: Record<string, string>, derivedFrom: string): Record<string, string> | undefined {
+  const type = getRelationshipType(record.relationshipType)
+  if (!type) return undefined
+
+  return {
+    ...record,
+    fromNs: record.toNs,
+    fromType: record.toType,
+    fromId: record.toId,
+    toNs: record.fromNs,
+    toType: record.fromType,
+    toId: record.fromId,
+    relationshipType: type.inverse,
+    derived: 'true',
+    derivedFrom,
+  }
+}
+
+/**
+ * Write the inverses of one relationship file. The parallel layout opens a writer
+ * for the file; the combined layout passes a shared one.
+ */
+export async function materializeInverseFile(
+  filePath: string,
+  file: string,
+  outputDir: string,
+  combined?: TSVWriter<Record<string, string>>
+): Promise<InverseFileReport> {
+  const report: InverseFileReport = { file, rows: 0, derived: 0, asserted: 0, unregistered: 0 }
+
+  // First pass: the edges the file asserts
+  const asserted = new Set<string>()
+  for await (const record of streamDataTSV(filePath)) {
+    asserted.add(edgeKey(record))
+  }
+
+  let writer = combined
+  for await (const record of streamDataTSV(filePath)) {
+    report.rows++
+
+    const inverse = invertRelationship(record, file)
+    if (!inverse) {
+      report.unregistered++
+      continue
+    }
+    if (asserted.has(edgeKey(inverse))) {
+      report.asserted++
+      continue
+    }
+
+    if (!writer) {
+      const headers = [...Object.keys(record).filter(col => !DERIVED_HEADERS.includes(col)), ...DERIVED_HEADERS]
+      writer = createTSVWriter(join(outputDir, file), headers)
+    }
+    await writer.write(inverse)
+    report.derived++
+  }
+
+  if (writer && writer !== combined) {
+    await writer.close()
+  }
+
+  return report
+}
+
+/**
+ * Write the inverses of every relationship file in a data directory, replacing
+ * the previous output
+ */
+export async function materializeInverses(dataDir: string = getDataPath(), layout: InverseLayout = 'parallel'): Promise<InverseFileReport[]> {
+  const relDir = join(dataDir, 'relationships')
+  const outputDir = join(relDir, INVERSE_DIR)
+  rmSync(outputDir, { recursive: true, force: true })
+  if (!existsSync(relDir)) return []
+
+  const combined = layout === 'combined'
+    ? createTSVWriter(join(outputDir, COMBINED_FILE), [...RELATIONSHIP_HEADERS, ...DERIVED_HEADERS])
+    : undefined
+
+  const reports: InverseFileReport[] = []
+  for (const file of listDataFiles(relDir)) {
+    reports.push(await materializeInverseFile(join(relDir, file), file, outputDir, combined))
+  }
+
+  await combined?.close()
+  return reports
+}
+
+/**
+ * Format reports for the console
+ */
+export function formatReport(reports: InverseFileReport[]): string {
+  const lines: string[] = []
+
+  for (const report of reports) {
+    if (report.unregistered > 0) {
+      lines.push(`${report.file}: ${report.unregistered} rows with unregistered relationship types skipped`)
+    }
+  }
+
+  const total = (key: 'rows' | 'derived' | 'asserted') => reports.reduce((sum, r) => sum + r[key], 0)
+  lines.push(`Derived ${total('derived')} inverse edges from ${total('rows')} edges in ${reports.length} relationship files (${total('asserted')} already asserted)`)
+
+  return lines.join('\n')
+}
+
+export async function transformInverseRelationships(): Promise<void> {
+  console.log('=== Inverse Relationships ===')
+  console.log(formatReport(await materializeInverses()))
+  console.log('=== Inverse Relationships Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'inverse-relationships',
+  description: 'Derived inverse edges for every relationship file (optional, runs only when named)',
+  run: transformInverseRelationships,
+  aliases: ['inverses'],
+  optional: true,
+  inputs: ['*'],
+  outputs: [`relationships/${INVERSE_DIR}`],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const layout: InverseLayout = process.argv.includes('--combined') ? 'combined' : 'parallel'
+  console.log(formatReport(await materializeInverses(getDataPath(), layout)))
+}
@@ -20,54 +20,62 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.ISO
 const SOURCE_DIR = getSourcePath('ISO')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface CountryRecord {
-  'ISO3166-1-Alpha-2': string
-  'ISO3166-1-Alpha-3': string
-  'ISO3166-1-numeric': string
-  'official_name_en': string
-  'CLDR display name': string
-  'Capital': string
-  'Continent': string
-  'Region Name': string
-  'Sub-region Name': string
-  'M49': string
-  'Region Code': string
-  'Sub-region Code': string
-  'ISO4217-currency_alphabetic_code': string
-  'ISO4217-currency_name': string
-  'Languages': string
-  'TLD': string
-  'wikidata_id': string
-}
-
-interface CurrencyRecord {
-  Entity: string
-  Currency: string
-  AlphabeticCode: string
-  NumericCode: string
-  MinorUnit: string
-  WithdrawalDate: string
-}
-
-interface LanguageRecord {
-  'alpha3-b': string
-  'alpha3-t': string
-  'alpha2': string
-  English: string
-  French: string
-}
+const COUNTRY_SCHEMA = defineSchema({
+  columns: {
+    'ISO3166-1-Alpha-2': {},
+    'ISO3166-1-Alpha-3': {},
+    'ISO3166-1-numeric': { optional: true },
+    'official_name_en': {},
+    'CLDR display name': {},
+    'Capital': { optional: true },
+    'Continent': { optional: true },
+    'Region Name': {},
+    'Sub-region Name': {},
+    'M49': { optional: true },
+    'Region Code': { optional: true },
+    'Sub-region Code': { optional: true },
+    'ISO4217-currency_alphabetic_code': {},
+    'ISO4217-currency_name': { optional: true },
+    'Languages': {},
+    'TLD': { optional: true },
+    'wikidata_id': { optional: true },
+  },
+})
+
+const CURRENCY_SCHEMA = defineSchema({
+  columns: {
+    Entity: { optional: true },
+    Currency: {},
+    AlphabeticCode: {},
+    NumericCode: { optional: true },
+    MinorUnit: {},
+    WithdrawalDate: {},
+  },
+})
+
+const LANGUAGE_SCHEMA = defineSchema({
+  columns: {
+    'alpha3-b': {},
+    'alpha3-t': {},
+    'alpha2': {},
+    English: {},
+    French: {},
+  },
+})
 
 function transformCountries(): void {
   console.log('Transforming ISO Countries...')
 
   const sourceFile = join(SOURCE_DIR, 'ISO.CountryCodes.csv')
-  const records = parseCSV<CountryRecord>(sourceFile)
+  const records = parseCSV(sourceFile, {}, COUNTRY_SCHEMA)
 
   const countries: StandardRecord[] = []
   const countryRegions: RelationshipRecord[] = []
@@ -143,7 +151,7 @@ function transformCurrencies(): void {
   console.log('Transforming ISO Currencies...')
 
   const sourceFile = join(SOURCE_DIR, 'ISO.CurrencyCodes.csv')
-  const records = parseCSV<CurrencyRecord>(sourceFile)
+  const records = parseCSV(sourceFile, {}, CURRENCY_SCHEMA)
 
   // Deduplicate currencies (same currency used by multiple countries)
   const currencyMap = new Map<string, StandardRecord>()
@@ -177,7 +185,7 @@ function transformLanguages(): void {
   console.log('Transforming ISO Languages...')
 
   const sourceFile = join(SOURCE_DIR, 'ISO.LanguageCodes.csv')
-  const records = parseCSV<LanguageRecord>(sourceFile)
+  const records = parseCSV(sourceFile, {}, LANGUAGE_SCHEMA)
 
   const languages: StandardRecord[] = []
 
@@ -210,11 +218,11 @@ function transformCountryLanguageRelationships(): void {
 
   // Load country data to get Languages field
   const countryFile = join(SOURCE_DIR, 'ISO.CountryCodes.csv')
-  const countryRecords = parseCSV<CountryRecord>(countryFile)
+  const countryRecords = parseCSV(countryFile, {}, COUNTRY_SCHEMA)
 
   // Load language data to build a mapping from alpha2 code to language ID
   const languageFile = join(SOURCE_DIR, 'ISO.LanguageCodes.csv')
-  const languageRecords = parseCSV<LanguageRecord>(languageFile)
+  const languageRecords = parseCSV(languageFile, {}, LANGUAGE_SCHEMA)
 
   // Build map: alpha2 language code -> language ID
   const languageCodeToId = new Map<string, string>()
@@ -264,7 +272,7 @@ function transformCountryLanguageRelationships(): void {
         toNs: NS,
         toType: 'Language',
         toId: languageId,
-        relationshipType: 'official_language',
+        relationshipType: 'hasOfficialLanguage',
       })
     }
   }
@@ -285,6 +293,21 @@ export async function transformISO(): Promise<void> {
   console.log('\n=== ISO Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'iso',
+  description: 'ISO standards (countries, currencies, languages)',
+  run: transformISO,
+  sources: ['ISO'],
+  outputs: [
+    'ISO.Countries.tsv',
+    'relationships/Country.Region.tsv',
+    'relationships/Country.Currency.tsv',
+    'ISO.Currencies.tsv',
+    'ISO.Languages.tsv',
+    'relationships/Country.Language.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformISO().catch(console.error)
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for lint-templates.ts
+ * Run with: bun test .scripts/lint-templates.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { lintTemplates, findSourceDirectory, loadSourceColumns, formatReport } from './lint-templates'
+
+const TEMPLATE = [
+  '---',
+  'layout: industry',
+  'source: NAICS',
+  '$type: NAICS/Industry',
+  '$id: https://standards.org.ai/NAICS/Industry/{industry.code}',
+  'sameAs: https://standards.org.ai/Industry/{industry.code}',
+  'canonical: https://naics.org.ai/Industry/{industry.code}',
+  'params:',
+  '  - Industry',
+  'schema:',
+  '  industry:',
+  '    code: 2022NAICSCode',
+  '    title: 2022NAICSTitle',
+  '    children: array',
+  '---',
+  '',
+  '# {industry.title}',
+  '',
+  '<Children of={industry.children} />',
+].join('\n')
+
+describe('lintTemplates', () => {
+  let dir: string
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(dir, path, '..'), { recursive: true })
+    writeFileSync(join(dir, path), content)
+  }
+  const lint = (files?: string[]) => lintTemplates(dir, join(dir, '.data'), join(dir, '.source'), files)
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lint-templates-'))
+    write('.data/NAICS.Industries.tsv', 'ns\ttype\tid\tname\tcode\nnaics.org.ai\tIndustry\tSoybean_Farming\tSoybean Farming\t111110\n')
+    write('.source/NAICS/NAICS.Industries.tsv', '2022NAICSCode\t2022NAICSTitle\n111110\tSoybean Farming\n')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('accepts a template consistent with its data and source', async () => {
+    write('NAICS/[Industry].mdx', TEMPLATE)
+    expect(await lint()).toEqual({ templates: 1, issues: [], skipped: [] })
+  })
+
+  test('reports each problem with its file and line', async () => {
+    write('NAICS/[Industry].mdx', TEMPLATE
+      .replace('$type: NAICS/Industry', '$type: NAICS/Sector')
+      .replace('https://naics.org.ai/', 'https://us.org.ai/')
+      .replace('title: 2022NAICSTitle', 'title: Title')
+      .replace('params:\n  - Industry', 'params:\n  - Sector')
+      .replace('# {industry.title}', '# {industry.title} ({industry.level})'))
+
+    const report = await lint()
+    const file = 'NAICS/[Industry].mdx'
+    expect(report.issues).toEqual([
+      { file, line: 4, rule: 'type', severity: 'error', message: 'Sector is not a type in .data' },
+      { file, line: 7, rule: 'canonical', severity: 'error', message: 'canonical is on us.org.ai, the canonical namespace of Sector is naics.org.ai' },
+      { file, line: 13, rule: 'schema-column', severity: 'error', message: 'industry.title maps to Title, which is not a column of the NAICS source files' },
+      { file, line: 17, rule: 'placeholder', severity: 'error', message: 'industry.level is not declared in the schema' },
+    ])
+    expect(formatReport(report)).toContain('NAICS/[Industry].mdx:17: error [placeholder] industry.level is not declared in the schema')
+  })
+
+  test('reports frontmatter that cannot be bound', async () => {
+    write('NAICS/[Industry].mdx', TEMPLATE.replace('params:\n  - Industry\n', ''))
+    write('NAICS/[Sector].mdx', TEMPLATE.replace('  industry:', '  industry'))
+
+    const { issues } = await lint()
+    expect(issues.map(i => [i.file, i.line, i.rule, i.message])).toEqual([
+      ['NAICS/[Industry].mdx', 1, 'frontmatter', 'params must list exactly one type'],
+      ['NAICS/[Sector].mdx', 11, 'frontmatter', 'cannot parse frontmatter "industry"'],
+    ])
+  })
+
+  test('skips checks whose inputs are Git LFS pointers', async () => {
+    const pointer = 'version https://git-lfs.github.com/spec/v1\noid sha256:0\nsize 1\n'
+    write('.data/NAICS.Industries.tsv', pointer)
+    write('.source/NAICS/NAICS.Industries.tsv', pointer)
+    write('NAICS/[Industry].mdx', TEMPLATE.replace('title: 2022NAICSTitle', 'title: Title'))
+
+    expect(await lint()).toEqual({
+      templates: 1,
+      issues: [],
+      skipped: ['type: .data has no entity files to read', 'schema-column: NAICS: source files are Git LFS pointers'],
+    })
+  })
+})
+
+describe('findSourceDirectory', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lint-templates-'))
+    for (const path of ['BLS', 'USPTO', 'Healthcare/SNOMED', 'W3C']) mkdirSync(join(dir, path), { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('resolves grouped, nested and shared source directories', () => {
+    expect(findSourceDirectory(dir, 'BLS/Education')).toEqual({ dir: join(dir, 'BLS'), unmatched: ['Education'] })
+    expect(findSourceDirectory(dir, 'US/USPTO')).toEqual({ dir: join(dir, 'USPTO'), unmatched: [] })
+    expect(findSourceDirectory(dir, 'SNOMED')).toEqual({ dir: join(dir, 'Healthcare/SNOMED'), unmatched: [] })
+    expect(findSourceDirectory(dir, 'ISO/639')).toBeUndefined()
+  })
+
+  test('reads the columns of the files named after a shared source', () => {
+    writeFileSync(join(dir, 'W3C/W3C.CSS.Properties.tsv'), 'name\tsyntax\n')
+    writeFileSync(join(dir, 'W3C/W3C.HTML.Elements.csv'), '"tag","category"\n')
+
+    expect(loadSourceColumns(dir, 'W3C/CSS')).toEqual(new Set(['name', 'syntax']))
+    expect(loadSourceColumns(dir, 'W3C/HTML')).toEqual(new Set(['tag', 'category']))
+    expect(loadSourceColumns(dir, 'W3C/RDF')).toBe('W3C/RDF: no source files')
+  })
+})
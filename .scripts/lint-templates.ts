@@ -0,0 +1,319 @@
+#!/usr/bin/env bun
+/**
+ * MDX Template Linter
+ *
+ * Checks every `[Type].mdx` route template (see templates.ts) against the data it
+ * is rendered from:
+ *
+ *   frontmatter    the frontmatter parses and binds one type to one variable
+ *   type           `$type` ends with the `params` type, and .data has rows of
+ *                  that type in the source's entity files
+ *   canonical      the `canonical` URL is on the type's canonical namespace: the
+ *                  NAMESPACES entry of the source (Healthcare/FHIR -> FHIR ->
+ *                  hl7.org.ai), else the canonical_domain of .ns-types.tsv
+ *   schema-column  every schema field maps to a column of the source files in
+ *                  .source, or to a value type (string, object, ...)
+ *   placeholder    every `{variable.field}` in the URLs and the body is declared
+ *                  in the schema
+ *
+ * A check whose inputs are missing (.data not generated, source files still Git
+ * LFS pointers) is skipped and listed as such rather than reported per template.
+ *
+ * Every issue carries the template file and the line it points at. The JSON
+ * report is meant for CI and editors; the text report prints one
+ * `file:line: severity [rule] message` line per issue. Exits with 1 when there
+ * are errors.
+ *
+ * Usage:
+ *   bun run .scripts/lint-templates.ts [--json] [template ...]
+ *
+ * Templates are given relative to the repository root; a directory selects every
+ * template below it.
+ */
+
+import { closeSync, existsSync, openSync, readdirSync, readSync, statSync } from 'fs'
+import { join } from 'path'
+import { streamDataTSV, listDataFiles, tokenizeCSV, getDataPath, NAMESPACES } from './utils'
+import { loadTypeConfigRows, TYPE_CONFIG_FILE, type TypeConfigRow } from './check-domains'
+import { findTemplates, loadTemplate, findReferences, fieldsIn, sourcePrefixes, SCHEMA_VALUE_TYPES, URL_FIELDS, type Template } from './templates'
+
+export type LintRule = 'frontmatter' | 'type' | 'canonical' | 'schema-column' | 'placeholder'
+export type LintSeverity = 'error' | 'warning'
+
+export interface LintIssue {
+  file: string
+  line: number
+  rule: LintRule
+  severity: LintSeverity
+  message: string
+}
+
+export interface LintContext {
+  namespaces: Record<string, string>
+  typeConfig: TypeConfigRow[]
+  dataTypes?: Map<string, Set<string>>   // .data file prefix -> entity types; unset when .data is unavailable
+  columns?: Set<string>                  // columns of the template's source files; unset when unavailable
+}
+
+export interface LintReport {
+  templates: number
+  issues: LintIssue[]
+  skipped: string[]                      // checks that could not run, and why
+}
+
+const LFS_POINTER = 'version https://git-lfs.github.com/spec/v1'
+const HEADER_BYTES = 64 * 1024
+
+/**
+ * The domain a template's canonical URL should be on, if one is declared
+ */
+export function expectedNamespace(template: Template, context: LintContext): string | undefined {
+  const segments = template.source.split('/').filter(Boolean)
+  const key = [...segments].reverse().find(segment => segment in context.namespaces)
+  if (key) return context.namespaces[key]
+
+  const row = context.typeConfig.find(r => r.type === template.param)
+  return row && row.canonical_domain && row.canonical_domain !== '-' ? row.canonical_domain : undefined
+}
+
+function hostOf(url: string): string | undefined {
+  return url.match(/^[a-z]+:\/\/([^/\s{}]+)/i)?.[1]
+}
+
+/**
+ * Lint one template
+ */
+export function lintTemplate(template: Template, context: LintContext): LintIssue[] {
+  const issues: LintIssue[] = []
+  const { file, variable } = template
+  const { lines } = template.frontmatter
+  const issue = (line: number, rule: LintRule, severity: LintSeverity, message: string) =>
+    issues.push({ file, line, rule, severity, message })
+
+  // $type
+  if (template.$type.split('/').pop() !== template.param) {
+    issue(lines.$type, 'type', 'error', `$type ${template.$type} does not end with the params type ${template.param}`)
+  }
+  if (context.dataTypes) {
+    const prefixes = [...sourcePrefixes(template.source)]
+    const inSource = prefixes.some(prefix => context.dataTypes!.get(prefix)?.has(template.param))
+    if (!inSource) {
+      const elsewhere = [...context.dataTypes].filter(([, types]) => types.has(template.param)).map(([prefix]) => prefix)
+      issue(lines.$type, 'type', 'error', elsewhere.length > 0
+        ? `${template.param} is not a type of the ${template.source} files in .data (found in ${elsewhere.sort().join(', ')})`
+        : `${template.param} is not a type in .data`)
+    }
+  }
+
+  // canonical
+  const expected = expectedNamespace(template, context)
+  const host = hostOf(template.urls.canonical)
+  if (!host) {
+    issue(lines.canonical, 'canonical', 'error', `canonical ${template.urls.canonical} is not an absolute URL`)
+  } else if (!expected) {
+    issue(lines.canonical, 'canonical', 'warning', `no canonical namespace is declared for ${template.source} or ${template.param}`)
+  } else if (host !== expected) {
+    issue(lines.canonical, 'canonical', 'error', `canonical is on ${host}, the canonical namespace of ${template.param} is ${expected}`)
+  }
+
+  // schema
+  if (context.columns) {
+    for (const [field, column] of Object.entries(template.schema)) {
+      if (SCHEMA_VALUE_TYPES.has(column) || context.columns.has(column)) continue
+      issue(lines[`schema.${variable}.${field}`], 'schema-column', 'error',
+        `${variable}.${field} maps to ${column}, which is not a column of the ${template.source} source files`)
+    }
+  }
+
+  // placeholders
+  for (const key of URL_FIELDS) {
+    for (const field of new Set(fieldsIn(template.urls[key], variable))) {
+      if (!(field in template.schema)) {
+        issue(lines[key], 'placeholder', 'error', `${key} uses ${variable}.${field}, which the schema does not declare`)
+      }
+    }
+  }
+  const reported = new Set<string>()
+  for (const reference of findReferences(template)) {
+    if (reference.field in template.schema) continue
+    const key = `${reference.line}:${reference.field}`
+    if (reported.has(key)) continue
+    reported.add(key)
+    issue(reference.line, 'placeholder', 'error', `${variable}.${reference.field} is not declared in the schema`)
+  }
+
+  return issues.sort((a, b) => a.line - b.line)
+}
+
+function readHeader(filePath: string): string[] | undefined {
+  const fd = openSync(filePath, 'r')
+  const buffer = Buffer.alloc(HEADER_BYTES)
+  const bytes = readSync(fd, buffer, 0, HEADER_BYTES, 0)
+  closeSync(fd)
+
+  const line = buffer.toString('utf-8', 0, bytes).split('\n')[0].replace(/\r$/, '').replace(/\uFEFF/g, '')
+  if (line.startsWith(LFS_POINTER)) return undefined
+  const cells = filePath.endsWith('.csv') ? tokenizeCSV(line).rows[0]?.fields ?? [] : line.split('\t')
+  return cells.map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+}
+
+function listSourceFiles(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name)
+    if (entry.isDirectory()) files.push(...listSourceFiles(fullPath))
+    else if (/\.(tsv|csv)$/.test(entry.name)) files.push(fullPath)
+  }
+  return files.sort()
+}
+
+/**
+ * The .source directory of a template source: the directory itself, its nearest
+ * existing parent (BLS/Education -> BLS), the path without a leading grouping
+ * segment (US/USPTO -> USPTO) or a nested directory of the same name
+ * (SNOMED -> Healthcare/SNOMED). `unmatched` lists the source segments below the
+ * directory found.
+ */
+export function findSourceDirectory(sourceDir: string, source: string): { dir: string; unmatched: string[] } | undefined {
+  const segments = source.split('/').filter(Boolean)
+  const isDir = (path: string) => existsSync(path) && statSync(path).isDirectory()
+
+  for (let i = segments.length; i > 0; i--) {
+    const dir = join(sourceDir, ...segments.slice(0, i))
+    if (isDir(dir)) return { dir, unmatched: segments.slice(i) }
+  }
+  for (let i = 1; i < segments.length; i++) {
+    const dir = join(sourceDir, ...segments.slice(i))
+    if (isDir(dir)) return { dir, unmatched: [] }
+  }
+  if (!isDir(sourceDir)) return undefined
+  const last = segments[segments.length - 1]
+  for (const entry of readdirSync(sourceDir, { withFileTypes: true })) {
+    const dir = join(sourceDir, entry.name, last)
+    if (entry.isDirectory() && isDir(dir)) return { dir, unmatched: [] }
+  }
+  return undefined
+}
+
+/**
+ * The columns of a template source's files, or why they cannot be read
+ */
+export function loadSourceColumns(sourceDir: string, source: string): Set<string> | string {
+  const found = findSourceDirectory(sourceDir, source)
+  if (!found) return `${source}: no source directory`
+
+  // Within a shared directory, keep the files named after the source (W3C/CSS -> W3C.CSS.*.tsv)
+  let files = listSourceFiles(found.dir)
+  if (found.unmatched.length > 0) {
+    files = files.filter(file => found.unmatched.some(segment => file.split('/').pop()!.split('.').includes(segment)))
+  }
+  if (files.length === 0) return `${source}: no source files`
+
+  const columns = new Set<string>()
+  let pointers = 0
+  for (const file of files) {
+    const header = readHeader(file)
+    if (header) header.forEach(column => columns.add(column))
+    else pointers++
+  }
+  if (pointers === files.length) return `${source}: source files are Git LFS pointers`
+  return columns
+}
+
+/**
+ * The entity types in each .data file prefix, or undefined when .data has none to read
+ */
+export async function loadDataTypes(dataDir: string): Promise<Map<string, Set<string>> | undefined> {
+  if (!existsSync(dataDir)) return undefined
+
+  const types = new Map<string, Set<string>>()
+  for (const file of listDataFiles(dataDir)) {
+    const filePath = join(dataDir, file)
+    const header = readHeader(filePath)
+    if (!header || !header.includes('type') || !header.includes('id')) continue
+
+    const prefix = file.split('.')[0]
+    let prefixTypes = types.get(prefix)
+    if (!prefixTypes) types.set(prefix, prefixTypes = new Set())
+    for await (const row of streamDataTSV(filePath)) {
+      if (row.type) prefixTypes.add(row.type)
+    }
+  }
+  return types.size > 0 ? types : undefined
+}
+
+/**
+ * Lint the given templates (all by default)
+ */
+export async function lintTemplates(
+  rootDir: string = process.cwd(),
+  dataDir: string = getDataPath(),
+  sourceDir: string = join(rootDir, '.source'),
+  files: string[] = findTemplates(rootDir),
+): Promise<LintReport> {
+  const issues: LintIssue[] = []
+  const skipped: string[] = []
+
+  const dataTypes = await loadDataTypes(dataDir)
+  if (!dataTypes) skipped.push('type: .data has no entity files to read')
+
+  const typeConfig = loadTypeConfigRows(join(rootDir, TYPE_CONFIG_FILE))
+  const sourceColumns = new Map<string, Set<string> | string>()
+
+  for (const file of files) {
+    let template: Template
+    try {
+      template = loadTemplate(rootDir, file)
+    } catch (e) {
+      // Messages read "<file>: ..." or "<file> line <n>: ..."
+      const message = (e as Error).message
+      const match = (message.startsWith(file) ? message.slice(file.length) : `: ${message}`).match(/^(?: line (\d+))?:\s*([\s\S]*)$/)
+      issues.push({ file, line: Number(match?.[1] ?? 1), rule: 'frontmatter', severity: 'error', message: match?.[2] ?? message })
+      continue
+    }
+
+    if (!sourceColumns.has(template.source)) {
+      const columns = loadSourceColumns(sourceDir, template.source)
+      sourceColumns.set(template.source, columns)
+      if (typeof columns === 'string') skipped.push(`schema-column: ${columns}`)
+    }
+    const columns = sourceColumns.get(template.source)
+    issues.push(...lintTemplate(template, {
+      namespaces: NAMESPACES,
+      typeConfig,
+      dataTypes,
+      columns: typeof columns === 'string' ? undefined : columns,
+    }))
+  }
+
+  return { templates: files.length, issues, skipped }
+}
+
+/**
+ * Format a report for the console
+ */
+export function formatReport(report: LintReport): string {
+  const lines = report.issues.map(i => `${i.file}:${i.line}: ${i.severity} [${i.rule}] ${i.message}`)
+  if (report.skipped.length > 0) {
+    lines.push(`Skipped ${report.skipped.length} checks:`, ...report.skipped.map(reason => `  ${reason}`))
+  }
+  const errors = report.issues.filter(i => i.severity === 'error').length
+  lines.push(`Linted ${report.templates} templates: ${errors} errors, ${report.issues.length - errors} warnings`)
+  return lines.join('\n')
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = process.argv.slice(2)
+  const selected = args.filter(arg => !arg.startsWith('--')).map(arg => arg.replace(/\/+$/, ''))
+  const files = findTemplates().filter(file =>
+    selected.length === 0 || selected.some(arg => file === arg || file.startsWith(`${arg}/`)))
+
+  if (files.length === 0) {
+    console.error(`No templates match ${selected.join(' ')}`)
+    process.exit(1)
+  }
+  const report = await lintTemplates(process.cwd(), getDataPath(), join(process.cwd(), '.source'), files)
+  console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : formatReport(report))
+  process.exit(report.issues.some(i => i.severity === 'error') ? 1 : 0)
+}
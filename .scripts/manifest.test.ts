@@ -0,0 +1,126 @@
+/**
+ * Unit tests for manifest.ts
+ * Run with: bun test .scripts/manifest.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { explainRebuild, fingerprintTransformer, hashOutputs, type FingerprintRoots } from './manifest'
+import type { RegisteredTransformer } from './registry'
+
+let root: string
+let roots: FingerprintRoots
+let transformer: RegisteredTransformer
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'manifest-'))
+  roots = { source: join(root, '.source'), data: join(root, '.data') }
+  mkdirSync(join(roots.source, 'NAICS'), { recursive: true })
+  mkdirSync(join(roots.data, 'relationships'), { recursive: true })
+  writeFileSync(join(roots.source, 'NAICS', 'NAICS.Industries.tsv'), 'code\ttitle\n11\tAgriculture')
+  writeFileSync(join(roots.data, 'SEC.SICCodes.tsv'), 'ns\ttype\tid')
+  writeFileSync(join(root, 'naics.ts'), 'export {}')
+
+  transformer = {
+    name: 'naics',
+    description: 'NAICS',
+    run: async () => {},
+    modulePath: join(root, 'naics.ts'),
+    sources: ['NAICS'],
+    inputs: ['SEC.SICCodes.tsv'],
+    outputs: ['NAICS.Industries.tsv'],
+  }
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('fingerprintTransformer', () => {
+  test('hashes sources, inputs and the script', () => {
+    const fingerprint = fingerprintTransformer(transformer, roots)
+    expect(Object.keys(fingerprint.sources)).toEqual(['NAICS/NAICS.Industries.tsv'])
+    expect(Object.keys(fingerprint.inputs)).toEqual(['SEC.SICCodes.tsv'])
+    expect(fingerprint.script).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  test('follows local imports of the script transitively', () => {
+    writeFileSync(join(root, 'naics.ts'), "import { parseTSV } from './utils'\nimport * as XLSX from 'xlsx'")
+    writeFileSync(join(root, 'utils.ts'), "import type { ColumnType } from './schema'")
+    writeFileSync(join(root, 'schema.ts'), 'export type ColumnType = string')
+    const before = fingerprintTransformer(transformer, roots).script
+
+    writeFileSync(join(root, 'schema.ts'), "export type ColumnType = 'string' | 'number'")
+    expect(fingerprintTransformer(transformer, roots).script).not.toBe(before)
+  })
+
+  test('hashes all of .data except own outputs for the * input', () => {
+    writeFileSync(join(roots.data, 'NAICS.Industries.tsv'), 'ns')
+    writeFileSync(join(roots.data, 'relationships', 'SOC.NAICS.tsv'), 'fromNs')
+    const fingerprint = fingerprintTransformer({ ...transformer, inputs: ['*'] }, roots)
+    expect(Object.keys(fingerprint.inputs).sort()).toEqual(['SEC.SICCodes.tsv', 'relationships/SOC.NAICS.tsv'])
+  })
+
+  test('excludes output directories from the * input', () => {
+    mkdirSync(join(roots.data, 'relationships', 'inverse'))
+    writeFileSync(join(roots.data, 'relationships', 'inverse', 'SOC.NAICS.tsv'), 'fromNs')
+    const fingerprint = fingerprintTransformer({ ...transformer, inputs: ['*'], outputs: ['relationships/inverse'] }, roots)
+    expect(Object.keys(fingerprint.inputs)).toEqual(['SEC.SICCodes.tsv'])
+  })
+})
+
+describe('explainRebuild', () => {
+  test('is empty when nothing changed', () => {
+    const fingerprint = fingerprintTransformer(transformer, roots)
+    expect(explainRebuild({ ...fingerprint, builtAt: '' }, fingerprintTransformer(transformer, roots))).toEqual([])
+  })
+
+  test('requires a build when there is no previous one', () => {
+    expect(explainRebuild(undefined, fingerprintTransformer(transformer, roots))).toEqual(['no previous build'])
+  })
+
+  test('names changed sources, inputs and script', () => {
+    const previous = { ...fingerprintTransformer(transformer, roots), builtAt: '' }
+    writeFileSync(join(roots.source, 'NAICS', 'NAICS.Industries.tsv'), 'code\ttitle\n11\tFarming')
+    writeFileSync(join(roots.source, 'NAICS', 'NAICS.Descriptions.tsv'), 'Code\tDescription')
+    writeFileSync(join(roots.data, 'SEC.SICCodes.tsv'), 'ns\ttype\tid\tname')
+    writeFileSync(join(root, 'naics.ts'), 'export const x = 1')
+
+    expect(explainRebuild(previous, fingerprintTransformer(transformer, roots))).toEqual([
+      'script changed',
+      'source changed: NAICS/NAICS.Industries.tsv, NAICS/NAICS.Descriptions.tsv (added)',
+      'input changed: SEC.SICCodes.tsv',
+    ])
+  })
+
+  test('requires a build when an output was deleted', () => {
+    writeFileSync(join(roots.data, 'NAICS.Industries.tsv'), 'ns\ttype\tid')
+    const previous = { ...fingerprintTransformer(transformer, roots), builtAt: '' }
+    expect(explainRebuild(previous, fingerprintTransformer(transformer, roots))).toEqual([])
+
+    rmSync(join(roots.data, 'NAICS.Industries.tsv'))
+    expect(explainRebuild(previous, fingerprintTransformer(transformer, roots))).toEqual([
+      'output changed: NAICS.Industries.tsv (removed)',
+    ])
+  })
+
+  test('requires a build when an output was modified', () => {
+    writeFileSync(join(roots.data, 'NAICS.Industries.tsv'), 'ns\ttype\tid')
+    const previous = { ...fingerprintTransformer(transformer, roots), builtAt: '' }
+
+    writeFileSync(join(roots.data, 'NAICS.Industries.tsv'), 'ns\ttype')
+    expect(explainRebuild(previous, fingerprintTransformer(transformer, roots))).toEqual([
+      'output changed: NAICS.Industries.tsv',
+    ])
+  })
+
+  test('always requires a build when no outputs are declared', () => {
+    const undeclared = { ...transformer, outputs: undefined }
+    expect(hashOutputs(undeclared, roots.data)).toBeUndefined()
+
+    const fingerprint = fingerprintTransformer(undeclared, roots)
+    expect(explainRebuild({ ...fingerprint, builtAt: '' }, fingerprint)).toEqual(['no declared outputs'])
+  })
+})
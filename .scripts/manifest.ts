@@ -0,0 +1,215 @@
+/**
+ * Build manifest for incremental generation
+ *
+ * For every transform that ran successfully, the manifest records content hashes of:
+ * - its .source inputs (the files or directories named in `sources`)
+ * - its upstream .data inputs (the files named in `inputs`)
+ * - its own script file and the local modules it imports, followed transitively
+ * - the .data outputs it wrote (the files or directories named in `outputs`)
+ *
+ * A transform whose hashes are unchanged since its last successful run, outputs
+ * included, can be skipped and its previous outputs kept. One that declares no
+ * outputs always runs, since a deleted or corrupted output could not be noticed.
+ *
+ * The manifest lives in .build/manifest.json, which is not committed.
+ */
+
+import { createHash } from 'crypto'
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs'
+import { join, dirname, relative } from 'path'
+import { ALL_INPUTS } from './pipeline'
+import { getDataPath, getSourcePath } from './utils'
+import type { RegisteredTransformer } from './registry'
+
+const MANIFEST_VERSION = 2
+
+export interface Fingerprint {
+  script: string
+  sources: Record<string, string>
+  inputs: Record<string, string>
+  outputs?: Record<string, string>      // undefined when the transform declares no outputs
+}
+
+export interface ManifestEntry extends Fingerprint {
+  builtAt: string
+}
+
+export interface BuildManifest {
+  version: number
+  transforms: Record<string, ManifestEntry>
+}
+
+export interface FingerprintRoots {
+  source: string
+  data: string
+}
+
+/**
+ * Get the build manifest path
+ */
+export function getManifestPath(): string {
+  return join(process.cwd(), '.build', 'manifest.json')
+}
+
+/**
+ * Load the build manifest, or an empty one if it is missing or from another version
+ */
+export function loadManifest(filePath: string = getManifestPath()): BuildManifest {
+  if (existsSync(filePath)) {
+    try {
+      const manifest = JSON.parse(readFileSync(filePath, 'utf-8')) as BuildManifest
+      if (manifest.version === MANIFEST_VERSION && manifest.transforms) {
+        return manifest
+      }
+    } catch (e) {
+      console.log(`Warning: ignoring unreadable build manifest ${filePath}:`, e)
+    }
+  }
+  return { version: MANIFEST_VERSION, transforms: {} }
+}
+
+/**
+ * Write the build manifest
+ */
+export function saveManifest(manifest: BuildManifest, filePath: string = getManifestPath()): void {
+  const dir = dirname(filePath)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  writeFileSync(filePath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * SHA-256 of a file's content
+ */
+export function hashFile(filePath: string): string {
+  return createHash('sha256').update(readFileSync(filePath)).digest('hex')
+}
+
+const LOCAL_IMPORT = /(?:\bfrom\s*|\bimport\s*\(?\s*)['"](\.{1,2}\/[^'"]+)['"]/g
+const MODULE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '/index.ts']
+
+function resolveLocalImport(fromFile: string, specifier: string): string | undefined {
+  const base = join(dirname(fromFile), specifier)
+  return MODULE_EXTENSIONS.map(ext => base + ext).find(path => existsSync(path) && statSync(path).isFile())
+}
+
+/**
+ * Hash a script together with every local module it imports, followed transitively,
+ * so a change to a shared helper such as utils.ts invalidates the transforms using it
+ */
+export function hashModule(modulePath: string): string {
+  const files = new Map<string, string>()
+  const stack = [modulePath]
+
+  while (stack.length > 0) {
+    const file = stack.pop()!
+    if (files.has(file)) continue
+    const content = readFileSync(file)
+    files.set(file, createHash('sha256').update(content).digest('hex'))
+
+    for (const match of content.toString('utf-8').matchAll(LOCAL_IMPORT)) {
+      const imported = resolveLocalImport(file, match[1])
+      if (imported) stack.push(imported)
+    }
+  }
+
+  const root = dirname(modulePath)
+  const lines = [...files].map(([file, hash]) => `${relative(root, file)}\t${hash}`).sort()
+  return createHash('sha256').update(lines.join('\n')).digest('hex')
+}
+
+/**
+ * Hash a file, or every file below a directory, keyed by path relative to root.
+ * Missing paths contribute no entries.
+ */
+function hashTree(root: string, path: string, hashes: Record<string, string>, exclude: Set<string> = new Set()): void {
+  const fullPath = join(root, path)
+  if (!existsSync(fullPath) || exclude.has(path)) return
+
+  if (statSync(fullPath).isDirectory()) {
+    for (const entry of readdirSync(fullPath).sort()) {
+      hashTree(root, path ? join(path, entry) : entry, hashes, exclude)
+    }
+  } else {
+    hashes[relative(root, fullPath)] = hashFile(fullPath)
+  }
+}
+
+/**
+ * Compute the current fingerprint of a transformer
+ */
+export function fingerprintTransformer(
+  transformer: RegisteredTransformer,
+  roots: FingerprintRoots = { source: getSourcePath(''), data: getDataPath() }
+): Fingerprint {
+  const sources: Record<string, string> = {}
+  for (const source of transformer.sources || []) {
+    hashTree(roots.source, source, sources)
+  }
+
+  const inputs: Record<string, string> = {}
+  for (const input of transformer.inputs || []) {
+    if (input === ALL_INPUTS) {
+      // Everything in .data except what the transform writes itself
+      hashTree(roots.data, '', inputs, new Set(transformer.outputs || []))
+    } else {
+      hashTree(roots.data, input, inputs)
+    }
+  }
+
+  return { script: hashModule(transformer.modulePath), sources, inputs, outputs: hashOutputs(transformer, roots.data) }
+}
+
+/**
+ * Hash the declared outputs of a transformer that exist in .data
+ */
+export function hashOutputs(transformer: RegisteredTransformer, dataDir: string = getDataPath()): Record<string, string> | undefined {
+  if (!transformer.outputs?.length) return undefined
+
+  const outputs: Record<string, string> = {}
+  for (const output of transformer.outputs) {
+    hashTree(dataDir, output, outputs)
+  }
+  return outputs
+}
+
+function describeChanges(kind: string, previous: Record<string, string>, current: Record<string, string>): string[] {
+  const changed: string[] = []
+  for (const path of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (!(path in previous)) {
+      changed.push(`${path} (added)`)
+    } else if (!(path in current)) {
+      changed.push(`${path} (removed)`)
+    } else if (previous[path] !== current[path]) {
+      changed.push(path)
+    }
+  }
+
+  if (changed.length === 0) return []
+  const sample = changed.slice(0, 3).join(', ')
+  const more = changed.length > 3 ? `, and ${changed.length - 3} more` : ''
+  return [`${kind} changed: ${sample}${more}`]
+}
+
+/**
+ * Explain why a transformer needs to run. An empty list means it is up to date.
+ */
+export function explainRebuild(previous: ManifestEntry | undefined, current: Fingerprint): string[] {
+  if (!previous) {
+    return ['no previous build']
+  }
+  if (!current.outputs) {
+    return ['no declared outputs']
+  }
+
+  const reasons: string[] = []
+  if (previous.script !== current.script) {
+    reasons.push('script changed')
+  }
+  reasons.push(...describeChanges('source', previous.sources, current.sources))
+  reasons.push(...describeChanges('input', previous.inputs, current.inputs))
+  reasons.push(...describeChanges('output', previous.outputs || {}, current.outputs))
+
+  return reasons
+}
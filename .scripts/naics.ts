@@ -2,8 +2,9 @@ import { join } from 'path'
 import {
   NAMESPACES,
   parseTSV,
+  disambiguateIds,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -12,36 +13,49 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import { findEditions, versionedFile, versionedId, type Edition } from './vintages'
+import { concordanceEditions, concordanceEditionCodes } from './concordances'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.NAICS
 const SOURCE_DIR = getSourcePath('NAICS')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface NAICSRow {
-  changeIndicator: string
-  '2022NAICSCode': string
-  '2022NAICSTitle': string
+// Code and title columns are named after the edition: 2022NAICSCode, 2017NAICSTitle
+function industrySchema(edition: Edition) {
+  return defineSchema({
+    columns: {
+      Code: { aliases: [`${edition.version}NAICSCode`] },
+      Title: { aliases: [`${edition.version}NAICSTitle`] },
+    },
+    allowUnknown: true,
+  })
 }
-
-interface NAICSDescriptionRow {
-  Code: string
-  Title: string
-  Description: string
-}
-
-// Load descriptions map from the descriptions file
-function loadDescriptions(): Map<string, string> {
+type NAICSRow = SchemaRow<ReturnType<typeof industrySchema>>
+
+const NAICS_DESCRIPTION_SCHEMA = defineSchema({
+  columns: {
+    Code: {},
+    Title: { optional: true },
+    Description: {},
+  },
+})
+
+// Load descriptions map from the edition's descriptions file
+function loadDescriptions(edition: Edition): Map<string, string> {
   const descMap = new Map<string, string>()
   try {
-    const descData = parseTSV<NAICSDescriptionRow>(join(SOURCE_DIR, 'NAICS.Descriptions.tsv'))
+    const descData = parseTSV(join(SOURCE_DIR, versionedFile('NAICS.Descriptions.tsv', edition)), NAICS_DESCRIPTION_SCHEMA)
     for (const row of descData) {
       if (row.Code && row.Description && row.Description !== 'NULL') {
         descMap.set(row.Code, row.Description)
       }
     }
-    console.log(`Loaded ${descMap.size} NAICS descriptions`)
+    console.log(`Loaded ${descMap.size} NAICS ${edition.version} descriptions`)
   } catch (e) {
     console.log('Warning: Could not load NAICS descriptions:', e)
   }
@@ -71,68 +85,54 @@ function getParentCode(code: string): string | null {
   return code.slice(0, -1)
 }
 
-function transformIndustries(descMap: Map<string, string>): void {
-  console.log('Transforming NAICS Industries...')
-  const data = parseTSV<NAICSRow>(join(SOURCE_DIR, 'NAICS.Industries.tsv'))
+function transformIndustries(edition: Edition, data: NAICSRow[], descMap: Map<string, string>): void {
+  console.log(`Transforming NAICS ${edition.version} Industries...`)
 
   // Clean titles (remove trailing 'T' markers)
   const cleanTitle = (title: string): string => {
     return title.replace(/T\s*$/, '').trim()
   }
 
-  // Create a map for hierarchy lookups
-  const codeMap = new Map<string, NAICSRow>()
-  for (const row of data) {
-    const code = row['2022NAICSCode']
-    if (code) {
-      codeMap.set(code, row)
-    }
-  }
-
-  const records: StandardRecord[] = data
-    .filter(row => row['2022NAICSCode'])
+  const records: StandardRecord[] = disambiguateIds(data
+    .filter(row => row.Code)
     .map(row => ({
       ns: NS,
-      type: getNAICSLevel(row['2022NAICSCode']),
-      id: toWikipediaStyleId(cleanTitle(row['2022NAICSTitle'])),
-      name: cleanTitle(row['2022NAICSTitle']),
-      description: cleanDescription(descMap.get(row['2022NAICSCode']) || ''),
-      code: row['2022NAICSCode'],
+      type: getNAICSLevel(row.Code),
+      id: versionedId(toWikipediaStyleId(cleanTitle(row.Title)), edition),
+      name: cleanTitle(row.Title),
+      description: cleanDescription(descMap.get(row.Code) || ''),
+      code: row.Code,
       includedIn: getAggregationsForType('Industry'),
-    }))
-
-  writeStandardTSV(join(DATA_DIR, 'NAICS.Industries.tsv'), records)
+      version: edition.version,
+    })))
 
-  // Write hierarchy relationships
-  const relationships: Record<string, string>[] = []
-  for (const row of data) {
-    const code = row['2022NAICSCode']
-    if (!code) continue
+  writeStandardTSV(join(DATA_DIR, versionedFile('NAICS.Industries.tsv', edition)), records)
 
+  // Write hierarchy relationships. Codes are shared between editions, so only the
+  // current edition's endpoints use codes; the others use their versioned ids.
+  const idByCode = new Map(records.map(r => [r.code, r.id]))
+  const idOf = (code: string) => edition.current ? code : idByCode.get(code)!
+  const relationships: RelationshipRecord[] = []
+  for (const { code } of records) {
     const parentCode = getParentCode(code)
-    if (parentCode && codeMap.has(parentCode)) {
+    if (parentCode && idByCode.has(parentCode)) {
       relationships.push({
         fromNs: NS,
         fromType: getNAICSLevel(code),
-        fromId: code,
+        fromId: idOf(code),
         toNs: NS,
         toType: getNAICSLevel(parentCode),
-        toId: parentCode,
+        toId: idOf(parentCode),
         relationshipType: 'childOf',
       })
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'NAICS.Industry.Industry.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, versionedFile('NAICS.Industry.Industry.tsv', edition)), relationships)
 }
 
-function transformSectors(descMap: Map<string, string>): void {
-  console.log('Extracting NAICS Sectors...')
-  const data = parseTSV<NAICSRow>(join(SOURCE_DIR, 'NAICS.Industries.tsv'))
+function transformSectors(edition: Edition, data: NAICSRow[], descMap: Map<string, string>): void {
+  console.log(`Extracting NAICS ${edition.version} Sectors...`)
 
   // Clean titles (remove trailing 'T' markers)
   const cleanTitle = (title: string): string => {
@@ -141,33 +141,65 @@ function transformSectors(descMap: Map<string, string>): void {
 
   // Extract only 2-digit sector codes
   const sectorRecords: StandardRecord[] = data
-    .filter(row => row['2022NAICSCode'] && row['2022NAICSCode'].length === 2)
+    .filter(row => row.Code && row.Code.length === 2)
     .map(row => ({
       ns: NS,
       type: 'Sector',
-      id: toWikipediaStyleId(cleanTitle(row['2022NAICSTitle'])),
-      name: cleanTitle(row['2022NAICSTitle']),
-      description: cleanDescription(descMap.get(row['2022NAICSCode']) || ''),
-      code: row['2022NAICSCode'],
+      id: versionedId(toWikipediaStyleId(cleanTitle(row.Title)), edition),
+      name: cleanTitle(row.Title),
+      description: cleanDescription(descMap.get(row.Code) || ''),
+      code: row.Code,
       includedIn: getAggregationsForType('Sector'),
+      version: edition.version,
     }))
 
-  writeStandardTSV(join(DATA_DIR, 'NAICS.Sectors.tsv'), sectorRecords)
+  writeStandardTSV(join(DATA_DIR, versionedFile('NAICS.Sectors.tsv', edition)), sectorRecords)
 }
 
 export async function transformNAICS(): Promise<void> {
   console.log('=== NAICS Transformation ===')
   ensureOutputDirs()
 
-  // Load descriptions first
-  const descMap = loadDescriptions()
+  // The current edition, and any other edition with a NAICS.Industries.<version>.tsv source
+  const editions = findEditions(SOURCE_DIR, 'NAICS.Industries.tsv', 'NAICS')
+  for (const edition of editions) {
+    const data = parseTSV(join(SOURCE_DIR, versionedFile('NAICS.Industries.tsv', edition)), industrySchema(edition))
+    const descMap = loadDescriptions(edition)
+    transformIndustries(edition, data, descMap)
+    transformSectors(edition, data, descMap)
+  }
 
-  transformIndustries(descMap)
-  transformSectors(descMap)
+  // Older editions without a source file: the national industries of their concordance
+  for (const edition of concordanceEditions('NAICS', editions)) {
+    const codes = concordanceEditionCodes('NAICS', edition)
+    transformIndustries(edition, codes.map(({ code, title }) => ({ Code: code, Title: title })), new Map())
+  }
 
   console.log('=== NAICS Transformation Complete ===\n')
 }
 
+// Editions read from a source file, and the older ones taken from a concordance table
+const EDITIONS = findEditions(SOURCE_DIR, 'NAICS.Industries.tsv', 'NAICS')
+const CONCORDANCE_EDITIONS = concordanceEditions('NAICS', EDITIONS)
+
+export const transformer: TransformerDescriptor = {
+  name: 'naics',
+  description: 'NAICS industry classification',
+  run: transformNAICS,
+  sources: ['NAICS', 'Census/2022_to_2017_NAICS.xlsx'],
+  outputs: [
+    ...EDITIONS.flatMap(edition => [
+      'NAICS.Industries.tsv',
+      'NAICS.Sectors.tsv',
+      'relationships/NAICS.Industry.Industry.tsv',
+    ].map(file => versionedFile(file, edition))),
+    ...CONCORDANCE_EDITIONS.flatMap(edition => [
+      'NAICS.Industries.tsv',
+      'relationships/NAICS.Industry.Industry.tsv',
+    ].map(file => versionedFile(file, edition))),
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformNAICS()
@@ -3,7 +3,7 @@ import {
   NAMESPACES,
   parseCSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -12,22 +12,28 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.NAPCS
 const SOURCE_DIR = getSourcePath('NAPCS')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface NAPCSRow {
-  Level: string
-  'Hierarchical structure': string
-  Code: string
-  Parent: string
-  'Code title': string
-  Superscript: string
-  'Code definition': string
-}
+const NAPCS_SCHEMA = defineSchema({
+  columns: {
+    Level: {},
+    'Hierarchical structure': { optional: true },
+    Code: {},
+    Parent: {},
+    'Code title': {},
+    Superscript: { optional: true },
+    'Code definition': {},
+  },
+})
+type NAPCSRow = SchemaRow<typeof NAPCS_SCHEMA>
 
 function getNAPCSType(level: string): string {
   switch (level) {
@@ -46,7 +52,7 @@ function getNAPCSType(level: string): string {
 
 function transformProducts(): void {
   console.log('Transforming NAPCS Products...')
-  const data = parseCSV<NAPCSRow>(join(SOURCE_DIR, 'NAPCS.2022.Structure.csv'))
+  const data = parseCSV(join(SOURCE_DIR, 'NAPCS.2022.Structure.csv'), {}, NAPCS_SCHEMA)
 
   // Create a map for hierarchy lookups
   const codeMap = new Map<string, NAPCSRow>()
@@ -71,7 +77,7 @@ function transformProducts(): void {
   writeStandardTSV(join(DATA_DIR, 'NAPCS.Products.tsv'), records)
 
   // Write hierarchy relationships
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
   for (const row of data) {
     if (!row.Code || !row.Parent) continue
 
@@ -89,16 +95,12 @@ function transformProducts(): void {
     }
   }
 
-  writeTSV(
-    join(REL_DIR, 'NAPCS.Product.Product.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'NAPCS.Product.Product.tsv'), relationships)
 }
 
 function transformGroups(): void {
   console.log('Extracting NAPCS Groups...')
-  const data = parseCSV<NAPCSRow>(join(SOURCE_DIR, 'NAPCS.2022.Structure.csv'))
+  const data = parseCSV(join(SOURCE_DIR, 'NAPCS.2022.Structure.csv'), {}, NAPCS_SCHEMA)
 
   // Extract only level 1 (Groups)
   const groupRecords: StandardRecord[] = data
@@ -126,6 +128,18 @@ export async function transformNAPCS(): Promise<void> {
   console.log('=== NAPCS Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'napcs',
+  description: 'NAPCS product classification',
+  run: transformNAPCS,
+  sources: ['NAPCS'],
+  outputs: [
+    'NAPCS.Products.tsv',
+    'relationships/NAPCS.Product.Product.tsv',
+    'NAPCS.Groups.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformNAPCS()
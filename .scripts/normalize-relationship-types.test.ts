@@ -0,0 +1,70 @@
+/**
+ * Unit tests for normalize-relationship-types.ts
+ * Run with: bun test .scripts/normalize-relationship-types.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { normalizeRelationshipTypes, formatReport } from './normalize-relationship-types'
+import { RELATIONSHIP_HEADERS } from './utils'
+import { relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'normalize-relationship-types-'))
+  mkdirSync(join(dataDir, 'relationships'))
+
+  writeFileSync(join(dataDir, 'relationships', 'SIC.NAICS.Crosswalk.tsv'), relationshipFixture([
+    { fromNs: 'us.org.ai', fromType: 'SICCode', fromId: 'Wheat', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Wheat_Farming', relationshipType: 'maps_to', partial: 'false', vintage: 'SIC 1987 to NAICS 1997' },
+    { fromNs: 'us.org.ai', fromType: 'SICCode', fromId: 'Rice', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Rice_Farming', relationshipType: 'mapsTo', partial: 'true', vintage: 'SIC 1987 to NAICS 1997' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'Census.CBP.NAICS.tsv'), relationshipFixture([
+    { fromNs: 'us.org.ai', fromType: 'CBPEstablishment', fromId: 'A', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'classifiedAs' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'Clean.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Oilseed_Farming', relationshipType: 'childOf' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('normalizeRelationshipTypes', () => {
+  test('reports legacy and unregistered types per file', async () => {
+    const reports = new Map((await normalizeRelationshipTypes(dataDir)).map(r => [r.file, r]))
+
+    expect(reports.get('SIC.NAICS.Crosswalk.tsv')).toEqual({
+      file: 'SIC.NAICS.Crosswalk.tsv', rows: 2, legacy: { maps_to: 1 }, unknown: {}, rewritten: 0,
+    })
+    expect(reports.get('Census.CBP.NAICS.tsv')!.unknown).toEqual({ classifiedAs: 1 })
+    expect(reports.get('Clean.tsv')!.legacy).toEqual({})
+  })
+
+  test('rewrites legacy types when fixing and keeps other columns', async () => {
+    const reports = await normalizeRelationshipTypes(dataDir, true)
+    expect(reports.find(r => r.file === 'SIC.NAICS.Crosswalk.tsv')!.rewritten).toBe(1)
+
+    const lines = readFileSync(join(dataDir, 'relationships', 'SIC.NAICS.Crosswalk.tsv'), 'utf-8').split('\n')
+    expect(lines[0]).toBe([...RELATIONSHIP_HEADERS, 'partial', 'vintage'].join('\t'))
+    expect(lines[1]).toBe('us.org.ai\tSICCode\tWheat\tnaics.org.ai\tIndustry\tWheat_Farming\tmapsTo\tfalse\tSIC 1987 to NAICS 1997')
+    expect(existsSync(join(dataDir, 'relationships', 'SIC.NAICS.Crosswalk.tsv.tmp'))).toBe(false)
+
+    // Unregistered types are left for a person to resolve
+    expect(readFileSync(join(dataDir, 'relationships', 'Census.CBP.NAICS.tsv'), 'utf-8')).toContain('\tclassifiedAs')
+  })
+})
+
+describe('formatReport', () => {
+  test('lists legacy and unregistered types', async () => {
+    const output = formatReport(await normalizeRelationshipTypes(dataDir))
+
+    expect(output).toContain('SIC.NAICS.Crosswalk.tsv:\n  maps_to -> mapsTo (1 rows)')
+    expect(output).toContain('  classifiedAs: not registered (1 rows)')
+    expect(output).not.toContain('Clean.tsv')
+    expect(output).toContain('1 rows with legacy types, 1 rows with unregistered types in 3 relationship files')
+  })
+})
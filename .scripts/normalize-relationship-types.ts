@@ -0,0 +1,107 @@
+#!/usr/bin/env bun
+/**
+ * Relationship Type Normalization
+ *
+ * Checks the relationshipType of every row in .data/relationships against the
+ * vocabulary in relationship-types.ts. Legacy names (maps_to, belongsToCategory, ...)
+ * are reported with their replacement; run with --fix to rewrite them in place.
+ * Types that are neither registered nor legacy are reported and left as they are.
+ *
+ * Usage:
+ *   bun run .scripts/normalize-relationship-types.ts [--fix]
+ */
+
+import { join } from 'path'
+import { rewriteDataTSV, listDataFiles, getDataPath } from './utils'
+import { normalizeRelationshipType } from './relationship-types'
+
+export interface RelationshipTypeReport {
+  file: string
+  rows: number
+  legacy: Record<string, number>        // legacy name -> rows
+  unknown: Record<string, number>       // unregistered name -> rows
+  rewritten: number
+}
+
+/**
+ * Check the relationship types of one file, optionally rewriting legacy names
+ */
+export async function normalizeRelationshipFile(
+  filePath: string,
+  file: string,
+  fix: boolean = false
+): Promise<RelationshipTypeReport> {
+  const report: RelationshipTypeReport = { file, rows: 0, legacy: {}, unknown: {}, rewritten: 0 }
+
+  await rewriteDataTSV(filePath, record => {
+    report.rows++
+
+    const type = record.relationshipType
+    const normalized = normalizeRelationshipType(type)
+    if (normalized === undefined) {
+      report.unknown[type] = (report.unknown[type] || 0) + 1
+    } else if (normalized !== type) {
+      report.legacy[type] = (report.legacy[type] || 0) + 1
+      if (fix) {
+        record.relationshipType = normalized
+        report.rewritten++
+      }
+    }
+  }, fix)
+
+  return report
+}
+
+/**
+ * Check every relationship file in a data directory
+ */
+export async function normalizeRelationshipTypes(dataDir: string = getDataPath(), fix: boolean = false): Promise<RelationshipTypeReport[]> {
+  const relDir = join(dataDir, 'relationships')
+
+  const reports: RelationshipTypeReport[] = []
+  for (const file of listDataFiles(relDir)) {
+    reports.push(await normalizeRelationshipFile(join(relDir, file), file, fix))
+  }
+  return reports
+}
+
+/**
+ * Format reports for the console, listing only files with legacy or unknown types
+ */
+export function formatReport(reports: RelationshipTypeReport[]): string {
+  const lines: string[] = []
+
+  for (const report of reports) {
+    const legacy = Object.entries(report.legacy)
+    const unknown = Object.entries(report.unknown)
+    if (legacy.length === 0 && unknown.length === 0) continue
+
+    lines.push(`${report.file}:${report.rewritten > 0 ? ` ${report.rewritten} rows rewritten` : ''}`)
+    for (const [type, rows] of legacy) {
+      lines.push(`  ${type} -> ${normalizeRelationshipType(type)} (${rows} rows)`)
+    }
+    for (const [type, rows] of unknown) {
+      lines.push(`  ${type || '(empty)'}: not registered (${rows} rows)`)
+    }
+  }
+
+  const count = (key: 'legacy' | 'unknown') =>
+    reports.reduce((sum, r) => sum + Object.values(r[key]).reduce((a, b) => a + b, 0), 0)
+  lines.push('')
+  lines.push(`${count('legacy')} rows with legacy types, ${count('unknown')} rows with unregistered types in ${reports.length} relationship files`)
+
+  return lines.join('\n')
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const fix = process.argv.includes('--fix')
+  const reports = await normalizeRelationshipTypes(getDataPath(), fix)
+  console.log(formatReport(reports))
+
+  // Legacy types rewritten by --fix no longer need attention
+  const remaining = reports.some(r =>
+    Object.keys(r.unknown).length > 0 || (!fix && Object.keys(r.legacy).length > 0)
+  )
+  process.exit(remaining ? 1 : 0)
+}
@@ -2,9 +2,9 @@ import { join } from 'path'
 import {
   NAMESPACES,
   parseTSV,
+  parseDataTSV,
   writeStandardTSV,
   writeRelationshipTSV,
-  writeTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -15,84 +15,134 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.ONET
 const SOURCE_DIR = getSourcePath('ONET')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface OccupationData {
-  oNETSOCCode: string
-  title: string
-  description: string
-}
-
-interface SkillData {
-  oNETSOCCode: string
-  elementID: string
-  elementName: string
-  scaleID: string
-  dataValue: string
-  n: string
-  standardError: string
-  lowerCIBound: string
-  upperCIBound: string
-  recommendSuppress: string
-  notRelevant: string
-  date: string
-  domainSource: string
-}
-
-interface AlternateTitle {
-  oNETSOCCode: string
-  alternateTitle: string
-  shortTitle: string
-  source: string
-}
-
-interface RelatedOccupation {
-  oNETSOCCode: string
-  relatedONETSOCCode: string
-  relatednessScore: string
-}
-
-interface TechnologySkill {
-  oNETSOCCode: string
-  example: string
-  commodityCode: string
-  commodityTitle: string
-  hotTechnology: string
-  inDemand: string
-}
-
-interface JobZone {
-  oNETSOCCode: string
-  jobZone: string
-  date: string
-  domainSource: string
-}
-
-interface TaskData {
-  oNETSOCCode: string
-  taskID: string
-  task: string
-  taskType: string
-  incumbents: string
-  date: string
-  domainSource: string
-}
-
-interface ReportedTitle {
-  oNETSOCCode: string
-  reportedJobTitle: string
-}
-
-interface ToolData {
-  oNETSOCCode: string
-  example: string
-  commodityCode: string
-  commodityTitle: string
-}
+const OCCUPATION_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    title: {},
+    description: {},
+  },
+})
+type OccupationData = SchemaRow<typeof OCCUPATION_SCHEMA>
+
+const SKILL_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    elementID: {},
+    elementName: {},
+    scaleID: {},
+    dataValue: {},
+    n: { optional: true },
+    standardError: { optional: true },
+    lowerCIBound: { optional: true },
+    upperCIBound: { optional: true },
+    recommendSuppress: { optional: true },
+    notRelevant: { optional: true },
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
+
+const ALTERNATE_TITLE_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    alternateTitle: {},
+    shortTitle: {},
+    source: { optional: true },
+  },
+})
+type AlternateTitle = SchemaRow<typeof ALTERNATE_TITLE_SCHEMA>
+
+const RELATED_OCCUPATION_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    relatedONETSOCCode: {},
+    relatednessScore: {},
+  },
+})
+
+const TECHNOLOGY_SKILL_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    example: {},
+    commodityCode: {},
+    commodityTitle: {},
+    hotTechnology: {},
+    inDemand: {},
+  },
+})
+
+const JOB_ZONE_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    jobZone: {},
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
+type JobZone = SchemaRow<typeof JOB_ZONE_SCHEMA>
+
+const TASK_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    taskID: {},
+    task: {},
+    taskType: {},
+    incumbents: { optional: true },
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
+
+const REPORTED_TITLE_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    reportedJobTitle: {},
+  },
+})
+type ReportedTitle = SchemaRow<typeof REPORTED_TITLE_SCHEMA>
+
+const TOOL_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    example: {},
+    commodityCode: {},
+    commodityTitle: {},
+  },
+})
+type ToolData = SchemaRow<typeof TOOL_SCHEMA>
+
+const DWA_REFERENCE_SCHEMA = defineSchema({
+  columns: {
+    elementID: { optional: true },
+    iWAID: {},
+    dWAID: {},
+    dWATitle: {},
+  },
+})
+
+const IWA_REFERENCE_SCHEMA = defineSchema({
+  columns: {
+    elementID: {},
+    iWAID: {},
+    iWATitle: {},
+  },
+})
+
+// Emerging tasks have the task statement columns, without a task type
+const EMERGING_TASK_SCHEMA = defineSchema({
+  columns: {
+    ...TASK_SCHEMA.columns,
+    taskType: { optional: true },
+  },
+})
 
 interface DWAData {
   oNETSOCCode: string
@@ -110,42 +160,53 @@ interface DWAData {
   domainSource: string
 }
 
-interface WorkContextData {
-  oNETSOCCode: string
-  elementID: string
-  elementName: string
-  scaleID: string
-  category: string
-  dataValue: string
-  n: string
-  standardError: string
-  lowerCIBound: string
-  upperCIBound: string
-  recommendSuppress: string
-  notRelevant: string
-  date: string
-  domainSource: string
-}
-
-interface EducationData {
-  oNETSOCCode: string
-  elementID: string
-  elementName: string
-  scaleID: string
-  category: string
-  dataValue: string
-  n: string
-  standardError: string
-  lowerCIBound: string
-  upperCIBound: string
-  recommendSuppress: string
-  date: string
-  domainSource: string
+const WORK_CONTEXT_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    elementID: {},
+    elementName: {},
+    scaleID: {},
+    category: {},
+    dataValue: {},
+    n: { optional: true },
+    standardError: { optional: true },
+    lowerCIBound: { optional: true },
+    upperCIBound: { optional: true },
+    recommendSuppress: { optional: true },
+    notRelevant: { optional: true },
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
+
+const EDUCATION_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    elementID: {},
+    elementName: {},
+    scaleID: {},
+    category: {},
+    dataValue: {},
+    n: { optional: true },
+    standardError: { optional: true },
+    lowerCIBound: { optional: true },
+    upperCIBound: { optional: true },
+    recommendSuppress: { optional: true },
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
+
+// Optional numeric source value (undefined when O*NET leaves it blank, suppresses it
+// or has text in its place, so the rating is omitted rather than written as 0 or NaN)
+function toNumber(value: string | undefined): number | undefined {
+  const number = value?.trim() ? Number(value) : NaN
+  return Number.isFinite(number) ? number : undefined
 }
 
 function transformOccupations(): void {
   console.log('Transforming ONET Occupations...')
-  const data = parseTSV<OccupationData>(join(SOURCE_DIR, 'ONET.OccupationData.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.OccupationData.tsv'), OCCUPATION_SCHEMA)
 
   const records: StandardRecord[] = data.map(row => ({
     ns: NS,
@@ -162,7 +223,7 @@ function transformOccupations(): void {
 
 function transformSkills(): void {
   console.log('Transforming ONET Skills...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.Skills.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.Skills.tsv'), SKILL_SCHEMA)
 
   // Get unique skills
   const skillsMap = new Map<string, { id: string; name: string }>()
@@ -188,7 +249,7 @@ function transformSkills(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Skills.tsv'), records)
 
   // Write occupation-skill relationships with ratings
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'IM') // Importance scale
     .map(row => ({
       fromNs: NS,
@@ -198,19 +259,15 @@ function transformSkills(): void {
       toType: 'Skill',
       toId: row.elementID,
       relationshipType: 'requiresSkill',
-      importance: row.dataValue,
+      properties: { importance: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Skill.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'importance']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Skill.tsv'), relationships)
 }
 
 function transformKnowledge(): void {
   console.log('Transforming ONET Knowledge...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.Knowledge.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.Knowledge.tsv'), SKILL_SCHEMA)
 
   // Get unique knowledge areas
   const knowledgeMap = new Map<string, { id: string; name: string }>()
@@ -236,7 +293,7 @@ function transformKnowledge(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Knowledge.tsv'), records)
 
   // Write occupation-knowledge relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'IM')
     .map(row => ({
       fromNs: NS,
@@ -246,19 +303,15 @@ function transformKnowledge(): void {
       toType: 'Knowledge',
       toId: row.elementID,
       relationshipType: 'requiresKnowledge',
-      importance: row.dataValue,
+      properties: { importance: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Knowledge.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'importance']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Knowledge.tsv'), relationships)
 }
 
 function transformAbilities(): void {
   console.log('Transforming ONET Abilities...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.Abilities.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.Abilities.tsv'), SKILL_SCHEMA)
 
   // Get unique abilities
   const abilitiesMap = new Map<string, { id: string; name: string }>()
@@ -284,7 +337,7 @@ function transformAbilities(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Abilities.tsv'), records)
 
   // Write occupation-ability relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'IM')
     .map(row => ({
       fromNs: NS,
@@ -294,19 +347,15 @@ function transformAbilities(): void {
       toType: 'Ability',
       toId: row.elementID,
       relationshipType: 'requiresAbility',
-      importance: row.dataValue,
+      properties: { importance: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Ability.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'importance']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Ability.tsv'), relationships)
 }
 
 function transformWorkActivities(): void {
   console.log('Transforming ONET Work Activities...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.WorkActivities.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.WorkActivities.tsv'), SKILL_SCHEMA)
 
   // Get unique work activities
   const activitiesMap = new Map<string, { id: string; name: string }>()
@@ -332,7 +381,7 @@ function transformWorkActivities(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.WorkActivities.tsv'), records)
 
   // Write occupation-work activity relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'IM')
     .map(row => ({
       fromNs: NS,
@@ -342,19 +391,15 @@ function transformWorkActivities(): void {
       toType: 'WorkActivity',
       toId: row.elementID,
       relationshipType: 'involvesActivity',
-      importance: row.dataValue,
+      properties: { importance: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.WorkActivity.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'importance']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.WorkActivity.tsv'), relationships)
 }
 
 function transformWorkStyles(): void {
   console.log('Transforming ONET Work Styles...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.WorkStyles.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.WorkStyles.tsv'), SKILL_SCHEMA)
 
   // Get unique work styles
   const stylesMap = new Map<string, { id: string; name: string }>()
@@ -380,7 +425,7 @@ function transformWorkStyles(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.WorkStyles.tsv'), records)
 
   // Write occupation-work style relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'IM')
     .map(row => ({
       fromNs: NS,
@@ -390,19 +435,15 @@ function transformWorkStyles(): void {
       toType: 'WorkStyle',
       toId: row.elementID,
       relationshipType: 'requiresStyle',
-      importance: row.dataValue,
+      properties: { importance: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.WorkStyle.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'importance']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.WorkStyle.tsv'), relationships)
 }
 
 function transformWorkValues(): void {
   console.log('Transforming ONET Work Values...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.WorkValues.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.WorkValues.tsv'), SKILL_SCHEMA)
 
   // Get unique work values
   const valuesMap = new Map<string, { id: string; name: string }>()
@@ -428,7 +469,7 @@ function transformWorkValues(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.WorkValues.tsv'), records)
 
   // Write occupation-work value relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'EX') // Extent scale for work values
     .map(row => ({
       fromNs: NS,
@@ -438,19 +479,15 @@ function transformWorkValues(): void {
       toType: 'WorkValue',
       toId: row.elementID,
       relationshipType: 'values',
-      extent: row.dataValue,
+      properties: { extent: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.WorkValue.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'extent']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.WorkValue.tsv'), relationships)
 }
 
 function transformInterests(): void {
   console.log('Transforming ONET Interests...')
-  const data = parseTSV<SkillData>(join(SOURCE_DIR, 'ONET.Interests.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.Interests.tsv'), SKILL_SCHEMA)
 
   // Get unique interests (RIASEC)
   const interestsMap = new Map<string, { id: string; name: string }>()
@@ -476,7 +513,7 @@ function transformInterests(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Interests.tsv'), records)
 
   // Write occupation-interest relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'OI') // Occupational Interest
     .map(row => ({
       fromNs: NS,
@@ -486,19 +523,15 @@ function transformInterests(): void {
       toType: 'Interest',
       toId: row.elementID,
       relationshipType: 'associatedInterest',
-      score: row.dataValue,
+      properties: { score: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Interest.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'score']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Interest.tsv'), relationships)
 }
 
 function transformTechnologySkills(): void {
   console.log('Transforming ONET Technology Skills...')
-  const data = parseTSV<TechnologySkill>(join(SOURCE_DIR, 'ONET.TechnologySkills.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.TechnologySkills.tsv'), TECHNOLOGY_SKILL_SCHEMA)
 
   // Get unique technology examples by name
   const techMap = new Map<string, { name: string; commodityCode: string; commodityTitle: string }>()
@@ -525,7 +558,7 @@ function transformTechnologySkills(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Technologies.tsv'), records)
 
   // Write occupation-technology relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.example)
     .map(row => ({
       fromNs: NS,
@@ -535,20 +568,18 @@ function transformTechnologySkills(): void {
       toType: 'Technology',
       toId: toWikipediaStyleId(row.example),
       relationshipType: 'usesTechnology',
-      hotTechnology: row.hotTechnology,
-      inDemand: row.inDemand,
+      properties: {
+        hotTechnology: row.hotTechnology === 'Y',
+        inDemand: row.inDemand === 'Y',
+      },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Technology.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'hotTechnology', 'inDemand']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Technology.tsv'), relationships)
 }
 
 function transformJobZones(): void {
   console.log('Transforming ONET Job Zones...')
-  const data = parseTSV<JobZone>(join(SOURCE_DIR, 'ONET.JobZones.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.JobZones.tsv'), JOB_ZONE_SCHEMA)
 
   // Job Zone descriptions
   const jobZoneDescriptions: Record<string, string> = {
@@ -580,7 +611,7 @@ function transformJobZones(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.JobZones.tsv'), records)
 
   // Write occupation-job zone relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.jobZone)
     .map(row => ({
       fromNs: NS,
@@ -592,18 +623,14 @@ function transformJobZones(): void {
       relationshipType: 'inJobZone',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.JobZone.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.JobZone.tsv'), relationships)
 }
 
 function transformRelatedOccupations(): void {
   console.log('Transforming ONET Related Occupations...')
-  const data = parseTSV<RelatedOccupation>(join(SOURCE_DIR, 'ONET.RelatedOccupations.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.RelatedOccupations.tsv'), RELATED_OCCUPATION_SCHEMA)
 
-  const relationships: Record<string, string>[] = data.map(row => ({
+  const relationships: RelationshipRecord[] = data.map(row => ({
     fromNs: NS,
     fromType: 'Occupation',
     fromId: row.oNETSOCCode,
@@ -611,19 +638,15 @@ function transformRelatedOccupations(): void {
     toType: 'Occupation',
     toId: row.relatedONETSOCCode,
     relationshipType: 'relatedTo',
-    relatednessScore: row.relatednessScore,
+    properties: { relatednessScore: toNumber(row.relatednessScore) },
   }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Occupation.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'relatednessScore']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Occupation.tsv'), relationships)
 }
 
 function transformAlternateTitles(): void {
   console.log('Transforming ONET Alternate Titles...')
-  const data = parseTSV<AlternateTitle>(join(SOURCE_DIR, 'ONET.AlternateTitles.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.AlternateTitles.tsv'), ALTERNATE_TITLE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.alternateTitle)
@@ -642,7 +665,7 @@ function transformAlternateTitles(): void {
 
 function transformTasks(): void {
   console.log('Transforming ONET Tasks...')
-  const data = parseTSV<TaskData>(join(SOURCE_DIR, 'ONET.TaskStatements.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.TaskStatements.tsv'), TASK_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.taskID && row.task)
@@ -659,7 +682,7 @@ function transformTasks(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Tasks.tsv'), records)
 
   // Write occupation-task relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.taskID && row.oNETSOCCode)
     .map(row => ({
       fromNs: NS,
@@ -669,19 +692,15 @@ function transformTasks(): void {
       toType: 'Task',
       toId: row.taskID,
       relationshipType: 'performsTask',
-      taskType: row.taskType || '',
+      properties: { taskType: row.taskType || '' },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Task.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'taskType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Task.tsv'), relationships)
 }
 
 function transformReportedTitles(): void {
   console.log('Transforming ONET Reported Titles...')
-  const data = parseTSV<ReportedTitle>(join(SOURCE_DIR, 'ONET.SampleOfReportedTitles.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.SampleOfReportedTitles.tsv'), REPORTED_TITLE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.reportedJobTitle)
@@ -700,7 +719,7 @@ function transformReportedTitles(): void {
 
 function transformTools(): void {
   console.log('Transforming ONET Tools...')
-  const data = parseTSV<ToolData>(join(SOURCE_DIR, 'ONET.ToolsUsed.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.ToolsUsed.tsv'), TOOL_SCHEMA)
 
   // Get unique tools
   const toolsMap = new Map<string, ToolData>()
@@ -723,7 +742,7 @@ function transformTools(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Tools.tsv'), records)
 
   // Write occupation-tool relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.example && row.oNETSOCCode)
     .map(row => ({
       fromNs: NS,
@@ -735,24 +754,14 @@ function transformTools(): void {
       relationshipType: 'usesTool',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Tool.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Tool.tsv'), relationships)
 }
 
 function transformDWA(): void {
   console.log('Transforming ONET Detailed Work Activities...')
 
   // Read DWA reference to get DWA definitions
-  interface DWAReference {
-    elementID: string
-    iWAID: string
-    dWAID: string
-    dWATitle: string
-  }
-  const dwaRef = parseTSV<DWAReference>(join(SOURCE_DIR, 'ONET.DWAReference.tsv'))
+  const dwaRef = parseTSV(join(SOURCE_DIR, 'ONET.DWAReference.tsv'), DWA_REFERENCE_SCHEMA)
 
   // Get unique DWAs
   const dwaMap = new Map<string, { id: string; name: string }>()
@@ -782,12 +791,7 @@ function transformIWA(): void {
   console.log('Transforming ONET Intermediate Work Activities...')
 
   // Read IWA reference to get IWA definitions
-  interface IWAReference {
-    elementID: string
-    iWAID: string
-    iWATitle: string
-  }
-  const iwaRef = parseTSV<IWAReference>(join(SOURCE_DIR, 'ONET.IWAReference.tsv'))
+  const iwaRef = parseTSV(join(SOURCE_DIR, 'ONET.IWAReference.tsv'), IWA_REFERENCE_SCHEMA)
 
   // Get unique IWAs
   const iwaMap = new Map<string, { id: string; name: string }>()
@@ -815,7 +819,7 @@ function transformIWA(): void {
 
 function transformWorkContext(): void {
   console.log('Transforming ONET Work Context...')
-  const data = parseTSV<WorkContextData>(join(SOURCE_DIR, 'ONET.WorkContext.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.WorkContext.tsv'), WORK_CONTEXT_SCHEMA)
 
   // Get unique work context elements
   const contextMap = new Map<string, { id: string; name: string; category: string }>()
@@ -860,7 +864,7 @@ function transformWorkContext(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.WorkContextCategories.tsv'), categoryRecords)
 
   // Write occupation-work context relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.scaleID === 'CX')
     .map(row => ({
       fromNs: NS,
@@ -870,19 +874,15 @@ function transformWorkContext(): void {
       toType: 'WorkContext',
       toId: row.elementID,
       relationshipType: 'hasContext',
-      context: row.dataValue,
+      properties: { context: toNumber(row.dataValue) },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.WorkContext.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'context']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.WorkContext.tsv'), relationships)
 }
 
 function transformEducation(): void {
   console.log('Transforming ONET Education...')
-  const data = parseTSV<EducationData>(join(SOURCE_DIR, 'ONET.EducationTrainingAndExperience.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.EducationTrainingAndExperience.tsv'), EDUCATION_SCHEMA)
 
   // Get unique education/training elements
   const eduMap = new Map<string, { id: string; name: string }>()
@@ -908,7 +908,7 @@ function transformEducation(): void {
   writeStandardTSV(join(DATA_DIR, 'ONET.Education.tsv'), records)
 
   // Write occupation-education relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.elementID && row.oNETSOCCode && row.scaleID === 'RL')
     .map(row => ({
       fromNs: NS,
@@ -918,15 +918,13 @@ function transformEducation(): void {
       toType: 'Education',
       toId: row.elementID,
       relationshipType: 'requiresEducation',
-      category: row.category || '',
-      value: row.dataValue || '',
+      properties: {
+        category: toNumber(row.category),
+        value: toNumber(row.dataValue),
+      },
     }))
 
-  writeTSV(
-    join(REL_DIR, 'ONET.Occupation.Education.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'category', 'value']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.Education.tsv'), relationships)
 }
 
 function transformScales(): void {
@@ -983,7 +981,7 @@ function transformRIASEC(): void {
 
 function transformTaskCategories(): void {
   console.log('Transforming ONET Task Categories...')
-  const data = parseTSV<TaskData>(join(SOURCE_DIR, 'ONET.TaskStatements.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'ONET.TaskStatements.tsv'), TASK_SCHEMA)
 
   // Get unique task types
   const categorySet = new Set<string>()
@@ -1010,7 +1008,7 @@ function transformEmergingTasks(): void {
   console.log('Transforming ONET Emerging Tasks...')
 
   try {
-    const data = parseTSV<TaskData>(join(SOURCE_DIR, 'ONET.EmergingTasks.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.EmergingTasks.tsv'), EMERGING_TASK_SCHEMA)
 
     const records: StandardRecord[] = data
       .filter(row => row.taskID && row.task)
@@ -1027,7 +1025,7 @@ function transformEmergingTasks(): void {
     writeStandardTSV(join(DATA_DIR, 'ONET.EmergingTasks.tsv'), records)
 
     // Write occupation-emerging task relationships
-    const relationships: Record<string, string>[] = data
+    const relationships: RelationshipRecord[] = data
       .filter(row => row.taskID && row.oNETSOCCode)
       .map(row => ({
         fromNs: NS,
@@ -1039,11 +1037,7 @@ function transformEmergingTasks(): void {
         relationshipType: 'hasEmergingTask',
       }))
 
-    writeTSV(
-      join(REL_DIR, 'ONET.Occupation.EmergingTask.tsv'),
-      relationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'ONET.Occupation.EmergingTask.tsv'), relationships)
   } catch (e) {
     console.log('Emerging tasks file not found, skipping...')
   }
@@ -1051,28 +1045,24 @@ function transformEmergingTasks(): void {
 
 // ========== NEW RELATIONSHIP EXTRACTION FUNCTIONS ==========
 
-interface TaskToDWA {
-  oNETSOCCode: string
-  taskID: string
-  dWAID: string
-  date: string
-  domainSource: string
-}
+const TASK_TO_DWA_SCHEMA = defineSchema({
+  columns: {
+    oNETSOCCode: {},
+    taskID: {},
+    dWAID: {},
+    date: { optional: true },
+    domainSource: { optional: true },
+  },
+})
 
 function transformTaskDWARelationships(): void {
   console.log('Extracting Task → DWA relationships...')
 
   try {
-    const data = parseTSV<TaskToDWA>(join(SOURCE_DIR, 'ONET.TasksToDWAs.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.TasksToDWAs.tsv'), TASK_TO_DWA_SCHEMA)
 
     // Load DWA reference to get titles for IDs
-    interface DWARef {
-      elementID: string
-      iWAID: string
-      dWAID: string
-      dWATitle: string
-    }
-    const dwaRef = parseTSV<DWARef>(join(SOURCE_DIR, 'ONET.DWAReference.tsv'))
+    const dwaRef = parseTSV(join(SOURCE_DIR, 'ONET.DWAReference.tsv'), DWA_REFERENCE_SCHEMA)
     const dwaIdToTitle = new Map<string, string>()
     for (const row of dwaRef) {
       if (row.dWAID && row.dWATitle) {
@@ -1103,20 +1093,8 @@ function transformIWADWARelationships(): void {
   console.log('Extracting IWA → DWA hierarchy relationships...')
 
   try {
-    interface DWARef {
-      elementID: string
-      iWAID: string
-      dWAID: string
-      dWATitle: string
-    }
-    const dwaRef = parseTSV<DWARef>(join(SOURCE_DIR, 'ONET.DWAReference.tsv'))
-
-    interface IWARef {
-      elementID: string
-      iWAID: string
-      iWATitle: string
-    }
-    const iwaRef = parseTSV<IWARef>(join(SOURCE_DIR, 'ONET.IWAReference.tsv'))
+    const dwaRef = parseTSV(join(SOURCE_DIR, 'ONET.DWAReference.tsv'), DWA_REFERENCE_SCHEMA)
+    const iwaRef = parseTSV(join(SOURCE_DIR, 'ONET.IWAReference.tsv'), IWA_REFERENCE_SCHEMA)
 
     // Build IWA ID to title map
     const iwaIdToTitle = new Map<string, string>()
@@ -1171,18 +1149,20 @@ function transformIWADWARelationships(): void {
   }
 }
 
-interface AbilityToWorkActivity {
-  abilitiesElementID: string
-  abilitiesElementName: string
-  workActivitiesElementID: string
-  workActivitiesElementName: string
-}
+const ABILITY_TO_WORK_ACTIVITY_SCHEMA = defineSchema({
+  columns: {
+    abilitiesElementID: { optional: true },
+    abilitiesElementName: {},
+    workActivitiesElementID: { optional: true },
+    workActivitiesElementName: {},
+  },
+})
 
 function transformAbilityWorkActivityRelationships(): void {
   console.log('Extracting Ability → WorkActivity relationships...')
 
   try {
-    const data = parseTSV<AbilityToWorkActivity>(join(SOURCE_DIR, 'ONET.AbilitiesToWorkActivities.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.AbilitiesToWorkActivities.tsv'), ABILITY_TO_WORK_ACTIVITY_SCHEMA)
 
     const relationships: RelationshipRecord[] = data
       .filter(row => row.abilitiesElementName && row.workActivitiesElementName)
@@ -1203,18 +1183,20 @@ function transformAbilityWorkActivityRelationships(): void {
   }
 }
 
-interface SkillToWorkActivity {
-  skillsElementID: string
-  skillsElementName: string
-  workActivitiesElementID: string
-  workActivitiesElementName: string
-}
+const SKILL_TO_WORK_ACTIVITY_SCHEMA = defineSchema({
+  columns: {
+    skillsElementID: { optional: true },
+    skillsElementName: {},
+    workActivitiesElementID: { optional: true },
+    workActivitiesElementName: {},
+  },
+})
 
 function transformSkillWorkActivityRelationships(): void {
   console.log('Extracting Skill → WorkActivity relationships...')
 
   try {
-    const data = parseTSV<SkillToWorkActivity>(join(SOURCE_DIR, 'ONET.SkillsToWorkActivities.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.SkillsToWorkActivities.tsv'), SKILL_TO_WORK_ACTIVITY_SCHEMA)
 
     const relationships: RelationshipRecord[] = data
       .filter(row => row.skillsElementName && row.workActivitiesElementName)
@@ -1235,18 +1217,20 @@ function transformSkillWorkActivityRelationships(): void {
   }
 }
 
-interface AbilityToWorkContext {
-  abilitiesElementID: string
-  abilitiesElementName: string
-  workContextElementID: string
-  workContextElementName: string
-}
+const ABILITY_TO_WORK_CONTEXT_SCHEMA = defineSchema({
+  columns: {
+    abilitiesElementID: { optional: true },
+    abilitiesElementName: {},
+    workContextElementID: { optional: true },
+    workContextElementName: {},
+  },
+})
 
 function transformAbilityWorkContextRelationships(): void {
   console.log('Extracting Ability → WorkContext relationships...')
 
   try {
-    const data = parseTSV<AbilityToWorkContext>(join(SOURCE_DIR, 'ONET.AbilitiesToWorkContext.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.AbilitiesToWorkContext.tsv'), ABILITY_TO_WORK_CONTEXT_SCHEMA)
 
     const relationships: RelationshipRecord[] = data
       .filter(row => row.abilitiesElementName && row.workContextElementName)
@@ -1267,18 +1251,20 @@ function transformAbilityWorkContextRelationships(): void {
   }
 }
 
-interface SkillToWorkContext {
-  skillsElementID: string
-  skillsElementName: string
-  workContextElementID: string
-  workContextElementName: string
-}
+const SKILL_TO_WORK_CONTEXT_SCHEMA = defineSchema({
+  columns: {
+    skillsElementID: { optional: true },
+    skillsElementName: {},
+    workContextElementID: { optional: true },
+    workContextElementName: {},
+  },
+})
 
 function transformSkillWorkContextRelationships(): void {
   console.log('Extracting Skill → WorkContext relationships...')
 
   try {
-    const data = parseTSV<SkillToWorkContext>(join(SOURCE_DIR, 'ONET.SkillsToWorkContext.tsv'))
+    const data = parseTSV(join(SOURCE_DIR, 'ONET.SkillsToWorkContext.tsv'), SKILL_TO_WORK_CONTEXT_SCHEMA)
 
     const relationships: RelationshipRecord[] = data
       .filter(row => row.skillsElementName && row.workContextElementName)
@@ -1313,13 +1299,13 @@ function transformONETNAICSRelationships(): void {
       toCode: string
       relationshipType: string
     }
-    const socToNaics = parseTSV<SOCNAICSRecord>(join(REL_DIR, 'SOC.NAICS.tsv'))
+    const socToNaics = parseDataTSV<SOCNAICSRecord>(join(REL_DIR, 'SOC.NAICS.tsv'))
 
     // Read ONET Occupations to get code-to-id mapping
-    const onetOccupations = parseTSV<StandardRecord>(join(DATA_DIR, 'ONET.Occupations.tsv'))
+    const onetOccupations = parseDataTSV<StandardRecord>(join(DATA_DIR, 'ONET.Occupations.tsv'))
 
     // Read NAICS Industries to get code-to-id mapping
-    const naicsIndustries = parseTSV<StandardRecord>(join(DATA_DIR, 'NAICS.Industries.tsv'))
+    const naicsIndustries = parseDataTSV<StandardRecord>(join(DATA_DIR, 'NAICS.Industries.tsv'))
 
     // Build lookup maps
     const naicsCodeToIdType = new Map<string, { id: string; type: string }>()
@@ -1359,7 +1345,7 @@ function transformONETNAICSRelationships(): void {
               toNs: NAMESPACES.NAICS,
               toType: naicsInfo.type,
               toId: naicsInfo.id,
-              relationshipType: 'employed_in',
+              relationshipType: 'employedIn',
             })
           }
         }
@@ -1413,6 +1399,62 @@ export async function transformONET(): Promise<void> {
   console.log('=== ONET Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'onet',
+  description: 'O*NET occupational data',
+  run: transformONET,
+  sources: ['ONET'],
+  inputs: ['relationships/SOC.NAICS.tsv', 'NAICS.Industries.tsv'],
+  outputs: [
+    'ONET.Occupations.tsv',
+    'ONET.Skills.tsv',
+    'relationships/ONET.Occupation.Skill.tsv',
+    'ONET.Knowledge.tsv',
+    'relationships/ONET.Occupation.Knowledge.tsv',
+    'ONET.Abilities.tsv',
+    'relationships/ONET.Occupation.Ability.tsv',
+    'ONET.WorkActivities.tsv',
+    'relationships/ONET.Occupation.WorkActivity.tsv',
+    'ONET.WorkStyles.tsv',
+    'relationships/ONET.Occupation.WorkStyle.tsv',
+    'ONET.WorkValues.tsv',
+    'relationships/ONET.Occupation.WorkValue.tsv',
+    'ONET.Interests.tsv',
+    'relationships/ONET.Occupation.Interest.tsv',
+    'ONET.Technologies.tsv',
+    'relationships/ONET.Occupation.Technology.tsv',
+    'ONET.JobZones.tsv',
+    'relationships/ONET.Occupation.JobZone.tsv',
+    'relationships/ONET.Occupation.Occupation.tsv',
+    'ONET.AlternateTitles.tsv',
+    'ONET.Tasks.tsv',
+    'relationships/ONET.Occupation.Task.tsv',
+    'ONET.ReportedTitles.tsv',
+    'ONET.Tools.tsv',
+    'relationships/ONET.Occupation.Tool.tsv',
+    'ONET.DWA.tsv',
+    'ONET.IWA.tsv',
+    'ONET.WorkContext.tsv',
+    'ONET.WorkContextCategories.tsv',
+    'relationships/ONET.Occupation.WorkContext.tsv',
+    'ONET.Education.tsv',
+    'relationships/ONET.Occupation.Education.tsv',
+    'ONET.Scales.tsv',
+    'ONET.RIASEC.tsv',
+    'ONET.TaskCategories.tsv',
+    'ONET.EmergingTasks.tsv',
+    'relationships/ONET.Occupation.EmergingTask.tsv',
+    'relationships/ONET.Task.DWA.tsv',
+    'relationships/ONET.IWA.DWA.tsv',
+    'relationships/ONET.WorkActivity.IWA.tsv',
+    'relationships/ONET.Ability.WorkActivity.tsv',
+    'relationships/ONET.Skill.WorkActivity.tsv',
+    'relationships/ONET.Ability.WorkContext.tsv',
+    'relationships/ONET.Skill.WorkContext.tsv',
+    'relationships/ONET.Occupation.NAICS.Industry.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformONET()
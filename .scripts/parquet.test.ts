@@ -0,0 +1,101 @@
+/**
+ * Unit tests for parquet.ts
+ * Run with: bun test .scripts/parquet.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createParquetWriter, readParquet, type ParquetColumn } from './parquet'
+
+const COLUMNS: ParquetColumn[] = [
+  { name: 'ns', type: 'string', dictionary: true },
+  { name: 'id', type: 'string' },
+  { name: 'description', type: 'string', optional: true },
+  { name: 'importance', type: 'number', optional: true },
+  { name: 'level', type: 'integer' },
+  { name: 'partial', type: 'boolean' },
+]
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'parquet-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('createParquetWriter', () => {
+  test('round-trips typed values and nulls', async () => {
+    const rows = [
+      { ns: 'naics.org.ai', id: 'Soybean_Farming', description: 'Soybeans, "dry"\tand\nwet', importance: 3.75, level: 6, partial: true },
+      { ns: 'onet.org.ai', id: 'Chief_Executives', description: null, importance: null, level: -2, partial: false },
+      { ns: 'naics.org.ai', id: 'Café_Ünïcode', description: '', importance: 0, level: 9_007_199_254_740_991, partial: false },
+    ]
+    const filePath = join(dir, 'things.parquet')
+    const writer = createParquetWriter(filePath, COLUMNS, { metadata: { sources: 'NAICS.Industries.tsv' } })
+    for (const row of rows) await writer.write(row)
+    await writer.close()
+
+    const bytes = readFileSync(filePath)
+    expect(bytes.subarray(0, 4).toString()).toBe('PAR1')
+    expect(bytes.subarray(bytes.length - 4).toString()).toBe('PAR1')
+
+    const file = readParquet(filePath)
+    expect(file.columns).toEqual(COLUMNS.map(({ dictionary, ...column }) => column))
+    expect(file.rows).toEqual(rows)
+    expect(file.metadata).toEqual({ sources: 'NAICS.Industries.tsv' })
+  })
+
+  test('splits rows into row groups and encodes long runs', async () => {
+    const filePath = join(dir, 'relationships.parquet')
+    const writer = createParquetWriter(filePath, COLUMNS, { rowGroupSize: 1000, compression: 'uncompressed' })
+    const rows = Array.from({ length: 2500 }, (_, i) => ({
+      ns: i < 1200 ? 'naics.org.ai' : `ns${i % 20}.org.ai`,
+      id: `id${i}`,
+      description: i % 3 === 0 ? null : `row ${i}`,
+      importance: i < 100 ? null : i / 4,
+      level: i,
+      partial: i % 7 === 0,
+    }))
+    for (const row of rows) await writer.write(row)
+    await writer.close()
+
+    const file = readParquet(filePath)
+    expect(file.rowGroups).toBe(3)
+    expect(file.rows).toEqual(rows)
+  })
+
+  test('rejects missing and mistyped values', async () => {
+    const writer = createParquetWriter(join(dir, 'bad.parquet'), COLUMNS)
+    await expect(writer.write({ ns: 'naics.org.ai', id: null, level: 1, partial: true })).rejects.toThrow('missing value in required column id of row 1')
+    await expect(writer.write({ ns: 'naics.org.ai', id: 'a', level: 1.5, partial: true })).rejects.toThrow('invalid integer 1.5 in column level')
+    await expect(writer.write({ ns: 'naics.org.ai', id: 'a', level: 1, partial: 'Y' })).rejects.toThrow('invalid boolean "Y" in column partial')
+    await writer.write({ ns: 'naics.org.ai', id: 'a', level: 1, partial: true })
+    await writer.close()
+
+    expect(readParquet(join(dir, 'bad.parquet')).rows).toEqual([
+      { ns: 'naics.org.ai', id: 'a', description: null, importance: null, level: 1, partial: true },
+    ])
+  })
+
+  test('writes a valid file with no rows', async () => {
+    const filePath = join(dir, 'empty.parquet')
+    const writer = createParquetWriter(filePath, COLUMNS)
+    await writer.close()
+
+    expect(existsSync(filePath)).toBe(true)
+    expect(readParquet(filePath)).toEqual({ columns: COLUMNS.map(({ dictionary, ...column }) => column), rows: [], rowGroups: 0, metadata: {} })
+  })
+})
+
+describe('readParquet', () => {
+  test('rejects files that are not Parquet', () => {
+    const filePath = join(dir, 'things.tsv')
+    writeFileSync(filePath, 'ns\ttype\tid\n')
+    expect(() => readParquet(filePath)).toThrow('not a Parquet file')
+  })
+})
@@ -0,0 +1,853 @@
+/**
+ * Minimal Parquet writer and reader
+ *
+ * Writes flat Parquet files without native dependencies, so exports run offline:
+ *
+ *   const writer = createParquetWriter('NAICS/things.parquet', [
+ *     { name: 'ns', type: 'string', dictionary: true },
+ *     { name: 'id', type: 'string' },
+ *     { name: 'description', type: 'string', optional: true },
+ *   ])
+ *   await writer.write({ ns: 'naics.org.ai', id: 'Soybean_Farming', description: null })
+ *   await writer.close()
+ *
+ * Column types follow schema.ts: string (BYTE_ARRAY annotated as STRING), number
+ * (DOUBLE), integer (INT64) and boolean (BOOLEAN). Optional columns carry definition
+ * levels; required columns reject missing values. Dictionary columns are written
+ * with a dictionary page and RLE_DICTIONARY indices, the rest with PLAIN encoding.
+ * Each row group holds one v1 data page per column, compressed with GZIP by default.
+ *
+ * readParquet reads such files back (and other flat files using the same page
+ * types and encodings), for round-trip tests and checks.
+ */
+
+import { openSync, writeSync, closeSync, readFileSync, existsSync, mkdirSync } from 'fs'
+import { dirname } from 'path'
+import { gzipSync, gunzipSync, zstdDecompressSync } from 'zlib'
+import type { ColumnType } from './schema'
+import type { TSVWriter } from './utils'
+
+export type ParquetValue = string | number | boolean | null
+
+export type ParquetCompression = 'uncompressed' | 'gzip'
+
+export interface ParquetColumn {
+  name: string
+  type: ColumnType
+  optional?: boolean      // Null values allowed (written as definition levels)
+  dictionary?: boolean    // Dictionary encoding, for low-cardinality columns such as ns and type
+}
+
+export interface ParquetWriterOptions {
+  compression?: ParquetCompression
+  rowGroupSize?: number                 // Rows per row group (default 100000)
+  metadata?: Record<string, string>     // Key/value metadata stored in the footer
+}
+
+export interface ParquetFile {
+  columns: ParquetColumn[]
+  rows: Record<string, ParquetValue>[]
+  rowGroups: number
+  metadata: Record<string, string>
+}
+
+const MAGIC = 'PAR1'
+const CREATED_BY = 'standards.org.ai parquet writer'
+const DEFAULT_ROW_GROUP_SIZE = 100_000
+
+const utf8 = new TextEncoder()
+
+// Enum values from parquet.thrift
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, FLOAT: 4, DOUBLE: 5, BYTE_ARRAY: 6 } as const
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 } as const
+const Encoding = { PLAIN: 0, PLAIN_DICTIONARY: 2, RLE: 3, RLE_DICTIONARY: 8 } as const
+const Codec = { UNCOMPRESSED: 0, GZIP: 2, ZSTD: 6 } as const
+const PageType = { DATA_PAGE: 0, DICTIONARY_PAGE: 2 } as const
+const CONVERTED_UTF8 = 0
+
+const PHYSICAL_TYPES: Record<ColumnType, number> = {
+  string: PhysicalType.BYTE_ARRAY,
+  number: PhysicalType.DOUBLE,
+  integer: PhysicalType.INT64,
+  boolean: PhysicalType.BOOLEAN,
+}
+
+const CODECS: Record<ParquetCompression, number> = {
+  uncompressed: Codec.UNCOMPRESSED,
+  gzip: Codec.GZIP,
+}
+
+// ============================================================================
+// Thrift compact protocol
+// ============================================================================
+
+const TType = { TRUE: 1, FALSE: 2, BYTE: 3, I16: 4, I32: 5, I64: 6, DOUBLE: 7, BINARY: 8, LIST: 9, SET: 10, MAP: 11, STRUCT: 12 } as const
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  length = 0
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + extra) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+  }
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  bytes(data: Uint8Array): void {
+    this.reserve(data.length)
+    this.buffer.set(data, this.length)
+    this.length += data.length
+  }
+
+  uint32(value: number): void {
+    this.reserve(4)
+    new DataView(this.buffer.buffer).setUint32(this.length, value, true)
+    this.length += 4
+  }
+
+  int64(value: bigint): void {
+    this.reserve(8)
+    new DataView(this.buffer.buffer).setBigInt64(this.length, value, true)
+    this.length += 8
+  }
+
+  double(value: number): void {
+    this.reserve(8)
+    new DataView(this.buffer.buffer).setFloat64(this.length, value, true)
+    this.length += 8
+  }
+
+  varint(value: bigint | number): void {
+    let v = BigInt(value)
+    while (v >= 0x80n) {
+      this.byte(Number(v & 0x7fn) | 0x80)
+      v >>= 7n
+    }
+    this.byte(Number(v))
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+const zigzag = (value: number | bigint): bigint => {
+  const v = BigInt(value)
+  return (v << 1n) ^ (v >> 63n)
+}
+
+/**
+ * Thrift compact protocol encoder for the structs in the footer and page headers
+ */
+class ThriftWriter {
+  readonly out = new ByteWriter()
+  private lastField: number[] = [0]
+
+  private fieldHeader(id: number, type: number): void {
+    const last = this.lastField[this.lastField.length - 1]
+    const delta = id - last
+    if (delta > 0 && delta <= 15) {
+      this.out.byte((delta << 4) | type)
+    } else {
+      this.out.byte(type)
+      this.out.varint(zigzag(id))
+    }
+    this.lastField[this.lastField.length - 1] = id
+  }
+
+  i32(id: number, value: number): void {
+    this.fieldHeader(id, TType.I32)
+    this.out.varint(zigzag(value))
+  }
+
+  i64(id: number, value: number): void {
+    this.fieldHeader(id, TType.I64)
+    this.out.varint(zigzag(value))
+  }
+
+  string(id: number, value: string): void {
+    this.fieldHeader(id, TType.BINARY)
+    const bytes = utf8.encode(value)
+    this.out.varint(bytes.length)
+    this.out.bytes(bytes)
+  }
+
+  struct(id: number, body: () => void): void {
+    this.fieldHeader(id, TType.STRUCT)
+    this.lastField.push(0)
+    body()
+    this.out.byte(0)
+    this.lastField.pop()
+  }
+
+  list<T>(id: number, elementType: number, items: T[], writeItem: (item: T) => void): void {
+    this.fieldHeader(id, TType.LIST)
+    if (items.length < 15) {
+      this.out.byte((items.length << 4) | elementType)
+    } else {
+      this.out.byte(0xf0 | elementType)
+      this.out.varint(items.length)
+    }
+    for (const item of items) writeItem(item)
+  }
+
+  // List elements of struct type
+  element(body: () => void): void {
+    this.lastField.push(0)
+    body()
+    this.out.byte(0)
+    this.lastField.pop()
+  }
+
+  elementI32(value: number): void {
+    this.out.varint(zigzag(value))
+  }
+
+  elementString(value: string): void {
+    const bytes = utf8.encode(value)
+    this.out.varint(bytes.length)
+    this.out.bytes(bytes)
+  }
+
+  end(): Uint8Array {
+    this.out.byte(0)
+    return this.out.toBytes()
+  }
+}
+
+type ThriftValue = number | boolean | Uint8Array | ThriftStruct | ThriftValue[]
+type ThriftStruct = { [id: number]: ThriftValue }
+
+/**
+ * Thrift compact protocol decoder producing structs keyed by field id
+ */
+class ThriftReader {
+  constructor(private data: Uint8Array, public offset: number = 0) {}
+
+  private byte(): number {
+    if (this.offset >= this.data.length) throw new Error('unexpected end of thrift data')
+    return this.data[this.offset++]
+  }
+
+  private varint(): bigint {
+    let result = 0n
+    let shift = 0n
+    for (;;) {
+      const b = this.byte()
+      result |= BigInt(b & 0x7f) << shift
+      if ((b & 0x80) === 0) return result
+      shift += 7n
+    }
+  }
+
+  private zigzag(): number {
+    const v = this.varint()
+    return Number((v >> 1n) ^ -(v & 1n))
+  }
+
+  private value(type: number): ThriftValue {
+    switch (type) {
+      case TType.TRUE: return true
+      case TType.FALSE: return false
+      case TType.BYTE: return (this.byte() << 24) >> 24
+      case TType.I16:
+      case TType.I32:
+      case TType.I64: return this.zigzag()
+      case TType.DOUBLE: {
+        const v = new DataView(this.data.buffer, this.data.byteOffset + this.offset, 8).getFloat64(0, true)
+        this.offset += 8
+        return v
+      }
+      case TType.BINARY: {
+        const length = Number(this.varint())
+        const bytes = this.data.subarray(this.offset, this.offset + length)
+        this.offset += length
+        return bytes
+      }
+      case TType.LIST:
+      case TType.SET: {
+        const header = this.byte()
+        const size = (header >> 4) === 15 ? Number(this.varint()) : header >> 4
+        const elementType = header & 0x0f
+        const items: ThriftValue[] = []
+        for (let i = 0; i < size; i++) {
+          // Booleans in collections are one byte each
+          items.push(elementType === TType.TRUE || elementType === TType.FALSE ? this.byte() === 1 : this.value(elementType))
+        }
+        return items
+      }
+      case TType.MAP: {
+        const size = Number(this.varint())
+        if (size > 0) {
+          const types = this.byte()
+          for (let i = 0; i < size; i++) {
+            this.value(types >> 4)
+            this.value(types & 0x0f)
+          }
+        }
+        return {}
+      }
+      case TType.STRUCT: return this.struct()
+      default: throw new Error(`unknown thrift type ${type}`)
+    }
+  }
+
+  struct(): ThriftStruct {
+    const result: ThriftStruct = {}
+    let last = 0
+    for (;;) {
+      const header = this.byte()
+      if (header === 0) return result
+      const delta = header >> 4
+      const id = delta === 0 ? this.zigzag() : last + delta
+      result[id] = this.value(header & 0x0f)
+      last = id
+    }
+  }
+}
+
+// ============================================================================
+// Encodings
+// ============================================================================
+
+const bitWidth = (max: number): number => (max === 0 ? 0 : 32 - Math.clz32(max))
+
+/**
+ * RLE / bit-packing hybrid encoding: runs of 8 or more equal values are written as
+ * RLE runs, everything else as bit-packed groups of 8
+ */
+function encodeHybrid(values: number[], width: number): Uint8Array {
+  const out = new ByteWriter()
+  const byteWidth = Math.ceil(width / 8)
+  const runLength = (start: number) => {
+    let end = start + 1
+    while (end < values.length && values[end] === values[start]) end++
+    return end - start
+  }
+
+  let i = 0
+  while (i < values.length) {
+    const run = runLength(i)
+    if (run >= 8) {
+      out.varint(run << 1)
+      for (let b = 0; b < byteWidth; b++) out.byte((values[i] >> (8 * b)) & 0xff)
+      i += run
+      continue
+    }
+
+    // Bit-pack groups of 8 until the next long run; only the final group is padded
+    const start = i
+    let groups = 0
+    while (i < values.length && (groups === 0 || runLength(i) < 8)) {
+      i = Math.min(i + 8, values.length)
+      groups++
+    }
+    out.varint((groups << 1) | 1)
+    const packed = new Uint8Array(groups * width)
+    for (let j = 0; j < groups * 8; j++) {
+      const value = start + j < i ? values[start + j] : 0
+      for (let b = 0; b < width; b++) {
+        if ((value >> b) & 1) {
+          const bit = j * width + b
+          packed[bit >> 3] |= 1 << (bit & 7)
+        }
+      }
+    }
+    out.bytes(packed)
+  }
+
+  return out.toBytes()
+}
+
+function decodeHybrid(data: Uint8Array, offset: number, end: number, width: number, count: number): number[] {
+  const values: number[] = []
+  const byteWidth = Math.ceil(width / 8)
+  let pos = offset
+
+  while (values.length < count && pos < end) {
+    let header = 0
+    let shift = 0
+    for (;;) {
+      const b = data[pos++]
+      header |= (b & 0x7f) << shift
+      if ((b & 0x80) === 0) break
+      shift += 7
+    }
+
+    if (header & 1) {
+      const groups = header >>> 1
+      for (let j = 0; j < groups * 8 && values.length < count; j++) {
+        let value = 0
+        for (let b = 0; b < width; b++) {
+          const bit = j * width + b
+          if (data[pos + (bit >> 3)] & (1 << (bit & 7))) value |= 1 << b
+        }
+        values.push(value)
+      }
+      pos += groups * width
+    } else {
+      let value = 0
+      for (let b = 0; b < byteWidth; b++) value |= data[pos++] << (8 * b)
+      for (let j = header >>> 1; j > 0 && values.length < count; j--) values.push(value)
+    }
+  }
+
+  if (values.length < count) throw new Error(`expected ${count} encoded values, found ${values.length}`)
+  return values
+}
+
+function encodePlain(values: (string | number | boolean)[], type: ColumnType): Uint8Array {
+  const out = new ByteWriter()
+  switch (type) {
+    case 'string':
+      for (const value of values) {
+        const bytes = utf8.encode(value as string)
+        out.uint32(bytes.length)
+        out.bytes(bytes)
+      }
+      break
+    case 'number':
+      for (const value of values) out.double(value as number)
+      break
+    case 'integer':
+      for (const value of values) out.int64(BigInt(value as number))
+      break
+    case 'boolean': {
+      const packed = new Uint8Array(Math.ceil(values.length / 8))
+      values.forEach((value, i) => {
+        if (value) packed[i >> 3] |= 1 << (i & 7)
+      })
+      out.bytes(packed)
+      break
+    }
+  }
+  return out.toBytes()
+}
+
+function decodePlain(data: Uint8Array, offset: number, physicalType: number, count: number, typeLength?: number): ParquetValue[] {
+  const view = new DataView(data.buffer, data.byteOffset)
+  const decoder = new TextDecoder()
+  const values: ParquetValue[] = []
+  let pos = offset
+
+  for (let i = 0; i < count; i++) {
+    switch (physicalType) {
+      case PhysicalType.BOOLEAN:
+        values.push((data[offset + (i >> 3)] & (1 << (i & 7))) !== 0)
+        break
+      case PhysicalType.INT32:
+        values.push(view.getInt32(pos, true))
+        pos += 4
+        break
+      case PhysicalType.INT64:
+        values.push(Number(view.getBigInt64(pos, true)))
+        pos += 8
+        break
+      case PhysicalType.FLOAT:
+        values.push(view.getFloat32(pos, true))
+        pos += 4
+        break
+      case PhysicalType.DOUBLE:
+        values.push(view.getFloat64(pos, true))
+        pos += 8
+        break
+      case PhysicalType.BYTE_ARRAY: {
+        const length = view.getUint32(pos, true)
+        values.push(decoder.decode(data.subarray(pos + 4, pos + 4 + length)))
+        pos += 4 + length
+        break
+      }
+      case 7: { // FIXED_LEN_BYTE_ARRAY
+        values.push(decoder.decode(data.subarray(pos, pos + typeLength!)))
+        pos += typeLength!
+        break
+      }
+      default:
+        throw new Error(`unsupported physical type ${physicalType}`)
+    }
+  }
+
+  return values
+}
+
+function compress(data: Uint8Array, codec: number): Uint8Array {
+  return codec === Codec.GZIP ? gzipSync(data) : data
+}
+
+function decompress(data: Uint8Array, codec: number): Uint8Array {
+  switch (codec) {
+    case Codec.UNCOMPRESSED: return data
+    case Codec.GZIP: return gunzipSync(data)
+    case Codec.ZSTD: return zstdDecompressSync(data)
+    default: throw new Error(`unsupported compression codec ${codec}`)
+  }
+}
+
+// ============================================================================
+// Writer
+// ============================================================================
+
+interface ColumnChunkInfo {
+  column: ParquetColumn
+  offset: number                        // first page
+  dictionaryOffset?: number
+  dataOffset: number
+  compressedSize: number
+  uncompressedSize: number
+  encodings: number[]
+}
+
+interface RowGroupInfo {
+  rows: number
+  chunks: ColumnChunkInfo[]
+}
+
+function writePageHeader(
+  type: number,
+  uncompressedSize: number,
+  compressedSize: number,
+  body: (thrift: ThriftWriter) => void
+): Uint8Array {
+  const thrift = new ThriftWriter()
+  thrift.i32(1, type)
+  thrift.i32(2, uncompressedSize)
+  thrift.i32(3, compressedSize)
+  body(thrift)
+  return thrift.end()
+}
+
+function checkValue(column: ParquetColumn, value: ParquetValue): void {
+  const valid =
+    column.type === 'string' ? typeof value === 'string' :
+    column.type === 'number' ? typeof value === 'number' && Number.isFinite(value) :
+    column.type === 'integer' ? Number.isSafeInteger(value) :
+    typeof value === 'boolean'
+  if (!valid) {
+    throw new Error(`invalid ${column.type} ${JSON.stringify(value)} in column ${column.name}`)
+  }
+}
+
+/**
+ * Open a Parquet writer. Rows are buffered up to the row group size; the footer is
+ * written by close, so a file is only valid once the writer is closed.
+ */
+export function createParquetWriter(
+  filePath: string,
+  columns: ParquetColumn[],
+  options: ParquetWriterOptions = {}
+): TSVWriter<Record<string, ParquetValue | undefined>> {
+  const codec = CODECS[options.compression || 'gzip']
+  const rowGroupSize = options.rowGroupSize || DEFAULT_ROW_GROUP_SIZE
+
+  const dir = dirname(filePath)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  const fd = openSync(filePath, 'w')
+  let position = 0
+  const append = (bytes: Uint8Array) => {
+    writeSync(fd, bytes)
+    position += bytes.length
+  }
+  append(utf8.encode(MAGIC))
+
+  const rowGroups: RowGroupInfo[] = []
+  let buffered: ParquetValue[][] = columns.map(() => [])
+  let pending = 0
+  let count = 0
+
+  const writeColumnChunk = (column: ParquetColumn, values: ParquetValue[]): ColumnChunkInfo => {
+    const offset = position
+    const present = values.filter((v): v is string | number | boolean => v !== null)
+    let dictionaryOffset: number | undefined
+    let uncompressedSize = 0
+    let compressedSize = 0
+
+    // Definition levels (bit width 1) with a 4-byte length prefix
+    const body = new ByteWriter()
+    if (column.optional) {
+      const levels = encodeHybrid(values.map(v => (v === null ? 0 : 1)), 1)
+      body.uint32(levels.length)
+      body.bytes(levels)
+    }
+
+    const appendPage = (header: Uint8Array, page: Uint8Array, rawSize: number) => {
+      append(header)
+      append(page)
+      uncompressedSize += header.length + rawSize
+      compressedSize += header.length + page.length
+    }
+
+    let encoding: number
+    if (column.dictionary) {
+      const index = new Map<string | number | boolean, number>()
+      const indices = present.map(value => {
+        let i = index.get(value)
+        if (i === undefined) {
+          i = index.size
+          index.set(value, i)
+        }
+        return i
+      })
+
+      const dictionary = encodePlain([...index.keys()], column.type)
+      const compressed = compress(dictionary, codec)
+      dictionaryOffset = position
+      appendPage(
+        writePageHeader(PageType.DICTIONARY_PAGE, dictionary.length, compressed.length, thrift => {
+          thrift.struct(7, () => {
+            thrift.i32(1, index.size)
+            thrift.i32(2, Encoding.PLAIN)
+          })
+        }),
+        compressed,
+        dictionary.length
+      )
+
+      const width = bitWidth(index.size - 1)
+      body.byte(width)
+      body.bytes(encodeHybrid(indices, width))
+      encoding = Encoding.RLE_DICTIONARY
+    } else {
+      body.bytes(encodePlain(present, column.type))
+      encoding = Encoding.PLAIN
+    }
+
+    const page = body.toBytes()
+    const compressed = compress(page, codec)
+    const dataOffset = position
+    appendPage(
+      writePageHeader(PageType.DATA_PAGE, page.length, compressed.length, thrift => {
+        thrift.struct(5, () => {
+          thrift.i32(1, values.length)
+          thrift.i32(2, encoding)
+          thrift.i32(3, Encoding.RLE)
+          thrift.i32(4, Encoding.RLE)
+        })
+      }),
+      compressed,
+      page.length
+    )
+
+    const encodings = column.dictionary ? [Encoding.PLAIN, Encoding.RLE, Encoding.RLE_DICTIONARY] : [Encoding.PLAIN, Encoding.RLE]
+    return { column, offset, dictionaryOffset, dataOffset, compressedSize, uncompressedSize, encodings }
+  }
+
+  const flush = () => {
+    if (pending === 0) return
+    rowGroups.push({
+      rows: pending,
+      chunks: columns.map((column, i) => writeColumnChunk(column, buffered[i])),
+    })
+    buffered = columns.map(() => [])
+    pending = 0
+  }
+
+  const writeFooter = () => {
+    const thrift = new ThriftWriter()
+    thrift.i32(1, 2)
+    thrift.list(2, TType.STRUCT, [undefined, ...columns], column => thrift.element(() => {
+      if (!column) {
+        thrift.string(4, 'schema')
+        thrift.i32(5, columns.length)
+        return
+      }
+      thrift.i32(1, PHYSICAL_TYPES[column.type])
+      thrift.i32(3, column.optional ? Repetition.OPTIONAL : Repetition.REQUIRED)
+      thrift.string(4, column.name)
+      if (column.type === 'string') {
+        thrift.i32(6, CONVERTED_UTF8)
+        thrift.struct(10, () => thrift.struct(1, () => {}))
+      }
+    }))
+    thrift.i64(3, count)
+    thrift.list(4, TType.STRUCT, rowGroups, group => thrift.element(() => {
+      thrift.list(1, TType.STRUCT, group.chunks, chunk => thrift.element(() => {
+        thrift.i64(2, chunk.offset)
+        thrift.struct(3, () => {
+          thrift.i32(1, PHYSICAL_TYPES[chunk.column.type])
+          thrift.list(2, TType.I32, chunk.encodings, e => thrift.elementI32(e))
+          thrift.list(3, TType.BINARY, [chunk.column.name], name => thrift.elementString(name))
+          thrift.i32(4, codec)
+          thrift.i64(5, group.rows)
+          thrift.i64(6, chunk.uncompressedSize)
+          thrift.i64(7, chunk.compressedSize)
+          thrift.i64(9, chunk.dataOffset)
+          if (chunk.dictionaryOffset !== undefined) thrift.i64(11, chunk.dictionaryOffset)
+        })
+      }))
+      thrift.i64(2, group.chunks.reduce((sum, c) => sum + c.uncompressedSize, 0))
+      thrift.i64(3, group.rows)
+    }))
+    const metadata = Object.entries(options.metadata || {})
+    if (metadata.length > 0) {
+      thrift.list(5, TType.STRUCT, metadata, ([key, value]) => thrift.element(() => {
+        thrift.string(1, key)
+        thrift.string(2, value)
+      }))
+    }
+    thrift.string(6, CREATED_BY)
+
+    const footer = thrift.end()
+    append(footer)
+    const trailer = new ByteWriter()
+    trailer.uint32(footer.length)
+    trailer.bytes(utf8.encode(MAGIC))
+    append(trailer.toBytes())
+  }
+
+  return {
+    get count() {
+      return count
+    },
+
+    async write(row) {
+      // Check the whole row first so a rejected row leaves the buffers aligned
+      const values = columns.map(column => {
+        const value = row[column.name] ?? null
+        if (value === null) {
+          if (!column.optional) throw new Error(`missing value in required column ${column.name} of row ${count + 1}`)
+        } else {
+          checkValue(column, value)
+        }
+        return value
+      })
+      values.forEach((value, i) => buffered[i].push(value))
+      pending++
+      count++
+      if (pending >= rowGroupSize) flush()
+    },
+
+    async close() {
+      flush()
+      writeFooter()
+      closeSync(fd)
+    },
+  }
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+const text = (value: ThriftValue | undefined): string =>
+  value instanceof Uint8Array ? new TextDecoder().decode(value) : ''
+
+function columnType(physicalType: number): ColumnType {
+  switch (physicalType) {
+    case PhysicalType.BOOLEAN: return 'boolean'
+    case PhysicalType.INT32:
+    case PhysicalType.INT64: return 'integer'
+    case PhysicalType.FLOAT:
+    case PhysicalType.DOUBLE: return 'number'
+    default: return 'string'
+  }
+}
+
+/**
+ * Read a flat Parquet file into memory
+ */
+export function readParquet(filePath: string): ParquetFile {
+  const data = new Uint8Array(readFileSync(filePath))
+  const view = new DataView(data.buffer, data.byteOffset)
+  const magic = (offset: number) => new TextDecoder().decode(data.subarray(offset, offset + 4))
+  if (data.length < 12 || magic(0) !== MAGIC || magic(data.length - 4) !== MAGIC) {
+    throw new Error(`${filePath}: not a Parquet file`)
+  }
+
+  const footerLength = view.getUint32(data.length - 8, true)
+  const meta = new ThriftReader(data, data.length - 8 - footerLength).struct()
+
+  const schema = (meta[2] as ThriftStruct[]).slice(1)
+  if (schema.some(element => element[5] !== undefined)) {
+    throw new Error(`${filePath}: nested schemas are not supported`)
+  }
+  const columns: ParquetColumn[] = schema.map(element => ({
+    name: text(element[4]),
+    type: columnType(element[1] as number),
+    ...(element[3] === Repetition.OPTIONAL ? { optional: true } : {}),
+  }))
+
+  const rows: Record<string, ParquetValue>[] = []
+  const rowGroups = (meta[4] as ThriftStruct[] | undefined) || []
+
+  for (const group of rowGroups) {
+    const rowCount = group[3] as number
+    const start = rows.length
+    for (let i = 0; i < rowCount; i++) rows.push({})
+
+    ;(group[1] as ThriftStruct[]).forEach((chunk, c) => {
+      const column = columns[c]
+      const element = schema[c]
+      const chunkMeta = chunk[3] as ThriftStruct
+      const physicalType = chunkMeta[1] as number
+      const codec = chunkMeta[4] as number
+      const total = chunkMeta[5] as number
+
+      let pos = (chunkMeta[11] as number | undefined) ?? (chunkMeta[9] as number)
+      let dictionary: ParquetValue[] = []
+      let row = start
+      while (row < start + total) {
+        const reader = new ThriftReader(data, pos)
+        const header = reader.struct()
+        const compressedSize = header[3] as number
+        const page = decompress(data.subarray(reader.offset, reader.offset + compressedSize), codec)
+        pos = reader.offset + compressedSize
+
+        if (header[1] === PageType.DICTIONARY_PAGE) {
+          const dictHeader = header[7] as ThriftStruct
+          dictionary = decodePlain(page, 0, physicalType, dictHeader[1] as number, element[2] as number | undefined)
+          continue
+        }
+        if (header[1] !== PageType.DATA_PAGE) {
+          throw new Error(`${filePath}: unsupported page type ${header[1]} in column ${column.name}`)
+        }
+
+        const pageHeader = header[5] as ThriftStruct
+        const numValues = pageHeader[1] as number
+        const encoding = pageHeader[2] as number
+        let offset = 0
+        let levels: number[] | undefined
+        if (column.optional) {
+          const length = new DataView(page.buffer, page.byteOffset).getUint32(0, true)
+          levels = decodeHybrid(page, 4, 4 + length, 1, numValues)
+          offset = 4 + length
+        }
+        const presentCount = levels ? levels.filter(l => l === 1).length : numValues
+
+        let values: ParquetValue[]
+        if (encoding === Encoding.RLE_DICTIONARY || encoding === Encoding.PLAIN_DICTIONARY) {
+          const width = page[offset]
+          values = decodeHybrid(page, offset + 1, page.length, width, presentCount).map(i => dictionary[i])
+        } else if (encoding === Encoding.PLAIN) {
+          values = decodePlain(page, offset, physicalType, presentCount, element[2] as number | undefined)
+        } else {
+          throw new Error(`${filePath}: unsupported encoding ${encoding} in column ${column.name}`)
+        }
+
+        let next = 0
+        for (let i = 0; i < numValues; i++) {
+          rows[row++][column.name] = !levels || levels[i] === 1 ? values[next++] : null
+        }
+      }
+    })
+  }
+
+  const metadata: Record<string, string> = {}
+  for (const entry of (meta[5] as ThriftStruct[] | undefined) || []) {
+    metadata[text(entry[1])] = text(entry[2])
+  }
+
+  return { columns, rows, rowGroups: rowGroups.length, metadata }
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for pipeline.ts
+ * Run with: bun test .scripts/pipeline.test.ts
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { ALL_INPUTS, resolveDependencies, withUpstream, topologicalLevels, runPipeline, type PipelineTask } from './pipeline'
+
+function task(name: string, inputs: string[] = [], outputs: string[] = [], fn?: () => Promise<void>): PipelineTask {
+  return { name, inputs, outputs, fn: fn || (async () => {}) }
+}
+
+const TASKS: PipelineTask[] = [
+  task('onet', ['relationships/SOC.NAICS.tsv', 'NAICS.Industries.tsv'], ['ONET.Occupations.tsv']),
+  task('naics', [], ['NAICS.Industries.tsv']),
+  task('advancecte', [], ['relationships/SOC.NAICS.tsv']),
+  task('sec', [], ['SEC.SICCodes.tsv']),
+  task('sic-naics', ['SEC.SICCodes.tsv', 'NAICS.Industries.tsv']),
+  task('iana'),
+]
+
+describe('resolveDependencies', () => {
+  test('maps inputs to the tasks that produce them', () => {
+    const deps = resolveDependencies(TASKS)
+    expect(deps.get('onet')!.sort()).toEqual(['advancecte', 'naics'])
+    expect(deps.get('sic-naics')!.sort()).toEqual(['naics', 'sec'])
+    expect(deps.get('iana')).toEqual([])
+  })
+
+  test('ignores inputs produced by the task itself', () => {
+    const deps = resolveDependencies([task('onet', ['ONET.Occupations.tsv'], ['ONET.Occupations.tsv'])])
+    expect(deps.get('onet')).toEqual([])
+  })
+
+  test('makes a task reading all inputs depend on every other task', () => {
+    const deps = resolveDependencies([...TASKS, task('graph', [ALL_INPUTS])])
+    expect(deps.get('graph')!.sort()).toEqual(['advancecte', 'iana', 'naics', 'onet', 'sec', 'sic-naics'])
+  })
+
+  test('orders tasks reading all inputs by their explicit inputs', () => {
+    const deps = resolveDependencies([
+      ...TASKS,
+      task('graph', [ALL_INPUTS], ['Graph.Types.tsv']),
+      task('build-db', [ALL_INPUTS, 'Graph.Types.tsv'], ['standards.db']),
+    ])
+    expect(deps.get('build-db')).toContain('graph')
+    expect(deps.get('graph')).not.toContain('build-db')
+  })
+
+  test('rejects an output declared by two tasks', () => {
+    expect(() => resolveDependencies([task('a', [], ['X.tsv']), task('b', [], ['X.tsv'])])).toThrow('X.tsv')
+  })
+})
+
+describe('withUpstream', () => {
+  test('pulls in upstream tasks in declaration order', () => {
+    expect(withUpstream(TASKS, ['onet']).map(t => t.name)).toEqual(['onet', 'naics', 'advancecte'])
+  })
+
+  test('does not pull in everything for a task reading all inputs', () => {
+    expect(withUpstream([...TASKS, task('graph', [ALL_INPUTS])], ['graph']).map(t => t.name)).toEqual(['graph'])
+  })
+
+  test('leaves independent tasks alone', () => {
+    expect(withUpstream(TASKS, ['iana']).map(t => t.name)).toEqual(['iana'])
+  })
+})
+
+describe('topologicalLevels', () => {
+  test('places tasks after their upstream', () => {
+    const levels = topologicalLevels(TASKS).map(level => level.map(t => t.name))
+    expect(levels[0]).toEqual(['naics', 'advancecte', 'sec', 'iana'])
+    expect(levels[1]).toEqual(['onet', 'sic-naics'])
+  })
+
+  test('detects cycles', () => {
+    const cyclic = [task('a', ['B.tsv'], ['A.tsv']), task('b', ['A.tsv'], ['B.tsv'])]
+    expect(() => topologicalLevels(cyclic)).toThrow('cycle')
+  })
+})
+
+describe('runPipeline', () => {
+  test('runs upstream tasks before downstream ones', async () => {
+    const order: string[] = []
+    const tasks = TASKS.map(t => ({ ...t, fn: async () => { order.push(t.name) } }))
+    const results = await runPipeline(tasks, { concurrency: 2 })
+
+    expect(results.every(r => r.status === 'success')).toBe(true)
+    expect(order.indexOf('onet')).toBeGreaterThan(order.indexOf('naics'))
+    expect(order.indexOf('onet')).toBeGreaterThan(order.indexOf('advancecte'))
+    expect(order.indexOf('sic-naics')).toBeGreaterThan(order.indexOf('sec'))
+  })
+
+  test('runs independent tasks concurrently up to the limit', async () => {
+    let active = 0
+    let peak = 0
+    const slow = async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      active--
+    }
+    const tasks = ['a', 'b', 'c', 'd'].map(name => task(name, [], [], slow))
+
+    await runPipeline(tasks, { concurrency: 2 })
+    expect(peak).toBe(2)
+  })
+
+  test('blocks tasks whose upstream failed', async () => {
+    const tasks = TASKS.map(t => t.name === 'naics'
+      ? { ...t, fn: async () => { throw new Error('missing source') } }
+      : t)
+    const results = new Map((await runPipeline(tasks)).map(r => [r.name, r]))
+
+    expect(results.get('naics')!.status).toBe('failed')
+    expect(results.get('onet')!.status).toBe('blocked')
+    expect(results.get('onet')!.blockedBy).toEqual(['naics'])
+    expect(results.get('sic-naics')!.status).toBe('blocked')
+    expect(results.get('advancecte')!.status).toBe('success')
+    expect(results.get('iana')!.status).toBe('success')
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * Dependency-aware orchestration for the generation pipeline
+ *
+ * Each task declares the .data files it reads from other transforms (inputs)
+ * and the .data files it writes (outputs), as paths relative to .data/
+ * (e.g. 'NAICS.Industries.tsv' or 'relationships/SOC.NAICS.tsv').
+ *
+ * A task depends on every task that writes one of its inputs. Tasks are run
+ * as soon as all of their upstream tasks have succeeded, so independent tasks
+ * run side by side, and a task whose upstream failed is never started.
+ *
+ * The special input '*' stands for everything in .data/: the task runs after
+ * every other task in the run, but selecting it does not pull those tasks in.
+ * Tasks reading '*' are not ordered among themselves, so one that reads the
+ * outputs of another (build-db reads graph's Graph.Types.tsv) lists them as
+ * inputs as well.
+ */
+
+export const ALL_INPUTS = '*'
+
+export interface PipelineTask {
+  name: string
+  fn: () => Promise<void>
+  inputs?: string[]
+  outputs?: string[]
+}
+
+export type TaskStatus = 'success' | 'failed' | 'blocked'
+
+export interface TaskResult {
+  name: string
+  status: TaskStatus
+  duration: number
+  error?: unknown
+  blockedBy?: string[]
+}
+
+export interface RunOptions {
+  concurrency?: number
+  onStart?: (task: PipelineTask) => void
+  onFinish?: (result: TaskResult) => void
+}
+
+/**
+ * Map each task name to the names of the tasks that produce its inputs
+ */
+export function resolveDependencies(tasks: PipelineTask[]): Map<string, string[]> {
+  const producers = new Map<string, string>()
+
+  for (const task of tasks) {
+    for (const output of task.outputs || []) {
+      const existing = producers.get(output)
+      if (existing && existing !== task.name) {
+        throw new Error(`Output ${output} is declared by both ${existing} and ${task.name}`)
+      }
+      producers.set(output, task.name)
+    }
+  }
+
+  const dependencies = new Map<string, string[]>()
+  for (const task of tasks) {
+    const deps = new Set<string>()
+    if (task.inputs?.includes(ALL_INPUTS)) {
+      for (const other of tasks) {
+        if (other.name !== task.name && !other.inputs?.includes(ALL_INPUTS)) {
+          deps.add(other.name)
+        }
+      }
+    }
+    for (const input of task.inputs || []) {
+      const producer = producers.get(input)
+      if (producer && producer !== task.name) {
+        deps.add(producer)
+      }
+    }
+    dependencies.set(task.name, Array.from(deps))
+  }
+
+  return dependencies
+}
+
+/**
+ * Expand a selection of task names with every task they transitively depend on.
+ * The returned tasks keep their declaration order.
+ */
+export function withUpstream(tasks: PipelineTask[], selected: Iterable<string>): PipelineTask[] {
+  const dependencies = resolveDependencies(tasks.map(task => ({
+    ...task,
+    inputs: task.inputs?.filter(input => input !== ALL_INPUTS),
+  })))
+  const included = new Set<string>()
+  const stack = Array.from(selected)
+
+  while (stack.length > 0) {
+    const name = stack.pop()!
+    if (included.has(name)) continue
+    included.add(name)
+    stack.push(...(dependencies.get(name) || []))
+  }
+
+  return tasks.filter(task => included.has(task.name))
+}
+
+/**
+ * Group tasks into levels where every task only depends on tasks of earlier levels.
+ * Dependencies on tasks outside the list are ignored.
+ */
+export function topologicalLevels(tasks: PipelineTask[]): PipelineTask[][] {
+  const dependencies = resolveDependencies(tasks)
+  const remaining = new Map(tasks.map(task => [task.name, task]))
+  const done = new Set<string>()
+  const levels: PipelineTask[][] = []
+
+  while (remaining.size > 0) {
+    const level = Array.from(remaining.values()).filter(task =>
+      (dependencies.get(task.name) || []).every(dep => done.has(dep) || !remaining.has(dep))
+    )
+
+    if (level.length === 0) {
+      throw new Error(`Dependency cycle between tasks: ${Array.from(remaining.keys()).join(', ')}`)
+    }
+
+    for (const task of level) {
+      remaining.delete(task.name)
+    }
+    for (const task of level) {
+      done.add(task.name)
+    }
+    levels.push(level)
+  }
+
+  return levels
+}
+
+/**
+ * Run tasks in dependency order, starting each one as soon as its upstream tasks
+ * have succeeded. Tasks with a failed or blocked upstream are reported as blocked.
+ */
+export async function runPipeline(tasks: PipelineTask[], options: RunOptions = {}): Promise<TaskResult[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 4)
+
+  // Validates the graph up front (duplicate outputs, cycles)
+  topologicalLevels(tasks)
+
+  const names = new Set(tasks.map(task => task.name))
+  const dependencies = resolveDependencies(tasks)
+  const results = new Map<string, TaskResult>()
+  const pending = [...tasks]
+  const running = new Map<string, Promise<void>>()
+
+  const upstreamOf = (task: PipelineTask): string[] =>
+    (dependencies.get(task.name) || []).filter(dep => names.has(dep))
+
+  const finish = (result: TaskResult): void => {
+    results.set(result.name, result)
+    options.onFinish?.(result)
+  }
+
+  while (pending.length > 0 || running.size > 0) {
+    let progressed = false
+
+    for (let i = 0; i < pending.length; i++) {
+      const task = pending[i]
+      const upstream = upstreamOf(task)
+      const unsuccessful = upstream.filter(dep => results.has(dep) && results.get(dep)!.status !== 'success')
+
+      if (unsuccessful.length > 0) {
+        pending.splice(i--, 1)
+        finish({ name: task.name, status: 'blocked', duration: 0, blockedBy: unsuccessful })
+        progressed = true
+        continue
+      }
+
+      const ready = upstream.every(dep => results.get(dep)?.status === 'success')
+      if (!ready || running.size >= concurrency) continue
+
+      pending.splice(i--, 1)
+      progressed = true
+      options.onStart?.(task)
+
+      const startTime = Date.now()
+      const run = task.fn().then(
+        () => finish({ name: task.name, status: 'success', duration: Date.now() - startTime }),
+        error => finish({ name: task.name, status: 'failed', duration: Date.now() - startTime, error })
+      ).finally(() => {
+        running.delete(task.name)
+      })
+      running.set(task.name, run)
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values())
+    } else if (!progressed && pending.length > 0) {
+      // Unreachable after the cycle check, but guards against an infinite loop
+      throw new Error(`Unable to schedule tasks: ${pending.map(task => task.name).join(', ')}`)
+    }
+  }
+
+  return tasks.map(task => results.get(task.name)!)
+}
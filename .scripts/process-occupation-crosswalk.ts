@@ -1,12 +1,14 @@
 import { join } from 'path'
 import {
   NAMESPACES,
-  parseTSV,
-  writeTSV,
+  parseDataTSV,
+  writeRelationshipTSV,
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const REL_DIR = getRelationshipsPath()
 
@@ -147,7 +149,7 @@ function loadAPQCProcesses(): Map<string, StandardRecord> {
   const apqcFile = join(process.cwd(), '.data', 'APQC.Processes.tsv')
   console.log(`Loading APQC processes from: ${apqcFile}`)
 
-  const data = parseTSV<StandardRecord>(apqcFile)
+  const data = parseDataTSV<StandardRecord>(apqcFile)
   const apqcMap = new Map<string, StandardRecord>()
 
   for (const record of data) {
@@ -167,7 +169,7 @@ function loadONETOccupations(): Map<string, StandardRecord> {
   const onetFile = join(process.cwd(), '.data', 'ONET.Occupations.tsv')
   console.log(`Loading O*NET occupations from: ${onetFile}`)
 
-  const data = parseTSV<StandardRecord>(onetFile)
+  const data = parseDataTSV<StandardRecord>(onetFile)
   const onetMap = new Map<string, StandardRecord>()
 
   for (const record of data) {
@@ -192,7 +194,7 @@ export async function transformProcessOccupationCrosswalk(): Promise<void> {
   const onetOccupations = loadONETOccupations()
 
   // Build relationship records
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
   const skipped: { process: string; occupation: string; reason: string }[] = []
 
   for (const [processId, occupationIds] of Object.entries(PROCESS_OCCUPATION_MAPPINGS)) {
@@ -222,7 +224,7 @@ export async function transformProcessOccupationCrosswalk(): Promise<void> {
         toNs: NAMESPACES.ONET,
         toType: 'Occupation',
         toId: occupation.id,
-        relationshipType: 'performed_by',
+        relationshipType: 'performedBy',
       })
     }
   }
@@ -238,20 +240,24 @@ export async function transformProcessOccupationCrosswalk(): Promise<void> {
 
   // Write the relationship file
   const outputPath = join(REL_DIR, 'APQC.Process.ONET.Occupation.tsv')
-  writeTSV(outputPath, relationships, [
-    'fromNs',
-    'fromType',
-    'fromId',
-    'toNs',
-    'toType',
-    'toId',
-    'relationshipType',
-  ])
+  writeRelationshipTSV(outputPath, relationships)
 
   console.log(`Wrote APQC-ONET crosswalk to: ${outputPath}`)
   console.log('=== APQC Process to O*NET Occupation Crosswalk Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'process-occupation-crosswalk',
+  description: 'Process-to-occupation crosswalk (APQC to O*NET)',
+  run: transformProcessOccupationCrosswalk,
+  aliases: ['process-occupation'],
+  group: 'crosswalk',
+  inputs: ['APQC.Processes.tsv', 'ONET.Occupations.tsv'],
+  outputs: [
+    'relationships/APQC.Process.ONET.Occupation.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformProcessOccupationCrosswalk()
@@ -13,12 +13,13 @@
  */
 
 import {
-  parseTSV,
+  parseDataTSV,
   writeRelationshipTSV,
   getRelationshipsPath,
   NAMESPACES,
   type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 import { join } from 'path'
 
 interface ProductSegment {
@@ -44,211 +45,211 @@ interface NAICSIndustry {
 const GS1_TO_NAICS_MAPPINGS: Record<string, Array<{ type: string; id: string; relationship: string }>> = {
   // Food & Beverage
   'Food/Beverage': [
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Food_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Beverage_and_Tobacco_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Food_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Beverage_and_Tobacco_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Tobacco/Cannabis': [
-    { type: 'Subsector', id: 'Beverage_and_Tobacco_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Crop_Production', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Beverage_and_Tobacco_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Crop_Production', relationship: 'producedBy' },
   ],
   'Crops': [
-    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Crop_Production', relationship: 'produced_by' },
+    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Crop_Production', relationship: 'producedBy' },
   ],
   'Horticulture Plants': [
-    { type: 'Subsector', id: 'Crop_Production', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Crop_Production', relationship: 'producedBy' },
   ],
 
   // Animals & Pet Care
   'Live Animals': [
-    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Animal_Production_and_Aquaculture', relationship: 'produced_by' },
+    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Animal_Production_and_Aquaculture', relationship: 'producedBy' },
   ],
   'Pet Care/Food': [
-    { type: 'Subsector', id: 'Food_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Food_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Apparel & Textiles
   'Clothing': [
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Apparel_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Apparel_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Footwear': [
-    { type: 'Subsector', id: 'Apparel_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Apparel_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Personal Care & Beauty
   'Beauty/Personal Care/Hygiene': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Healthcare': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Health_Care_and_Social_Assistance', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Health_Care_and_Social_Assistance', relationship: 'distributedBy' },
   ],
 
   // Electronics & Computing
   'Computing': [
-    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Communications': [
-    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Information', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Information', relationship: 'distributedBy' },
   ],
   'Audio Visual/Photography': [
-    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Home & Furniture
   'Home Appliances': [
-    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Household/Office Furniture/Furnishings': [
-    { type: 'Subsector', id: 'Furniture_and_Related_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Furniture_and_Related_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Kitchenware and Tableware': [
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Building & Construction
   'Building Products': [
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Wood_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Nonmetallic_Mineral_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Construction', relationship: 'distributed_by' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Wood_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Nonmetallic_Mineral_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Construction', relationship: 'distributedBy' },
   ],
   'Plumbing/Heating/Ventilation/Air Conditioning': [
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Construction', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Construction', relationship: 'distributedBy' },
   ],
   'Electrical Supplies': [
-    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Construction', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Construction', relationship: 'distributedBy' },
   ],
 
   // Tools & Equipment
   'Tools/Equipment': [
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Tool Storage/Workshop Aids': [
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Vehicles & Transportation
   'Vehicle': [
-    { type: 'Subsector', id: 'Transportation_Equipment_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Transportation_Equipment_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Chemicals & Materials
   'Cleaning/Hygiene Products': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Pest/Plant Control Products': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
   ],
   'Lubricants': [
-    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'producedBy' },
   ],
   'Fluids/Fuels/Gases': [
-    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
   ],
   'Raw Materials (Non Food)': [
-    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
+    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
   ],
 
   // Industrial & Manufacturing
   'Industrial Fluid Pumps/Systems': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Paper & Printing
   'Textual/Printed/Reference Materials': [
-    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Printing_and_Related_Support_Activities', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Printing_and_Related_Support_Activities', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Stationery/Office Machinery/Occasion Supplies': [
-    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Entertainment & Recreation
   'Music': [
-    { type: 'Sector', id: 'Information', relationship: 'distributed_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Information', relationship: 'distributedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Toys/Games': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Sports Equipment': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
   'Camping': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Arts & Crafts
   'Arts/Crafts/Needlework': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Lawn & Garden
   'Lawn/Garden Supplies': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Safety & Security
   'Safety/Protection - DIY': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
   ],
   'Safety/Security/Surveillance': [
-    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Computer_and_Electronic_Product_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Storage & Containers
   'Storage/Haulage Containers': [
-    { type: 'Subsector', id: 'Plastics_and_Rubber_Products_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Plastics_and_Rubber_Products_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Personal Accessories
   'Personal Accessories': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Services & Other
   'Services/Vending Machines': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
   ],
   'Postmortem Products': [
-    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Miscellaneous_Manufacturing', relationship: 'producedBy' },
   ],
   'Monetary Assets': [
-    { type: 'Sector', id: 'Finance_and_Insurance', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Finance_and_Insurance', relationship: 'distributedBy' },
   ],
 }
 
@@ -258,116 +259,116 @@ const GS1_TO_NAICS_MAPPINGS: Record<string, Array<{ type: string; id: string; re
 const UNSPSC_TO_NAICS_MAPPINGS: Record<string, Array<{ type: string; id: string; relationship: string }>> = {
   // Live animals and plants
   'Live Plant and Animal Material and Accessories and Supplies': [
-    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Crop_Production', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Animal_Production_and_Aquaculture', relationship: 'produced_by' },
+    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Crop_Production', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Animal_Production_and_Aquaculture', relationship: 'producedBy' },
   ],
 
   // Raw materials
   'Mineral and Textile and Inedible Plant and Animal Materials': [
-    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Textile_Mills', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'produced_by' },
+    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Textile_Mills', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'producedBy' },
   ],
 
   // Chemicals
   'Chemicals including Bio Chemicals and Gas Materials': [
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Rubber, plastics, resin
   'Resin and Rosin and Rubber and Foam and Film and Elastomeric Materials': [
-    { type: 'Subsector', id: 'Plastics_and_Rubber_Products_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Plastics_and_Rubber_Products_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Chemical_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Paper
   'Paper Materials and Products': [
-    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Printing_and_Related_Support_Activities', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Paper_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Printing_and_Related_Support_Activities', relationship: 'producedBy' },
   ],
 
   // Fuels
   'Fuels and Fuel Additives and Lubricants and Anti corrosive Materials': [
-    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Petroleum_and_Coal_Products_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'producedBy' },
   ],
 
   // Mining machinery
   'Mining and Well Drilling Machinery and Accessories': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Mining,_Quarrying,_and_Oil_and_Gas_Extraction', relationship: 'distributedBy' },
   ],
 
   // Agricultural machinery
   'Farming and Fishing and Forestry and Wildlife Machinery and Accessories': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Agriculture,_Forestry,_Fishing_and_Hunting', relationship: 'distributedBy' },
   ],
 
   // Construction machinery
   'Building and Construction Machinery and Accessories': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Construction', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Construction', relationship: 'distributedBy' },
   ],
 
   // Manufacturing machinery
   'Industrial Manufacturing and Processing Machinery and Accessories': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Manufacturing', relationship: 'distributedBy' },
   ],
 
   // Material handling
   'Material Handling and Conditioning and Storage Machinery and their Accessories and Supplies': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Warehousing_and_Storage', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Warehousing_and_Storage', relationship: 'distributedBy' },
   ],
 
   // Vehicles
   'Vehicles and their Accessories and Components': [
-    { type: 'Subsector', id: 'Transportation_Equipment_Manufacturing', relationship: 'produced_by' },
-    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Transportation_Equipment_Manufacturing', relationship: 'producedBy' },
+    { type: 'NAICSIndustry', id: 'Retail_Trade', relationship: 'distributedBy' },
   ],
 
   // Power generation
   'Power Generation and Distribution Machinery and Accessories': [
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Utilities', relationship: 'distributed_by' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Electrical_Equipment,_Appliance,_and_Component_Manufacturing', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Utilities', relationship: 'distributedBy' },
   ],
 
   // General tools
   'Tools and General Machinery': [
-    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'produced_by' },
-    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'produced_by' },
+    { type: 'Subsector', id: 'Fabricated_Metal_Product_Manufacturing', relationship: 'producedBy' },
+    { type: 'Subsector', id: 'Machinery_Manufacturing', relationship: 'producedBy' },
   ],
 
   // Services
   'Healthcare Services': [
-    { type: 'Sector', id: 'Health_Care_and_Social_Assistance', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Health_Care_and_Social_Assistance', relationship: 'distributedBy' },
   ],
   'Education and Training Services': [
-    { type: 'Sector', id: 'Educational_Services', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Educational_Services', relationship: 'distributedBy' },
   ],
   'Travel and Food and Lodging and Entertainment Services': [
-    { type: 'Sector', id: 'Accommodation_and_Food_Services', relationship: 'distributed_by' },
-    { type: 'Sector', id: 'Arts,_Entertainment,_and_Recreation', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Accommodation_and_Food_Services', relationship: 'distributedBy' },
+    { type: 'Sector', id: 'Arts,_Entertainment,_and_Recreation', relationship: 'distributedBy' },
   ],
   'Personal and Domestic Services': [
-    { type: 'Sector', id: 'Other_Services_(except_Public_Administration)', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Other_Services_(except_Public_Administration)', relationship: 'distributedBy' },
   ],
   'Public Order and Security and Safety Services': [
-    { type: 'Sector', id: 'Public_Administration', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Public_Administration', relationship: 'distributedBy' },
   ],
   'Politics and Civic Affairs Services': [
-    { type: 'Sector', id: 'Public_Administration', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Public_Administration', relationship: 'distributedBy' },
   ],
   'Organizations and Clubs': [
-    { type: 'Sector', id: 'Other_Services_(except_Public_Administration)', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Other_Services_(except_Public_Administration)', relationship: 'distributedBy' },
   ],
   'Land and Buildings and Structures and Thoroughfares': [
-    { type: 'Sector', id: 'Construction', relationship: 'produced_by' },
-    { type: 'Sector', id: 'Real_Estate_and_Rental_and_Leasing', relationship: 'distributed_by' },
+    { type: 'Sector', id: 'Construction', relationship: 'producedBy' },
+    { type: 'Sector', id: 'Real_Estate_and_Rental_and_Leasing', relationship: 'distributedBy' },
   ],
 }
 
@@ -378,9 +379,9 @@ export async function transformProductIndustryCrosswalk(): Promise<void> {
   console.log('\n🔗 Transforming Product-Industry Crosswalk...')
 
   // Load data files
-  const gs1Segments = parseTSV<ProductSegment>(join(process.cwd(), '.data', 'GS1.Segments.tsv'))
-  const unspscSegments = parseTSV<ProductSegment>(join(process.cwd(), '.data', 'UNSPSC.Segments.tsv'))
-  const naicsIndustries = parseTSV<NAICSIndustry>(join(process.cwd(), '.data', 'NAICS.Industries.tsv'))
+  const gs1Segments = parseDataTSV<ProductSegment>(join(process.cwd(), '.data', 'GS1.Segments.tsv'))
+  const unspscSegments = parseDataTSV<ProductSegment>(join(process.cwd(), '.data', 'UNSPSC.Segments.tsv'))
+  const naicsIndustries = parseDataTSV<NAICSIndustry>(join(process.cwd(), '.data', 'NAICS.Industries.tsv'))
 
   console.log(`  Loaded ${gs1Segments.length} GS1 segments`)
   console.log(`  Loaded ${unspscSegments.length} UNSPSC segments`)
@@ -468,6 +469,19 @@ export async function transformProductIndustryCrosswalk(): Promise<void> {
   console.log(`  ✓ UNSPSC to NAICS: ${unspscMappedCount}/${unspscSegments.length} segments mapped, ${unspscRelationships.length} relationships`)
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'product-industry-crosswalk',
+  description: 'Product-to-industry crosswalk (GS1/UNSPSC to NAICS)',
+  run: transformProductIndustryCrosswalk,
+  aliases: ['product-industry'],
+  group: 'crosswalk',
+  inputs: ['GS1.Segments.tsv', 'UNSPSC.Segments.tsv', 'NAICS.Industries.tsv'],
+  outputs: [
+    'relationships/GS1.Segment.NAICS.Industry.tsv',
+    'relationships/UNSPSC.Segment.NAICS.Industry.tsv',
+  ],
+}
+
 // Allow running this script directly
 if (import.meta.main) {
   transformProductIndustryCrosswalk()
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for providers.ts
+ * Run with: bun test .scripts/providers.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createTSVBackend, type QueryBackend } from './standards'
+import { loadTemplate } from './templates'
+import { checkComponents, loadComponentManifest, provideProps, resolveComponents, templateComponents, PROVIDERS, type ProviderSpec } from './providers'
+import { writeTSV } from './utils'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+const TEMPLATE = `---
+source: NAICS
+$type: NAICS/Industry
+$id: https://standards.org.ai/NAICS/Industry/{industry.code}
+sameAs: https://standards.org.ai/Industry/{industry.code}
+canonical: https://naics.org.ai/Industry/{industry.code}
+params:
+  - NationalIndustry
+schema:
+  industry:
+    code: 2022NAICSCode
+---
+
+# {industry.title}
+
+<NAICSHierarchy code={industry.code} />
+
+<OccupationsByNAICS code={industry.code} />
+
+\`\`\`jsx
+<NotAComponent />
+\`\`\`
+`
+
+let rootDir: string
+let dataDir: string
+let backend: QueryBackend
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'providers-'))
+  dataDir = join(rootDir, '.data')
+  mkdirSync(join(dataDir, 'relationships'), { recursive: true })
+  mkdirSync(join(rootDir, 'NAICS'))
+  writeFileSync(join(rootDir, 'NAICS', '[NationalIndustry].mdx'), TEMPLATE)
+  writeFileSync(join(rootDir, '.components.tsv'), [
+    'component\tprovider\ttype\tscope',
+    'NAICSHierarchy\tancestors\t\t',
+    'OccupationsByNAICS\trelated\tOccupation\tlineage',
+  ].join('\n'))
+
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Sector', id: 'Agriculture', name: 'Agriculture', code: '11' },
+    { ns: 'naics.org.ai', type: 'Subsector', id: 'Crop_Production', name: 'Crop Production', code: '111' },
+    { ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Grows soybeans', code: '111110' },
+    { ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Wheat_Farming', name: 'Wheat Farming', code: '111140' },
+  ]))
+  writeFileSync(join(dataDir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Farmers', name: 'Farmers', code: '11-9013.00' },
+    { ns: 'onet.org.ai', type: 'Task', id: 'Plant_Crops', name: 'Plant crops', code: '1' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'NationalIndustry', fromId: '111110', toNs: 'naics.org.ai', toType: 'Subsector', toId: '111', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'NationalIndustry', fromId: '111140', toNs: 'naics.org.ai', toType: 'Subsector', toId: '111', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'Subsector', fromId: '111', toNs: 'naics.org.ai', toType: 'Sector', toId: '11', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'SOC.NAICS.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Farmers', toNs: 'naics.org.ai', toType: 'Sector', toId: '11', relationshipType: 'employedIn' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'ONET.Occupation.Task.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Farmers', toNs: 'onet.org.ai', toType: 'Task', toId: 'Plant_Crops', relationshipType: 'performs' },
+  ]))
+
+  backend = createTSVBackend(dataDir)
+})
+
+afterEach(() => {
+  backend.close()
+  rmSync(rootDir, { recursive: true, force: true })
+})
+
+const spec = (provider: ProviderSpec['provider'], type?: string, scope: ProviderSpec['scope'] = 'entity'): ProviderSpec => ({ provider, type, scope })
+
+describe('PROVIDERS', () => {
+  test('walk the hierarchy through code-based relationships', async () => {
+    const entity = (await backend.get({ ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Soybean_Farming' }))!
+    const context = { backend, entity, dataDir }
+
+    const { ancestors } = await PROVIDERS.ancestors(context, spec('ancestors'))
+    expect(ancestors.map(a => a.id)).toEqual(['Agriculture', 'Crop_Production'])
+    expect(ancestors[0].iri).toBe('https://naics.org.ai/Sector/Agriculture')
+
+    expect((await PROVIDERS.parent(context, spec('parent'))).parent?.name).toBe('Crop Production')
+    expect((await PROVIDERS.siblings(context, spec('siblings'))).siblings.map(s => s.id)).toEqual(['Wheat_Farming'])
+
+    const sector = (await backend.get({ ns: 'naics.org.ai', type: 'Sector', id: 'Agriculture' }))!
+    expect((await PROVIDERS.children({ backend, entity: sector, dataDir }, spec('children'))).children.map(c => c.id)).toEqual(['Crop_Production'])
+    expect((await PROVIDERS.entity(context, spec('entity'))).entity.description).toBe('Grows soybeans')
+  })
+
+  test('find related entities of a type, through the ancestors with lineage scope', async () => {
+    const industry = (await backend.get({ ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Soybean_Farming' }))!
+    expect((await PROVIDERS.related({ backend, entity: industry, dataDir }, spec('related', 'Occupation'))).items).toEqual([])
+
+    const { items } = await PROVIDERS.related({ backend, entity: industry, dataDir }, spec('related', 'Occupation', 'lineage'))
+    expect(items).toEqual([{
+      ns: 'onet.org.ai', type: 'Occupation', id: 'Farmers', iri: 'https://onet.org.ai/Occupation/Farmers',
+      name: 'Farmers', code: '11-9013.00', relationshipType: 'employedIn', direction: 'in',
+    }])
+
+    const occupation = (await backend.get({ ns: 'onet.org.ai', type: 'Occupation', id: 'Farmers' }))!
+    const { link } = await PROVIDERS.link({ backend, entity: occupation, dataDir }, spec('link', 'Task'))
+    expect(link?.name).toBe('Plant crops')
+  })
+
+  test('find the entities before and after an entity of its type', async () => {
+    const entity = (await backend.get({ ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Soybean_Farming' }))!
+    const { previous, next } = await PROVIDERS.adjacent({ backend, entity, dataDir }, spec('adjacent'))
+    expect(previous).toBeNull()
+    expect(next?.id).toBe('Wheat_Farming')
+  })
+
+  test('find the BLS employment of an occupation and of the occupations of an industry', async () => {
+    // Written as bls.ts writes it, escapes included
+    const name = 'Farmers, Ranchers, and Other "Agricultural" Managers\\Owners'
+    writeTSV(join(dataDir, 'BLS.EmploymentStats.tsv'), [
+      { ns: 'bls.org.ai', type: 'DetailedOccupation', code: '11-9013', name, totalEmployment: '5900', employmentRse: '4.2', source: 'OEWS' },
+    ])
+    const employment = [{ code: '11-9013', name, totalEmployment: '5900', employmentRse: '4.2' }]
+
+    const occupation = (await backend.get({ ns: 'onet.org.ai', type: 'Occupation', id: 'Farmers' }))!
+    expect((await PROVIDERS.employment({ backend, entity: occupation, dataDir }, spec('employment'))).employment).toEqual(employment)
+
+    const industry = (await backend.get({ ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Soybean_Farming' }))!
+    expect((await PROVIDERS.employment({ backend, entity: industry, dataDir }, spec('employment'))).employment).toEqual([])
+    expect((await PROVIDERS.employment({ backend, entity: industry, dataDir }, spec('employment', 'Occupation', 'lineage'))).employment).toEqual(employment)
+  })
+})
+
+describe('component manifest', () => {
+  test('resolves the components a template uses, outside code', () => {
+    const template = loadTemplate(rootDir, 'NAICS/[NationalIndustry].mdx')
+    expect(templateComponents(template)).toEqual(['NAICSHierarchy', 'OccupationsByNAICS'])
+
+    const manifest = loadComponentManifest(join(rootDir, '.components.tsv'))
+    expect(resolveComponents(template, manifest).get('OccupationsByNAICS')).toEqual(spec('related', 'Occupation', 'lineage'))
+    expect(checkComponents(rootDir)).toEqual([])
+  })
+
+  test('fails on unknown components and malformed entries', () => {
+    writeFileSync(join(rootDir, '.components.tsv'), 'component\tprovider\ttype\tscope\nNAICSHierarchy\tancestors\t\t\n')
+    const manifest = loadComponentManifest(join(rootDir, '.components.tsv'))
+    expect(() => resolveComponents(loadTemplate(rootDir, 'NAICS/[NationalIndustry].mdx'), manifest))
+      .toThrow('NAICS/[NationalIndustry].mdx: unknown components OccupationsByNAICS (add them to .components.tsv)')
+    expect(checkComponents(rootDir, manifest)).toHaveLength(1)
+
+    writeFileSync(join(rootDir, '.components.tsv'), 'component\tprovider\ttype\tscope\nNAICSHierarchy\ttree\t\t\n')
+    expect(() => loadComponentManifest(join(rootDir, '.components.tsv'))).toThrow('row 2: unknown provider "tree" for NAICSHierarchy')
+  })
+
+  test('covers every component of the repository templates', () => {
+    expect(checkComponents()).toEqual([])
+  })
+})
+
+describe('provideProps', () => {
+  test('computes the props of every component for an entity', async () => {
+    const entity = (await backend.get({ ns: 'naics.org.ai', type: 'NationalIndustry', id: 'Wheat_Farming' }))!
+    const props = await provideProps(backend, loadTemplate(rootDir, 'NAICS/[NationalIndustry].mdx'), entity, loadComponentManifest(join(rootDir, '.components.tsv')), dataDir)
+    expect(Object.keys(props)).toEqual(['NAICSHierarchy', 'OccupationsByNAICS'])
+    expect((props.OccupationsByNAICS as { items: { id: string }[] }).items.map(i => i.id)).toEqual(['Farmers'])
+  })
+})
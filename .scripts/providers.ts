@@ -0,0 +1,372 @@
+#!/usr/bin/env bun
+/**
+ * Component Data Providers
+ *
+ * Computes the props of the components the `[Type].mdx` templates use, such as
+ * <NAICSHierarchy>, <ChildIndustries>, <OccupationsByNAICS> or <TaskList>, from the
+ * entity and relationship files. .components.tsv maps every component to the
+ * provider that computes its props:
+ *
+ *   provider   props
+ *   none       {} (the component renders from the props the template passes)
+ *   entity     { entity }    the page's entity
+ *   parent     { parent }    the entity it is a childOf or partOf
+ *   ancestors  { ancestors } parents up to the root, root first
+ *   children   { children }  entities that are a childOf or partOf it
+ *   siblings   { siblings }  the other children of its parent
+ *   related    { items }     entities linked to it by any relationship, in either
+ *                            direction, of the manifest's `type` when given
+ *   link       { link }      the first of those
+ *   adjacent   { previous, next }  the entities of its namespace and type just
+ *                            before and after it, in data order
+ *   employment { employment } BLS employment (BLS.EmploymentStats.tsv) of its SOC
+ *                            code and, with a `type`, of its related entities
+ *
+ * With scope `lineage`, related, link and employment also follow the links of the
+ * entity's ancestors: SOC.NAICS.tsv links occupations to NAICS sectors, so the
+ * occupations of an industry are those of its sector.
+ *
+ * Relationship files may name an entity by its code instead of its id
+ * (NAICS.Industry.Industry.tsv links 111110 to 11111), so links are looked up by
+ * both and resolved to the entity with that code.
+ *
+ * Providers query a QueryBackend (see standards.ts). A template that uses a
+ * component missing from the manifest is an error.
+ *
+ * Usage:
+ *   bun run .scripts/providers.ts check
+ *   bun run .scripts/providers.ts props <template> <entity> [--no-db]
+ */
+
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { parseTSV, parseDataTSV, getDataPath, buildId } from './utils'
+import { getRelationshipType } from './relationship-types'
+import { findTemplates, loadTemplate, maskCode, type Template } from './templates'
+import { openBackend, parseEntityRef, parseArgs, type EntityRef, type QueryBackend, type Row } from './standards'
+
+export const COMPONENT_MANIFEST_FILE = '.components.tsv'
+
+export const EMPLOYMENT_STATS_FILE = 'BLS.EmploymentStats.tsv'
+
+export const PROVIDER_KINDS = ['none', 'entity', 'parent', 'ancestors', 'children', 'siblings', 'related', 'link', 'adjacent', 'employment'] as const
+export type ProviderKind = typeof PROVIDER_KINDS[number]
+
+export type ProviderScope = 'entity' | 'lineage'
+
+export interface ProviderSpec {
+  provider: ProviderKind
+  type?: string                     // related, link and employment: only entities of this type
+  scope: ProviderScope
+}
+
+export type ComponentManifest = Map<string, ProviderSpec>
+
+export interface EntitySummary extends EntityRef {
+  iri: string
+  name: string
+  code: string
+}
+
+export interface RelatedEntity extends EntitySummary {
+  relationshipType: string
+  direction: 'out' | 'in'           // 'out' when the page's entity is the from side
+}
+
+export interface EmploymentStat {
+  code: string                      // SOC code
+  name: string
+  totalEmployment: string
+  employmentRse: string             // relative standard error, in percent
+}
+
+export interface ProviderProps {
+  none: Record<string, never>
+  entity: { entity: EntitySummary & { description: string } }
+  parent: { parent: EntitySummary | null }
+  ancestors: { ancestors: EntitySummary[] }
+  children: { children: EntitySummary[] }
+  siblings: { siblings: EntitySummary[] }
+  related: { items: RelatedEntity[] }
+  link: { link: RelatedEntity | null }
+  adjacent: { previous: EntitySummary | null; next: EntitySummary | null }
+  employment: { employment: EmploymentStat[] }
+}
+
+export interface ProviderContext {
+  backend: QueryBackend
+  entity: Row
+  dataDir: string                   // for the data the backend does not index
+}
+
+export type Provider<K extends ProviderKind> = (context: ProviderContext, spec: ProviderSpec) => Promise<ProviderProps[K]>
+
+// Relationship types pointing from a child to its parent
+const PARENT_RELATIONSHIPS = ['childOf', 'partOf']
+const CHILD_RELATIONSHIPS = PARENT_RELATIONSHIPS.map(name => getRelationshipType(name)!.inverse)
+
+// Guards against cycles in malformed hierarchies
+const MAX_ANCESTORS = 20
+
+function summarize(row: Row): EntitySummary {
+  return { ns: row.ns, type: row.type, id: row.id, iri: buildId(row.ns, row.type, row.id), name: row.name || '', code: row.code || '' }
+}
+
+function summaryKey(entity: EntityRef | Row): string {
+  return `${entity.ns}\t${entity.type}\t${entity.id}`
+}
+
+/**
+ * The entity a relationship endpoint names, by id or else by code
+ */
+async function resolveEndpoint(backend: QueryBackend, ref: EntityRef): Promise<Row | undefined> {
+  const row = await backend.get(ref)
+  if (row) return row
+  return (await backend.byCode(ref.type, ref.id)).find(candidate => candidate.ns === ref.ns)
+}
+
+/**
+ * Entities linked to an entity by one hop, looked up by its id and its code
+ */
+async function linksOf(backend: QueryBackend, entity: Row, relationshipTypes?: string[]): Promise<RelatedEntity[]> {
+  const refs: EntityRef[] = [{ ns: entity.ns, type: entity.type, id: entity.id }]
+  if (entity.code && entity.code !== entity.id) refs.push({ ns: entity.ns, type: entity.type, id: entity.code })
+
+  const links: RelatedEntity[] = []
+  const seen = new Set<string>()
+  for (const ref of refs) {
+    for (const neighbor of await backend.neighbors(ref, { relationshipTypes, depth: 1 })) {
+      const row = await resolveEndpoint(backend, neighbor)
+      const summary = row ? summarize(row) : summarize({ ns: neighbor.ns, type: neighbor.type, id: neighbor.id, name: neighbor.name })
+      const key = `${summaryKey(summary)}\t${neighbor.relationshipType}\t${neighbor.direction}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      links.push({ ...summary, relationshipType: neighbor.relationshipType, direction: neighbor.direction })
+    }
+  }
+  return links
+}
+
+async function parentOf(backend: QueryBackend, entity: Row): Promise<Row | undefined> {
+  const links = await linksOf(backend, entity, [...PARENT_RELATIONSHIPS, ...CHILD_RELATIONSHIPS])
+  const parent = links.find(link =>
+    (link.direction === 'out' && PARENT_RELATIONSHIPS.includes(link.relationshipType)) ||
+    (link.direction === 'in' && CHILD_RELATIONSHIPS.includes(link.relationshipType)))
+  if (!parent) return undefined
+  return (await backend.get(parent)) ?? { ns: parent.ns, type: parent.type, id: parent.id, name: parent.name, code: parent.code }
+}
+
+async function childrenOf(backend: QueryBackend, entity: Row): Promise<EntitySummary[]> {
+  const links = await linksOf(backend, entity, [...PARENT_RELATIONSHIPS, ...CHILD_RELATIONSHIPS])
+  return links
+    .filter(link =>
+      (link.direction === 'in' && PARENT_RELATIONSHIPS.includes(link.relationshipType)) ||
+      (link.direction === 'out' && CHILD_RELATIONSHIPS.includes(link.relationshipType)))
+    .map(({ relationshipType, direction, ...summary }) => summary)
+}
+
+async function ancestorsOf(backend: QueryBackend, entity: Row): Promise<Row[]> {
+  const ancestors: Row[] = []
+  const seen = new Set([summaryKey(entity)])
+  let current = await parentOf(backend, entity)
+  while (current && ancestors.length < MAX_ANCESTORS && !seen.has(summaryKey(current))) {
+    seen.add(summaryKey(current))
+    ancestors.unshift(current)
+    current = await parentOf(backend, current)
+  }
+  return ancestors
+}
+
+async function relatedTo(context: ProviderContext, spec: ProviderSpec): Promise<RelatedEntity[]> {
+  const { backend, entity } = context
+  const sources = spec.scope === 'lineage' ? [entity, ...(await ancestorsOf(backend, entity)).reverse()] : [entity]
+  const items: RelatedEntity[] = []
+  const seen = new Set<string>()
+  for (const source of sources) {
+    for (const link of await linksOf(backend, source)) {
+      const key = summaryKey(link)
+      if ((spec.type && link.type !== spec.type) || seen.has(key) || key === summaryKey(entity)) continue
+      seen.add(key)
+      items.push(link)
+    }
+  }
+  return items
+}
+
+// Employment statistics by SOC code, per data directory
+const employmentStats = new Map<string, Map<string, EmploymentStat>>()
+
+function loadEmploymentStats(dataDir: string): Map<string, EmploymentStat> {
+  let stats = employmentStats.get(dataDir)
+  if (!stats) {
+    stats = new Map()
+    const filePath = join(dataDir, EMPLOYMENT_STATS_FILE)
+    if (existsSync(filePath)) {
+      for (const row of parseDataTSV(filePath)) {
+        if (row.code) stats.set(row.code, { code: row.code, name: row.name || '', totalEmployment: row.totalEmployment || '', employmentRse: row.employmentRse || '' })
+      }
+    }
+    employmentStats.set(dataDir, stats)
+  }
+  return stats
+}
+
+/**
+ * The SOC code of an O*NET-SOC code (11-9013.03 -> 11-9013); SOC codes are kept
+ */
+function socCode(code: string): string {
+  return code.replace(/\.\d+$/, '')
+}
+
+async function employmentOf(context: ProviderContext, spec: ProviderSpec): Promise<EmploymentStat[]> {
+  const stats = loadEmploymentStats(context.dataDir)
+  const sources = [context.entity, ...(spec.type ? await relatedTo(context, spec) : [])]
+  const employment: EmploymentStat[] = []
+  const seen = new Set<string>()
+  for (const source of sources) {
+    const stat = source.code ? stats.get(socCode(source.code)) : undefined
+    if (!stat || seen.has(stat.code)) continue
+    seen.add(stat.code)
+    employment.push(stat)
+  }
+  return employment
+}
+
+export const PROVIDERS: { [K in ProviderKind]: Provider<K> } = {
+  none: async () => ({}),
+  entity: async ({ entity }) => ({ entity: { ...summarize(entity), description: entity.description || '' } }),
+  parent: async ({ backend, entity }) => {
+    const parent = await parentOf(backend, entity)
+    return { parent: parent ? summarize(parent) : null }
+  },
+  ancestors: async ({ backend, entity }) => ({ ancestors: (await ancestorsOf(backend, entity)).map(summarize) }),
+  children: async ({ backend, entity }) => ({ children: await childrenOf(backend, entity) }),
+  siblings: async ({ backend, entity }) => {
+    const parent = await parentOf(backend, entity)
+    const self = summaryKey(entity)
+    return { siblings: parent ? (await childrenOf(backend, parent)).filter(child => summaryKey(child) !== self) : [] }
+  },
+  related: async (context, spec) => ({ items: await relatedTo(context, spec) }),
+  link: async (context, spec) => ({ link: (await relatedTo(context, spec))[0] ?? null }),
+  adjacent: async ({ backend, entity }) => {
+    const peers = await backend.byType(entity.ns, entity.type)
+    const i = peers.findIndex(peer => peer.id === entity.id)
+    return {
+      previous: i > 0 ? summarize(peers[i - 1]) : null,
+      next: i >= 0 && i < peers.length - 1 ? summarize(peers[i + 1]) : null,
+    }
+  },
+  employment: async (context, spec) => ({ employment: await employmentOf(context, spec) }),
+}
+
+/**
+ * Load the component manifest
+ */
+export function loadComponentManifest(filePath: string = join(process.cwd(), COMPONENT_MANIFEST_FILE)): ComponentManifest {
+  if (!existsSync(filePath)) throw new Error(`${filePath}: component manifest not found`)
+
+  const manifest: ComponentManifest = new Map()
+  parseTSV(filePath).forEach((row, i) => {
+    if (!row.component || row.component.startsWith('#')) return
+    const where = `${filePath} row ${i + 2}`
+    if (!(PROVIDER_KINDS as readonly string[]).includes(row.provider)) {
+      throw new Error(`${where}: unknown provider "${row.provider}" for ${row.component}`)
+    }
+    const scope = row.scope || 'entity'
+    if (scope !== 'entity' && scope !== 'lineage') {
+      throw new Error(`${where}: unknown scope "${row.scope}" for ${row.component}`)
+    }
+    if (manifest.has(row.component)) {
+      throw new Error(`${where}: ${row.component} is listed twice`)
+    }
+    manifest.set(row.component, { provider: row.provider as ProviderKind, type: row.type || undefined, scope })
+  })
+  return manifest
+}
+
+/**
+ * The components a template renders, in order of first use, outside code
+ */
+export function templateComponents(template: Template): string[] {
+  const names = [...maskCode(template.frontmatter.body).matchAll(/<([A-Z][\w.]*)/g)].map(match => match[1])
+  return [...new Set(names)]
+}
+
+/**
+ * The provider of every component a template uses, failing on components missing
+ * from the manifest
+ */
+export function resolveComponents(template: Template, manifest: ComponentManifest): Map<string, ProviderSpec> {
+  const components = templateComponents(template)
+  const unknown = components.filter(name => !manifest.has(name))
+  if (unknown.length > 0) {
+    throw new Error(`${template.file}: unknown components ${unknown.join(', ')} (add them to ${COMPONENT_MANIFEST_FILE})`)
+  }
+  return new Map(components.map(name => [name, manifest.get(name)!]))
+}
+
+/**
+ * Compute the props of every component of a template for one entity
+ */
+export async function provideProps(
+  backend: QueryBackend,
+  template: Template,
+  entity: Row,
+  manifest: ComponentManifest,
+  dataDir: string = getDataPath(),
+): Promise<Record<string, ProviderProps[ProviderKind]>> {
+  const props: Record<string, ProviderProps[ProviderKind]> = {}
+  for (const [component, spec] of resolveComponents(template, manifest)) {
+    const provider = PROVIDERS[spec.provider] as Provider<ProviderKind>
+    props[component] = await provider({ backend, entity, dataDir }, spec)
+  }
+  return props
+}
+
+/**
+ * Check every template against the manifest, returning one message per template
+ * with unknown components
+ */
+export function checkComponents(rootDir: string = process.cwd(), manifest: ComponentManifest = loadComponentManifest(join(rootDir, COMPONENT_MANIFEST_FILE))): string[] {
+  const problems: string[] = []
+  for (const file of findTemplates(rootDir)) {
+    try {
+      resolveComponents(loadTemplate(rootDir, file), manifest)
+    } catch (e) {
+      problems.push((e as Error).message)
+    }
+  }
+  return problems
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (args.command === 'check') {
+    const problems = checkComponents()
+    for (const problem of problems) console.error(problem)
+    console.log(problems.length === 0 ? 'Every template component has a provider' : `${problems.length} templates use unknown components`)
+    process.exit(problems.length > 0 ? 1 : 0)
+  }
+
+  if (args.command !== 'props' || args.positional.length !== 2) {
+    console.error('Usage: bun run .scripts/providers.ts check | props <template> <entity> [--no-db]')
+    process.exit(1)
+  }
+
+  const [file, ref] = args.positional
+  const dataDir = getDataPath()
+  const backend = openBackend(dataDir, !args.options['no-db'])
+  try {
+    const entity = await backend.get(parseEntityRef(ref))
+    if (!entity) {
+      console.error(`No entity ${ref}`)
+      process.exit(1)
+    }
+    const props = await provideProps(backend, loadTemplate(process.cwd(), file), entity, loadComponentManifest(), dataDir)
+    console.log(JSON.stringify(props, null, 2))
+  } finally {
+    backend.close()
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for rdf.ts
+ * Run with: bun test .scripts/rdf.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  createNTriplesWriter,
+  createTurtleWriter,
+  formatTurtle,
+  formatNTriple,
+  parseNTriples,
+  parseTurtle,
+  encodeIri,
+  expandPrefixedName,
+  RDF_PREFIXES,
+  RDF_TYPE,
+  type Triple,
+} from './rdf'
+
+const BASE = 'https://naics.org.ai/'
+
+const TRIPLES: Triple[] = [
+  { subject: `${BASE}Industry/Soybean_Farming`, predicate: RDF_TYPE, object: { iri: `${BASE}Industry` } },
+  { subject: `${BASE}Industry/Soybean_Farming`, predicate: `${RDF_PREFIXES.rdfs}label`, object: { literal: 'Soybean "Farming"\t\\ café\nnext' } },
+  { subject: `${BASE}Industry/Soybean_Farming`, predicate: `${RDF_PREFIXES.skos}broader`, object: { iri: `${BASE}Industry/Oilseed_Farming` } },
+  { subject: `${BASE}Industry/Soybean_Farming`, predicate: `${RDF_PREFIXES.skos}broader`, object: { iri: 'https://industries.org.ai/Industry/Farming' } },
+  { subject: `${BASE}Industry/Oilseed_(Except_Soybean)_Farming`, predicate: `${RDF_PREFIXES.skos}notation`, object: { literal: '11112' } },
+  { subject: `${BASE}Industry/Oilseed_(Except_Soybean)_Farming`, predicate: `${RDF_PREFIXES.owl}sameAs`, object: { iri: 'https://example.org/a b' } },
+]
+
+// IRIs come back percent-encoded where they had characters IRIs may not contain
+const ENCODED = TRIPLES.map(t => ({
+  ...t,
+  object: 'iri' in t.object ? { iri: encodeIri(t.object.iri) } : t.object,
+}))
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'rdf-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('formatNTriple', () => {
+  test('writes full IRIs and escaped literals', () => {
+    expect(formatNTriple(TRIPLES[1])).toBe(
+      '<https://naics.org.ai/Industry/Soybean_Farming> <http://www.w3.org/2000/01/rdf-schema#label> "Soybean \\"Farming\\"\\t\\\\ café\\nnext" .'
+    )
+    expect(formatNTriple(TRIPLES[5])).toContain('<https://example.org/a%20b>')
+  })
+})
+
+describe('expandPrefixedName', () => {
+  test('expands known prefixes only', () => {
+    expect(expandPrefixedName('skos:broader')).toBe('http://www.w3.org/2004/02/skos/core#broader')
+    expect(expandPrefixedName('https://standards.org.ai/vocab/uses')).toBe('https://standards.org.ai/vocab/uses')
+  })
+})
+
+describe('N-Triples', () => {
+  test('round-trips through the writer and parser', async () => {
+    const filePath = join(dir, 'graph.nt')
+    const writer = createNTriplesWriter(filePath)
+    for (const triple of TRIPLES) await writer.write(triple)
+    await writer.close()
+
+    expect(writer.count).toBe(6)
+    expect(parseNTriples(readFileSync(filePath, 'utf-8'))).toEqual(ENCODED)
+  })
+
+  test('parses language tags and datatypes and rejects malformed lines', () => {
+    expect(parseNTriples('<a:s> <a:p> "x"@en-GB .\n<a:s> <a:p> "1"^^<http://www.w3.org/2001/XMLSchema#integer> . # comment\n')).toEqual([
+      { subject: 'a:s', predicate: 'a:p', object: { literal: 'x', language: 'en-GB' } },
+      { subject: 'a:s', predicate: 'a:p', object: { literal: '1', datatype: 'http://www.w3.org/2001/XMLSchema#integer' } },
+    ])
+    expect(() => parseNTriples('<a:s> <a:p> "x"', 'graph.nt')).toThrow('graph.nt: expected "." on line 1')
+    expect(() => parseNTriples('<a:s> <a b> "x" .')).toThrow('invalid character in IRI')
+  })
+})
+
+describe('Turtle', () => {
+  test('compacts IRIs, groups by subject and round-trips', async () => {
+    const filePath = join(dir, 'naics.ttl')
+    const writer = createTurtleWriter(filePath, { base: BASE, prefixes: RDF_PREFIXES })
+    for (const triple of TRIPLES) await writer.write(triple)
+    await writer.close()
+
+    const text = readFileSync(filePath, 'utf-8')
+    expect(text).toContain('@base <https://naics.org.ai/> .')
+    expect(text).toContain('<Industry/Soybean_Farming> a <Industry> ;')
+    expect(text).toContain('    skos:broader <Industry/Oilseed_Farming> ,\n        <https://industries.org.ai/Industry/Farming> .')
+    expect(parseTurtle(text)).toEqual(ENCODED)
+    expect(formatTurtle(TRIPLES, { base: BASE, prefixes: RDF_PREFIXES })).toBe(text)
+  })
+
+  test('parses prefixed names and SPARQL-style directives', () => {
+    const text = [
+      'PREFIX ex: <http://example.org/>',
+      'BASE <http://example.org/base/>',
+      'ex:a ex:knows ex:b.c , <d> ; a ex:Person .',
+    ].join('\n')
+    expect(parseTurtle(text)).toEqual([
+      { subject: 'http://example.org/a', predicate: 'http://example.org/knows', object: { iri: 'http://example.org/b.c' } },
+      { subject: 'http://example.org/a', predicate: 'http://example.org/knows', object: { iri: 'http://example.org/base/d' } },
+      { subject: 'http://example.org/a', predicate: RDF_TYPE, object: { iri: 'http://example.org/Person' } },
+    ])
+    expect(() => parseTurtle('ex:a ex:b ex:c .', 'x.ttl')).toThrow('x.ttl: undeclared prefix ex')
+  })
+})
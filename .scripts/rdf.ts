@@ -0,0 +1,453 @@
+/**
+ * RDF serialization
+ *
+ * Streaming writers for N-Triples and Turtle, and parsers used to validate the
+ * output by reading it back:
+ *
+ *   const writer = createTurtleWriter('naics.org.ai.ttl', { base: 'https://naics.org.ai/', prefixes: RDF_PREFIXES })
+ *   await writer.write({ subject: iri, predicate: RDF_TYPE, object: { iri: typeIri } })
+ *   await writer.close()
+ *
+ * Objects are IRIs or plain string literals. The Turtle writer compacts IRIs under
+ * a prefix or the base, and groups consecutive triples that share a subject (;) or
+ * subject and predicate (,). parseTurtle reads the subset of Turtle this module
+ * writes plus prefixed names, @base/BASE, language tags and datatypes.
+ */
+
+import { createWriteStream, existsSync, mkdirSync, type WriteStream } from 'fs'
+import { once } from 'events'
+import { dirname } from 'path'
+import type { TSVWriter } from './utils'
+
+export type RdfObject = { iri: string } | { literal: string; language?: string; datatype?: string }
+
+export interface Triple {
+  subject: string
+  predicate: string
+  object: RdfObject
+}
+
+export interface TurtleOptions {
+  base?: string
+  prefixes?: Record<string, string>     // prefix -> namespace IRI
+}
+
+export const RDF_PREFIXES: Record<string, string> = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  schema: 'https://schema.org/',
+}
+
+export const RDF_TYPE = `${RDF_PREFIXES.rdf}type`
+
+// Characters not allowed in an IRIREF
+const IRI_UNSAFE = /[\u0000- <>"{}|^`\\]/g
+
+const ABSOLUTE_IRI = /^[a-zA-Z][a-zA-Z0-9+.-]*:/
+
+// Prefixed name local parts written without escapes
+const SAFE_LOCAL_NAME = /^[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_-])?$/
+
+const LITERAL_ESCAPES: Record<string, string> = { '"': '\\"', '\\': '\\\\', '\n': '\\n', '\r': '\\r', '\t': '\\t', '\b': '\\b', '\f': '\\f' }
+
+/**
+ * Percent-encode the characters an IRI may not contain
+ */
+export function encodeIri(iri: string): string {
+  return iri.replace(IRI_UNSAFE, c => encodeURIComponent(c))
+}
+
+/**
+ * Expand a prefixed name (skos:broader) using the given prefixes; other values are
+ * returned unchanged
+ */
+export function expandPrefixedName(name: string, prefixes: Record<string, string> = RDF_PREFIXES): string {
+  const colon = name.indexOf(':')
+  const namespace = colon > 0 ? prefixes[name.slice(0, colon)] : undefined
+  return namespace ? namespace + name.slice(colon + 1) : name
+}
+
+function escapeLiteral(value: string): string {
+  return value.replace(/["\\\n\r\t\b\f]|[\u0000-\u001f\u007f]/g, c =>
+    LITERAL_ESCAPES[c] || `\\u${c.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}`
+  )
+}
+
+function formatLiteral(object: { literal: string; language?: string; datatype?: string }, formatIri: (iri: string) => string): string {
+  const text = `"${escapeLiteral(object.literal)}"`
+  if (object.language) return `${text}@${object.language}`
+  if (object.datatype) return `${text}^^${formatIri(object.datatype)}`
+  return text
+}
+
+const WRITE_BUFFER_SIZE = 64 * 1024
+
+const fullIri = (iri: string) => `<${encodeIri(iri)}>`
+
+/**
+ * Format a triple as one N-Triples line (without the newline)
+ */
+export function formatNTriple(triple: Triple): string {
+  const object = 'iri' in triple.object ? fullIri(triple.object.iri) : formatLiteral(triple.object, fullIri)
+  return `${fullIri(triple.subject)} ${fullIri(triple.predicate)} ${object} .`
+}
+
+/**
+ * Shared stream handling for the writers: creates the file on open, buffers small
+ * chunks, waits for the stream to drain, and surfaces stream errors on the next call
+ */
+function openTextStream(filePath: string) {
+  const dir = dirname(filePath)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  const stream: WriteStream = createWriteStream(filePath, { encoding: 'utf-8' })
+  let failure: Error | undefined
+  stream.on('error', e => { failure = e })
+  let buffer = ''
+
+  const flush = async () => {
+    if (failure) throw failure
+    const chunk = buffer
+    buffer = ''
+    if (chunk && !stream.write(chunk)) {
+      await once(stream, 'drain')
+    }
+  }
+
+  return {
+    async write(chunk: string) {
+      buffer += chunk
+      if (buffer.length >= WRITE_BUFFER_SIZE) await flush()
+    },
+    async close() {
+      await flush()
+      stream.end()
+      await once(stream, 'finish')
+    },
+  }
+}
+
+/**
+ * Open a streaming N-Triples writer
+ */
+export function createNTriplesWriter(filePath: string): TSVWriter<Triple> {
+  const stream = openTextStream(filePath)
+  let count = 0
+
+  return {
+    get count() {
+      return count
+    },
+    async write(triple) {
+      count++
+      await stream.write(formatNTriple(triple) + '\n')
+    },
+    close: () => stream.close(),
+  }
+}
+
+/**
+ * Incremental Turtle formatting shared by the writer and formatTurtle. Each call to
+ * next returns the text to append for one triple; end closes the last statement.
+ */
+function createTurtleFormatter(options: TurtleOptions) {
+  const prefixes = Object.entries(options.prefixes || {})
+  let subject: string | undefined
+  let predicate: string | undefined
+
+  const formatIri = (iri: string): string => {
+    for (const [prefix, namespace] of prefixes) {
+      if (iri.startsWith(namespace) && SAFE_LOCAL_NAME.test(iri.slice(namespace.length))) {
+        return `${prefix}:${iri.slice(namespace.length)}`
+      }
+    }
+    // Relative to the base, unless the remainder would read as an absolute IRI
+    const relative = options.base && iri.startsWith(options.base) ? iri.slice(options.base.length) : ''
+    if (relative && !ABSOLUTE_IRI.test(relative)) {
+      return `<${encodeIri(relative)}>`
+    }
+    return fullIri(iri)
+  }
+
+  const header = [
+    ...(options.base ? [`@base <${encodeIri(options.base)}> .`] : []),
+    ...prefixes.map(([prefix, namespace]) => `@prefix ${prefix}: <${encodeIri(namespace)}> .`),
+  ]
+  let pending = header.length > 0 ? header.join('\n') + '\n' : ''
+
+  return {
+    next(triple: Triple): string {
+      const object = 'iri' in triple.object ? formatIri(triple.object.iri) : formatLiteral(triple.object, formatIri)
+      const verb = triple.predicate === RDF_TYPE ? 'a' : formatIri(triple.predicate)
+
+      let chunk = pending
+      pending = ''
+      if (triple.subject === subject && triple.predicate === predicate) {
+        chunk += ` ,\n        ${object}`
+      } else if (triple.subject === subject) {
+        chunk += ` ;\n    ${verb} ${object}`
+      } else {
+        chunk += `${subject !== undefined ? ' .\n' : ''}\n${formatIri(triple.subject)} ${verb} ${object}`
+      }
+      subject = triple.subject
+      predicate = triple.predicate
+      return chunk
+    },
+
+    end(): string {
+      return pending + (subject !== undefined ? ' .\n' : '')
+    },
+  }
+}
+
+/**
+ * Open a streaming Turtle writer
+ */
+export function createTurtleWriter(filePath: string, options: TurtleOptions = {}): TSVWriter<Triple> {
+  const stream = openTextStream(filePath)
+  const formatter = createTurtleFormatter(options)
+  let count = 0
+
+  return {
+    get count() {
+      return count
+    },
+
+    async write(triple) {
+      count++
+      await stream.write(formatter.next(triple))
+    },
+
+    async close() {
+      await stream.write(formatter.end())
+      await stream.close()
+    },
+  }
+}
+
+/**
+ * Format triples as a Turtle document, the same text createTurtleWriter writes
+ */
+export function formatTurtle(triples: Iterable<Triple>, options: TurtleOptions = {}): string {
+  const formatter = createTurtleFormatter(options)
+  let text = ''
+  for (const triple of triples) text += formatter.next(triple)
+  return text + formatter.end()
+}
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+const UNESCAPES: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' }
+
+// Sticky patterns, matched at the scanner position
+const PREFIXED_NAME = /(?:[\p{L}_][\p{L}\p{N}_.-]*)?:(?:[\p{L}\p{N}_.:%-]|\\.)*/uy
+const LANGUAGE_TAG = /@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/y
+
+/**
+ * Tokenizer shared by the N-Triples and Turtle parsers
+ */
+class Scanner {
+  pos = 0
+
+  constructor(private text: string, private source: string) {}
+
+  fail(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length
+    throw new Error(`${this.source}: ${message} on line ${line}`)
+  }
+
+  skipSpace(): void {
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos]
+      if (c === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++
+      } else if (c === ' ' || c === '\t' || c === '\n' || c === '\r') {
+        this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  done(): boolean {
+    this.skipSpace()
+    return this.pos >= this.text.length
+  }
+
+  peek(): string {
+    this.skipSpace()
+    return this.text[this.pos]
+  }
+
+  lookingAt(token: string): boolean {
+    this.skipSpace()
+    return this.text.startsWith(token, this.pos)
+  }
+
+  expect(token: string): void {
+    if (!this.lookingAt(token)) this.fail(`expected "${token}"`)
+    this.pos += token.length
+  }
+
+  iriRef(): string {
+    this.expect('<')
+    const end = this.text.indexOf('>', this.pos)
+    if (end < 0) this.fail('unterminated IRI')
+    const iri = this.text.slice(this.pos, end)
+    if (/[\u0000- <"{}|^`]/.test(iri)) this.fail(`invalid character in IRI <${iri}>`)
+    this.pos = end + 1
+    return this.unescapeNumeric(iri)
+  }
+
+  string(): string {
+    this.expect('"')
+    let value = ''
+    for (;;) {
+      if (this.pos >= this.text.length) this.fail('unterminated string')
+      const c = this.text[this.pos++]
+      if (c === '"') return value
+      if (c === '\n' || c === '\r') this.fail('line break in string')
+      if (c !== '\\') {
+        value += c
+        continue
+      }
+      const e = this.text[this.pos++]
+      if (e === 'u' || e === 'U') {
+        const length = e === 'u' ? 4 : 8
+        const hex = this.text.slice(this.pos, this.pos + length)
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) this.fail('invalid unicode escape')
+        value += String.fromCodePoint(parseInt(hex, 16))
+        this.pos += length
+      } else if (e in UNESCAPES) {
+        value += UNESCAPES[e]
+      } else {
+        this.fail(`invalid escape \\${e}`)
+      }
+    }
+  }
+
+  // Language tag or datatype after a string
+  literal(readIri: () => string): RdfObject {
+    const literal = this.string()
+    if (this.text[this.pos] === '@') {
+      LANGUAGE_TAG.lastIndex = this.pos
+      const match = LANGUAGE_TAG.exec(this.text)
+      if (!match) this.fail('invalid language tag')
+      this.pos += match[0].length
+      return { literal, language: match[1] }
+    }
+    if (this.text.startsWith('^^', this.pos)) {
+      this.pos += 2
+      return { literal, datatype: readIri() }
+    }
+    return { literal }
+  }
+
+  // Prefixed name (skos:broader) or prefix declaration (skos:); a local name does not end with a dot
+  name(): string {
+    this.skipSpace()
+    PREFIXED_NAME.lastIndex = this.pos
+    const match = PREFIXED_NAME.exec(this.text)
+    if (!match) this.fail('expected a term')
+    let name = match[0]
+    while (name.endsWith('.') && !name.endsWith('\\.')) name = name.slice(0, -1)
+    this.pos += name.length
+    return name
+  }
+
+  private unescapeNumeric(iri: string): string {
+    return iri.replace(/\\u([0-9A-Fa-f]{4})|\\U([0-9A-Fa-f]{8})/g, (_, a, b) => String.fromCodePoint(parseInt(a || b, 16)))
+  }
+}
+
+/**
+ * Parse N-Triples
+ */
+export function parseNTriples(text: string, source: string = 'N-Triples'): Triple[] {
+  const scanner = new Scanner(text, source)
+  const triples: Triple[] = []
+
+  while (!scanner.done()) {
+    const subject = scanner.iriRef()
+    const predicate = scanner.iriRef()
+    const object: RdfObject = scanner.peek() === '<'
+      ? { iri: scanner.iriRef() }
+      : scanner.literal(() => scanner.iriRef())
+    scanner.expect('.')
+    triples.push({ subject, predicate, object })
+  }
+
+  return triples
+}
+
+/**
+ * Parse Turtle
+ */
+export function parseTurtle(text: string, source: string = 'Turtle'): Triple[] {
+  const scanner = new Scanner(text, source)
+  const prefixes: Record<string, string> = {}
+  let base = ''
+  const triples: Triple[] = []
+
+  const resolve = (iri: string) => (ABSOLUTE_IRI.test(iri) ? iri : base + iri)
+
+  const readIri = (): string => {
+    if (scanner.peek() === '<') return resolve(scanner.iriRef())
+    const name = scanner.name()
+    const colon = name.indexOf(':')
+    if (colon < 0) scanner.fail(`expected an IRI, found ${name}`)
+    const prefix = name.slice(0, colon)
+    if (!(prefix in prefixes)) scanner.fail(`undeclared prefix ${prefix}`)
+    return prefixes[prefix] + name.slice(colon + 1).replace(/\\(.)/g, '$1')
+  }
+
+  while (!scanner.done()) {
+    if (scanner.lookingAt('@prefix') || /^PREFIX\s/i.test(text.slice(scanner.pos, scanner.pos + 7))) {
+      const sparql = !scanner.lookingAt('@')
+      scanner.pos += sparql ? 6 : 7
+      const name = scanner.name()
+      if (!name.endsWith(':')) scanner.fail(`invalid prefix ${name}`)
+      prefixes[name.slice(0, -1)] = resolve(scanner.iriRef())
+      if (!sparql) scanner.expect('.')
+      continue
+    }
+    if (scanner.lookingAt('@base') || /^BASE\s/i.test(text.slice(scanner.pos, scanner.pos + 5))) {
+      const sparql = !scanner.lookingAt('@')
+      scanner.pos += sparql ? 4 : 5
+      base = resolve(scanner.iriRef())
+      if (!sparql) scanner.expect('.')
+      continue
+    }
+
+    const subject = readIri()
+    for (;;) {
+      let predicate: string
+      if (scanner.lookingAt('a') && /[\s<"]/.test(text[scanner.pos + 1] || '')) {
+        scanner.pos++
+        predicate = RDF_TYPE
+      } else {
+        predicate = readIri()
+      }
+
+      for (;;) {
+        const object: RdfObject = scanner.peek() === '"' ? scanner.literal(readIri) : { iri: readIri() }
+        triples.push({ subject, predicate, object })
+        if (!scanner.lookingAt(',')) break
+        scanner.pos++
+      }
+
+      if (!scanner.lookingAt(';')) break
+      scanner.pos++
+      // A trailing ; before the final .
+      if (scanner.lookingAt('.')) break
+    }
+    scanner.expect('.')
+  }
+
+  return triples
+}
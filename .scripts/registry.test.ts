@@ -0,0 +1,58 @@
+/**
+ * Unit tests for registry.ts
+ * Run with: bun test .scripts/registry.test.ts
+ */
+
+import { describe, test, expect, beforeAll } from 'bun:test'
+import { loadTransformers, resolveSelection, formatSourceHelp, type RegisteredTransformer } from './registry'
+
+describe('loadTransformers', () => {
+  let transformers: RegisteredTransformer[]
+
+  beforeAll(async () => {
+    transformers = await loadTransformers()
+  })
+
+  test('discovers every transformer module', () => {
+    const names = transformers.map(t => t.name)
+    for (const name of ['onet', 'naics', 'edi', 'ecommerce', 'gsa', 'uspto', 'usitc', 'graph']) {
+      expect(names).toContain(name)
+    }
+    expect(transformers.filter(t => t.group === 'superset').length).toBe(6)
+  })
+
+  test('records the module path of each transformer', () => {
+    const naics = transformers.find(t => t.name === 'naics')!
+    expect(naics.modulePath.endsWith('naics.ts')).toBe(true)
+  })
+
+  test('declares the outputs of every transformer writing to .data', () => {
+    const undeclared = transformers.filter(t => !t.outputs?.length).map(t => t.name)
+    expect(undeclared).toEqual(['parquet'])
+  })
+})
+
+describe('resolveSelection', () => {
+  const run = async () => {}
+  const transformers = [
+    { name: 'census', description: '', run, aliases: ['us-census'] },
+    { name: 'w3c-html', description: '', run, group: 'w3c' as const },
+    { name: 'w3c-css', description: '', run, group: 'w3c' as const },
+  ]
+
+  test('resolves names, aliases and groups', () => {
+    expect(resolveSelection(transformers, ['us-census']).selected).toEqual(['census'])
+    expect(resolveSelection(transformers, ['w3c']).selected).toEqual(['w3c-html', 'w3c-css'])
+    expect(resolveSelection(transformers, ['w3c', 'w3c-css']).selected).toEqual(['w3c-html', 'w3c-css'])
+  })
+
+  test('reports unknown sources', () => {
+    expect(resolveSelection(transformers, ['census', 'bogus']).unknown).toEqual(['bogus'])
+  })
+
+  test('lists groups and aliases in the help output', () => {
+    const help = formatSourceHelp(transformers)
+    expect(help).toContain('w3c ')
+    expect(help).toMatch(/us-census\s+Alias for census/)
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Transformer registry
+ *
+ * Every transformer module in .scripts exports a descriptor named `transformer`:
+ *
+ *   export const transformer: TransformerDescriptor = {
+ *     name: 'naics',
+ *     description: 'NAICS industry classification',
+ *     run: transformNAICS,
+ *     outputs: ['NAICS.Industries.tsv', 'NAICS.Sectors.tsv'],
+ *   }
+ *
+ * generate.ts discovers these descriptors and builds its task list, alias
+ * handling and help output from them, so a new source only needs a new module.
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+
+export type TransformerGroup = 'w3c' | 'healthcare' | 'crosswalk' | 'superset'
+
+export const TRANSFORMER_GROUPS: Record<TransformerGroup, string> = {
+  w3c: 'All W3C web standards (runs all w3c-* modules)',
+  healthcare: 'All Healthcare standards (runs all healthcare-* modules)',
+  crosswalk: 'All crosswalks between canonical sources',
+  superset: 'All superset domains (industries, occupations, products, ...)',
+}
+
+export interface TransformerDescriptor {
+  name: string
+  description: string
+  run: () => Promise<void>
+  aliases?: string[]
+  group?: TransformerGroup
+  // Post-processing stages left out of --all; they run only when selected by name
+  optional?: boolean
+  // Files or directories relative to .source/ read by the transform
+  sources?: string[]
+  // Paths relative to .data/ exchanged with other transforms (see pipeline.ts)
+  inputs?: string[]
+  outputs?: string[]
+}
+
+export interface RegisteredTransformer extends TransformerDescriptor {
+  modulePath: string
+}
+
+// Matches the descriptor export without executing modules that have no descriptor
+const DESCRIPTOR_EXPORT = /^export const transformer\b/m
+
+/**
+ * Discover and import every transformer descriptor in a scripts directory
+ */
+export async function loadTransformers(scriptsDir: string = import.meta.dir): Promise<RegisteredTransformer[]> {
+  const files = readdirSync(scriptsDir)
+    .filter(f => f.endsWith('.ts') && !f.endsWith('.test.ts'))
+    .sort()
+
+  const transformers: RegisteredTransformer[] = []
+  const names = new Map<string, string>()
+
+  for (const file of files) {
+    const modulePath = join(scriptsDir, file)
+    if (!DESCRIPTOR_EXPORT.test(readFileSync(modulePath, 'utf-8'))) continue
+
+    const mod = await import(modulePath)
+    const descriptor = mod.transformer as TransformerDescriptor | undefined
+    if (!descriptor || typeof descriptor.run !== 'function') {
+      throw new Error(`${file} exports an invalid transformer descriptor`)
+    }
+
+    for (const key of [descriptor.name, ...(descriptor.aliases || [])]) {
+      const existing = names.get(key)
+      if (existing) {
+        throw new Error(`Transformer name ${key} in ${file} is already used by ${existing}`)
+      }
+      if (key in TRANSFORMER_GROUPS) {
+        throw new Error(`Transformer name ${key} in ${file} collides with a group name`)
+      }
+      names.set(key, file)
+    }
+
+    transformers.push({ ...descriptor, modulePath })
+  }
+
+  return transformers
+}
+
+/**
+ * Resolve command line source names (names, aliases or groups) to transformer names
+ */
+export function resolveSelection(transformers: TransformerDescriptor[], sources: Iterable<string>): { selected: string[]; unknown: string[] } {
+  const selected = new Set<string>()
+  const unknown: string[] = []
+
+  for (const source of sources) {
+    const matches = transformers.filter(t =>
+      t.name === source || t.aliases?.includes(source) || t.group === source
+    )
+    if (matches.length === 0) {
+      unknown.push(source)
+    }
+    for (const t of matches) {
+      selected.add(t.name)
+    }
+  }
+
+  return { selected: Array.from(selected), unknown }
+}
+
+/**
+ * Format the source list for --help output
+ */
+export function formatSourceHelp(transformers: TransformerDescriptor[]): string {
+  const entries: Array<[string, string]> = []
+
+  const byName = (a: TransformerDescriptor, b: TransformerDescriptor) => a.name.localeCompare(b.name)
+
+  for (const t of transformers.filter(t => !t.group).sort(byName)) {
+    entries.push([t.name, t.description])
+  }
+  for (const [group, description] of Object.entries(TRANSFORMER_GROUPS)) {
+    const members = transformers.filter(t => t.group === group).sort(byName)
+    if (members.length === 0) continue
+    entries.push([group, description])
+    for (const t of members) {
+      entries.push([t.name, t.description])
+    }
+  }
+  for (const t of transformers) {
+    for (const alias of t.aliases || []) {
+      entries.push([alias, `Alias for ${t.name}`])
+    }
+  }
+
+  const width = Math.max(...entries.map(([name]) => name.length)) + 2
+  return entries.map(([name, description]) => `  ${name.padEnd(width)}${description}`).join('\n')
+}
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for relationship-schemas.ts
+ * Run with: bun test .scripts/relationship-schemas.test.ts
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { getRelationshipProperties, formatPropertyValue, isValidPropertyText, relationshipPropertiesJSON } from './relationship-schemas'
+
+describe('getRelationshipProperties', () => {
+  test('looks up declarations by file name or path', () => {
+    expect(getRelationshipProperties('.data/relationships/ONET.Occupation.Skill.tsv')).toEqual({ importance: { type: 'number', optional: true } })
+    expect(getRelationshipProperties('ONET.Occupation.Tool.tsv')).toEqual({})
+  })
+})
+
+describe('formatPropertyValue', () => {
+  test('formats values of the declared type', () => {
+    expect(formatPropertyValue(3.75, { type: 'number' })).toBe('3.75')
+    expect(formatPropertyValue(2, { type: 'integer' })).toBe('2')
+    expect(formatPropertyValue(true, { type: 'boolean' })).toBe('true')
+    expect(formatPropertyValue(undefined, { type: 'number', optional: true })).toBe('')
+  })
+
+  test('rejects values of another type', () => {
+    expect(() => formatPropertyValue(2.5, { type: 'integer' })).toThrow('invalid integer 2.5')
+    expect(() => formatPropertyValue('Y', { type: 'boolean' })).toThrow('invalid boolean "Y"')
+    expect(() => formatPropertyValue(Infinity, { type: 'number' })).toThrow('invalid number')
+    expect(() => formatPropertyValue('', { type: 'string' })).toThrow('missing value')
+  })
+})
+
+describe('isValidPropertyText', () => {
+  test('checks values read back from a file', () => {
+    expect(isValidPropertyText('3.75', { type: 'number' })).toBe(true)
+    expect(isValidPropertyText('high', { type: 'number' })).toBe(false)
+    expect(isValidPropertyText('1.5', { type: 'integer' })).toBe(false)
+    expect(isValidPropertyText('false', { type: 'boolean' })).toBe(true)
+    expect(isValidPropertyText('N', { type: 'boolean' })).toBe(false)
+    expect(isValidPropertyText('', { type: 'number' })).toBe(false)
+    expect(isValidPropertyText('', { type: 'number', optional: true })).toBe(true)
+  })
+})
+
+describe('relationshipPropertiesJSON', () => {
+  test('stores declared property columns with their types', () => {
+    const record = { fromNs: 'a', fromType: 'b', fromId: 'c', toNs: 'd', toType: 'e', toId: 'f', relationshipType: 'uses' }
+    expect(relationshipPropertiesJSON({ ...record, importance: '3.75' }, 'ONET.Occupation.Skill.tsv')).toBe('{"importance":3.75}')
+    expect(relationshipPropertiesJSON({ ...record, relatednessScore: '' }, 'ONET.Occupation.Occupation.tsv')).toBeNull()
+    expect(relationshipPropertiesJSON(record, 'NAICS.Industry.Industry.tsv')).toBeNull()
+  })
+})
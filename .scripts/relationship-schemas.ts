@@ -0,0 +1,189 @@
+/**
+ * Relationship property schemas
+ *
+ * Every relationship file has the seven columns fromNs, fromType, fromId, toNs,
+ * toType, toId and relationshipType. A file whose relationships carry attributes
+ * (an O*NET importance rating, a crosswalk's partial-match flag) declares them here,
+ * keyed by file name:
+ *
+ *   'SIC.NAICS.Crosswalk.tsv': {
+ *     partial: { type: 'boolean' },
+ *     vintage: { type: 'string' },
+ *   },
+ *
+ * Transforms set the values in RelationshipRecord.properties. writeRelationshipTSV
+ * writes the declared columns after the standard ones, in declaration order, and
+ * rejects undeclared, missing or mistyped values. validate.test.ts checks the
+ * generated files against the same declarations.
+ */
+
+import { basename } from 'path'
+import type { ColumnType } from './schema'
+
+export const RELATIONSHIP_HEADERS = ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
+
+export type RelationshipPropertyValue = string | number | boolean
+
+export interface PropertySpec {
+  type: ColumnType
+  optional?: boolean      // The value may be left empty
+}
+
+export type RelationshipProperties = Record<string, PropertySpec>
+
+export const RELATIONSHIP_PROPERTIES: Record<string, RelationshipProperties> = {
+  // APQC
+  'APQC.Process.Process.tsv': {
+    hierarchyId: { type: 'string' },
+  },
+  'APQC.Process.Metric.tsv': {
+    category: { type: 'string', optional: true },
+  },
+
+  // BLS
+  'BLS.Occupation.Education.tsv': {
+    percentage: { type: 'number' },
+  },
+
+  // O*NET ratings (dataValue of the file's scale)
+  'ONET.Occupation.Skill.tsv': {
+    importance: { type: 'number', optional: true },   // Empty when O*NET has no valid rating
+  },
+  'ONET.Occupation.Knowledge.tsv': {
+    importance: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.Ability.tsv': {
+    importance: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.WorkActivity.tsv': {
+    importance: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.WorkStyle.tsv': {
+    importance: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.WorkValue.tsv': {
+    extent: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.Interest.tsv': {
+    score: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.WorkContext.tsv': {
+    context: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.Education.tsv': {
+    category: { type: 'integer', optional: true },
+    value: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.Occupation.tsv': {
+    relatednessScore: { type: 'number', optional: true },
+  },
+  'ONET.Occupation.Task.tsv': {
+    taskType: { type: 'string', optional: true },
+  },
+  'ONET.Occupation.Technology.tsv': {
+    hotTechnology: { type: 'boolean' },
+    inDemand: { type: 'boolean' },
+  },
+
+  // Crosswalks
+  'SIC.NAICS.Crosswalk.tsv': {
+    partial: { type: 'boolean' },           // The SIC industry maps to several NAICS industries
+    vintage: { type: 'string' },            // Editions of the two classifications
+  },
+  'NAICS.Concordance.tsv': {
+    fromVersion: { type: 'string' },        // Edition of the old code
+    toVersion: { type: 'string' },          // Edition of the new code
+  },
+  'SOC.Concordance.tsv': {
+    fromVersion: { type: 'string' },
+    toVersion: { type: 'string' },
+  },
+  'UNSPSC.Concordance.tsv': {
+    fromVersion: { type: 'string' },
+    toVersion: { type: 'string' },
+  },
+
+  // W3C
+  'WCAG.Technique.SuccessCriterion.tsv': {
+    techniqueCategory: { type: 'string' },
+    situation: { type: 'string', optional: true },
+  },
+}
+
+/**
+ * Get the declared properties of a relationship file (by file name or path)
+ */
+export function getRelationshipProperties(file: string): RelationshipProperties {
+  return RELATIONSHIP_PROPERTIES[basename(file)] || {}
+}
+
+/**
+ * Convert a relationship row's property columns to typed JSON, or null if it has none
+ */
+export function relationshipPropertiesJSON(record: Record<string, string>, file: string): string | null {
+  const declared = getRelationshipProperties(file)
+  const properties: Record<string, RelationshipPropertyValue> = {}
+
+  for (const [name, text] of Object.entries(record)) {
+    if (RELATIONSHIP_HEADERS.includes(name) || text === '') continue
+    switch (declared[name]?.type) {
+      case 'number':
+      case 'integer':
+        properties[name] = Number(text)
+        break
+      case 'boolean':
+        properties[name] = text === 'true'
+        break
+      default:
+        properties[name] = text
+    }
+  }
+
+  return Object.keys(properties).length > 0 ? JSON.stringify(properties) : null
+}
+
+function isValidValue(value: RelationshipPropertyValue, type: ColumnType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    default:
+      return typeof value === 'string'
+  }
+}
+
+/**
+ * Format a property value for TSV output. Throws if the value does not match its
+ * declared type, or a required value is missing.
+ */
+export function formatPropertyValue(value: RelationshipPropertyValue | undefined, spec: PropertySpec): string {
+  if (value === undefined || value === '') {
+    if (!spec.optional) throw new Error('missing value')
+    return ''
+  }
+  if (!isValidValue(value, spec.type)) {
+    throw new Error(`invalid ${spec.type} ${JSON.stringify(value)}`)
+  }
+  return String(value)
+}
+
+/**
+ * Check a property value read back from a TSV file against its declared type
+ */
+export function isValidPropertyText(text: string, spec: PropertySpec): boolean {
+  if (text === '') return !!spec.optional
+
+  switch (spec.type) {
+    case 'number':
+      return text.trim() !== '' && Number.isFinite(Number(text))
+    case 'integer':
+      return text.trim() !== '' && Number.isInteger(Number(text))
+    case 'boolean':
+      return text === 'true' || text === 'false'
+    default:
+      return true
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for relationship-types.ts
+ * Run with: bun test .scripts/relationship-types.test.ts
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  RELATIONSHIP_TYPES,
+  LEGACY_RELATIONSHIP_TYPES,
+  getRelationshipType,
+  normalizeRelationshipType,
+  checkRelationshipType,
+  relationshipPredicate,
+  VOCAB_BASE,
+} from './relationship-types'
+
+describe('RELATIONSHIP_TYPES', () => {
+  test('names are camelCase', () => {
+    for (const name of RELATIONSHIP_TYPES.keys()) {
+      expect(name).toMatch(/^[a-z][A-Za-z]*$/)
+    }
+  })
+
+  test('every inverse is registered and points back', () => {
+    for (const type of RELATIONSHIP_TYPES.values()) {
+      const inverse = getRelationshipType(type.inverse)!
+      expect(inverse.inverse).toBe(type.name)
+      expect(inverse.from).toEqual(type.to)
+      expect(inverse.to).toEqual(type.from)
+    }
+  })
+
+  test('inverses swap endpoints, cardinality and predicates', () => {
+    expect(getRelationshipType('parentOf')).toEqual({
+      name: 'parentOf',
+      label: 'parent of',
+      inverse: 'childOf',
+      inverseOf: 'childOf',
+      from: undefined,
+      to: undefined,
+      cardinality: 'one-to-many',
+      predicates: { skos: 'skos:narrower' },
+    })
+    expect(getRelationshipType('skillRequiredBy')).toMatchObject({ from: ['Skill'], to: ['Occupation'] })
+    expect(getRelationshipType('sameAs')!.inverse).toBe('sameAs')
+  })
+
+  test('legacy names are not registered and migrate to registered types', () => {
+    for (const [legacy, replacement] of Object.entries(LEGACY_RELATIONSHIP_TYPES)) {
+      expect(RELATIONSHIP_TYPES.has(legacy)).toBe(false)
+      expect(RELATIONSHIP_TYPES.has(replacement)).toBe(true)
+    }
+  })
+})
+
+describe('normalizeRelationshipType', () => {
+  test('maps legacy names and keeps registered ones', () => {
+    expect(normalizeRelationshipType('maps_to')).toBe('mapsTo')
+    expect(normalizeRelationshipType('belongsToSchedule')).toBe('belongsTo')
+    expect(normalizeRelationshipType('childOf')).toBe('childOf')
+    expect(normalizeRelationshipType('classifiedAs')).toBeUndefined()
+  })
+})
+
+describe('checkRelationshipType', () => {
+  test('accepts registered types between allowed endpoint types', () => {
+    expect(checkRelationshipType('childOf', 'Class', 'Family')).toBeUndefined()
+    expect(checkRelationshipType('requiresSkill', 'Occupation', 'Skill')).toBeUndefined()
+    expect(checkRelationshipType('skillRequiredBy', 'Skill', 'Occupation')).toBeUndefined()
+  })
+
+  test('describes the problem otherwise', () => {
+    expect(checkRelationshipType('', 'Class', 'Family')).toBe('missing relationship type')
+    expect(checkRelationshipType('maps_to', 'SICCode', 'Industry')).toBe('legacy relationship type "maps_to" (use mapsTo)')
+    expect(checkRelationshipType('classifiedAs', 'A', 'B')).toContain('unknown relationship type "classifiedAs"')
+    expect(checkRelationshipType('requiresSkill', 'Task', 'Skill')).toBe('relationship type requiresSkill does not allow fromType Task')
+    expect(checkRelationshipType('requiresSkill', 'Occupation', 'Tool')).toBe('relationship type requiresSkill does not allow toType Tool')
+  })
+})
+
+describe('relationshipPredicate', () => {
+  test('prefers the registered schema.org, then SKOS predicate', () => {
+    expect(relationshipPredicate('childOf')).toBe('skos:broader')
+    expect(relationshipPredicate('memberOf')).toBe('schema:memberOf')
+    expect(relationshipPredicate('notRegistered')).toBe(`${VOCAB_BASE}notRegistered`)
+  })
+})
@@ -0,0 +1,607 @@
+/**
+ * Relationship type vocabulary
+ *
+ * Every relationshipType written to .data/relationships must be registered here.
+ * A type declares a label, its inverse, the fromType and toType values it may
+ * connect (when it is specific to one domain), its cardinality and the SKOS, OWL,
+ * RDFS and schema.org predicates it corresponds to:
+ *
+ *   childOf: {
+ *     label: 'child of',
+ *     cardinality: 'many-to-one',
+ *     predicates: { skos: 'skos:broader' },
+ *     inverse: { name: 'parentOf', label: 'parent of', predicates: { skos: 'skos:narrower' } },
+ *   },
+ *
+ * Inverse names are registered too, with from/to swapped, so a relationship can be
+ * written in either direction. Symmetric types are their own inverse.
+ *
+ * Names are camelCase. LEGACY_RELATIONSHIP_TYPES maps names used by earlier
+ * versions of the transforms to their replacement; normalize-relationship-types.ts
+ * migrates existing relationship files.
+ */
+
+export type Cardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many'
+
+export interface PredicateMappings {
+  skos?: string
+  owl?: string
+  rdfs?: string
+  schema?: string
+}
+
+export interface RelationshipType {
+  name: string
+  label: string
+  inverse: string
+  inverseOf?: string        // Set when the type is the declared inverse of another
+  from?: string[]           // Allowed fromType values (any when omitted)
+  to?: string[]             // Allowed toType values (any when omitted)
+  cardinality: Cardinality
+  predicates: PredicateMappings
+}
+
+interface RelationshipTypeDeclaration {
+  label: string
+  cardinality: Cardinality
+  from?: string[]
+  to?: string[]
+  predicates?: PredicateMappings
+  inverse: { name: string; label: string; predicates?: PredicateMappings } | 'symmetric'
+}
+
+const ONET_OCCUPATION = ['Occupation']
+const WCAG_TECHNIQUE = ['WCAG.Technique']
+const WCAG_SUCCESS_CRITERION = ['WCAG.SuccessCriterion']
+
+const DECLARATIONS: Record<string, RelationshipTypeDeclaration> = {
+  // Hierarchy and membership
+  childOf: {
+    label: 'child of',
+    cardinality: 'many-to-one',
+    predicates: { skos: 'skos:broader' },
+    inverse: { name: 'parentOf', label: 'parent of', predicates: { skos: 'skos:narrower' } },
+  },
+  partOf: {
+    label: 'part of',
+    cardinality: 'many-to-one',
+    predicates: { schema: 'schema:isPartOf' },
+    inverse: { name: 'hasPart', label: 'has part', predicates: { schema: 'schema:hasPart' } },
+  },
+  belongsTo: {
+    label: 'belongs to',
+    cardinality: 'many-to-one',
+    predicates: { skos: 'skos:broader' },
+    inverse: { name: 'includes', label: 'includes', predicates: { skos: 'skos:narrower' } },
+  },
+  memberOf: {
+    label: 'member of',
+    cardinality: 'many-to-one',
+    predicates: { skos: 'skos:member', schema: 'schema:memberOf' },
+    inverse: { name: 'hasMember', label: 'has member', predicates: { schema: 'schema:member' } },
+  },
+  subtypeOf: {
+    label: 'subtype of',
+    cardinality: 'many-to-many',
+    predicates: { rdfs: 'rdfs:subClassOf' },
+    inverse: { name: 'supertypeOf', label: 'supertype of' },
+  },
+  extends: {
+    label: 'extends',
+    cardinality: 'many-to-one',
+    predicates: { rdfs: 'rdfs:subClassOf' },
+    inverse: { name: 'extendedBy', label: 'extended by' },
+  },
+
+  // Identity and mappings
+  sameAs: {
+    label: 'same as',
+    cardinality: 'one-to-one',
+    predicates: { skos: 'skos:exactMatch', owl: 'owl:sameAs', schema: 'schema:sameAs' },
+    inverse: 'symmetric',
+  },
+  equivalentTo: {
+    label: 'equivalent to',
+    cardinality: 'one-to-one',
+    predicates: { skos: 'skos:exactMatch', owl: 'owl:equivalentClass' },
+    inverse: 'symmetric',
+  },
+  relatedTo: {
+    label: 'related to',
+    cardinality: 'many-to-many',
+    predicates: { skos: 'skos:related' },
+    inverse: 'symmetric',
+  },
+  associatedWith: {
+    label: 'associated with',
+    cardinality: 'many-to-many',
+    predicates: { skos: 'skos:related' },
+    inverse: 'symmetric',
+  },
+  mapsTo: {
+    label: 'maps to',
+    cardinality: 'many-to-many',
+    predicates: { skos: 'skos:closeMatch' },
+    inverse: { name: 'mappedFrom', label: 'mapped from', predicates: { skos: 'skos:closeMatch' } },
+  },
+  replacedBy: {
+    label: 'replaced by',
+    cardinality: 'many-to-many',
+    predicates: { schema: 'schema:supersededBy' },
+    inverse: { name: 'replaces', label: 'replaces' },
+  },
+  splitInto: {
+    label: 'split into',
+    cardinality: 'one-to-many',
+    predicates: { schema: 'schema:supersededBy' },
+    inverse: { name: 'splitFrom', label: 'split from' },
+  },
+  mergedInto: {
+    label: 'merged into',
+    cardinality: 'many-to-one',
+    predicates: { schema: 'schema:supersededBy' },
+    inverse: { name: 'mergedFrom', label: 'merged from' },
+  },
+  basedOn: {
+    label: 'based on',
+    cardinality: 'many-to-one',
+    predicates: { schema: 'schema:isBasedOn' },
+    inverse: { name: 'basisFor', label: 'basis for' },
+  },
+  applicableTo: {
+    label: 'applicable to',
+    cardinality: 'many-to-many',
+    inverse: { name: 'hasApplicable', label: 'has applicable' },
+  },
+
+  // Places
+  locatedIn: {
+    label: 'located in',
+    cardinality: 'many-to-one',
+    predicates: { schema: 'schema:containedInPlace' },
+    inverse: { name: 'containsPlace', label: 'contains place', predicates: { schema: 'schema:containsPlace' } },
+  },
+  containsCentral: {
+    label: 'contains central county',
+    cardinality: 'one-to-many',
+    from: ['CBSA'],
+    to: ['County'],
+    predicates: { schema: 'schema:containsPlace' },
+    inverse: { name: 'centralCountyOf', label: 'central county of', predicates: { schema: 'schema:containedInPlace' } },
+  },
+  containsOutlying: {
+    label: 'contains outlying county',
+    cardinality: 'one-to-many',
+    from: ['CBSA'],
+    to: ['County'],
+    predicates: { schema: 'schema:containsPlace' },
+    inverse: { name: 'outlyingCountyOf', label: 'outlying county of', predicates: { schema: 'schema:containedInPlace' } },
+  },
+  usesCurrency: {
+    label: 'uses currency',
+    cardinality: 'many-to-many',
+    from: ['Country'],
+    to: ['Currency'],
+    predicates: { schema: 'schema:currency' },
+    inverse: { name: 'currencyOf', label: 'currency of' },
+  },
+  hasOfficialLanguage: {
+    label: 'has official language',
+    cardinality: 'many-to-many',
+    from: ['Country'],
+    to: ['Language'],
+    predicates: { schema: 'schema:knowsLanguage' },
+    inverse: { name: 'officialLanguageOf', label: 'official language of' },
+  },
+
+  // Schemas and vocabularies
+  hasAttribute: {
+    label: 'has attribute',
+    cardinality: 'many-to-many',
+    inverse: { name: 'attributeOf', label: 'attribute of' },
+  },
+  hasProperty: {
+    label: 'has property',
+    cardinality: 'many-to-many',
+    inverse: { name: 'propertyOf', label: 'property of', predicates: { schema: 'schema:domainIncludes' } },
+  },
+  hasDomain: {
+    label: 'has domain',
+    cardinality: 'many-to-many',
+    predicates: { rdfs: 'rdfs:domain' },
+    inverse: { name: 'domainOf', label: 'domain of' },
+  },
+  hasRange: {
+    label: 'has range',
+    cardinality: 'many-to-many',
+    predicates: { rdfs: 'rdfs:range', schema: 'schema:rangeIncludes' },
+    inverse: { name: 'rangeOf', label: 'range of' },
+  },
+  acceptsType: {
+    label: 'accepts type',
+    cardinality: 'many-to-many',
+    from: ['CSSProperty'],
+    to: ['CSSDataType'],
+    inverse: { name: 'acceptedBy', label: 'accepted by' },
+  },
+  unitOf: {
+    label: 'unit of',
+    cardinality: 'many-to-one',
+    from: ['CSSUnit'],
+    to: ['CSSDataType'],
+    inverse: { name: 'hasUnit', label: 'has unit' },
+  },
+  uses: {
+    label: 'uses',
+    cardinality: 'many-to-many',
+    inverse: { name: 'usedIn', label: 'used in' },
+  },
+  canUse: {
+    label: 'can use',
+    cardinality: 'many-to-many',
+    inverse: { name: 'usableBy', label: 'usable by' },
+  },
+  supports: {
+    label: 'supports',
+    cardinality: 'many-to-many',
+    inverse: { name: 'supportedBy', label: 'supported by' },
+  },
+
+  // Accessibility
+  sufficientFor: {
+    label: 'sufficient for',
+    cardinality: 'many-to-many',
+    from: WCAG_TECHNIQUE,
+    to: WCAG_SUCCESS_CRITERION,
+    inverse: { name: 'hasSufficientTechnique', label: 'has sufficient technique' },
+  },
+  advisoryFor: {
+    label: 'advisory for',
+    cardinality: 'many-to-many',
+    from: WCAG_TECHNIQUE,
+    to: WCAG_SUCCESS_CRITERION,
+    inverse: { name: 'hasAdvisoryTechnique', label: 'has advisory technique' },
+  },
+  failureFor: {
+    label: 'failure for',
+    cardinality: 'many-to-many',
+    from: WCAG_TECHNIQUE,
+    to: WCAG_SUCCESS_CRITERION,
+    inverse: { name: 'hasFailure', label: 'has failure' },
+  },
+
+  // Processes
+  measuredBy: {
+    label: 'measured by',
+    cardinality: 'one-to-many',
+    from: ['Process'],
+    to: ['Metric'],
+    inverse: { name: 'measures', label: 'measures' },
+  },
+  performedBy: {
+    label: 'performed by',
+    cardinality: 'many-to-many',
+    to: ONET_OCCUPATION,
+    inverse: { name: 'performs', label: 'performs' },
+  },
+
+  // Occupations, skills and education
+  requiresSkill: {
+    label: 'requires skill',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Skill'],
+    predicates: { schema: 'schema:skills' },
+    inverse: { name: 'skillRequiredBy', label: 'skill required by' },
+  },
+  requiresKnowledge: {
+    label: 'requires knowledge',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Knowledge'],
+    inverse: { name: 'knowledgeRequiredBy', label: 'knowledge required by' },
+  },
+  requiresAbility: {
+    label: 'requires ability',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Ability'],
+    inverse: { name: 'abilityRequiredBy', label: 'ability required by' },
+  },
+  requiresStyle: {
+    label: 'requires work style',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['WorkStyle'],
+    inverse: { name: 'styleRequiredBy', label: 'work style required by' },
+  },
+  requiresEducation: {
+    label: 'requires education',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Education'],
+    predicates: { schema: 'schema:educationRequirements' },
+    inverse: { name: 'educationRequiredBy', label: 'education required by' },
+  },
+  involvesActivity: {
+    label: 'involves activity',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['WorkActivity'],
+    inverse: { name: 'activityOf', label: 'activity of' },
+  },
+  values: {
+    label: 'values',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['WorkValue'],
+    inverse: { name: 'valuedBy', label: 'valued by' },
+  },
+  associatedInterest: {
+    label: 'associated interest',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Interest'],
+    inverse: { name: 'interestOf', label: 'interest of' },
+  },
+  usesTechnology: {
+    label: 'uses technology',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Technology'],
+    inverse: { name: 'technologyUsedBy', label: 'technology used by' },
+  },
+  usesTool: {
+    label: 'uses tool',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Tool'],
+    inverse: { name: 'toolUsedBy', label: 'tool used by' },
+  },
+  inJobZone: {
+    label: 'in job zone',
+    cardinality: 'many-to-one',
+    from: ONET_OCCUPATION,
+    to: ['JobZone'],
+    inverse: { name: 'jobZoneOf', label: 'job zone of' },
+  },
+  performsTask: {
+    label: 'performs task',
+    cardinality: 'one-to-many',
+    from: ONET_OCCUPATION,
+    to: ['Task'],
+    inverse: { name: 'taskPerformedBy', label: 'task performed by' },
+  },
+  hasEmergingTask: {
+    label: 'has emerging task',
+    cardinality: 'one-to-many',
+    from: ONET_OCCUPATION,
+    to: ['EmergingTask'],
+    inverse: { name: 'emergingTaskOf', label: 'emerging task of' },
+  },
+  hasContext: {
+    label: 'has work context',
+    cardinality: 'many-to-many',
+    from: ONET_OCCUPATION,
+    to: ['WorkContext'],
+    inverse: { name: 'contextOf', label: 'work context of' },
+  },
+  implementsActivity: {
+    label: 'implements activity',
+    cardinality: 'many-to-many',
+    from: ['Task'],
+    to: ['DWA'],
+    inverse: { name: 'implementedBy', label: 'implemented by' },
+  },
+  hasDetailedActivity: {
+    label: 'has detailed activity',
+    cardinality: 'one-to-many',
+    from: ['IWA'],
+    to: ['DWA'],
+    inverse: { name: 'detailedActivityOf', label: 'detailed activity of' },
+  },
+  hasIntermediateActivity: {
+    label: 'has intermediate activity',
+    cardinality: 'one-to-many',
+    from: ['WorkActivity'],
+    to: ['IWA'],
+    inverse: { name: 'intermediateActivityOf', label: 'intermediate activity of' },
+  },
+  enablesActivity: {
+    label: 'enables activity',
+    cardinality: 'many-to-many',
+    from: ['Ability'],
+    to: ['WorkActivity'],
+    inverse: { name: 'enabledByAbility', label: 'enabled by ability' },
+  },
+  supportsActivity: {
+    label: 'supports activity',
+    cardinality: 'many-to-many',
+    from: ['Skill'],
+    to: ['WorkActivity'],
+    inverse: { name: 'supportedBySkill', label: 'supported by skill' },
+  },
+  requiredIn: {
+    label: 'required in',
+    cardinality: 'many-to-many',
+    from: ['Ability', 'Skill'],
+    to: ['WorkContext'],
+    inverse: { name: 'requires', label: 'requires' },
+  },
+  employedIn: {
+    label: 'employed in',
+    cardinality: 'many-to-many',
+    inverse: { name: 'employs', label: 'employs' },
+  },
+  hasEducationDistribution: {
+    label: 'has education distribution',
+    cardinality: 'many-to-many',
+    to: ['Education'],
+    inverse: { name: 'educationDistributionOf', label: 'education distribution of' },
+  },
+  isStemOccupation: {
+    label: 'is STEM occupation',
+    cardinality: 'many-to-one',
+    to: ['STEM'],
+    inverse: { name: 'hasStemOccupation', label: 'has STEM occupation' },
+  },
+  preparesFor: {
+    label: 'prepares for',
+    cardinality: 'many-to-many',
+    from: ['CIP'],
+    predicates: { schema: 'schema:occupationalCredentialAwarded' },
+    inverse: { name: 'preparedBy', label: 'prepared by' },
+  },
+  trainedBy: {
+    label: 'trained by',
+    cardinality: 'many-to-many',
+    to: ['CIP'],
+    inverse: { name: 'trains', label: 'trains' },
+  },
+
+  // Products, merchants and industries
+  classifiesMerchantsIn: {
+    label: 'classifies merchants in',
+    cardinality: 'many-to-many',
+    from: ['MCC.Category'],
+    inverse: { name: 'merchantsClassifiedBy', label: 'merchants classified by' },
+  },
+  producedBy: {
+    label: 'produced by',
+    cardinality: 'many-to-many',
+    inverse: { name: 'produces', label: 'produces' },
+  },
+  distributedBy: {
+    label: 'distributed by',
+    cardinality: 'many-to-many',
+    inverse: { name: 'distributes', label: 'distributes' },
+  },
+}
+
+/**
+ * Names used before the vocabulary existed, and the types that replace them
+ */
+export const LEGACY_RELATIONSHIP_TYPES: Record<string, string> = {
+  maps_to: 'mapsTo',
+  performed_by: 'performedBy',
+  classifies_merchants_in: 'classifiesMerchantsIn',
+  official_language: 'hasOfficialLanguage',
+  employed_in: 'employedIn',
+  produced_by: 'producedBy',
+  distributed_by: 'distributedBy',
+  belongsToCategory: 'belongsTo',
+  belongsToGroup: 'belongsTo',
+  belongsToSchedule: 'belongsTo',
+  basedOnSchedule: 'basedOn',
+  appliesToNaics: 'applicableTo',
+  locatedInSubdivision: 'locatedIn',
+  inState: 'locatedIn',
+  inRegion: 'locatedIn',
+}
+
+const FLIPPED_CARDINALITY: Record<Cardinality, Cardinality> = {
+  'one-to-one': 'one-to-one',
+  'one-to-many': 'many-to-one',
+  'many-to-one': 'one-to-many',
+  'many-to-many': 'many-to-many',
+}
+
+function buildRegistry(): Map<string, RelationshipType> {
+  const types = new Map<string, RelationshipType>()
+  const add = (type: RelationshipType) => {
+    if (types.has(type.name)) {
+      throw new Error(`Relationship type ${type.name} is declared twice`)
+    }
+    types.set(type.name, type)
+  }
+
+  for (const [name, declaration] of Object.entries(DECLARATIONS)) {
+    const { inverse, predicates = {}, ...rest } = declaration
+    if (inverse === 'symmetric') {
+      add({ name, inverse: name, predicates, ...rest })
+      continue
+    }
+
+    add({ name, inverse: inverse.name, predicates, ...rest })
+    add({
+      name: inverse.name,
+      label: inverse.label,
+      inverse: name,
+      inverseOf: name,
+      from: rest.to,
+      to: rest.from,
+      cardinality: FLIPPED_CARDINALITY[rest.cardinality],
+      predicates: inverse.predicates || {},
+    })
+  }
+
+  return types
+}
+
+export const RELATIONSHIP_TYPES: ReadonlyMap<string, RelationshipType> = buildRegistry()
+
+/**
+ * Look up a registered relationship type
+ */
+export function getRelationshipType(name: string): RelationshipType | undefined {
+  return RELATIONSHIP_TYPES.get(name)
+}
+
+/**
+ * Get the registered name for a relationship type, migrating legacy names.
+ * Returns undefined for names that are neither registered nor legacy.
+ */
+export function normalizeRelationshipType(name: string): string | undefined {
+  if (RELATIONSHIP_TYPES.has(name)) return name
+  return LEGACY_RELATIONSHIP_TYPES[name]
+}
+
+/**
+ * Check a relationship against the vocabulary. Returns a description of the
+ * problem, or undefined if the type is registered and allows both endpoint types.
+ */
+export function checkRelationshipType(name: string | undefined, fromType: string, toType: string): string | undefined {
+  if (!name) return 'missing relationship type'
+
+  const type = RELATIONSHIP_TYPES.get(name)
+  if (!type) {
+    const replacement = LEGACY_RELATIONSHIP_TYPES[name]
+    return replacement
+      ? `legacy relationship type "${name}" (use ${replacement})`
+      : `unknown relationship type "${name}" (register it in relationship-types.ts)`
+  }
+  if (type.from && !type.from.includes(fromType)) {
+    return `relationship type ${name} does not allow fromType ${fromType}`
+  }
+  if (type.to && !type.to.includes(toType)) {
+    return `relationship type ${name} does not allow toType ${toType}`
+  }
+  return undefined
+}
+
+// IRIs of the vocabularies in PredicateMappings
+export const PREDICATE_PREFIXES: Record<keyof PredicateMappings, string> = {
+  schema: 'https://schema.org/',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  owl: 'http://www.w3.org/2002/07/owl#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+}
+
+// Namespace for relationship types with no registered predicate
+export const VOCAB_BASE = 'https://standards.org.ai/vocab/'
+
+// Registered predicates in order of preference for linked data exports
+const PREDICATE_PREFERENCE: (keyof PredicateMappings)[] = ['schema', 'skos', 'owl', 'rdfs']
+
+/**
+ * The predicate a relationship type is exported as in linked data: its registered
+ * schema.org, SKOS, OWL or RDFS predicate as a prefixed name (skos:broader), or the
+ * full IRI of the type under VOCAB_BASE
+ */
+export function relationshipPredicate(name: string): string {
+  const predicates = RELATIONSHIP_TYPES.get(name)?.predicates || {}
+  for (const vocabulary of PREDICATE_PREFERENCE) {
+    if (predicates[vocabulary]) return predicates[vocabulary]!
+  }
+  return `${VOCAB_BASE}${name}`
+}
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for release-diff.ts
+ * Run with: bun test .scripts/release-diff.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, existsSync } from 'fs'
+import { execFileSync } from 'child_process'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { diffSnapshots, resolveSnapshot, formatMarkdown } from './release-diff'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+function writeData(dir: string, files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(join(dir, file, '..'), { recursive: true })
+    writeFileSync(join(dir, file), content + '\n')
+  }
+}
+
+describe('diffSnapshots', () => {
+  let dir: string
+  let before: string
+  let after: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'release-diff-'))
+    before = join(dir, 'before')
+    after = join(dir, 'after')
+    writeData(before, {
+      'NAICS.Industries.tsv': entityFixture([
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Growing soybeans', code: '111110' },
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming', name: 'Oilseed Farming', description: 'Growing oilseeds', code: '111120' },
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Dry_Pea_Farming', name: 'Dry Pea Farming', description: 'Growing peas', code: '111130' },
+      ]),
+      'relationships/NAICS.Industry.Sector.tsv': relationshipFixture([
+        { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Sector', toId: 'Agriculture', relationshipType: 'childOf' },
+        { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Dry_Pea_Farming', toNs: 'naics.org.ai', toType: 'Sector', toId: 'Agriculture', relationshipType: 'childOf' },
+      ]),
+    })
+    writeData(after, {
+      'NAICS.Industries.tsv': entityFixture([
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', description: 'Growing soybeans for oil', code: '111110' },
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Oilseed_Farming_except_Soybean', name: 'Oilseed Farming (except Soybean)', description: 'Growing oilseeds', code: '111120' },
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Wheat_Farming', name: 'Wheat Farming', description: 'Growing wheat', code: '111140' },
+      ]),
+      'UNSPSC.Segments.tsv': entityFixture([
+        { ns: 'unspsc.org.ai', type: 'Segment', id: 'Live_Plant_and_Animal_Material', name: 'Live Plant and Animal Material', code: '10000000' },
+      ]),
+      'relationships/NAICS.Industry.Sector.tsv': relationshipFixture([
+        { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Soybean_Farming', toNs: 'naics.org.ai', toType: 'Sector', toId: 'Agriculture', relationshipType: 'childOf' },
+        { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Wheat_Farming', toNs: 'naics.org.ai', toType: 'Sector', toId: 'Agriculture', relationshipType: 'childOf' },
+      ]),
+    })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('reports added, removed and renamed entities and changed descriptions', async () => {
+    const diff = await diffSnapshots(before, after, 'v2017', 'v2022')
+
+    expect(diff.entities).toEqual([
+      {
+        file: 'NAICS.Industries.tsv',
+        added: [{ ns: 'naics.org.ai', type: 'Industry', id: 'Wheat_Farming', name: 'Wheat Farming' }],
+        removed: [{ ns: 'naics.org.ai', type: 'Industry', id: 'Dry_Pea_Farming', name: 'Dry Pea Farming' }],
+        renamed: [{ ns: 'naics.org.ai', type: 'Industry', code: '111120', from: 'Oilseed_Farming', to: 'Oilseed_Farming_except_Soybean' }],
+        described: [{ ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', from: 'Growing soybeans', to: 'Growing soybeans for oil' }],
+      },
+      {
+        file: 'UNSPSC.Segments.tsv',
+        added: [{ ns: 'unspsc.org.ai', type: 'Segment', id: 'Live_Plant_and_Animal_Material', name: 'Live Plant and Animal Material' }],
+        removed: [],
+        renamed: [],
+        described: [],
+      },
+    ])
+  })
+
+  test('reports edge additions and removals with a per-namespace summary', async () => {
+    const diff = await diffSnapshots(before, after)
+    const edge = (fromId: string) => ({
+      fromNs: 'naics.org.ai', fromType: 'Industry', fromId,
+      toNs: 'naics.org.ai', toType: 'Sector', toId: 'Agriculture', relationshipType: 'childOf',
+    })
+
+    expect(diff.relationships).toEqual([
+      { file: 'NAICS.Industry.Sector.tsv', added: [edge('Wheat_Farming')], removed: [edge('Dry_Pea_Farming')] },
+    ])
+    expect(diff.namespaces).toEqual([
+      { ns: 'naics.org.ai', added: 1, removed: 1, renamed: 1, described: 1, edgesAdded: 1, edgesRemoved: 1 },
+      { ns: 'unspsc.org.ai', added: 1, removed: 0, renamed: 0, described: 0, edgesAdded: 0, edgesRemoved: 0 },
+    ])
+  })
+
+  test('formats Markdown release notes', async () => {
+    const markdown = formatMarkdown(await diffSnapshots(before, after, 'v2017', 'v2022'))
+
+    expect(markdown).toStartWith('# Changes from v2017 to v2022\n\n## Summary\n')
+    expect(markdown).toContain('| naics.org.ai | 1 | 1 | 1 | 1 | 1 | 1 |')
+    expect(markdown).toContain('- Industry 111120: `Oilseed_Farming` -> `Oilseed_Farming_except_Soybean`')
+    expect(markdown).toContain('- Industry `Wheat_Farming` childOf Sector `Agriculture`')
+    expect(formatMarkdown(await diffSnapshots(before, before))).toContain('No changes.')
+  })
+
+  test('skips files that are Git LFS pointers', async () => {
+    writeData(after, { 'NAICS.Industries.tsv': ['version https://git-lfs.github.com/spec/v1', 'oid sha256:0', 'size 1'].join('\n') })
+
+    const diff = await diffSnapshots(before, after)
+    expect(diff.skipped).toEqual(['NAICS.Industries.tsv'])
+    expect(diff.entities.map(e => e.file)).toEqual(['UNSPSC.Segments.tsv'])
+  })
+})
+
+describe('resolveSnapshot', () => {
+  let dir: string
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'pipe' })
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'release-diff-'))
+    git('init', '-q')
+    writeData(join(dir, '.data'), {
+      'NAICS.Industries.tsv': entityFixture([{ ns: 'naics.org.ai', type: 'Industry', id: 'Soybean_Farming', name: 'Soybean Farming', code: '111110' }]),
+    })
+    git('add', '.data')
+    git('commit', '-q', '-m', 'data')
+    writeData(join(dir, '.data'), { 'NAICS.Industries.tsv': entityFixture([]) })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('extracts the .data of a git revision', async () => {
+    const snapshot = resolveSnapshot('HEAD', dir)
+    try {
+      expect(snapshot.label).toMatch(/^HEAD \([0-9a-f]{7}\)$/)
+      const diff = await diffSnapshots(snapshot.dir, join(dir, '.data'))
+      expect(diff.entities[0].removed.map(e => e.id)).toEqual(['Soybean_Farming'])
+    } finally {
+      snapshot.cleanup()
+    }
+    expect(existsSync(snapshot.dir)).toBe(false)
+  })
+
+  test('rejects specs that are neither directories nor revisions', () => {
+    expect(() => resolveSnapshot('no-such-revision', dir)).toThrow('no-such-revision: not a directory or a git revision')
+  })
+})
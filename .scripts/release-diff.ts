@@ -0,0 +1,402 @@
+#!/usr/bin/env bun
+/**
+ * Release Diff
+ *
+ * Compares two snapshots of .data, such as the outputs before and after a new
+ * NAICS, UNSPSC or ICD edition, and reports what changed:
+ *
+ *   entity files        entities added and removed, entities renamed (same ns,
+ *                       type and code under a new id) and changed descriptions
+ *   relationship files  edges added and removed (an edge is its endpoints and
+ *                       relationshipType)
+ *
+ * plus a per-namespace summary for the release notes. A snapshot is a directory
+ * or a git revision, whose .data is extracted with `git archive`. Files that are
+ * still Git LFS pointers on either side are listed as skipped.
+ *
+ * Usage:
+ *   bun run .scripts/release-diff.ts <from> [to] [--json]
+ *
+ * `to` defaults to the current .data. Markdown is printed unless --json is given.
+ */
+
+import { closeSync, existsSync, mkdtempSync, openSync, readSync, rmSync, statSync } from 'fs'
+import { execFileSync } from 'child_process'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { streamDataTSV, listDataFiles, entityKey, getDataPath, RELATIONSHIP_HEADERS } from './utils'
+
+const LFS_POINTER = 'version https://git-lfs.github.com/spec/v1'
+const MARKDOWN_SAMPLE = 20
+
+export interface EntityRef {
+  ns: string
+  type: string
+  id: string
+  name: string
+}
+
+export interface RenamedEntity {
+  ns: string
+  type: string
+  code: string
+  from: string
+  to: string
+}
+
+export interface DescriptionChange {
+  ns: string
+  type: string
+  id: string
+  from: string
+  to: string
+}
+
+export interface EntityFileDiff {
+  file: string
+  added: EntityRef[]
+  removed: EntityRef[]
+  renamed: RenamedEntity[]
+  described: DescriptionChange[]
+}
+
+export interface Edge {
+  fromNs: string
+  fromType: string
+  fromId: string
+  toNs: string
+  toType: string
+  toId: string
+  relationshipType: string
+}
+
+export interface RelationshipFileDiff {
+  file: string
+  added: Edge[]
+  removed: Edge[]
+}
+
+export interface NamespaceSummary {
+  ns: string
+  added: number
+  removed: number
+  renamed: number
+  described: number
+  edgesAdded: number
+  edgesRemoved: number
+}
+
+export interface ReleaseDiff {
+  from: string
+  to: string
+  entities: EntityFileDiff[]
+  relationships: RelationshipFileDiff[]
+  namespaces: NamespaceSummary[]
+  skipped: string[]                     // files that are Git LFS pointers on either side
+}
+
+export interface Snapshot {
+  label: string
+  dir: string
+  cleanup: () => void
+}
+
+interface EntityRow {
+  ns: string
+  type: string
+  id: string
+  name: string
+  description: string
+  code: string
+}
+
+function firstLine(filePath: string): string {
+  const fd = openSync(filePath, 'r')
+  const buffer = Buffer.alloc(4096)
+  const bytes = readSync(fd, buffer, 0, buffer.length, 0)
+  closeSync(fd)
+  return buffer.toString('utf-8', 0, bytes).split('\n')[0]
+}
+
+function isLFSPointer(filePath: string | undefined): boolean {
+  return filePath !== undefined && firstLine(filePath).startsWith(LFS_POINTER)
+}
+
+function isEntityFile(filePath: string): boolean {
+  const headers = firstLine(filePath).replace(/\r$/, '').split('\t')
+  return ['ns', 'type', 'id'].every(header => headers.includes(header))
+}
+
+function edgeKey(edge: Record<string, string>): string {
+  return RELATIONSHIP_HEADERS.map(header => edge[header] ?? '').join('\t')
+}
+
+function edgeFromKey(key: string): Edge {
+  return Object.fromEntries(key.split('\t').map((value, i) => [RELATIONSHIP_HEADERS[i], value])) as unknown as Edge
+}
+
+function byId<T extends { ns: string; type: string; id: string }>(a: T, b: T): number {
+  return a.ns.localeCompare(b.ns) || a.type.localeCompare(b.type) || a.id.localeCompare(b.id)
+}
+
+async function loadEntities(filePath: string | undefined): Promise<Map<string, EntityRow>> {
+  const entities = new Map<string, EntityRow>()
+  if (!filePath) return entities
+  for await (const row of streamDataTSV(filePath)) {
+    if (!row.id) continue
+    entities.set(entityKey(row.ns, row.type, row.id), {
+      ns: row.ns, type: row.type, id: row.id, name: row.name ?? '', description: row.description ?? '', code: row.code ?? '',
+    })
+  }
+  return entities
+}
+
+/**
+ * Index entities by ns, type and code, keeping only codes held by one entity
+ */
+function uniqueCodes(entities: EntityRow[]): Map<string, EntityRow> {
+  const codes = new Map<string, EntityRow | null>()
+  for (const entity of entities) {
+    if (!entity.code) continue
+    const key = entityKey(entity.ns, entity.type, entity.code)
+    codes.set(key, codes.has(key) ? null : entity)
+  }
+  return new Map([...codes].filter((entry): entry is [string, EntityRow] => entry[1] !== null))
+}
+
+/**
+ * Diff one entity file between two snapshots; a missing side counts as empty
+ */
+export async function diffEntityFile(file: string, fromPath: string | undefined, toPath: string | undefined): Promise<EntityFileDiff> {
+  const before = await loadEntities(fromPath)
+  const after = await loadEntities(toPath)
+
+  const removed = [...before].filter(([key]) => !after.has(key)).map(([, row]) => row)
+  const added = [...after].filter(([key]) => !before.has(key)).map(([, row]) => row)
+
+  // A removed and an added entity with the same unique code are one entity under a new id
+  const removedCodes = uniqueCodes(removed)
+  const addedCodes = uniqueCodes(added)
+  const renamed: RenamedEntity[] = []
+  const renamedRows = new Set<EntityRow>()
+  for (const [key, old] of removedCodes) {
+    const current = addedCodes.get(key)
+    if (!current) continue
+    renamed.push({ ns: old.ns, type: old.type, code: old.code, from: old.id, to: current.id })
+    renamedRows.add(old).add(current)
+  }
+
+  const described: DescriptionChange[] = []
+  for (const [key, row] of after) {
+    const old = before.get(key)
+    if (old && old.description !== row.description) {
+      described.push({ ns: row.ns, type: row.type, id: row.id, from: old.description, to: row.description })
+    }
+  }
+
+  const ref = ({ ns, type, id, name }: EntityRow): EntityRef => ({ ns, type, id, name })
+  return {
+    file,
+    added: added.filter(row => !renamedRows.has(row)).map(ref).sort(byId),
+    removed: removed.filter(row => !renamedRows.has(row)).map(ref).sort(byId),
+    renamed: renamed.sort((a, b) => a.ns.localeCompare(b.ns) || a.type.localeCompare(b.type) || a.code.localeCompare(b.code)),
+    described: described.sort(byId),
+  }
+}
+
+/**
+ * Diff one relationship file between two snapshots; a missing side counts as empty
+ */
+export async function diffRelationshipFile(file: string, fromPath: string | undefined, toPath: string | undefined): Promise<RelationshipFileDiff> {
+  const before = new Set<string>()
+  if (fromPath) {
+    for await (const row of streamDataTSV(fromPath)) before.add(edgeKey(row))
+  }
+
+  const added = new Set<string>()
+  const kept = new Set<string>()
+  if (toPath) {
+    for await (const row of streamDataTSV(toPath)) {
+      const key = edgeKey(row)
+      if (before.has(key)) kept.add(key)
+      else added.add(key)
+    }
+  }
+
+  const removed = [...before].filter(key => !kept.has(key))
+  return { file, added: [...added].sort().map(edgeFromKey), removed: removed.sort().map(edgeFromKey) }
+}
+
+/**
+ * Count the changes of each namespace; edges count towards the namespace of their from side
+ */
+export function summarizeNamespaces(entities: EntityFileDiff[], relationships: RelationshipFileDiff[]): NamespaceSummary[] {
+  const summaries = new Map<string, NamespaceSummary>()
+  const summary = (ns: string) => {
+    let entry = summaries.get(ns)
+    if (!entry) summaries.set(ns, entry = { ns, added: 0, removed: 0, renamed: 0, described: 0, edgesAdded: 0, edgesRemoved: 0 })
+    return entry
+  }
+
+  for (const diff of entities) {
+    for (const entity of diff.added) summary(entity.ns).added++
+    for (const entity of diff.removed) summary(entity.ns).removed++
+    for (const entity of diff.renamed) summary(entity.ns).renamed++
+    for (const entity of diff.described) summary(entity.ns).described++
+  }
+  for (const diff of relationships) {
+    for (const edge of diff.added) summary(edge.fromNs).edgesAdded++
+    for (const edge of diff.removed) summary(edge.fromNs).edgesRemoved++
+  }
+
+  return [...summaries.values()].sort((a, b) => a.ns.localeCompare(b.ns))
+}
+
+function hasEntityChanges(diff: EntityFileDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.renamed.length + diff.described.length > 0
+}
+
+/**
+ * Diff two .data directories, keeping only the files that changed
+ */
+export async function diffSnapshots(fromDir: string, toDir: string, from: string = fromDir, to: string = toDir): Promise<ReleaseDiff> {
+  const result: ReleaseDiff = { from, to, entities: [], relationships: [], namespaces: [], skipped: [] }
+  const pathIn = (dir: string, file: string) => existsSync(join(dir, file)) ? join(dir, file) : undefined
+
+  const entityFiles = [...new Set([...listDataFiles(fromDir), ...listDataFiles(toDir)])].sort()
+  for (const file of entityFiles) {
+    const fromPath = pathIn(fromDir, file)
+    const toPath = pathIn(toDir, file)
+    if (isLFSPointer(fromPath) || isLFSPointer(toPath)) {
+      result.skipped.push(file)
+      continue
+    }
+    if (![fromPath, toPath].every(path => !path || isEntityFile(path))) continue
+
+    const diff = await diffEntityFile(file, fromPath, toPath)
+    if (hasEntityChanges(diff)) result.entities.push(diff)
+  }
+
+  const fromRelDir = join(fromDir, 'relationships')
+  const toRelDir = join(toDir, 'relationships')
+  const relationshipFiles = [...new Set([...listDataFiles(fromRelDir), ...listDataFiles(toRelDir)])].sort()
+  for (const file of relationshipFiles) {
+    const fromPath = pathIn(fromRelDir, file)
+    const toPath = pathIn(toRelDir, file)
+    if (isLFSPointer(fromPath) || isLFSPointer(toPath)) {
+      result.skipped.push(`relationships/${file}`)
+      continue
+    }
+
+    const diff = await diffRelationshipFile(file, fromPath, toPath)
+    if (diff.added.length + diff.removed.length > 0) result.relationships.push(diff)
+  }
+
+  result.namespaces = summarizeNamespaces(result.entities, result.relationships)
+  return result
+}
+
+/**
+ * A snapshot from a directory, or from the .data of a git revision of the repository
+ */
+export function resolveSnapshot(spec: string, rootDir: string = process.cwd()): Snapshot {
+  if (existsSync(spec) && statSync(spec).isDirectory()) {
+    return { label: spec, dir: spec, cleanup: () => {} }
+  }
+
+  let commit: string
+  try {
+    commit = execFileSync('git', ['rev-parse', '--verify', '--quiet', `${spec}^{commit}`], { cwd: rootDir, encoding: 'utf-8' }).trim()
+  } catch {
+    throw new Error(`${spec}: not a directory or a git revision`)
+  }
+
+  const dir = mkdtempSync(join(tmpdir(), 'release-diff-'))
+  const cleanup = () => rmSync(dir, { recursive: true, force: true })
+  try {
+    const archive = join(dir, 'data.tar')
+    execFileSync('git', ['archive', '--format=tar', `--output=${archive}`, commit, '--', '.data'], { cwd: rootDir, stdio: 'pipe' })
+    execFileSync('tar', ['-xf', archive, '-C', dir], { stdio: 'pipe' })
+    rmSync(archive)
+  } catch (e) {
+    cleanup()
+    throw new Error(`${spec}: cannot extract .data (${(e as Error).message.split('\n')[0]})`)
+  }
+  return { label: `${spec} (${commit.slice(0, 7)})`, dir: join(dir, '.data'), cleanup }
+}
+
+function sample<T>(items: T[], line: (item: T) => string): string[] {
+  const lines = items.slice(0, MARKDOWN_SAMPLE).map(item => `- ${line(item)}`)
+  if (items.length > MARKDOWN_SAMPLE) lines.push(`- ... and ${items.length - MARKDOWN_SAMPLE} more`)
+  return lines
+}
+
+function section<T>(title: string, items: T[], line: (item: T) => string): string[] {
+  return items.length > 0 ? ['', `**${title}**`, '', ...sample(items, line)] : []
+}
+
+function formatEdge(edge: Edge): string {
+  return `${edge.fromType} \`${edge.fromId}\` ${edge.relationshipType} ${edge.toType} \`${edge.toId}\``
+}
+
+/**
+ * Format a diff as Markdown release notes: the namespace summary, then each changed file
+ */
+export function formatMarkdown(diff: ReleaseDiff): string {
+  const lines = [`# Changes from ${diff.from} to ${diff.to}`, '', '## Summary', '']
+
+  if (diff.namespaces.length === 0) {
+    lines.push('No changes.')
+  } else {
+    lines.push(
+      '| Namespace | Added | Removed | Renamed | Descriptions changed | Edges added | Edges removed |',
+      '|---|---:|---:|---:|---:|---:|---:|',
+      ...diff.namespaces.map(s => `| ${s.ns} | ${s.added} | ${s.removed} | ${s.renamed} | ${s.described} | ${s.edgesAdded} | ${s.edgesRemoved} |`),
+    )
+  }
+
+  if (diff.entities.length > 0) lines.push('', '## Entities')
+  for (const file of diff.entities) {
+    lines.push('', `### ${file.file}`, '',
+      `${file.added.length} added, ${file.removed.length} removed, ${file.renamed.length} renamed, ${file.described.length} descriptions changed`,
+      ...section('Added', file.added, e => `${e.type} \`${e.id}\`${e.name ? ` ${e.name}` : ''}`),
+      ...section('Removed', file.removed, e => `${e.type} \`${e.id}\`${e.name ? ` ${e.name}` : ''}`),
+      ...section('Renamed', file.renamed, e => `${e.type} ${e.code}: \`${e.from}\` -> \`${e.to}\``),
+      ...section('Descriptions changed', file.described, e => `${e.type} \`${e.id}\``),
+    )
+  }
+
+  if (diff.relationships.length > 0) lines.push('', '## Relationships')
+  for (const file of diff.relationships) {
+    lines.push('', `### ${file.file}`, '',
+      `${file.added.length} edges added, ${file.removed.length} edges removed`,
+      ...section('Added', file.added, formatEdge),
+      ...section('Removed', file.removed, formatEdge),
+    )
+  }
+
+  if (diff.skipped.length > 0) {
+    lines.push('', `Skipped ${diff.skipped.length} files that are Git LFS pointers: ${diff.skipped.join(', ')}`)
+  }
+  return lines.join('\n')
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = process.argv.slice(2)
+  const [fromSpec, toSpec] = args.filter(arg => !arg.startsWith('--'))
+  if (!fromSpec) {
+    console.error('Usage: bun run .scripts/release-diff.ts <from> [to] [--json]')
+    process.exit(1)
+  }
+
+  const from = resolveSnapshot(fromSpec)
+  const to = toSpec ? resolveSnapshot(toSpec) : { label: '.data', dir: getDataPath(), cleanup: () => {} }
+  try {
+    const diff = await diffSnapshots(from.dir, to.dir, from.label, to.label)
+    console.log(args.includes('--json') ? JSON.stringify(diff, null, 2) : formatMarkdown(diff))
+  } finally {
+    from.cleanup()
+    to.cleanup()
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for render-templates.ts
+ * Run with: bun test .scripts/render-templates.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { loadTemplate } from './templates'
+import { renderPage, renderTemplates, resolveFields } from './render-templates'
+import { entityFixture } from './test-fixtures'
+
+const TEMPLATE = `---
+layout: occupation
+source: ONET
+$type: ONET/Occupation
+$id: https://standards.org.ai/ONET/Occupation/{occupation.code}
+sameAs: https://standards.org.ai/Occupation/{occupation.code}
+canonical: https://onet.org.ai/Occupation/{occupation.code}
+params:
+  - Occupation
+schema:
+  occupation:
+    code: oNETSOCCode
+    title: title
+    description: description
+    jobZone: jobZone
+---
+
+# {occupation.title}
+
+<OccupationHeader code={occupation.code} title={occupation.title} />
+
+{occupation.description}
+
+Job zone: {occupation.jobZone}
+
+Wage: {occupation.wage}
+`
+
+let rootDir: string
+let dataDir: string
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'render-templates-'))
+  dataDir = join(rootDir, '.data')
+  mkdirSync(join(rootDir, 'ONET'))
+  mkdirSync(dataDir)
+  writeFileSync(join(rootDir, 'ONET', '[Occupation].mdx'), TEMPLATE)
+  writeFileSync(join(dataDir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Software_Developers', name: 'Software Developers', description: 'Design {computer} applications', code: '15-1252.00' },
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Chief_Executives', name: 'Chief Executives', code: '11-1011.00' },
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Chief_Executives', name: 'Chief Executives', code: '11-1011.00' },
+    { ns: 'onet.org.ai', type: 'Skill', id: 'Programming', name: 'Programming', code: '2.B.3.e' },
+  ]))
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Occupation', id: 'Not_From_ONET', name: 'Not From ONET', code: '1' },
+  ]))
+})
+
+afterEach(() => {
+  rmSync(rootDir, { recursive: true, force: true })
+})
+
+describe('resolveFields', () => {
+  test('falls back from the source column to the field name and standard columns', () => {
+    const template = loadTemplate(rootDir, 'ONET/[Occupation].mdx')
+    const row = { id: 'X', name: 'Name', description: '', code: '1', oNETSOCCode: '15-1252.00' }
+    expect(resolveFields(template, row)).toEqual({ code: '15-1252.00', title: 'Name' })
+  })
+})
+
+describe('renderPage', () => {
+  const row = { ns: 'onet.org.ai', type: 'Occupation', id: 'Software_Developers', name: 'Software <Developers>', description: '', code: '15-1252.00' }
+
+  test('renders MDX with resolved URLs, placeholders and the exported variable', () => {
+    const page = renderPage(loadTemplate(rootDir, 'ONET/[Occupation].mdx'), row)
+    expect(page.path).toBe('ONET/Occupation/Software_Developers.mdx')
+    expect(page.content).toContain('canonical: https://onet.org.ai/Occupation/15-1252.00\n')
+    expect(page.content).toContain('export const occupation = {"code":"15-1252.00","title":"Software <Developers>"}')
+    expect(page.content).toContain('# Software &#60;Developers&#62;')
+    expect(page.content).toContain('<OccupationHeader code={"15-1252.00"} title={"Software <Developers>"} />')
+    expect(page.content).not.toMatch(/\{occupation\./)
+    expect(page.missing.sort()).toEqual(['description', 'jobZone', 'wage'])
+  })
+
+  test('renders HTML', () => {
+    const page = renderPage(loadTemplate(rootDir, 'ONET/[Occupation].mdx'), row, 'html')
+    expect(page.path).toBe('ONET/Occupation/Software_Developers.html')
+    expect(page.content).toContain('<link rel="canonical" href="https://onet.org.ai/Occupation/15-1252.00">')
+    expect(page.content).toContain('<h1>Software &lt;Developers&gt;</h1>')
+    expect(page.content).toContain('<OccupationHeader code="15-1252.00" title="Software &lt;Developers&gt;" />')
+  })
+})
+
+describe('renderTemplates', () => {
+  test('writes one page per entity of the source and reports missing fields', async () => {
+    const outputDir = join(dataDir, 'pages', 'ONET', 'Occupation')
+    mkdirSync(outputDir, { recursive: true })
+    writeFileSync(join(outputDir, 'Stale.mdx'), '')
+
+    const [report] = await renderTemplates(rootDir, dataDir)
+    expect(report).toEqual({
+      template: 'ONET/[Occupation].mdx',
+      type: 'Occupation',
+      pages: 2,
+      duplicates: 1,
+      missing: [
+        { field: 'description', column: 'description', pages: 1, example: 'Chief_Executives' },
+        { field: 'jobZone', column: 'jobZone', pages: 2, example: 'Software_Developers' },
+      ],
+      warnings: ['occupation.wage is not declared in the schema'],
+    })
+    expect(readdirSync(outputDir).sort()).toEqual(['Chief_Executives.mdx', 'Software_Developers.mdx'])
+    expect(readFileSync(join(outputDir, 'Software_Developers.mdx'), 'utf-8')).toContain('Design &#123;computer&#125; applications')
+  })
+
+  test('reports templates without rows or with unusable frontmatter', async () => {
+    writeFileSync(join(rootDir, 'ONET', '[Skill].mdx'), '---\nsource: ONET\n---\n')
+    rmSync(join(dataDir, 'ONET.Occupations.tsv'))
+
+    const reports = await renderTemplates(rootDir, dataDir)
+    expect(reports.map(r => [r.template, r.pages, r.warnings])).toEqual([
+      ['ONET/[Occupation].mdx', 0, ['occupation.wage is not declared in the schema', 'no Occupation rows in the ONET files of .data']],
+      ['ONET/[Skill].mdx', 0, ['params must list exactly one type']],
+    ])
+    expect(existsSync(join(dataDir, 'pages', 'ONET', 'Occupation'))).toBe(false)
+  })
+})
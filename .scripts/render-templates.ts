@@ -0,0 +1,343 @@
+#!/usr/bin/env bun
+/**
+ * MDX Template Renderer
+ *
+ * Instantiates the `[Type].mdx` route templates (see templates.ts) into one
+ * concrete page per entity, written to .data/pages/ next to the template's path:
+ *
+ *   NAICS/[Industry].mdx  ->  .data/pages/NAICS/Industry/Soybean_Farming.mdx
+ *
+ * A template is bound to the .data rows of its `params` type, read from the entity
+ * files of its `source` (source NAICS reads NAICS.*.tsv, Healthcare/FHIR reads
+ * FHIR.*.tsv). Each schema field takes its value from the row column the schema
+ * maps it to, then from the column named like the field, then from the standard
+ * column it stands for (title and label -> name, comment -> description).
+ *
+ * In a page, `$id`, `sameAs` and `canonical` are resolved and `{variable.field}`
+ * placeholders are replaced by the field's value. MDX pages also export the
+ * variable, so the template's other expressions still evaluate. HTML pages are
+ * converted with Bun.markdown and leave those expressions out.
+ *
+ * A field without a value renders as an empty string and is reported per
+ * template, as is a reference to a field the schema does not declare.
+ *
+ * Usage:
+ *   bun run .scripts/render-templates.ts [--html] [template ...]
+ *
+ * Templates are given relative to the repository root (NAICS/[Industry].mdx); a
+ * directory selects every template below it. Without arguments, every template is
+ * rendered.
+ */
+
+import { rmSync, mkdirSync, writeFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { streamEntities, getDataPath } from './utils'
+import { findTemplates, loadTemplate, findReferences, fieldsIn, fillPlaceholders, maskCode, sourcePrefixes, SCHEMA_VALUE_TYPES, URL_FIELDS, type Template } from './templates'
+import type { TransformerDescriptor } from './registry'
+
+export type PageFormat = 'mdx' | 'html'
+
+export const PAGES_DIR = 'pages'
+
+// Standard columns a field stands for when the row has no column of its own
+const FIELD_ALIASES: Record<string, string> = {
+  title: 'name',
+  label: 'name',
+  comment: 'description',
+}
+
+export interface MissingField {
+  field: string
+  column: string                    // source column or value type the schema maps it to
+  pages: number
+  example: string                   // id of one page without a value
+}
+
+export interface TemplateReport {
+  template: string
+  type: string
+  pages: number
+  duplicates: number                // rows skipped because an earlier row had the same id
+  missing: MissingField[]
+  warnings: string[]
+}
+
+export interface Page {
+  path: string                      // relative to the pages directory
+  content: string
+  missing: string[]                 // referenced fields without a value
+}
+
+/**
+ * The schema field values of a row, leaving out fields without a value
+ */
+export function resolveFields(template: Template, row: Record<string, string>): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const [field, column] of Object.entries(template.schema)) {
+    const candidates = [SCHEMA_VALUE_TYPES.has(column) ? undefined : column, field, FIELD_ALIASES[field]]
+    const value = candidates.map(key => (key ? row[key] : undefined)).find(v => v !== undefined && v !== '')
+    if (value !== undefined) values[field] = value
+  }
+  return values
+}
+
+/**
+ * The path of an entity's page, relative to the pages directory
+ */
+export function pagePath(template: Template, id: string, format: PageFormat): string {
+  const file = template.file.replace(`[${template.param}]`, `${template.param}/${id}`)
+  return file.replace(/\.mdx$/, `.${format}`)
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Character references keep values from opening JSX tags or expressions
+function escapeMDX(text: string): string {
+  return text.replace(/[{}<>]/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function yamlScalar(value: string): string {
+  return /^[\w$/.@-][^#]*$/.test(value) && !/:\s|:$/.test(value) ? value : JSON.stringify(value)
+}
+
+// Bun.markdown is newer than the bun-types release in the lockfile
+function markdownToHTML(source: string): string {
+  const markdown = (Bun as unknown as { markdown?: { html(source: string): string } }).markdown
+  if (!markdown) throw new Error('HTML pages need a Bun release with Bun.markdown')
+  return markdown.html(source)
+}
+
+const ESM_LINE = /^(import|export)\s/
+
+function withoutESM(body: string): string {
+  return body.split('\n').filter(line => !ESM_LINE.test(line)).join('\n')
+}
+
+/**
+ * Count the top-level JSX expressions in a body, outside code and imports
+ */
+function countExpressions(body: string): number {
+  let depth = 0
+  let count = 0
+  for (const char of maskCode(withoutESM(body))) {
+    if (char === '{' && depth++ === 0) count++
+    if (char === '}' && depth > 0) depth--
+  }
+  return count
+}
+
+/**
+ * Render one entity's page
+ */
+export function renderPage(template: Template, row: Record<string, string>, format: PageFormat = 'mdx'): Page {
+  const values = resolveFields(template, row)
+  const missing = new Set<string>()
+  const value = (field: string): string => {
+    if (values[field] === undefined) missing.add(field)
+    return values[field] ?? ''
+  }
+
+  const urls = Object.fromEntries(URL_FIELDS.map(key => [
+    key,
+    fillPlaceholders(template.urls[key], template.variable, field => encodeURIComponent(value(field))),
+  ]))
+
+  const { body } = template.frontmatter
+  let rendered = ''
+  let last = 0
+  for (const reference of findReferences(template)) {
+    if (!reference.placeholder) {
+      value(reference.field)
+      continue
+    }
+    const text = value(reference.field)
+    rendered += body.slice(last, reference.index)
+    if (format === 'html') {
+      rendered += reference.attribute ? `"${escapeHTML(text)}"` : escapeHTML(text)
+    } else {
+      rendered += reference.attribute ? `{${JSON.stringify(text)}}` : escapeMDX(text)
+    }
+    last = reference.end
+  }
+  rendered += body.slice(last)
+
+  const path = pagePath(template, row.id, format)
+  const meta: [string, string][] = [
+    ['layout', template.layout],
+    ['source', template.source],
+    ['$type', template.$type],
+    ...URL_FIELDS.map(key => [key, urls[key]] as [string, string]),
+  ]
+
+  if (format === 'html') {
+    const markdown = withoutESM(rendered)
+    const title = values.title ?? values.name ?? values.label ?? row.name ?? row.id
+    const content = [
+      '<!doctype html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHTML(title)}</title>`,
+      `<link rel="canonical" href="${escapeHTML(urls.canonical)}">`,
+      ...meta.filter(([key]) => key !== 'canonical').map(([key, text]) => `<meta name="${escapeHTML(key)}" content="${escapeHTML(text)}">`),
+      '</head>',
+      '<body>',
+      markdownToHTML(markdown).trimEnd(),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n')
+    return { path, content, missing: [...missing] }
+  }
+
+  const content = [
+    '---',
+    ...meta.filter(([, text]) => text).map(([key, text]) => `${key}: ${yamlScalar(text)}`),
+    '---',
+    '',
+    `export const ${template.variable} = ${JSON.stringify(values)}`,
+    rendered,
+  ].join('\n')
+  return { path, content, missing: [...missing] }
+}
+
+/**
+ * Render the pages of the given templates (all by default), replacing their previous pages
+ */
+export async function renderTemplates(
+  rootDir: string = process.cwd(),
+  dataDir: string = getDataPath(),
+  format: PageFormat = 'mdx',
+  files: string[] = findTemplates(rootDir),
+): Promise<TemplateReport[]> {
+  const outputDir = join(dataDir, PAGES_DIR)
+  const reports = new Map<string, TemplateReport>()
+  const templates: Template[] = []
+
+  for (const file of files) {
+    const report: TemplateReport = { template: file, type: '', pages: 0, duplicates: 0, missing: [], warnings: [] }
+    reports.set(file, report)
+    let template: Template
+    try {
+      template = loadTemplate(rootDir, file)
+    } catch (e) {
+      report.warnings.push((e as Error).message.replace(`${file}: `, ''))
+      continue
+    }
+    report.type = template.param
+    templates.push(template)
+
+    const undeclared = new Set([
+      ...Object.values(template.urls).flatMap(url => fieldsIn(url, template.variable)),
+      ...findReferences(template).map(r => r.field),
+    ].filter(field => !(field in template.schema)))
+    for (const field of undeclared) {
+      report.warnings.push(`${template.variable}.${field} is not declared in the schema`)
+    }
+    if (format === 'html') {
+      const expressions = countExpressions(template.frontmatter.body) - findReferences(template).filter(r => r.placeholder).length
+      if (expressions > 0) report.warnings.push(`${expressions} JSX expressions are left out of the HTML pages`)
+    }
+
+    rmSync(join(outputDir, dirname(pagePath(template, 'page', format))), { recursive: true, force: true })
+  }
+
+  const missing = new Map<string, Map<string, MissingField>>()
+  const candidates = new Map<string, Template[]>()
+  const candidatesOf = (file: string) => {
+    let found = candidates.get(file)
+    if (!found) candidates.set(file, found = templates.filter(t => sourcePrefixes(t.source).has(file.split('.')[0])))
+    return found
+  }
+
+  const rows = streamEntities(dataDir, {
+    files: file => candidatesOf(file).length > 0,
+    onDuplicate: (row, file) => {
+      for (const template of candidatesOf(file).filter(t => t.param === row.type)) {
+        reports.get(template.file)!.duplicates++
+      }
+    },
+  })
+  for await (const { file, record: row } of rows) {
+    for (const template of candidatesOf(file)) {
+      if (row.type !== template.param) continue
+
+      const report = reports.get(template.file)!
+      const page = renderPage(template, row, format)
+      const pageFile = join(outputDir, page.path)
+      mkdirSync(dirname(pageFile), { recursive: true })
+      writeFileSync(pageFile, page.content)
+      report.pages++
+
+      let fields = missing.get(template.file)
+      if (!fields) missing.set(template.file, fields = new Map())
+      // Undeclared fields are reported once per template, not per page
+      for (const field of page.missing.filter(f => f in template.schema)) {
+        const entry = fields.get(field) ?? { field, column: template.schema[field], pages: 0, example: row.id }
+        entry.pages++
+        fields.set(field, entry)
+      }
+    }
+  }
+
+  for (const template of templates) {
+    const report = reports.get(template.file)!
+    report.missing = [...(missing.get(template.file)?.values() ?? [])].sort((a, b) => a.field.localeCompare(b.field))
+    if (report.pages === 0) report.warnings.push(`no ${template.param} rows in the ${template.source} files of .data`)
+  }
+
+  return [...reports.values()]
+}
+
+/**
+ * Format reports for the console
+ */
+export function formatReport(reports: TemplateReport[]): string {
+  const lines: string[] = []
+  for (const report of reports) {
+    const duplicates = report.duplicates > 0 ? `, ${report.duplicates} duplicate ids skipped` : ''
+    lines.push(`${report.template}: ${report.pages} pages${duplicates}`)
+    for (const field of report.missing) {
+      lines.push(`  missing ${field.field} (${field.column}) on ${field.pages} pages, e.g. ${field.example}`)
+    }
+    for (const warning of report.warnings) {
+      lines.push(`  ${warning}`)
+    }
+  }
+  const pages = reports.reduce((sum, r) => sum + r.pages, 0)
+  lines.push(`Rendered ${pages} pages from ${reports.length} templates to .data/${PAGES_DIR}`)
+  return lines.join('\n')
+}
+
+export async function transformRenderTemplates(): Promise<void> {
+  console.log('=== Render Templates ===')
+  console.log(formatReport(await renderTemplates()))
+  console.log('=== Render Templates Complete ===\n')
+}
+
+export const transformer: TransformerDescriptor = {
+  name: 'pages',
+  description: 'One MDX page per entity from the [Type].mdx templates (optional, runs only when named)',
+  run: transformRenderTemplates,
+  aliases: ['render-templates'],
+  optional: true,
+  inputs: ['*'],
+  outputs: [PAGES_DIR],
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = process.argv.slice(2)
+  const format: PageFormat = args.includes('--html') ? 'html' : 'mdx'
+  const selected = args.filter(arg => !arg.startsWith('--')).map(arg => arg.replace(/\/+$/, ''))
+  const files = findTemplates().filter(file =>
+    selected.length === 0 || selected.some(arg => file === arg || file.startsWith(`${arg}/`)))
+
+  if (files.length === 0) {
+    console.error(`No templates match ${selected.join(' ')}`)
+    process.exit(1)
+  }
+  console.log(formatReport(await renderTemplates(process.cwd(), getDataPath(), format, files)))
+}
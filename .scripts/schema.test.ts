@@ -0,0 +1,123 @@
+/**
+ * Unit tests for schema.ts
+ * Run with: bun test .scripts/schema.test.ts
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { defineSchema, normalizeHeader, createRowMapper } from './schema'
+import { parseTSV, parseCSV, streamTSV } from './utils'
+
+const AUTHORITY_SCHEMA = defineSchema({
+  columns: {
+    'Registration Authority Code': { aliases: ['RA Code'] },
+    Country: {},
+    Website: { optional: true },
+  },
+})
+
+describe('normalizeHeader', () => {
+  test('ignores BOMs, quotes, case and repeated whitespace', () => {
+    expect(normalizeHeader('\uFEFF"Registration  Authority Code"')).toBe('registration authority code')
+    expect(normalizeHeader('"\uFEFF""Registration Authority Code"""')).toBe('registration authority code')
+  })
+})
+
+describe('createRowMapper', () => {
+  test('maps noisy and aliased headers to schema columns', () => {
+    const mapRow = createRowMapper(AUTHORITY_SCHEMA, ['"\uFEFF""RA CODE"""', 'country'], 'ra.tsv')
+    expect(mapRow({ '"\uFEFF""RA CODE"""': 'RA000001', country: 'Albania' }, 1)).toEqual({
+      'Registration Authority Code': 'RA000001',
+      Country: 'Albania',
+      Website: '',
+    })
+  })
+
+  test('names the file and the missing columns', () => {
+    expect(() => createRowMapper(AUTHORITY_SCHEMA, ['Country'], 'ra.tsv'))
+      .toThrow('ra.tsv does not match its source schema (missing columns: Registration Authority Code)')
+  })
+
+  test('names unknown columns unless they are allowed', () => {
+    const headers = ['RA Code', 'Country', 'Jurisdiction']
+    expect(() => createRowMapper(AUTHORITY_SCHEMA, headers, 'ra.tsv')).toThrow('unknown columns: Jurisdiction')
+    expect(() => createRowMapper({ ...AUTHORITY_SCHEMA, allowUnknown: true }, headers, 'ra.tsv')).not.toThrow()
+  })
+
+  test('rejects two headers matching the same column', () => {
+    expect(() => createRowMapper(AUTHORITY_SCHEMA, ['RA Code', 'Registration Authority Code', 'Country'], 'ra.tsv'))
+      .toThrow('both match Registration Authority Code')
+  })
+
+  test('coerces values', () => {
+    const schema = defineSchema({
+      columns: {
+        code: {},
+        importance: { type: 'number' },
+        level: { type: 'integer' },
+        active: { type: 'boolean' },
+      },
+    })
+    const mapRow = createRowMapper(schema, ['code', 'importance', 'level', 'active'], 'x.tsv')
+
+    expect(mapRow({ code: '01', importance: '3.75', level: '1,200', active: 'Y' }, 1))
+      .toEqual({ code: '01', importance: 3.75, level: 1200, active: true })
+    expect(mapRow({ code: '02', importance: '', level: '', active: '' }, 2))
+      .toEqual({ code: '02', importance: undefined, level: undefined, active: false })
+    expect(() => mapRow({ code: '03', importance: 'high', level: '1', active: 'no' }, 3))
+      .toThrow('x.tsv: invalid number "high" in column importance of row 3')
+    expect(() => mapRow({ code: '04', importance: '1', level: '1.5', active: 'no' }, 4))
+      .toThrow('invalid integer "1.5" in column level')
+  })
+})
+
+describe('parsing with a schema', () => {
+  const withFile = async (name: string, content: string, fn: (path: string) => void | Promise<void>) => {
+    const dir = mkdtempSync(join(tmpdir(), 'schema-'))
+    try {
+      const path = join(dir, name)
+      writeFileSync(path, content)
+      await fn(path)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  test('parseTSV normalizes headers', async () => {
+    await withFile('ra.tsv', '\uFEFF"\uFEFF""Registration Authority Code"""\tCountry\nRA000001\tAlbania\n', path => {
+      expect(parseTSV(path, AUTHORITY_SCHEMA)).toEqual([
+        { 'Registration Authority Code': 'RA000001', Country: 'Albania', Website: '' },
+      ])
+    })
+  })
+
+  test('parseTSV fails on a changed source format', async () => {
+    await withFile('ra.tsv', 'Code\tCountry\nRA000001\tAlbania\n', path => {
+      expect(() => parseTSV(path, AUTHORITY_SCHEMA)).toThrow(`${path} does not match its source schema`)
+    })
+  })
+
+  test('parseTSV fails on a file without a header row', async () => {
+    await withFile('ra.tsv', '', path => {
+      expect(() => parseTSV(path, AUTHORITY_SCHEMA)).toThrow('missing columns')
+    })
+  })
+
+  test('parseCSV applies the schema', async () => {
+    await withFile('ra.csv', 'RA Code,Country,Website\nRA000002,"Andorra, Principality",\n', path => {
+      expect(parseCSV(path, {}, AUTHORITY_SCHEMA)).toEqual([
+        { 'Registration Authority Code': 'RA000002', Country: 'Andorra, Principality', Website: '' },
+      ])
+    })
+  })
+
+  test('streamTSV applies the schema', async () => {
+    await withFile('ra.tsv', 'RA Code\tCountry\nRA000003\tArgentina\n', async path => {
+      const rows = []
+      for await (const row of streamTSV(path, AUTHORITY_SCHEMA)) rows.push(row)
+      expect(rows).toEqual([{ 'Registration Authority Code': 'RA000003', Country: 'Argentina', Website: '' }])
+    })
+  })
+})
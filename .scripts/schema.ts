@@ -0,0 +1,159 @@
+/**
+ * Declarative source schemas
+ *
+ * A transformer declares the columns it expects in a source file:
+ *
+ *   const MCC_CODE_SCHEMA = defineSchema({
+ *     columns: {
+ *       MCC: { aliases: ['Merchant Category Code'] },
+ *       Description: {},
+ *       IRSReportable: { type: 'boolean', optional: true },
+ *     },
+ *   })
+ *   type MCCCodeRow = SchemaRow<typeof MCC_CODE_SCHEMA>
+ *
+ *   const codes = parseTSV(codesFile, MCC_CODE_SCHEMA)
+ *
+ * Headers are matched ignoring case, BOMs, quotes and repeated whitespace, so
+ * `\uFEFF"Registration Authority Code"` matches `Registration Authority Code`. A file
+ * missing a required column, or with a column the schema does not declare, is
+ * rejected with an error naming the file and the columns, so an upstream format
+ * change fails the transform instead of silently producing empty values.
+ */
+
+export type ColumnType = 'string' | 'number' | 'integer' | 'boolean'
+
+export interface ColumnSpec {
+  type?: ColumnType       // Value coercion (default 'string')
+  optional?: boolean      // The column may be absent from the file
+  aliases?: string[]      // Other header spellings used upstream
+}
+
+export interface SourceSchema {
+  columns: Record<string, ColumnSpec>
+  allowUnknown?: boolean  // Accept columns the schema does not declare (for wide files)
+}
+
+type ColumnValue<C extends ColumnSpec> =
+  C['type'] extends 'number' | 'integer' ? number | undefined :
+  C['type'] extends 'boolean' ? boolean :
+  string
+
+/**
+ * The row type produced by parsing a file with a schema
+ */
+export type SchemaRow<S extends SourceSchema> = {
+  [K in keyof S['columns']]: ColumnValue<S['columns'][K]>
+}
+
+/**
+ * Declare a schema, keeping its literal column types for SchemaRow
+ */
+export function defineSchema<const S extends SourceSchema>(schema: S): S {
+  return schema
+}
+
+/**
+ * Normalize a header for matching: no BOM or quotes, single spaces, lower case
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/[\uFEFF"']/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x'])
+const FALSE_VALUES = new Set(['', 'false', 'no', 'n', '0'])
+
+function coerceValue(value: string, type: ColumnType): string | number | boolean | undefined {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const trimmed = value.trim().replace(/,/g, '')
+      if (trimmed === '') return undefined
+      const number = Number(trimmed)
+      if (Number.isNaN(number) || (type === 'integer' && !Number.isInteger(number))) {
+        throw new Error(`invalid ${type} "${value}"`)
+      }
+      return number
+    }
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase()
+      if (TRUE_VALUES.has(normalized)) return true
+      if (FALSE_VALUES.has(normalized)) return false
+      throw new Error(`invalid boolean "${value}"`)
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Check a file's headers against a schema and return a function that maps raw
+ * rows (keyed by the file's headers) to schema rows. Throws if required columns
+ * are missing or undeclared columns are present.
+ */
+export function createRowMapper<S extends SourceSchema>(
+  schema: S,
+  headers: string[],
+  filePath: string
+): (raw: Record<string, string>, rowNumber: number) => SchemaRow<S> {
+  // Every spelling of every column, normalized
+  const spellings = new Map<string, string>()
+  for (const [column, spec] of Object.entries(schema.columns)) {
+    for (const spelling of [column, ...(spec.aliases || [])]) {
+      const key = normalizeHeader(spelling)
+      const existing = spellings.get(key)
+      if (existing && existing !== column) {
+        throw new Error(`Schema for ${filePath} declares "${spelling}" for both ${existing} and ${column}`)
+      }
+      spellings.set(key, column)
+    }
+  }
+
+  // Match the file's headers to columns
+  const sourceHeader = new Map<string, string>()
+  const unknown: string[] = []
+  for (const header of headers) {
+    const column = spellings.get(normalizeHeader(header))
+    if (!column) {
+      unknown.push(header)
+    } else if (sourceHeader.has(column)) {
+      throw new Error(`${filePath}: columns "${sourceHeader.get(column)}" and "${header}" both match ${column}`)
+    } else {
+      sourceHeader.set(column, header)
+    }
+  }
+
+  const missing = Object.entries(schema.columns)
+    .filter(([column, spec]) => !spec.optional && !sourceHeader.has(column))
+    .map(([column]) => column)
+
+  const problems: string[] = []
+  if (missing.length > 0) {
+    problems.push(`missing columns: ${missing.join(', ')}`)
+  }
+  if (unknown.length > 0 && !schema.allowUnknown) {
+    problems.push(`unknown columns: ${unknown.join(', ')}`)
+  }
+  if (problems.length > 0) {
+    throw new Error(`${filePath} does not match its source schema (${problems.join('; ')})`)
+  }
+
+  const columns = Object.entries(schema.columns)
+  return (raw, rowNumber) => {
+    const row: Record<string, unknown> = {}
+    for (const [column, spec] of columns) {
+      const header = sourceHeader.get(column)
+      const value = header === undefined ? '' : raw[header] ?? ''
+      try {
+        row[column] = coerceValue(value, spec.type || 'string')
+      } catch (e) {
+        throw new Error(`${filePath}: ${(e as Error).message} in column ${column} of row ${rowNumber}`)
+      }
+    }
+    return row as SchemaRow<S>
+  }
+}
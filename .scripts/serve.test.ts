@@ -0,0 +1,182 @@
+/**
+ * Unit tests for serve.ts
+ * Run with: bun test .scripts/serve.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createTSVBackend } from './standards'
+import { parseTurtle } from './rdf'
+import { buildRoutingTable, createHandler, loadRoutingTable, negotiate, parseRoute, resolveRequest, type RoutingTable } from './serve'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+const ROUTING_ROWS = [
+  {
+    type: 'Industry', canonicalDomain: 'naics.org.ai', supersetDomain: 'industries.org.ai',
+    pattern: 'graph.org.ai/Industry/:id', canonicalRoute: 'naics.org.ai/Industry/:id', supersetRoute: 'industries.org.ai/Industry/:id',
+  },
+  {
+    type: 'Occupation', canonicalDomain: 'onet.org.ai', supersetDomain: '',
+    pattern: 'graph.org.ai/Occupation/:id', canonicalRoute: 'onet.org.ai/Occupation/:id', supersetRoute: '',
+  },
+]
+
+let dataDir: string
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'serve-'))
+  mkdirSync(join(dataDir, 'relationships'))
+  writeFileSync(join(dataDir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers', name: 'Software Publishers', description: 'Publishing computer software', code: '513210', includedIn: 'tech.org.ai' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Information', name: 'Information', description: 'The information sector', code: '51' },
+  ]))
+  writeFileSync(join(dataDir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Software_Developers', name: 'Software Developers', description: 'Design computer applications', code: '15-1252.00' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Software_Publishers', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Information', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(dataDir, 'relationships', 'ONET.Occupation.Industry.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Software_Developers', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Software_Publishers', relationshipType: 'employedIn' },
+  ]))
+  const columns = Object.keys(ROUTING_ROWS[0])
+  writeFileSync(join(dataDir, 'Graph.Routing.tsv'), [
+    columns.join('\t'),
+    ...ROUTING_ROWS.map(row => columns.map(col => row[col as keyof typeof row]).join('\t')),
+  ].join('\n'))
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('parseRoute', () => {
+  test('splits domain and type', () => {
+    expect(parseRoute('graph.org.ai/Industry/:id')).toEqual({ domain: 'graph.org.ai', type: 'Industry' })
+    expect(parseRoute('')).toBeUndefined()
+  })
+})
+
+describe('resolveRequest', () => {
+  const table = buildRoutingTable(ROUTING_ROWS)
+
+  test('serves requests without a domain from the canonical domain', () => {
+    expect(resolveRequest(table, 'localhost:3000', '/Industry/Software_Publishers')).toEqual({
+      kind: 'entity', ref: { ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers' },
+    })
+    expect(resolveRequest(table, 'localhost:3000', '/Occupation')).toEqual({ kind: 'search', ns: 'onet.org.ai', type: 'Occupation' })
+    expect(resolveRequest(table, 'localhost', '/')).toEqual({ kind: 'index' })
+    expect(resolveRequest(table, 'localhost', '/Widget/X')).toEqual({ kind: 'not-found', message: 'No route for type Widget' })
+  })
+
+  test('rejects malformed percent-encoding', () => {
+    expect(resolveRequest(table, 'localhost', '/Industry/%E0%A4%A')).toEqual({
+      kind: 'bad-request', message: 'Malformed percent-encoding in /Industry/%E0%A4%A',
+    })
+  })
+
+  test('redirects graph and superset hosts to the canonical domain', () => {
+    expect(resolveRequest(table, 'graph.org.ai', '/Industry/Software_Publishers')).toEqual({
+      kind: 'redirect', location: 'https://naics.org.ai/Industry/Software_Publishers',
+    })
+    expect(resolveRequest(table, 'industries.org.ai', '/Industry', '?q=software')).toEqual({
+      kind: 'redirect', location: 'https://naics.org.ai/Industry?q=software',
+    })
+    expect(resolveRequest(table, 'naics.org.ai', '/Industry/Information')).toEqual({
+      kind: 'entity', ref: { ns: 'naics.org.ai', type: 'Industry', id: 'Information' },
+    })
+  })
+
+  test('takes the domain from the first path segment', () => {
+    expect(resolveRequest(table, 'localhost', '/graph.org.ai/Occupation/Software_Developers')).toEqual({
+      kind: 'redirect', location: '/onet.org.ai/Occupation/Software_Developers',
+    })
+    // Superset routes only exist for types that declare one
+    expect(resolveRequest(table, 'localhost', '/industries.org.ai/Occupation/Software_Developers')).toEqual({
+      kind: 'entity', ref: { ns: 'industries.org.ai', type: 'Occupation', id: 'Software_Developers' },
+    })
+  })
+})
+
+describe('negotiate', () => {
+  test('picks the preferred supported type', () => {
+    expect(negotiate(null)).toBe('application/json')
+    expect(negotiate('text/turtle')).toBe('text/turtle')
+    expect(negotiate('application/json;q=0.5, application/ld+json')).toBe('application/ld+json')
+    expect(negotiate('text/html, */*;q=0.1')).toBe('application/json')
+    expect(negotiate('text/html, text/turtle;q=0')).toBeUndefined()
+  })
+})
+
+describe('createHandler', () => {
+  let table: RoutingTable
+  let handle: (request: Request) => Promise<Response>
+
+  beforeEach(async () => {
+    table = await loadRoutingTable(dataDir)
+    handle = createHandler(createTSVBackend(dataDir), table)
+  })
+
+  const get = (path: string, headers: Record<string, string> = {}) => handle(new Request(`http://localhost:3000${path}`, { headers }))
+  const json = async (response: Response): Promise<any> => response.json()
+
+  test('returns an entity with its relationships as JSON', async () => {
+    const response = await get('/Industry/Software_Publishers')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+
+    const body = await json(response)
+    expect(body.iri).toBe('https://naics.org.ai/Industry/Software_Publishers')
+    expect(body.code).toBe('513210')
+    expect(body.outgoing).toEqual([{
+      relationshipType: 'childOf', iri: 'https://naics.org.ai/Industry/Information',
+      ns: 'naics.org.ai', type: 'Industry', id: 'Information', name: 'Information',
+    }])
+    expect(body.incoming.map((r: { id: string }) => r.id)).toEqual(['Software_Developers'])
+  })
+
+  test('negotiates JSON-LD and Turtle', async () => {
+    const jsonld = await json(await get('/Industry/Software_Publishers', { Accept: 'application/ld+json' }))
+    expect(jsonld['@id']).toBe('https://naics.org.ai/Industry/Software_Publishers')
+    expect(jsonld['@context'].childOf).toEqual({ '@id': 'skos:broader', '@type': '@id' })
+    expect(jsonld.childOf).toEqual(['https://naics.org.ai/Industry/Information'])
+    expect(jsonld['@reverse']).toEqual({ employedIn: ['https://onet.org.ai/Occupation/Software_Developers'] })
+
+    const response = await get('/Industry/Software_Publishers', { Accept: 'text/turtle' })
+    expect(response.headers.get('Content-Type')).toBe('text/turtle; charset=utf-8')
+    const triples = parseTurtle(await response.text())
+    expect(triples.map(t => t.subject)).toContain('https://onet.org.ai/Occupation/Software_Developers')
+    expect(triples.filter(t => t.subject === 'https://naics.org.ai/Industry/Software_Publishers')).toHaveLength(6)
+
+    expect((await get('/Industry/Software_Publishers', { Accept: 'text/html' })).status).toBe(406)
+  })
+
+  test('searches a type', async () => {
+    const body = await json(await get('/Industry?q=software'))
+    expect(body.results.map((r: { iri: string }) => r.iri)).toEqual(['https://naics.org.ai/Industry/Software_Publishers'])
+    expect((await get('/Industry')).status).toBe(400)
+    expect((await get('/Industry?q=software&limit=0')).status).toBe(400)
+  })
+
+  test('redirects and reports missing entities', async () => {
+    const redirect = await get('/graph.org.ai/Industry/Information')
+    expect(redirect.status).toBe(301)
+    expect(redirect.headers.get('Location')).toBe('/naics.org.ai/Industry/Information')
+
+    const missing = await get('/Industry/Missing')
+    expect(missing.status).toBe(404)
+    expect(await missing.json()).toEqual({ error: 'No entity https://naics.org.ai/Industry/Missing' })
+
+    const post = await handle(new Request('http://localhost:3000/Industry', { method: 'POST' }))
+    expect(post.status).toBe(405)
+
+    expect((await get('/Industry/%E0%A4%A')).status).toBe(400)
+  })
+
+  test('lists the routing table', async () => {
+    const body = await json(await get('/'))
+    expect(body.map((r: { type: string }) => r.type)).toEqual(['Industry', 'Occupation'])
+  })
+})
@@ -0,0 +1,313 @@
+#!/usr/bin/env bun
+/**
+ * Graph HTTP API
+ *
+ * Serves the routes in Graph.Routing.tsv (see generateRoutingConfig in
+ * graph-integration.ts) with Bun.serve:
+ *
+ *   GET /{type}/{id}      the entity with its outgoing and incoming relationships
+ *   GET /{type}?q=text    entities of the type matching the search text (&limit=N)
+ *   GET /                 the routing table
+ *
+ * The domain of a request comes from its Host header, or from a leading path
+ * segment (/industries.org.ai/Industry/Farming) when serving everything from one
+ * local address. Each routing row maps the graph.org.ai pattern and the superset
+ * route of a type to its canonical route, and requests on those are redirected
+ * there. Requests without a domain are served from the canonical domain.
+ *
+ * Responses are negotiated on the Accept header: application/json (default),
+ * application/ld+json (using the contexts of export-jsonld.ts) and text/turtle
+ * (using the triples of export-rdf.ts).
+ *
+ * Usage:
+ *   bun run .scripts/serve.ts [--port=3000] [--no-db]
+ */
+
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { streamDataTSV, getDataPath, buildId } from './utils'
+import { openBackend, parseArgs, type EntityRef, type Neighbor, type QueryBackend, type Row } from './standards'
+import { buildContext, buildNode, type JsonLdNode } from './export-jsonld'
+import { entityTriples, relationshipTriple, TURTLE_PREFIXES } from './export-rdf'
+import { formatTurtle, type Triple } from './rdf'
+
+export const ROUTING_FILE = 'Graph.Routing.tsv'
+
+export type MediaType = 'application/json' | 'application/ld+json' | 'text/turtle'
+
+const MEDIA_TYPES: MediaType[] = ['application/json', 'application/ld+json', 'text/turtle']
+
+const DEFAULT_PORT = 3000
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 1000
+
+/**
+ * Where a domain's routes for a type lead. Canonical routes are served; the
+ * others redirect to the canonical domain.
+ */
+export interface RouteTarget {
+  type: string
+  canonicalDomain: string
+  redirect: boolean
+}
+
+export interface RoutingTable {
+  routes: Map<string, RouteTarget>   // "<domain>/<type>" -> target
+  canonical: Map<string, string>     // type -> canonical domain
+  domains: Set<string>
+  rows: Row[]
+}
+
+export type Resolution =
+  | { kind: 'index' }
+  | { kind: 'redirect'; location: string }
+  | { kind: 'entity'; ref: EntityRef }
+  | { kind: 'search'; ns: string; type: string }
+  | { kind: 'not-found'; message: string }
+  | { kind: 'bad-request'; message: string }
+
+/**
+ * Split a route such as graph.org.ai/Industry/:id into its domain and type
+ */
+export function parseRoute(route: string): { domain: string; type: string } | undefined {
+  const match = route.match(/^([^/]+)\/([^/]+)\/:id$/)
+  return match ? { domain: match[1], type: match[2] } : undefined
+}
+
+/**
+ * Build the routing table from Graph.Routing.tsv rows
+ */
+export function buildRoutingTable(rows: Row[]): RoutingTable {
+  const table: RoutingTable = { routes: new Map(), canonical: new Map(), domains: new Set(), rows }
+
+  for (const row of rows) {
+    const canonical = parseRoute(row.canonicalRoute || '')
+    if (!canonical) continue
+    table.canonical.set(canonical.type, canonical.domain)
+
+    const add = (route: string | undefined, redirect: boolean) => {
+      const parsed = route ? parseRoute(route) : undefined
+      if (!parsed) return
+      table.routes.set(`${parsed.domain}/${parsed.type}`, { type: parsed.type, canonicalDomain: canonical.domain, redirect })
+      table.domains.add(parsed.domain)
+    }
+    add(row.canonicalRoute, false)
+    add(row.pattern, true)
+    add(row.supersetRoute, true)
+  }
+
+  return table
+}
+
+/**
+ * Load the routing table written by the graph stage
+ */
+export async function loadRoutingTable(dataDir: string = getDataPath()): Promise<RoutingTable> {
+  const filePath = join(dataDir, ROUTING_FILE)
+  if (!existsSync(filePath)) {
+    throw new Error(`${ROUTING_FILE} not found; generate it with the graph stage`)
+  }
+  const rows: Row[] = []
+  for await (const row of streamDataTSV(filePath)) rows.push(row)
+  return buildRoutingTable(rows)
+}
+
+function formatPath(segments: string[]): string {
+  return '/' + segments.map(encodeURIComponent).join('/')
+}
+
+/**
+ * Resolve a request to what it asks for. The domain is a leading path segment
+ * containing a dot, else the Host header when it is a routed domain.
+ */
+export function resolveRequest(table: RoutingTable, host: string | null, pathname: string, search: string = ''): Resolution {
+  let segments: string[]
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return { kind: 'bad-request', message: `Malformed percent-encoding in ${pathname}` }
+  }
+  const inPath = segments.length > 0 && segments[0].includes('.')
+  const hostname = (host || '').replace(/:\d+$/, '')
+  const domain = inPath ? segments.shift() : table.domains.has(hostname) ? hostname : undefined
+
+  if (segments.length === 0) return { kind: 'index' }
+  const [type, ...idParts] = segments
+  const id = idParts.join('/')
+
+  const target = domain ? table.routes.get(`${domain}/${type}`) : undefined
+  if (target?.redirect) {
+    const path = formatPath([type, ...idParts])
+    const location = inPath ? `/${target.canonicalDomain}${path}` : `https://${target.canonicalDomain}${path}`
+    return { kind: 'redirect', location: location + search }
+  }
+
+  // Domains without a route for the type are served as they are
+  const ns = domain || table.canonical.get(type)
+  if (!ns) return { kind: 'not-found', message: `No route for type ${type}` }
+  return id ? { kind: 'entity', ref: { ns, type, id } } : { kind: 'search', ns, type }
+}
+
+/**
+ * Pick the response media type from an Accept header, or undefined if none of
+ * the supported types is acceptable
+ */
+export function negotiate(accept: string | null): MediaType | undefined {
+  if (!accept) return 'application/json'
+
+  const ranges = accept.split(',').map((part, index) => {
+    const [range, ...params] = part.trim().toLowerCase().split(';').map(p => p.trim())
+    const q = params.find(p => p.startsWith('q='))
+    return { range, q: q ? Number(q.slice(2)) : 1, index }
+  })
+  ranges.sort((a, b) => b.q - a.q || a.index - b.index)
+
+  for (const { range, q } of ranges) {
+    if (!(q > 0)) continue
+    if (MEDIA_TYPES.includes(range as MediaType)) return range as MediaType
+    if (range === '*/*' || range === 'application/*') return 'application/json'
+    if (range === 'text/*') return 'text/turtle'
+  }
+  return undefined
+}
+
+function iriOf(ref: EntityRef): string {
+  return buildId(ref.ns, ref.type, ref.id)
+}
+
+function relationshipTriples(ref: EntityRef, neighbors: Neighbor[]): Triple[] {
+  return neighbors.map(n => {
+    const [from, to] = n.direction === 'out' ? [ref, n] : [n, ref]
+    return relationshipTriple({
+      fromNs: from.ns, fromType: from.type, fromId: from.id,
+      toNs: to.ns, toType: to.type, toId: to.id,
+      relationshipType: n.relationshipType,
+    })
+  })
+}
+
+function linksByType(neighbors: Neighbor[]): Map<string, string[]> {
+  const links = new Map<string, string[]>()
+  for (const n of neighbors) {
+    if (!links.has(n.relationshipType)) links.set(n.relationshipType, [])
+    links.get(n.relationshipType)!.push(iriOf(n))
+  }
+  return links
+}
+
+/**
+ * Render an entity and its relationships in the negotiated media type
+ */
+export function renderEntity(entity: Row, neighbors: Neighbor[], mediaType: MediaType): string {
+  const ref = { ns: entity.ns, type: entity.type, id: entity.id }
+  const outgoing = neighbors.filter(n => n.direction === 'out')
+  const incoming = neighbors.filter(n => n.direction === 'in')
+
+  if (mediaType === 'text/turtle') {
+    const triples = [...entityTriples(entity), ...relationshipTriples(ref, neighbors)]
+    return formatTurtle(triples, { base: `https://${entity.ns}/`, prefixes: TURTLE_PREFIXES })
+  }
+
+  if (mediaType === 'application/ld+json') {
+    const node: JsonLdNode = buildNode(entity, linksByType(outgoing))
+    if (incoming.length > 0) node['@reverse'] = Object.fromEntries(linksByType(incoming))
+    const context = buildContext(entity.ns, new Set(neighbors.map(n => n.relationshipType)))
+    return JSON.stringify({ '@context': context, ...node }, null, 2)
+  }
+
+  const relationship = (n: Neighbor) => ({ relationshipType: n.relationshipType, iri: iriOf(n), ns: n.ns, type: n.type, id: n.id, name: n.name })
+  return JSON.stringify({ iri: iriOf(ref), ...entity, outgoing: outgoing.map(relationship), incoming: incoming.map(relationship) }, null, 2)
+}
+
+/**
+ * Render search results in the negotiated media type
+ */
+export function renderResults(ns: string, query: string, results: Row[], mediaType: MediaType): string {
+  if (mediaType === 'text/turtle') {
+    return formatTurtle(results.flatMap(entityTriples), { base: `https://${ns}/`, prefixes: TURTLE_PREFIXES })
+  }
+  if (mediaType === 'application/ld+json') {
+    return JSON.stringify({ '@context': buildContext(ns), '@graph': results.map(r => buildNode(r)) }, null, 2)
+  }
+  return JSON.stringify({ query, results: results.map(r => ({ iri: buildId(r.ns, r.type, r.id), ...r })) }, null, 2)
+}
+
+function respond(body: string, mediaType: MediaType, status: number = 200): Response {
+  const charset = mediaType === 'text/turtle' ? '; charset=utf-8' : ''
+  return new Response(body, { status, headers: { 'Content-Type': mediaType + charset, Vary: 'Accept' } })
+}
+
+function error(status: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+/**
+ * Create the request handler for a backend and routing table
+ */
+export function createHandler(backend: QueryBackend, table: RoutingTable): (request: Request) => Promise<Response> {
+  return async request => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return error(405, `Method ${request.method} not allowed`, { Allow: 'GET, HEAD' })
+    }
+
+    const url = new URL(request.url)
+    const resolution = resolveRequest(table, request.headers.get('host'), url.pathname, url.search)
+
+    switch (resolution.kind) {
+      case 'redirect':
+        return new Response(null, { status: 301, headers: { Location: resolution.location } })
+      case 'not-found':
+        return error(404, resolution.message)
+      case 'bad-request':
+        return error(400, resolution.message)
+    }
+
+    const mediaType = negotiate(request.headers.get('accept'))
+    if (!mediaType) {
+      return error(406, `Acceptable media types are ${MEDIA_TYPES.join(', ')}`)
+    }
+
+    try {
+      switch (resolution.kind) {
+        case 'index':
+          return respond(JSON.stringify(table.rows, null, 2), 'application/json')
+
+        case 'entity': {
+          const entity = await backend.get(resolution.ref)
+          if (!entity) return error(404, `No entity ${iriOf(resolution.ref)}`)
+          const neighbors = await backend.neighbors(resolution.ref, { depth: 1 })
+          return respond(renderEntity(entity, neighbors, mediaType), mediaType)
+        }
+
+        case 'search': {
+          const query = url.searchParams.get('q')
+          if (!query) return error(400, 'Missing search text: use ?q=')
+          const limit = Number(url.searchParams.get('limit') || DEFAULT_LIMIT)
+          if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+            return error(400, `limit must be an integer from 1 to ${MAX_LIMIT}`)
+          }
+          const results = await backend.search(query, { type: resolution.type, ns: resolution.ns, limit })
+          return respond(renderResults(resolution.ns, query, results, mediaType), mediaType)
+        }
+      }
+    } catch (e) {
+      console.error(`Error serving ${url.pathname}:`, e)
+      return error(500, 'Internal error')
+    }
+  }
+}
+
+// Run if called directly
+if (import.meta.main) {
+  const args = parseArgs(process.argv.slice(2))
+  const portOption = args.options.port
+  const port = Number(typeof portOption === 'string' ? portOption : process.env.PORT || DEFAULT_PORT)
+
+  const table = await loadRoutingTable()
+  const backend = openBackend(getDataPath(), !args.options['no-db'])
+  const server = Bun.serve({ port, fetch: createHandler(backend, table) })
+  console.log(`Serving ${table.canonical.size} types on http://localhost:${server.port}`)
+}
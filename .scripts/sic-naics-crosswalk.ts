@@ -2,17 +2,22 @@ import { join } from 'path'
 import * as XLSX from 'xlsx'
 import {
   NAMESPACES,
-  parseTSV,
-  writeTSV,
+  parseDataTSV,
+  writeRelationshipTSV,
   getSourcePath,
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const SOURCE_DIR = getSourcePath('Census')
 const REL_DIR = getRelationshipsPath()
 
+// Editions of the two classifications in the Census crosswalk
+const VINTAGE = 'SIC 1987 to NAICS 1997'
+
 interface SICNAICSMapping {
   sicCode: string
   sicDescription: string
@@ -71,7 +76,7 @@ function loadSICCodes(): Map<string, string> {
   const sicFile = join(process.cwd(), '.data', 'SEC.SICCodes.tsv')
   console.log(`Loading SIC codes from: ${sicFile}`)
 
-  const data = parseTSV<StandardRecord>(sicFile)
+  const data = parseDataTSV<StandardRecord>(sicFile)
   const sicMap = new Map<string, string>()
 
   for (const record of data) {
@@ -91,7 +96,7 @@ function loadNAICSCodes(): Map<string, string> {
   const naicsFile = join(process.cwd(), '.data', 'NAICS.Industries.tsv')
   console.log(`Loading NAICS industries from: ${naicsFile}`)
 
-  const data = parseTSV<StandardRecord>(naicsFile)
+  const data = parseDataTSV<StandardRecord>(naicsFile)
   const naicsMap = new Map<string, string>()
 
   for (const record of data) {
@@ -119,7 +124,7 @@ export async function transformSICNAICSCrosswalk(): Promise<void> {
   const naicsCodes = loadNAICSCodes()
 
   // Build relationship records
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
   const skipped: { sic: string; naics: string; reason: string }[] = []
 
   for (const mapping of mappings) {
@@ -151,7 +156,12 @@ export async function transformSICNAICSCrosswalk(): Promise<void> {
       toNs: NAMESPACES.NAICS,
       toType: 'Industry',
       toId: naicsId,
-      relationshipType: 'maps_to',
+      relationshipType: 'mapsTo',
+      properties: {
+        // The Census file flags SIC industries split across several NAICS industries
+        partial: mapping.partIndicator !== '',
+        vintage: VINTAGE,
+      },
     })
   }
 
@@ -170,20 +180,25 @@ export async function transformSICNAICSCrosswalk(): Promise<void> {
 
   // Write the relationship file
   const outputPath = join(REL_DIR, 'SIC.NAICS.Crosswalk.tsv')
-  writeTSV(outputPath, relationships, [
-    'fromNs',
-    'fromType',
-    'fromId',
-    'toNs',
-    'toType',
-    'toId',
-    'relationshipType',
-  ])
+  writeRelationshipTSV(outputPath, relationships)
 
   console.log(`Wrote SIC-NAICS crosswalk to: ${outputPath}`)
   console.log('=== SIC to NAICS Crosswalk Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'sic-naics-crosswalk',
+  description: 'SIC to NAICS crosswalk relationships (Census Bureau)',
+  run: transformSICNAICSCrosswalk,
+  aliases: ['sic-naics'],
+  group: 'crosswalk',
+  sources: ['Census/1987_SIC_to_1997_NAICS.xls'],
+  inputs: ['SEC.SICCodes.tsv', 'NAICS.Industries.tsv'],
+  outputs: [
+    'relationships/SIC.NAICS.Crosswalk.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSICNAICSCrosswalk()
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for standards.ts
+ * Run with: bun test .scripts/standards.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { buildDatabase } from './build-db'
+import {
+  createDatabaseBackend,
+  createTSVBackend,
+  formatRows,
+  parseArgs,
+  parseEntityRef,
+  runCommand,
+  type QueryBackend,
+  type Row,
+} from './standards'
+import { entityFixture, relationshipFixture } from './test-fixtures'
+
+let dataDir: string
+
+function writeFixtures(dir: string): void {
+  mkdirSync(join(dir, 'relationships'))
+  writeFileSync(join(dir, 'NAICS.Industries.tsv'), entityFixture([
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers', name: 'Software Publishers', description: 'Publishing computer software', code: '513210' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Custom_Computer_Programming_Services', name: 'Custom Computer Programming Services', description: 'Writing software to client order', code: '541511' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Information', name: 'Information', description: 'The information sector', code: '51' },
+  ]))
+  writeFileSync(join(dir, 'Superset.Industries.tsv'), entityFixture([
+    { ns: 'industries.org.ai', type: 'Industry', id: 'Custom_Computer_Programming_Services', name: 'Custom Computer Programming Services', code: '541511', sameAs: 'https://naics.org.ai/Industry/Custom_Computer_Programming_Services' },
+  ]))
+  writeFileSync(join(dir, 'ONET.Occupations.tsv'), entityFixture([
+    { ns: 'onet.org.ai', type: 'Occupation', id: 'Software_Developers', name: 'Software Developers', description: 'Design computer applications', code: '15-1252.00' },
+  ]))
+  writeFileSync(join(dir, 'Graph.Types.tsv'), [
+    'type\tcanonicalDomain\tsupersetDomain\tcount\taggregations',
+    'Industry\tnaics.org.ai\tindustries.org.ai\t4\t',
+    'Occupation\tonet.org.ai\t\t1\t',
+  ].join('\n'))
+  writeFileSync(join(dir, 'Graph.Domains.tsv'), [
+    'domain\ttypes\trecordCount\tisCanonical\tisSuperset\tisAggregation',
+    'naics.org.ai\tIndustry\t3\ttrue\tfalse\tfalse',
+  ].join('\n'))
+  writeFileSync(join(dir, 'relationships', 'NAICS.Industry.Industry.tsv'), relationshipFixture([
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Software_Publishers', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Information', relationshipType: 'childOf' },
+    { fromNs: 'naics.org.ai', fromType: 'Industry', fromId: 'Custom_Computer_Programming_Services', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Information', relationshipType: 'childOf' },
+  ]))
+  writeFileSync(join(dir, 'relationships', 'ONET.Occupation.Industry.tsv'), relationshipFixture([
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Software_Developers', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Software_Publishers', relationshipType: 'employedIn' },
+    { fromNs: 'onet.org.ai', fromType: 'Occupation', fromId: 'Software_Developers', toNs: 'naics.org.ai', toType: 'Industry', toId: 'Software_Publishers', relationshipType: 'relatedTo' },
+  ]))
+}
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'standards-cli-'))
+  writeFixtures(dataDir)
+})
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('parseEntityRef', () => {
+  test('accepts paths and IRIs', () => {
+    expect(parseEntityRef('naics.org.ai/Industry/Information')).toEqual({ ns: 'naics.org.ai', type: 'Industry', id: 'Information' })
+    expect(parseEntityRef('https://naics.org.ai/Industry/Information')).toEqual({ ns: 'naics.org.ai', type: 'Industry', id: 'Information' })
+    expect(parseEntityRef('iana.org.ai/TimeZone/America/New_York').id).toBe('America/New_York')
+  })
+
+  test('rejects incomplete references', () => {
+    expect(() => parseEntityRef('naics.org.ai/Industry')).toThrow('Expected an entity as <ns>/<type>/<id>')
+  })
+})
+
+describe('parseArgs', () => {
+  test('splits the command, positional arguments and options', () => {
+    expect(parseArgs(['search', 'software', 'publishers', '--type', 'Industry', '--format=json', '--no-db'])).toEqual({
+      command: 'search',
+      positional: ['software', 'publishers'],
+      options: { type: 'Industry', format: 'json', 'no-db': true },
+    })
+  })
+})
+
+describe('formatRows', () => {
+  const rows = [{ code: '51', name: 'Information' }, { code: '541511', name: 'Custom\tProgramming' }]
+
+  test('aligns table columns', () => {
+    expect(formatRows(rows, 'table')).toBe([
+      'code    name',
+      '------  ------------------',
+      '51      Information',
+      '541511  Custom Programming',
+    ].join('\n'))
+    expect(formatRows([], 'table')).toBe('(no results)')
+  })
+
+  test('escapes TSV values and keeps JSON as is', () => {
+    expect(formatRows(rows, 'tsv')).toBe('code\tname\n51\tInformation\n541511\tCustom\\tProgramming')
+    expect(JSON.parse(formatRows(rows, 'json'))).toEqual(rows)
+  })
+})
+
+// The database and TSV backends must give the same answers
+const backends: [string, (dir: string) => Promise<QueryBackend>][] = [
+  ['tsv', async dir => createTSVBackend(dir)],
+  ['database', async dir => {
+    const dbPath = join(dir, 'standards.db')
+    await buildDatabase(dir, dbPath)
+    return createDatabaseBackend(dbPath)
+  }],
+]
+
+describe.each(backends)('%s backend', (_, open) => {
+  let backend: QueryBackend
+
+  beforeEach(async () => {
+    backend = await open(dataDir)
+  })
+
+  afterEach(() => {
+    backend.close()
+  })
+
+  test('gets an entity', async () => {
+    const entity = await backend.get({ ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers' })
+    expect(entity).toEqual({
+      ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers', name: 'Software Publishers',
+      description: 'Publishing computer software', code: '513210', sameAs: '', includedIn: '', version: '',
+    })
+    expect(await backend.get({ ns: 'naics.org.ai', type: 'Industry', id: 'Missing' })).toBeUndefined()
+  })
+
+  test('finds entities by type and code across namespaces', async () => {
+    const found = await backend.byCode('Industry', '541511')
+    expect(found.map(e => e.ns)).toEqual(['industries.org.ai', 'naics.org.ai'])
+    expect(await backend.byCode('Occupation', '541511')).toEqual([])
+  })
+
+  test('lists the entities of a type in data order', async () => {
+    const found = await backend.byType('naics.org.ai', 'Industry')
+    expect(found.map(e => e.code)).toEqual(['513210', '541511', '51'])
+    expect(await backend.byType('naics.org.ai', 'Occupation')).toEqual([])
+  })
+
+  test('searches names and descriptions by word prefix', async () => {
+    const ids = (rows: Row[]) => rows.map(r => r.id).sort()
+    expect(ids(await backend.search('softw', { limit: 20 }))).toEqual([
+      'Custom_Computer_Programming_Services', 'Software_Developers', 'Software_Publishers',
+    ])
+    expect(ids(await backend.search('client software', { limit: 20 }))).toEqual(['Custom_Computer_Programming_Services'])
+    expect(ids(await backend.search('software', { type: 'Occupation', limit: 20 }))).toEqual(['Software_Developers'])
+    expect(ids(await backend.search('custom', { ns: 'industries.org.ai', limit: 20 }))).toEqual(['Custom_Computer_Programming_Services'])
+    expect(await backend.search('custom', { ns: 'onet.org.ai', limit: 20 })).toEqual([])
+    expect(await backend.search('software', { limit: 1 })).toHaveLength(1)
+    expect(await backend.search('--', { limit: 20 })).toEqual([])
+  })
+
+  test('walks neighbors in both directions', async () => {
+    const start = { ns: 'naics.org.ai', type: 'Industry', id: 'Software_Publishers' }
+    expect(await backend.neighbors(start, { depth: 1 })).toEqual(expect.arrayContaining([
+      { depth: 1, via: 'naics.org.ai/Industry/Software_Publishers', direction: 'out', relationshipType: 'childOf', ns: 'naics.org.ai', type: 'Industry', id: 'Information', name: 'Information' },
+      { depth: 1, via: 'naics.org.ai/Industry/Software_Publishers', direction: 'in', relationshipType: 'employedIn', ns: 'onet.org.ai', type: 'Occupation', id: 'Software_Developers', name: 'Software Developers' },
+    ]))
+    // Linked twice, listed once per relationship
+    expect(await backend.neighbors(start, { depth: 1 })).toHaveLength(3)
+
+    const twoHops = await backend.neighbors(start, { depth: 2, relationshipTypes: ['childOf'] })
+    expect(twoHops.map(n => [n.depth, n.direction, n.id])).toEqual([
+      [1, 'out', 'Information'],
+      [2, 'in', 'Custom_Computer_Programming_Services'],
+    ])
+    expect(twoHops[1].via).toBe('naics.org.ai/Industry/Information')
+  })
+
+  test('lists graph types and domains', async () => {
+    expect((await backend.types()).map(t => [t.type, t.canonicalDomain])).toEqual([
+      ['Industry', 'naics.org.ai'],
+      ['Occupation', 'onet.org.ai'],
+    ])
+    expect(await backend.domains()).toEqual([
+      { domain: 'naics.org.ai', types: 'Industry', recordCount: '3', isCanonical: 'true', isSuperset: 'false', isAggregation: 'false' },
+    ])
+  })
+})
+
+describe('runCommand', () => {
+  test('formats results and reports missing entities', async () => {
+    const backend = createTSVBackend(dataDir)
+
+    const code = await runCommand(backend, parseArgs(['code', 'Industry', '541511', '--format=tsv']))
+    expect(code.found).toBe(true)
+    expect(code.output.split('\n')).toHaveLength(3)
+
+    const get = await runCommand(backend, parseArgs(['get', 'naics.org.ai/Industry/Missing']))
+    expect(get).toEqual({ output: 'Not found: naics.org.ai/Industry/Missing', found: false })
+
+    const entity = await runCommand(backend, parseArgs(['get', 'https://naics.org.ai/Industry/Information']))
+    expect(entity.output).toContain('code         51')
+  })
+
+  test('rejects bad arguments', async () => {
+    const backend = createTSVBackend(dataDir)
+    await expect(runCommand(backend, parseArgs(['code', 'Industry']))).rejects.toThrow('Usage: code <type> <code>')
+    await expect(runCommand(backend, parseArgs(['neighbors', 'a/b/c', '--depth=0']))).rejects.toThrow('--depth must be a positive integer')
+    await expect(runCommand(backend, parseArgs(['types', '--format=xml']))).rejects.toThrow('--format must be table, json or tsv')
+    await expect(runCommand(backend, parseArgs(['lookup']))).rejects.toThrow('Unknown command "lookup"')
+  })
+})
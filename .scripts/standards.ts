@@ -0,0 +1,554 @@
+#!/usr/bin/env bun
+/**
+ * Standards Query CLI
+ *
+ * Answers lookups against the generated graph from the command line:
+ *
+ *   get <entity>                  one entity, by <ns>/<type>/<id> or its https:// IRI
+ *   code <type> <code>            entities of a type with a code (code Industry 541511)
+ *   search <text> [--type=T]      entities whose name or description has every word
+ *   neighbors <entity> [--rel=R] [--depth=N]
+ *                                 relationships linking an entity to others, in either
+ *                                 direction, up to N hops away (default 1); R is one
+ *                                 or more comma-separated relationship types
+ *   types                         Graph.Types.tsv, each type's canonical domain
+ *   domains                       Graph.Domains.tsv, the types and size of each domain
+ *
+ * Queries run against .data/standards.db (see build-db.ts) when it exists, and
+ * otherwise scan the .data TSV files, which gives the same answers more slowly.
+ *
+ * Usage:
+ *   bun run .scripts/standards.ts <command> [args] [--format=table|json|tsv] [--limit=N] [--no-db]
+ */
+
+import { Database } from 'bun:sqlite'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { streamDataTSV, streamEntities, listDataFiles, entityKey, getDataPath, escapeForTSV, STANDARD_HEADERS } from './utils'
+import { DB_FILE } from './build-db'
+
+export type OutputFormat = 'table' | 'json' | 'tsv'
+
+export type Row = Record<string, string>
+
+export interface EntityRef {
+  ns: string
+  type: string
+  id: string
+}
+
+export interface SearchOptions {
+  type?: string
+  ns?: string
+  limit: number
+}
+
+export interface NeighborOptions {
+  relationshipTypes?: string[]
+  depth: number
+}
+
+/**
+ * An entity reached from `via` over a relationship, `depth` hops from the start.
+ * Direction is 'out' when `via` is the relationship's from side.
+ */
+export interface Neighbor extends EntityRef {
+  depth: number
+  via: string
+  direction: 'out' | 'in'
+  relationshipType: string
+  name: string
+}
+
+export interface QueryBackend {
+  get(ref: EntityRef): Promise<Row | undefined>
+  byCode(type: string, code: string): Promise<Row[]>
+  byType(ns: string, type: string): Promise<Row[]>         // in the order of the data files
+  search(text: string, options: SearchOptions): Promise<Row[]>
+  neighbors(ref: EntityRef, options: NeighborOptions): Promise<Neighbor[]>
+  types(): Promise<Row[]>
+  domains(): Promise<Row[]>
+  close(): void
+}
+
+const GRAPH_TYPES_FILE = 'Graph.Types.tsv'
+const GRAPH_DOMAINS_FILE = 'Graph.Domains.tsv'
+
+const ENTITY_COLUMNS = ['ns', 'type', 'id', 'code', 'name']
+const NEIGHBOR_COLUMNS = ['depth', 'via', 'direction', 'relationshipType', 'ns', 'type', 'id', 'name']
+
+// Longest cell printed by the table format
+const MAX_CELL = 60
+
+/**
+ * Parse <ns>/<type>/<id> or https://<ns>/<type>/<id>. Ids may contain slashes.
+ */
+export function parseEntityRef(text: string): EntityRef {
+  const [ns, type, ...id] = text.replace(/^https?:\/\//, '').split('/')
+  if (!ns || !type || id.length === 0 || !id.join('/')) {
+    throw new Error(`Expected an entity as <ns>/<type>/<id>, got "${text}"`)
+  }
+  return { ns, type, id: id.join('/') }
+}
+
+export function formatEntityRef(ref: EntityRef): string {
+  return `${ref.ns}/${ref.type}/${ref.id}`
+}
+
+function searchWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+function toRow(record: Record<string, unknown>): Row {
+  const row: Row = {}
+  for (const [key, value] of Object.entries(record)) {
+    row[key] = value === null || value === undefined ? '' : String(value)
+  }
+  return row
+}
+
+/**
+ * Query the database written by build-db.ts
+ */
+export function createDatabaseBackend(dbPath: string): QueryBackend {
+  const db = new Database(dbPath, { readonly: true })
+  const entityColumns = STANDARD_HEADERS.map(col => `e.${col}`).join(', ')
+
+  const getEntity = db.prepare(`SELECT ${entityColumns} FROM entities e WHERE ns = ? AND type = ? AND id = ?`)
+  const getName = db.prepare('SELECT name FROM entities WHERE ns = ? AND type = ? AND id = ?')
+  const outgoing = db.prepare('SELECT toNs AS ns, toType AS type, toId AS id, relationshipType FROM relationships WHERE fromNs = ? AND fromType = ? AND fromId = ?')
+  const incoming = db.prepare('SELECT fromNs AS ns, fromType AS type, fromId AS id, relationshipType FROM relationships WHERE toNs = ? AND toType = ? AND toId = ?')
+
+  return {
+    async get(ref) {
+      const row = getEntity.get(ref.ns, ref.type, ref.id) as Record<string, unknown> | null
+      return row ? toRow(row) : undefined
+    },
+
+    async byCode(type, code) {
+      const rows = db.query(`SELECT ${entityColumns} FROM entities e WHERE code = ? AND type = ? ORDER BY ns, id`).all(code, type)
+      return rows.map(row => toRow(row as Record<string, unknown>))
+    },
+
+    async byType(ns, type) {
+      const rows = db.query(`SELECT ${entityColumns} FROM entities e WHERE ns = ? AND type = ? ORDER BY rowid`).all(ns, type)
+      return rows.map(row => toRow(row as Record<string, unknown>))
+    },
+
+    async search(text, options) {
+      const words = searchWords(text)
+      if (words.length === 0) return []
+
+      // Every word must match, as a prefix, in the name or description
+      const match = words.map(word => `"${word}"*`).join(' ')
+      const filters = [
+        ...(options.type ? ['AND e.type = $type'] : []),
+        ...(options.ns ? ['AND e.ns = $ns'] : []),
+      ]
+      const rows = db.query(`
+        SELECT ${entityColumns} FROM entities_fts JOIN entities e ON e.rowid = entities_fts.rowid
+        WHERE entities_fts MATCH $match ${filters.join(' ')}
+        ORDER BY rank LIMIT $limit
+      `).all({
+        $match: match,
+        $limit: options.limit,
+        ...(options.type ? { $type: options.type } : {}),
+        ...(options.ns ? { $ns: options.ns } : {}),
+      })
+      return rows.map(row => toRow(row as Record<string, unknown>))
+    },
+
+    async neighbors(ref, options) {
+      return walkNeighbors(ref, options, async frontier => {
+        const links: Link[] = []
+        for (const [key, from] of frontier) {
+          for (const row of outgoing.all(from.ns, from.type, from.id) as Omit<Link, 'via' | 'direction'>[]) {
+            links.push({ ...row, via: key, direction: 'out' })
+          }
+          for (const row of incoming.all(from.ns, from.type, from.id) as Omit<Link, 'via' | 'direction'>[]) {
+            links.push({ ...row, via: key, direction: 'in' })
+          }
+        }
+        return links
+      }, async refs => {
+        const names = new Map<string, string>()
+        for (const [key, r] of refs) {
+          const row = getName.get(r.ns, r.type, r.id) as { name: string } | null
+          if (row) names.set(key, row.name)
+        }
+        return names
+      })
+    },
+
+    async types() {
+      return db.query('SELECT * FROM graph_types ORDER BY type').all().map(row => toRow(row as Record<string, unknown>))
+    },
+
+    async domains() {
+      const rows = db.query('SELECT * FROM graph_domains ORDER BY domain').all() as Record<string, unknown>[]
+      return rows.map(row => toRow({
+        ...row,
+        isCanonical: row.isCanonical ? 'true' : 'false',
+        isSuperset: row.isSuperset ? 'true' : 'false',
+        isAggregation: row.isAggregation ? 'true' : 'false',
+      }))
+    },
+
+    close() {
+      db.close()
+    },
+  }
+}
+
+/**
+ * Query the .data TSV files directly. Every query scans the files it needs.
+ */
+export function createTSVBackend(dataDir: string): QueryBackend {
+  const relDir = join(dataDir, 'relationships')
+
+  // An entity written by several files is returned once, from the first file in name order
+  async function* entities(): AsyncGenerator<Row> {
+    for await (const { record } of streamEntities(dataDir)) yield record
+  }
+
+  async function collectEntities(matches: (record: Row) => boolean): Promise<Row[]> {
+    const found: Row[] = []
+    for await (const record of entities()) {
+      if (matches(record)) found.push(Object.fromEntries(STANDARD_HEADERS.map(col => [col, record[col] || ''])))
+    }
+    return found
+  }
+
+  async function readGraphIndex(file: string): Promise<Row[]> {
+    const filePath = join(dataDir, file)
+    if (!existsSync(filePath)) {
+      throw new Error(`${file} not found; generate it with the graph stage`)
+    }
+    const rows: Row[] = []
+    for await (const record of streamDataTSV(filePath)) rows.push(record)
+    return rows
+  }
+
+  return {
+    async get(ref) {
+      for await (const record of entities()) {
+        if (record.ns === ref.ns && record.type === ref.type && record.id === ref.id) {
+          return Object.fromEntries(STANDARD_HEADERS.map(col => [col, record[col] || '']))
+        }
+      }
+      return undefined
+    },
+
+    async byCode(type, code) {
+      const found = await collectEntities(r => r.type === type && r.code === code)
+      return found.sort((a, b) => a.ns.localeCompare(b.ns) || a.id.localeCompare(b.id))
+    },
+
+    async byType(ns, type) {
+      return collectEntities(r => r.ns === ns && r.type === type)
+    },
+
+    async search(text, options) {
+      const words = searchWords(text)
+      if (words.length === 0) return []
+
+      // Each word must start a word of the name or description, like the FTS5 prefix query
+      const found = await collectEntities(r => {
+        if (options.type && r.type !== options.type) return false
+        if (options.ns && r.ns !== options.ns) return false
+        const haystack = new Set(searchWords(`${r.name || ''} ${r.description || ''}`))
+        return words.every(word => [...haystack].some(w => w.startsWith(word)))
+      })
+
+      // Entities matching on name alone come first
+      const inName = (r: Row) => {
+        const nameWords = searchWords(r.name)
+        return words.every(word => nameWords.some(w => w.startsWith(word))) ? 0 : 1
+      }
+      return found.sort((a, b) => inName(a) - inName(b)).slice(0, options.limit)
+    },
+
+    async neighbors(ref, options) {
+      return walkNeighbors(ref, options, async frontier => {
+        const links: Link[] = []
+        for (const file of listDataFiles(relDir)) {
+          for await (const r of streamDataTSV(join(relDir, file))) {
+            const fromKey = entityKey(r.fromNs, r.fromType, r.fromId)
+            const toKey = entityKey(r.toNs, r.toType, r.toId)
+            if (frontier.has(fromKey)) {
+              links.push({ ns: r.toNs, type: r.toType, id: r.toId, relationshipType: r.relationshipType, via: fromKey, direction: 'out' })
+            }
+            if (frontier.has(toKey)) {
+              links.push({ ns: r.fromNs, type: r.fromType, id: r.fromId, relationshipType: r.relationshipType, via: toKey, direction: 'in' })
+            }
+          }
+        }
+        return links
+      }, async refs => {
+        const names = new Map<string, string>()
+        for await (const record of entities()) {
+          const key = entityKey(record.ns, record.type, record.id)
+          if (refs.has(key)) names.set(key, record.name || '')
+        }
+        return names
+      })
+    },
+
+    types: () => readGraphIndex(GRAPH_TYPES_FILE),
+    domains: () => readGraphIndex(GRAPH_DOMAINS_FILE),
+
+    close() {},
+  }
+}
+
+interface Link extends EntityRef {
+  relationshipType: string
+  via: string                           // entityKey of the frontier entity
+  direction: 'out' | 'in'
+}
+
+/**
+ * Breadth-first walk shared by both backends. `expand` returns the links of every
+ * entity in the frontier; `lookupNames` names the entities reached. Every link to
+ * an entity first reached at the current depth is kept, so an entity linked in
+ * several ways is listed once per relationship, but only expanded once.
+ */
+async function walkNeighbors(
+  start: EntityRef,
+  options: NeighborOptions,
+  expand: (frontier: Map<string, EntityRef>) => Promise<Link[]>,
+  lookupNames: (refs: Map<string, EntityRef>) => Promise<Map<string, string>>,
+): Promise<Neighbor[]> {
+  const startKey = entityKey(start.ns, start.type, start.id)
+  const visited = new Map<string, EntityRef>([[startKey, start]])
+  const found: Omit<Neighbor, 'name'>[] = []
+  const seenLinks = new Set<string>()
+  const allowed = options.relationshipTypes?.length ? new Set(options.relationshipTypes) : undefined
+
+  let frontier = new Map<string, EntityRef>([[startKey, start]])
+  for (let depth = 1; depth <= options.depth && frontier.size > 0; depth++) {
+    const next = new Map<string, EntityRef>()
+    for (const link of await expand(frontier)) {
+      if (allowed && !allowed.has(link.relationshipType)) continue
+      const key = entityKey(link.ns, link.type, link.id)
+      if (visited.has(key) && !next.has(key)) continue
+
+      const linkKey = `${link.via}\t${link.direction}\t${link.relationshipType}\t${key}`
+      if (seenLinks.has(linkKey)) continue
+      seenLinks.add(linkKey)
+
+      const ref = { ns: link.ns, type: link.type, id: link.id }
+      visited.set(key, ref)
+      next.set(key, ref)
+      found.push({ depth, via: formatEntityRef(frontier.get(link.via)!), direction: link.direction, relationshipType: link.relationshipType, ...ref })
+    }
+    frontier = next
+  }
+
+  visited.delete(startKey)
+  const names = await lookupNames(visited)
+  return found.map(n => ({ ...n, name: names.get(entityKey(n.ns, n.type, n.id)) || '' }))
+}
+
+/**
+ * Open the database when it has been built, otherwise the TSV files
+ */
+export function openBackend(dataDir: string = getDataPath(), useDatabase = true): QueryBackend {
+  const dbPath = join(dataDir, DB_FILE)
+  return useDatabase && existsSync(dbPath) ? createDatabaseBackend(dbPath) : createTSVBackend(dataDir)
+}
+
+/**
+ * Format rows for output. Columns default to the keys of the first row.
+ */
+export function formatRows(rows: Record<string, unknown>[], format: OutputFormat, columns?: string[]): string {
+  if (format === 'json') return JSON.stringify(rows, null, 2)
+
+  const cols = columns || Object.keys(rows[0] || {})
+  const cells = rows.map(row => cols.map(col => String(row[col] ?? '')))
+
+  if (format === 'tsv') {
+    return [cols.join('\t'), ...cells.map(line => line.map(escapeForTSV).join('\t'))].join('\n')
+  }
+
+  if (rows.length === 0) return '(no results)'
+  const clipped = cells.map(line => line.map(cell => {
+    const flat = cell.replace(/\s+/g, ' ')
+    return flat.length > MAX_CELL ? `${flat.slice(0, MAX_CELL - 1)}…` : flat
+  }))
+  const widths = cols.map((col, i) => Math.max(col.length, ...clipped.map(line => line[i].length)))
+  const formatLine = (line: string[]) => line.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()
+  return [formatLine(cols), formatLine(widths.map(w => '-'.repeat(w))), ...clipped.map(formatLine)].join('\n')
+}
+
+/**
+ * Format a single entity, as field: value lines for the table format
+ */
+export function formatEntity(entity: Row, format: OutputFormat): string {
+  if (format !== 'table') return formatRows([entity], format, STANDARD_HEADERS)
+  const width = Math.max(...STANDARD_HEADERS.map(col => col.length))
+  return STANDARD_HEADERS.map(col => `${col.padEnd(width)}  ${entity[col] || ''}`.trimEnd()).join('\n')
+}
+
+export interface ParsedArgs {
+  command?: string
+  positional: string[]
+  options: Record<string, string | true>
+}
+
+/**
+ * Split arguments into the command, its positional arguments and options.
+ * Options are --name=value, --name value, or a bare --flag.
+ */
+export function parseArgs(argv: string[], flags: string[] = ['no-db', 'help']): ParsedArgs {
+  const positional: string[] = []
+  const options: Record<string, string | true> = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '-h') {
+      options.help = true
+    } else if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=')
+      const name = arg.slice(2, eq === -1 ? undefined : eq)
+      if (eq !== -1) {
+        options[name] = arg.slice(eq + 1)
+      } else if (flags.includes(name) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+        options[name] = true
+      } else {
+        options[name] = argv[++i]
+      }
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  return { command: positional.shift(), positional, options }
+}
+
+function stringOption(options: ParsedArgs['options'], name: string): string | undefined {
+  const value = options[name]
+  if (value === true) throw new Error(`--${name} needs a value`)
+  return value
+}
+
+function numberOption(options: ParsedArgs['options'], name: string, fallback: number): number {
+  const value = stringOption(options, name)
+  if (value === undefined) return fallback
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 1) throw new Error(`--${name} must be a positive integer, got "${value}"`)
+  return n
+}
+
+function requireArgs(positional: string[], count: number, usage: string): void {
+  if (positional.length !== count) throw new Error(`Usage: ${usage}`)
+}
+
+/**
+ * Run one command and return its output. Throws on bad arguments; a lookup that
+ * finds nothing returns found: false.
+ */
+export async function runCommand(backend: QueryBackend, args: ParsedArgs): Promise<{ output: string; found: boolean }> {
+  const { command, positional, options } = args
+  const format = (stringOption(options, 'format') || 'table') as OutputFormat
+  if (!['table', 'json', 'tsv'].includes(format)) {
+    throw new Error(`--format must be table, json or tsv, got "${format}"`)
+  }
+
+  switch (command) {
+    case 'get': {
+      requireArgs(positional, 1, 'get <ns>/<type>/<id>')
+      const ref = parseEntityRef(positional[0])
+      const entity = await backend.get(ref)
+      if (!entity) return { output: `Not found: ${formatEntityRef(ref)}`, found: false }
+      return { output: formatEntity(entity, format), found: true }
+    }
+
+    case 'code': {
+      requireArgs(positional, 2, 'code <type> <code>')
+      const rows = await backend.byCode(positional[0], positional[1])
+      return { output: formatRows(rows, format, format === 'table' ? ENTITY_COLUMNS : STANDARD_HEADERS), found: rows.length > 0 }
+    }
+
+    case 'search': {
+      if (positional.length === 0) throw new Error('Usage: search <text> [--type=T]')
+      const rows = await backend.search(positional.join(' '), {
+        type: stringOption(options, 'type'),
+        limit: numberOption(options, 'limit', 20),
+      })
+      return { output: formatRows(rows, format, format === 'table' ? ENTITY_COLUMNS : STANDARD_HEADERS), found: rows.length > 0 }
+    }
+
+    case 'neighbors': {
+      requireArgs(positional, 1, 'neighbors <ns>/<type>/<id> [--rel=R] [--depth=N]')
+      const rel = stringOption(options, 'rel')
+      const rows = await backend.neighbors(parseEntityRef(positional[0]), {
+        relationshipTypes: rel?.split(',').map(r => r.trim()).filter(Boolean),
+        depth: numberOption(options, 'depth', 1),
+      })
+      return { output: formatRows(rows as unknown as Record<string, unknown>[], format, NEIGHBOR_COLUMNS), found: rows.length > 0 }
+    }
+
+    case 'types':
+      return { output: formatRows(await backend.types(), format), found: true }
+
+    case 'domains':
+      return { output: formatRows(await backend.domains(), format), found: true }
+
+    default:
+      throw new Error(command ? `Unknown command "${command}" (see --help)` : 'No command given (see --help)')
+  }
+}
+
+const HELP = `
+Usage: bun run .scripts/standards.ts <command> [args] [options]
+
+Commands:
+  get <ns>/<type>/<id>          Show one entity (an https:// IRI also works)
+  code <type> <code>            Find entities of a type by code
+  search <text>                 Find entities by name or description
+  neighbors <ns>/<type>/<id>    List linked entities, in both directions
+  types                         List types and their canonical domains
+  domains                       List domains and their types
+
+Options:
+  --format=table|json|tsv       Output format (default: table)
+  --type=T                      search: only entities of type T
+  --limit=N                     search: at most N results (default: 20)
+  --rel=R[,R...]                neighbors: only these relationship types
+  --depth=N                     neighbors: follow links up to N hops (default: 1)
+  --no-db                       Scan the .data TSV files even if .data/${DB_FILE} exists
+  --help, -h                    Show this help message
+
+Examples:
+  bun run .scripts/standards.ts code Industry 541511
+  bun run .scripts/standards.ts search "software publishers" --type=Industry
+  bun run .scripts/standards.ts neighbors naics.org.ai/Industry/Software_Publishers --depth=2
+  bun run .scripts/standards.ts get onet.org.ai/Occupation/Software_Developers --format=json
+`
+
+// Run if called directly
+if (import.meta.main) {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.options.help || !args.command) {
+    console.log(HELP)
+    process.exit(args.command || args.options.help ? 0 : 1)
+  }
+
+  const backend = openBackend(getDataPath(), !args.options['no-db'])
+  try {
+    const { output, found } = await runCommand(backend, args)
+    // An empty list is still printed; only a missing entity is reported as an error
+    if (found || args.command !== 'get') {
+      console.log(output)
+    } else {
+      console.error(output)
+    }
+    process.exitCode = found ? 0 : 1
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  } finally {
+    backend.close()
+  }
+}
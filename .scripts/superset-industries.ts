@@ -12,9 +12,9 @@ import { join } from 'path'
 import { existsSync } from 'fs'
 import {
   NAMESPACES,
-  parseTSV,
+  parseDataTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   buildSameAs,
@@ -22,7 +22,9 @@ import {
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'industries.org.ai'
@@ -114,7 +116,7 @@ function importCanonicalIndustries(): StandardRecord[] {
 
   // Import sectors
   if (existsSync(sectorsFile)) {
-    const sectors = parseTSV<NAICSIndustry>(sectorsFile)
+    const sectors = parseDataTSV<NAICSIndustry>(sectorsFile)
     console.log(`Found ${sectors.length} NAICS sectors`)
     allIndustries.push(...sectors)
   } else {
@@ -123,7 +125,7 @@ function importCanonicalIndustries(): StandardRecord[] {
 
   // Import all industry levels (subsectors, industry groups, industries, national industries)
   if (existsSync(industriesFile)) {
-    const industries = parseTSV<NAICSIndustry>(industriesFile)
+    const industries = parseDataTSV<NAICSIndustry>(industriesFile)
     console.log(`Found ${industries.length} NAICS industry records`)
     allIndustries.push(...industries)
   } else {
@@ -191,7 +193,7 @@ function createIndustryCategories(): StandardRecord[] {
 /**
  * Create industry-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating industry-category relationships...')
 
   return ADDITIONAL_INDUSTRIES.map(industry => ({
@@ -227,16 +229,25 @@ export async function transformSupersetIndustries(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Industry.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Industry.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} industry-category relationships`)
 
   console.log('=== Superset Industries Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-industries',
+  description: 'industries.org.ai superset of NAICS',
+  run: transformSupersetIndustries,
+  group: 'superset',
+  inputs: ['NAICS.Industries.tsv', 'NAICS.Sectors.tsv'],
+  outputs: [
+    'Superset.Industries.tsv',
+    'Superset.IndustryCategories.tsv',
+    'relationships/Superset.Industry.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetIndustries()
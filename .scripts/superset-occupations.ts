@@ -12,9 +12,9 @@ import { join } from 'path'
 import { existsSync } from 'fs'
 import {
   NAMESPACES,
-  parseTSV,
+  parseDataTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   buildSameAs,
@@ -22,7 +22,9 @@ import {
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'occupations.org.ai'
@@ -118,7 +120,7 @@ function importCanonicalOccupations(): StandardRecord[] {
     return []
   }
 
-  const onetOccupations = parseTSV<ONETOccupation>(onetFile)
+  const onetOccupations = parseDataTSV<ONETOccupation>(onetFile)
   console.log(`Found ${onetOccupations.length} O*NET occupations`)
 
   // Create superset entries with sameAs links
@@ -178,7 +180,7 @@ function createOccupationCategories(): StandardRecord[] {
 /**
  * Create occupation-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating occupation-category relationships...')
 
   return ADDITIONAL_OCCUPATIONS.map(occ => ({
@@ -214,16 +216,25 @@ export async function transformSupersetOccupations(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Occupation.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Occupation.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} occupation-category relationships`)
 
   console.log('=== Superset Occupations Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-occupations',
+  description: 'occupations.org.ai superset of O*NET',
+  run: transformSupersetOccupations,
+  group: 'superset',
+  inputs: ['ONET.Occupations.tsv'],
+  outputs: [
+    'Superset.Occupations.tsv',
+    'Superset.OccupationCategories.tsv',
+    'relationships/Superset.Occupation.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetOccupations()
@@ -12,9 +12,9 @@ import { join } from 'path'
 import { existsSync } from 'fs'
 import {
   NAMESPACES,
-  parseTSV,
+  parseDataTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   buildSameAs,
@@ -22,7 +22,9 @@ import {
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'process.org.ai'
@@ -114,7 +116,7 @@ function importCanonicalProcesses(): StandardRecord[] {
     return []
   }
 
-  const apqcProcesses = parseTSV<APQCProcess>(apqcFile)
+  const apqcProcesses = parseDataTSV<APQCProcess>(apqcFile)
   console.log(`Found ${apqcProcesses.length} APQC processes`)
 
   // Create superset entries with sameAs links
@@ -174,7 +176,7 @@ function createProcessCategories(): StandardRecord[] {
 /**
  * Create process-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating process-category relationships...')
 
   return ADDITIONAL_PROCESSES.map(proc => ({
@@ -210,16 +212,25 @@ export async function transformSupersetProcess(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Process.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Process.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} process-category relationships`)
 
   console.log('=== Superset Process Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-process',
+  description: 'process.org.ai superset of APQC',
+  run: transformSupersetProcess,
+  group: 'superset',
+  inputs: ['APQC.Processes.tsv'],
+  outputs: [
+    'Superset.Processes.tsv',
+    'Superset.ProcessCategories.tsv',
+    'relationships/Superset.Process.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetProcess()
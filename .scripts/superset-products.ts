@@ -13,9 +13,9 @@ import { join } from 'path'
 import { existsSync } from 'fs'
 import {
   NAMESPACES,
-  parseTSV,
+  parseDataTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   buildSameAs,
@@ -23,7 +23,9 @@ import {
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'products.org.ai'
@@ -160,7 +162,7 @@ function importGS1Products(): StandardRecord[] {
       continue
     }
 
-    const products = parseTSV<GS1Product>(file)
+    const products = parseDataTSV<GS1Product>(file)
     console.log(`  Found ${products.length} products in ${file}`)
 
     // Create superset entries with sameAs links
@@ -194,7 +196,7 @@ function importUNSPSCProducts(): StandardRecord[] {
     return []
   }
 
-  const unspscProducts = parseTSV<UNSPSCProduct>(unspscFile)
+  const unspscProducts = parseDataTSV<UNSPSCProduct>(unspscFile)
   console.log(`Found ${unspscProducts.length} UNSPSC products`)
 
   // Create superset entries with sameAs links
@@ -254,7 +256,7 @@ function createProductCategories(): StandardRecord[] {
 /**
  * Create product-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating product-category relationships...')
 
   return ADDITIONAL_PRODUCTS.map(prod => ({
@@ -293,16 +295,31 @@ export async function transformSupersetProducts(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Product.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Product.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} product-category relationships`)
 
   console.log('=== Superset Products Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-products',
+  description: 'products.org.ai superset of GS1 and UNSPSC',
+  run: transformSupersetProducts,
+  group: 'superset',
+  inputs: [
+    'GS1.Bricks.tsv',
+    'GS1.Classes.tsv',
+    'GS1.Families.tsv',
+    'GS1.Segments.tsv',
+    'UNSPSC.Products.tsv',
+  ],
+  outputs: [
+    'Superset.Products.tsv',
+    'Superset.ProductCategories.tsv',
+    'relationships/Superset.Product.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetProducts()
@@ -12,13 +12,15 @@ import { join } from 'path'
 import {
   NAMESPACES,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   getDataPath,
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'services.org.ai'
@@ -164,7 +166,7 @@ function createServiceCategories(): StandardRecord[] {
 /**
  * Create service-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating service-category relationships...')
 
   return SERVICE_TAXONOMY.map(svc => ({
@@ -194,16 +196,24 @@ export async function transformSupersetServices(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Service.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Service.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} service-category relationships`)
 
   console.log('=== Superset Services Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-services',
+  description: 'services.org.ai service taxonomy',
+  run: transformSupersetServices,
+  group: 'superset',
+  outputs: [
+    'Superset.Services.tsv',
+    'Superset.ServiceCategories.tsv',
+    'relationships/Superset.Service.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetServices()
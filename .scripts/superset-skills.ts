@@ -12,9 +12,9 @@ import { join } from 'path'
 import { existsSync } from 'fs'
 import {
   NAMESPACES,
-  parseTSV,
+  parseDataTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   buildSameAs,
@@ -22,7 +22,9 @@ import {
   getRelationshipsPath,
   ensureOutputDirs,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Superset namespace
 const NS = 'skills.org.ai'
@@ -137,7 +139,7 @@ function importCanonicalSkills(): StandardRecord[] {
     return []
   }
 
-  const onetSkills = parseTSV<ONetSkill>(onetFile)
+  const onetSkills = parseDataTSV<ONetSkill>(onetFile)
   console.log(`Found ${onetSkills.length} O*NET skills`)
 
   // Create superset entries with sameAs links
@@ -195,7 +197,7 @@ function createSkillCategories(): StandardRecord[] {
 /**
  * Create skill-category relationships
  */
-function createCategoryRelationships(): Record<string, string>[] {
+function createCategoryRelationships(): RelationshipRecord[] {
   console.log('Creating skill-category relationships...')
 
   return ADDITIONAL_SKILLS.map(skill => ({
@@ -231,16 +233,25 @@ export async function transformSupersetSkills(): Promise<void> {
 
   // Create relationships
   const categoryRels = createCategoryRelationships()
-  writeTSV(
-    join(REL_DIR, 'Superset.Skill.Category.tsv'),
-    categoryRels,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'Superset.Skill.Category.tsv'), categoryRels)
   console.log(`Wrote ${categoryRels.length} skill-category relationships`)
 
   console.log('=== Superset Skills Domain Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'superset-skills',
+  description: 'skills.org.ai superset of O*NET skills',
+  run: transformSupersetSkills,
+  group: 'superset',
+  inputs: ['ONET.Skills.tsv'],
+  outputs: [
+    'Superset.Skills.tsv',
+    'Superset.SkillCategories.tsv',
+    'relationships/Superset.Skill.Category.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSupersetSkills()
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for templates.ts
+ * Run with: bun test .scripts/templates.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseFrontmatter, findTemplates, loadTemplate, findReferences, fillPlaceholders } from './templates'
+
+const TEMPLATE = `---
+layout: industry
+source: NAICS
+$type: NAICS/Industry
+$id: https://standards.org.ai/NAICS/Industry/{industry.code}
+sameAs: https://standards.org.ai/Industry/{industry.code}
+canonical: https://naics.org.ai/Industry/{industry.code}
+params:
+  - Industry
+schema:
+  industry:
+    code: 2022NAICSCode
+    title: "2022 NAICS Title"
+---
+
+# {industry.title}
+
+<IndustryHeader code={industry.code} />
+
+{industry.parent && <Parent code={industry.parent} />}
+
+\`\`\`js
+const code = {industry.code}
+\`\`\`
+
+Inline \`{industry.title}\` is code.
+`
+
+let rootDir: string
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'templates-'))
+  mkdirSync(join(rootDir, 'NAICS'))
+  mkdirSync(join(rootDir, 'node_modules', 'pkg'), { recursive: true })
+  writeFileSync(join(rootDir, 'NAICS', '[Industry].mdx'), TEMPLATE)
+  writeFileSync(join(rootDir, 'NAICS', 'README.mdx'), '# NAICS')
+  writeFileSync(join(rootDir, 'node_modules', 'pkg', '[Thing].mdx'), TEMPLATE)
+})
+
+afterEach(() => {
+  rmSync(rootDir, { recursive: true, force: true })
+})
+
+describe('parseFrontmatter', () => {
+  test('parses scalars, lists and nested mappings with their lines', () => {
+    const { data, lines, bodyLine } = parseFrontmatter(TEMPLATE)
+    expect(data.params).toEqual(['Industry'])
+    expect(data.schema).toEqual({ industry: { code: '2022NAICSCode', title: '2022 NAICS Title' } })
+    expect(data.$id).toBe('https://standards.org.ai/NAICS/Industry/{industry.code}')
+    expect(lines['schema.industry.title']).toBe(13)
+    expect(bodyLine).toBe(15)
+  })
+
+  test('returns the whole file as body without frontmatter', () => {
+    expect(parseFrontmatter('# Title')).toEqual({ data: {}, lines: {}, body: '# Title', bodyLine: 1 })
+  })
+
+  test('rejects malformed frontmatter', () => {
+    expect(() => parseFrontmatter('---\nlayout: a\n', 'x.mdx')).toThrow('x.mdx: frontmatter is not closed')
+    expect(() => parseFrontmatter('---\nlayout: a\n    nested: b\n---\n', 'x.mdx')).toThrow('x.mdx line 3: cannot parse frontmatter')
+  })
+})
+
+describe('findTemplates', () => {
+  test('lists [Type].mdx files outside node_modules', () => {
+    expect(findTemplates(rootDir)).toEqual(['NAICS/[Industry].mdx'])
+  })
+})
+
+describe('findReferences', () => {
+  test('finds placeholders and expression references outside code', () => {
+    const template = loadTemplate(rootDir, 'NAICS/[Industry].mdx')
+    expect(template.variable).toBe('industry')
+    expect(template.param).toBe('Industry')
+
+    const references = findReferences(template)
+    expect(references.map(r => [r.field, r.line, r.placeholder, r.attribute])).toEqual([
+      ['title', 16, true, false],
+      ['code', 18, true, true],
+      ['parent', 20, false, false],
+      ['parent', 20, true, true],
+    ])
+    const { body } = template.frontmatter
+    expect(body.slice(references[1].index, references[1].end)).toBe('{industry.code}')
+  })
+
+  test('rejects templates the renderer cannot bind', () => {
+    writeFileSync(join(rootDir, 'NAICS', '[Sector].mdx'), '---\nsource: NAICS\nparams:\n  - Sector\n  - Industry\n---\n')
+    expect(() => loadTemplate(rootDir, 'NAICS/[Sector].mdx')).toThrow('NAICS/[Sector].mdx: params must list exactly one type')
+  })
+})
+
+describe('fillPlaceholders', () => {
+  test('replaces the placeholders of a variable', () => {
+    expect(fillPlaceholders('https://naics.org.ai/Industry/{industry.code}', 'industry', field => `<${field}>`))
+      .toBe('https://naics.org.ai/Industry/<code>')
+  })
+})
@@ -0,0 +1,302 @@
+/**
+ * MDX route templates
+ *
+ * Every `[Type].mdx` in the repository is a route template for the entities of one
+ * type:
+ *
+ *   ---
+ *   layout: industry
+ *   source: NAICS
+ *   $type: NAICS/Industry
+ *   $id: https://standards.org.ai/NAICS/Industry/{industry.code}
+ *   sameAs: https://standards.org.ai/Industry/{industry.code}
+ *   canonical: https://naics.org.ai/Industry/{industry.code}
+ *   params:
+ *     - Industry
+ *   schema:
+ *     industry:
+ *       code: 2022NAICSCode
+ *       title: 2022NAICSTitle
+ *   ---
+ *
+ *   # {industry.title}
+ *
+ * `params` names the .data type bound to the page, and `schema` declares the
+ * variable the body refers to (`industry`) with its fields. Each field maps to a
+ * column of the source file, or to a value type (string, object, ...) when the
+ * source has no column for it.
+ *
+ * This module parses the frontmatter (the YAML subset the templates use: scalars,
+ * lists of scalars and nested mappings) and finds the variable's references in
+ * the body, skipping code blocks and inline code.
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { join, relative } from 'path'
+
+export type FrontmatterValue = string | string[] | { [key: string]: FrontmatterValue }
+
+export interface Frontmatter {
+  data: Record<string, FrontmatterValue>
+  lines: Record<string, number>     // dotted key path -> line number in the file
+  body: string
+  bodyLine: number                  // line number of the first body line
+}
+
+export const URL_FIELDS = ['$id', 'sameAs', 'canonical'] as const
+export type UrlField = typeof URL_FIELDS[number]
+
+// Schema values that declare a value type instead of naming a source column
+export const SCHEMA_VALUE_TYPES = new Set(['string', 'number', 'boolean', 'object', 'array'])
+
+export interface Template {
+  file: string                      // relative to the repository root, e.g. NAICS/[Industry].mdx
+  layout: string
+  source: string
+  $type: string
+  urls: Record<UrlField, string>
+  param: string                     // .data type bound to the page
+  variable: string                  // name the body uses for the entity
+  schema: Record<string, string>    // field -> source column or value type
+  frontmatter: Frontmatter
+}
+
+export interface Reference {
+  field: string
+  index: number                     // offset in the body
+  end: number
+  line: number                      // line number in the file
+  placeholder: boolean              // a whole `{variable.field}` expression
+  attribute: boolean                // a placeholder used as a JSX attribute value
+}
+
+interface FrontmatterLine {
+  text: string
+  indent: number
+  line: number
+}
+
+function parseScalar(text: string): string {
+  const value = text.trim()
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) return JSON.parse(value)
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) return value.slice(1, -1).replace(/''/g, "'")
+  return value
+}
+
+function parseNode(
+  entries: FrontmatterLine[],
+  start: number,
+  path: string,
+  lines: Record<string, number>,
+  where: string,
+): [FrontmatterValue, number] {
+  const indent = entries[start].indent
+
+  if (entries[start].text.startsWith('- ')) {
+    const items: string[] = []
+    let i = start
+    while (i < entries.length && entries[i].indent === indent && entries[i].text.startsWith('- ')) {
+      items.push(parseScalar(entries[i].text.slice(2)))
+      i++
+    }
+    return [items, i]
+  }
+
+  const mapping: Record<string, FrontmatterValue> = {}
+  let i = start
+  while (i < entries.length && entries[i].indent >= indent) {
+    const entry = entries[i]
+    const match = entry.text.match(/^([^:\s][^:]*):(?:\s+(.*))?$/)
+    if (entry.indent > indent || !match) {
+      throw new Error(`${where} line ${entry.line}: cannot parse frontmatter "${entry.text}"`)
+    }
+
+    const key = match[1].trim()
+    const keyPath = path ? `${path}.${key}` : key
+    lines[keyPath] = entry.line
+    i++
+    if (match[2] !== undefined && match[2].trim() !== '') {
+      mapping[key] = parseScalar(match[2])
+    } else if (i < entries.length && entries[i].indent > indent) {
+      const [value, next] = parseNode(entries, i, keyPath, lines, where)
+      mapping[key] = value
+      i = next
+    } else {
+      mapping[key] = ''
+    }
+  }
+  return [mapping, i]
+}
+
+/**
+ * Split an MDX file into its frontmatter and body
+ */
+export function parseFrontmatter(content: string, where: string = 'frontmatter'): Frontmatter {
+  const fileLines = content.split('\n').map(line => line.replace(/\r$/, ''))
+  if (fileLines[0] !== '---') {
+    return { data: {}, lines: {}, body: content, bodyLine: 1 }
+  }
+
+  const end = fileLines.indexOf('---', 1)
+  if (end < 0) throw new Error(`${where}: frontmatter is not closed`)
+
+  const entries: FrontmatterLine[] = []
+  fileLines.slice(1, end).forEach((text, i) => {
+    if (text.trim() === '' || text.trim().startsWith('#')) return
+    entries.push({ text: text.trim(), indent: text.length - text.trimStart().length, line: i + 2 })
+  })
+
+  const lines: Record<string, number> = {}
+  let data: Record<string, FrontmatterValue> = {}
+  if (entries.length > 0) {
+    const [value, next] = parseNode(entries, 0, '', lines, where)
+    if (next < entries.length || Array.isArray(value) || typeof value === 'string') {
+      throw new Error(`${where} line ${entries[Math.min(next, entries.length - 1)].line}: frontmatter must be a mapping`)
+    }
+    data = value
+  }
+
+  return { data, lines, body: fileLines.slice(end + 1).join('\n'), bodyLine: end + 2 }
+}
+
+/**
+ * Every `[Type].mdx` template below the root, relative to it and sorted
+ */
+export function findTemplates(rootDir: string = process.cwd()): string[] {
+  const files: string[] = []
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+      const fullPath = join(dir, entry.name)
+      if (entry.isDirectory()) {
+        walk(fullPath)
+      } else if (/^\[[^\]]+\]\.mdx$/.test(entry.name)) {
+        files.push(relative(rootDir, fullPath))
+      }
+    }
+  }
+
+  walk(rootDir)
+  return files.sort()
+}
+
+/**
+ * Read a template, rejecting frontmatter the renderer cannot bind
+ */
+export function loadTemplate(rootDir: string, file: string): Template {
+  const frontmatter = parseFrontmatter(readFileSync(join(rootDir, file), 'utf-8'), file)
+  const { data } = frontmatter
+
+  const text = (key: string): string => {
+    const value = data[key]
+    if (typeof value !== 'string' || value === '') throw new Error(`${file}: frontmatter needs ${key}`)
+    return value
+  }
+
+  const params = data.params
+  if (!Array.isArray(params) || params.length !== 1) {
+    throw new Error(`${file}: params must list exactly one type`)
+  }
+
+  const schema = data.schema
+  const variables = schema && typeof schema === 'object' && !Array.isArray(schema) ? Object.keys(schema) : []
+  if (variables.length !== 1) {
+    throw new Error(`${file}: schema must declare exactly one variable`)
+  }
+  const variable = variables[0]
+  const fields = (schema as Record<string, FrontmatterValue>)[variable]
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    throw new Error(`${file}: schema.${variable} must map fields to source columns`)
+  }
+  for (const [field, column] of Object.entries(fields)) {
+    if (typeof column !== 'string') throw new Error(`${file}: schema.${variable}.${field} must be a column name or value type`)
+  }
+
+  return {
+    file,
+    layout: typeof data.layout === 'string' ? data.layout : '',
+    source: text('source'),
+    $type: text('$type'),
+    urls: Object.fromEntries(URL_FIELDS.map(key => [key, text(key)])) as Record<UrlField, string>,
+    param: params[0],
+    variable,
+    schema: fields as Record<string, string>,
+    frontmatter,
+  }
+}
+
+/**
+ * The .data file prefixes of a template source: NAICS -> NAICS,
+ * Healthcare/FHIR -> Healthcare, FHIR and HealthcareFHIR
+ */
+export function sourcePrefixes(source: string): Set<string> {
+  const segments = source.split('/').filter(Boolean)
+  return new Set([...segments, segments.join('')])
+}
+
+/**
+ * Blank out fenced code blocks and inline code, keeping offsets and line breaks
+ */
+export function maskCode(body: string): string {
+  let fence: string | undefined
+  return body.split('\n').map(line => {
+    const marker = line.trimStart().match(/^(`{3,}|~{3,})/)?.[1]
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = undefined
+      return ' '.repeat(line.length)
+    }
+    if (marker) {
+      fence = marker
+      return ' '.repeat(line.length)
+    }
+    return line.replace(/`[^`]*`/g, code => ' '.repeat(code.length))
+  }).join('\n')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function placeholderPattern(variable: string): RegExp {
+  return new RegExp(`\\{\\s*${escapeRegExp(variable)}\\.(\\w+)\\s*\\}`, 'g')
+}
+
+/**
+ * The fields of the `{variable.field}` placeholders in a text, such as a URL template
+ */
+export function fieldsIn(text: string, variable: string): string[] {
+  return [...text.matchAll(placeholderPattern(variable))].map(match => match[1])
+}
+
+/**
+ * Replace the `{variable.field}` placeholders in a text
+ */
+export function fillPlaceholders(text: string, variable: string, value: (field: string) => string): string {
+  return text.replace(placeholderPattern(variable), (_, field: string) => value(field))
+}
+
+/**
+ * Every reference to the template variable in the body, outside code
+ */
+export function findReferences(template: Template): Reference[] {
+  const { body, bodyLine } = template.frontmatter
+  const masked = maskCode(body)
+  const name = escapeRegExp(template.variable)
+  const pattern = new RegExp(`\\{\\s*${name}\\.(\\w+)\\s*\\}|(?<![\\w.$])${name}\\.(\\w+)`, 'g')
+
+  const references: Reference[] = []
+  for (const match of masked.matchAll(pattern)) {
+    const index = match.index!
+    const placeholder = match[1] !== undefined
+    references.push({
+      field: match[1] ?? match[2],
+      index,
+      end: index + match[0].length,
+      line: bodyLine + (masked.slice(0, index).match(/\n/g)?.length ?? 0),
+      placeholder,
+      attribute: placeholder && /=\s*$/.test(masked.slice(Math.max(0, index - 8), index)),
+    })
+  }
+  return references
+}
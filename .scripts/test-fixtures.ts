@@ -0,0 +1,34 @@
+/**
+ * TSV fixtures for the unit tests
+ *
+ * Rows are laid out like the .data files the writers in utils.ts produce: the
+ * standard or relationship columns first, then any other columns the rows use.
+ * Columns a row leaves out are written empty.
+ */
+
+import { STANDARD_HEADERS, RELATIONSHIP_HEADERS, escapeForTSV } from './utils'
+
+export type FixtureRow = Record<string, string>
+
+function toTSV(headers: string[], rows: FixtureRow[]): string {
+  const extra = [...new Set(rows.flatMap(row => Object.keys(row)))].filter(column => !headers.includes(column))
+  const columns = [...headers, ...extra]
+  return [
+    columns.join('\t'),
+    ...rows.map(row => columns.map(column => escapeForTSV(row[column] || '')).join('\t')),
+  ].join('\n')
+}
+
+/**
+ * An entity file with the STANDARD_HEADERS columns
+ */
+export function entityFixture(rows: FixtureRow[]): string {
+  return toTSV(STANDARD_HEADERS, rows)
+}
+
+/**
+ * A relationship file with the RELATIONSHIP_HEADERS columns
+ */
+export function relationshipFixture(rows: FixtureRow[]): string {
+  return toTSV(RELATIONSHIP_HEADERS, rows)
+}
@@ -11,9 +11,11 @@ import {
   RelationshipRecord,
   parseCSV,
   parseTSV,
+  streamCSV,
   writeStandardTSV,
   writeRelationshipTSV,
-  writeTSV,
+  createStandardTSVWriter,
+  createRelationshipTSVWriter,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -22,12 +24,17 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.UN
 const SOURCE_DIR = getSourcePath('UN')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
+// UN/LOCODE code lists are distributed in ISO 8859-1
+const LOCODE_CSV_OPTIONS = { encoding: 'latin1' } as const
+
 interface LOCODERecord {
   Change: string
   Country: string
@@ -43,19 +50,21 @@ interface LOCODERecord {
   Remarks: string
 }
 
-interface M49Record {
-  name: string
-  'alpha-2': string
-  'alpha-3': string
-  'country-code': string
-  'iso_3166-2': string
-  region: string
-  'sub-region': string
-  'intermediate-region': string
-  'region-code': string
-  'sub-region-code': string
-  'intermediate-region-code': string
-}
+const M49_SCHEMA = defineSchema({
+  columns: {
+    name: { optional: true },
+    'alpha-2': { optional: true },
+    'alpha-3': { optional: true },
+    'country-code': { optional: true },
+    'iso_3166-2': { optional: true },
+    region: {},
+    'sub-region': {},
+    'intermediate-region': {},
+    'region-code': {},
+    'sub-region-code': {},
+    'intermediate-region-code': {},
+  },
+})
 
 interface EDIFACTMessageType {
   code: string
@@ -72,33 +81,37 @@ interface EDIFACTData {
   message_types: EDIFACTMessageType[]
 }
 
-interface LOCODESubdivisionRecord {
-  SUCountry: string
-  SUCode: string
-  SUName: string
-  SUType: string
-}
-
-interface UNSPSCRow {
-  segmentCode: string
-  segmentTitle: string
-  familyCode: string
-  familyTitle: string
-  classCode: string
-  classTitle: string
-  commodityCode: string
-  commodityTitle: string
-  definition: string
-}
-
-function transformLOCODE(): void {
+const LOCODE_SUBDIVISION_SCHEMA = defineSchema({
+  columns: {
+    SUCountry: {},
+    SUCode: {},
+    SUName: {},
+    SUType: {},
+  },
+})
+
+const UNSPSC_SCHEMA = defineSchema({
+  columns: {
+    segmentCode: {},
+    segmentTitle: {},
+    familyCode: {},
+    familyTitle: {},
+    classCode: {},
+    classTitle: {},
+    commodityCode: {},
+    commodityTitle: {},
+    definition: {},
+  },
+})
+type UNSPSCRow = SchemaRow<typeof UNSPSC_SCHEMA>
+
+async function transformLOCODE(): Promise<void> {
   console.log('Transforming UN/LOCODE...')
 
+  // The code list has over 100,000 entries, so it is streamed rather than loaded
   const sourceFile = join(SOURCE_DIR, 'UN.LOCODE.CodeList.csv')
-  const records = parseCSV<LOCODERecord>(sourceFile)
-
-  const locations: StandardRecord[] = []
-  const locationCountries: RelationshipRecord[] = []
+  const locations = createStandardTSVWriter(join(DATA_DIR, 'UN.Locations.tsv'))
+  const locationCountries = createRelationshipTSVWriter(join(REL_DIR, 'Location.Country.tsv'))
 
   // Function codes mapping
   const functionDescriptions: Record<string, string> = {
@@ -113,7 +126,7 @@ function transformLOCODE(): void {
     'B': 'Border crossing',
   }
 
-  for (const record of records) {
+  for await (const record of streamCSV<LOCODERecord>(sourceFile, LOCODE_CSV_OPTIONS)) {
     const country = record.Country
     const location = record.Location
     if (!country || !location) continue
@@ -134,7 +147,7 @@ function transformLOCODE(): void {
       .filter(Boolean)
       .join(', ')
 
-    locations.push({
+    await locations.write({
       ns: NS,
       type: 'Location',
       id,
@@ -145,7 +158,7 @@ function transformLOCODE(): void {
     })
 
     // Relationship to country
-    locationCountries.push({
+    await locationCountries.write({
       fromNs: NS,
       fromType: 'Location',
       fromId: id,
@@ -156,15 +169,15 @@ function transformLOCODE(): void {
     })
   }
 
-  writeStandardTSV(join(DATA_DIR, 'UN.Locations.tsv'), locations)
-  writeRelationshipTSV(join(REL_DIR, 'Location.Country.tsv'), locationCountries)
+  await locations.close()
+  await locationCountries.close()
 }
 
 function transformM49Regions(): void {
   console.log('Transforming UN M49 Regions...')
 
   const sourceFile = join(SOURCE_DIR, 'UN.M49.Regions.csv')
-  const records = parseCSV<M49Record>(sourceFile)
+  const records = parseCSV(sourceFile, {}, M49_SCHEMA)
 
   // Extract unique regions and sub-regions
   const regionsMap = new Map<string, StandardRecord>()
@@ -345,7 +358,7 @@ function transformLOCODESubdivisions(): void {
   const sourceFile = join(SOURCE_DIR, 'UN.LOCODE.SubdivisionCodes.csv')
 
   try {
-    const records = parseCSV<LOCODESubdivisionRecord>(sourceFile)
+    const records = parseCSV(sourceFile, LOCODE_CSV_OPTIONS, LOCODE_SUBDIVISION_SCHEMA)
 
     const subdivisions: StandardRecord[] = []
 
@@ -377,15 +390,14 @@ function transformLOCODESubdivisions(): void {
   }
 }
 
-function transformLOCODESubdivisionRelationships(): void {
+async function transformLOCODESubdivisionRelationships(): Promise<void> {
   console.log('Extracting LOCODE Location → Subdivision relationships...')
 
   const locodeFile = join(SOURCE_DIR, 'UN.LOCODE.CodeList.csv')
   const subdivFile = join(SOURCE_DIR, 'UN.LOCODE.SubdivisionCodes.csv')
 
   try {
-    const locodeRecords = parseCSV<LOCODERecord>(locodeFile)
-    const subdivRecords = parseCSV<LOCODESubdivisionRecord>(subdivFile)
+    const subdivRecords = parseCSV(subdivFile, LOCODE_CSV_OPTIONS, LOCODE_SUBDIVISION_SCHEMA)
 
     // Build subdivision lookup: country+code -> name
     const subdivLookup = new Map<string, string>()
@@ -396,9 +408,10 @@ function transformLOCODESubdivisionRelationships(): void {
       }
     }
 
-    const relationships: RelationshipRecord[] = []
+    const relationships = createRelationshipTSVWriter(join(REL_DIR, 'UN.Location.Subdivision.tsv'))
+    const written = new Set<string>()
 
-    for (const record of locodeRecords) {
+    for await (const record of streamCSV<LOCODERecord>(locodeFile, LOCODE_CSV_OPTIONS)) {
       const country = record.Country
       const subdivision = record.Subdivision
       const name = record.Name || record.NameWoDiacritics
@@ -420,24 +433,24 @@ function transformLOCODESubdivisionRelationships(): void {
       const locationId = `${country}_${toWikipediaStyleId(name)}${subdivision ? '_' + subdivision : ''}`
       const subdivId = `${country}_${toWikipediaStyleId(subdivName)}`
 
-      relationships.push({
+      // Deduplicate
+      const key = `${locationId}:${subdivId}`
+      if (written.has(key)) continue
+      written.add(key)
+
+      await relationships.write({
         fromNs: NS,
         fromType: 'Location',
         fromId: locationId,
         toNs: NS,
         toType: 'Subdivision',
         toId: subdivId,
-        relationshipType: 'locatedInSubdivision',
+        relationshipType: 'locatedIn',
       })
     }
 
-    // Deduplicate
-    const uniqueRelationships = Array.from(
-      new Map(relationships.map(r => [`${r.fromId}:${r.toId}`, r])).values()
-    )
-
-    writeRelationshipTSV(join(REL_DIR, 'UN.Location.Subdivision.tsv'), uniqueRelationships)
-    console.log(`Wrote ${uniqueRelationships.length} Location → Subdivision relationships`)
+    await relationships.close()
+    console.log(`Wrote ${relationships.count} Location → Subdivision relationships`)
   } catch (e) {
     console.log('Skipping LOCODE-Subdivision relationships - file not found or invalid:', e)
   }
@@ -451,7 +464,7 @@ function transformSPSC(): void {
   const sourceFile = join(unspscSourceDir, 'UNSPSC.Codes.tsv')
 
   try {
-    const data = parseTSV<UNSPSCRow>(sourceFile)
+    const data = parseTSV(sourceFile, UNSPSC_SCHEMA)
 
     // Extract unique segments, families, classes, commodities
     const segmentsMap = new Map<string, UNSPSCRow>()
@@ -523,7 +536,7 @@ function transformSPSC(): void {
     writeStandardTSV(join(DATA_DIR, 'UN.SPSCCommodities.tsv'), commodityRecords)
 
     // Write hierarchy relationships
-    const hierarchyRelationships: Record<string, string>[] = []
+    const hierarchyRelationships: RelationshipRecord[] = []
 
     // Family -> Segment
     for (const row of familiesMap.values()) {
@@ -570,11 +583,7 @@ function transformSPSC(): void {
       }
     }
 
-    writeTSV(
-      join(REL_DIR, 'UN.SPSC.Hierarchy.tsv'),
-      hierarchyRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'UN.SPSC.Hierarchy.tsv'), hierarchyRelationships)
   } catch (e) {
     console.log('Skipping SPSC - file not found or invalid:', e)
   }
@@ -585,9 +594,9 @@ export async function transformUN(): Promise<void> {
   ensureOutputDirs()
 
   transformM49Regions()
-  transformLOCODE()
+  await transformLOCODE()
   transformLOCODESubdivisions()
-  transformLOCODESubdivisionRelationships()
+  await transformLOCODESubdivisionRelationships()
   transformEDIFACT()
   transformEDIFACTCategories()
   // transformSPSC() - Removed: UNSPSC data is handled by .scripts/unspsc.ts as the canonical source
@@ -595,6 +604,31 @@ export async function transformUN(): Promise<void> {
   console.log('\n=== UN Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'un',
+  description: 'UN standards (LOCODE, M49 regions, EDIFACT)',
+  run: transformUN,
+  sources: ['UN', 'UNSPSC/UNSPSC.Codes.tsv'],
+  outputs: [
+    'UN.Locations.tsv',
+    'relationships/Location.Country.tsv',
+    'UN.Regions.tsv',
+    'UN.SubRegions.tsv',
+    'UN.IntermediateRegions.tsv',
+    'relationships/Region.Hierarchy.tsv',
+    'UN.EDIFACTMessages.tsv',
+    'UN.EDIFACTCategories.tsv',
+    'relationships/EDIFACTMessage.Category.tsv',
+    'UN.Subdivisions.tsv',
+    'relationships/UN.Location.Subdivision.tsv',
+    'UN.SPSCSegments.tsv',
+    'UN.SPSCFamilies.tsv',
+    'UN.SPSCClasses.tsv',
+    'UN.SPSCCommodities.tsv',
+    'relationships/UN.SPSC.Hierarchy.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformUN().catch(console.error)
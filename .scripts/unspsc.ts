@@ -4,6 +4,7 @@ import {
   parseTSV,
   writeStandardTSV,
   writeRelationshipTSV,
+  disambiguateIds,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -13,29 +14,37 @@ import {
   getAggregationsForType,
   type StandardRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import { findEditions, versionedFile, versionedId, type Edition } from './vintages'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.UNSPSC
 const SOURCE_DIR = getSourcePath('UNSPSC')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface UNSPSCRow {
-  segmentCode: string
-  segmentTitle: string
-  familyCode: string
-  familyTitle: string
-  classCode: string
-  classTitle: string
-  commodityCode: string
-  commodityTitle: string
-  definition: string
-}
-
-function transformUNSPSC(): void {
-  console.log('Transforming UNSPSC Codes...')
-  const data = parseTSV<UNSPSCRow>(join(SOURCE_DIR, 'UNSPSC.Codes.tsv'))
-
-  // Extract unique segments, families, classes, commodities
+const UNSPSC_SCHEMA = defineSchema({
+  columns: {
+    segmentCode: {},
+    segmentTitle: {},
+    familyCode: {},
+    familyTitle: {},
+    classCode: {},
+    classTitle: {},
+    commodityCode: {},
+    commodityTitle: {},
+    definition: {},
+  },
+})
+type UNSPSCRow = SchemaRow<typeof UNSPSC_SCHEMA>
+
+function transformUNSPSC(edition: Edition): void {
+  console.log(edition.current ? 'Transforming UNSPSC Codes...' : `Transforming UNSPSC ${edition.version} Codes...`)
+  const data = parseTSV(join(SOURCE_DIR, versionedFile('UNSPSC.Codes.tsv', edition)), UNSPSC_SCHEMA)
+  const idOf = (title: string) => versionedId(toWikipediaStyleId(title), edition)
+
+  // Extract unique segments, families, classes, commodities. Titles can repeat within
+  // a level, so ids are made unique and the hierarchy looks them up by code.
   const segmentsMap = new Map<string, UNSPSCRow>()
   const familiesMap = new Map<string, UNSPSCRow>()
   const classesMap = new Map<string, UNSPSCRow>()
@@ -57,52 +66,56 @@ function transformUNSPSC(): void {
   }
 
   // Write Segments
-  const segmentRecords: StandardRecord[] = Array.from(segmentsMap.values()).map(row => ({
+  const segmentRecords: StandardRecord[] = disambiguateIds(Array.from(segmentsMap.values()).map(row => ({
     ns: NS,
     type: 'Segment',
-    id: toWikipediaStyleId(row.segmentTitle),
+    id: idOf(row.segmentTitle),
     name: row.segmentTitle,
     description: '',
     code: row.segmentCode,
     includedIn: getAggregationsForType('Segment'),
-  }))
-  writeStandardTSV(join(DATA_DIR, 'UNSPSC.Segments.tsv'), segmentRecords)
+    version: edition.version,
+  })))
+  writeStandardTSV(join(DATA_DIR, versionedFile('UNSPSC.Segments.tsv', edition)), segmentRecords)
 
   // Write Families
-  const familyRecords: StandardRecord[] = Array.from(familiesMap.values()).map(row => ({
+  const familyRecords: StandardRecord[] = disambiguateIds(Array.from(familiesMap.values()).map(row => ({
     ns: NS,
     type: 'Family',
-    id: toWikipediaStyleId(row.familyTitle),
+    id: idOf(row.familyTitle),
     name: row.familyTitle,
     description: '',
     code: row.familyCode,
     includedIn: getAggregationsForType('Family'),
-  }))
-  writeStandardTSV(join(DATA_DIR, 'UNSPSC.Families.tsv'), familyRecords)
+    version: edition.version,
+  })))
+  writeStandardTSV(join(DATA_DIR, versionedFile('UNSPSC.Families.tsv', edition)), familyRecords)
 
   // Write Classes
-  const classRecords: StandardRecord[] = Array.from(classesMap.values()).map(row => ({
+  const classRecords: StandardRecord[] = disambiguateIds(Array.from(classesMap.values()).map(row => ({
     ns: NS,
     type: 'Class',
-    id: toWikipediaStyleId(row.classTitle),
+    id: idOf(row.classTitle),
     name: row.classTitle,
     description: '',
     code: row.classCode,
     includedIn: getAggregationsForType('Class'),
-  }))
-  writeStandardTSV(join(DATA_DIR, 'UNSPSC.Classes.tsv'), classRecords)
+    version: edition.version,
+  })))
+  writeStandardTSV(join(DATA_DIR, versionedFile('UNSPSC.Classes.tsv', edition)), classRecords)
 
   // Write Commodities
-  const commodityRecords: StandardRecord[] = Array.from(commoditiesMap.values()).map(row => ({
+  const commodityRecords: StandardRecord[] = disambiguateIds(Array.from(commoditiesMap.values()).map(row => ({
     ns: NS,
     type: 'Commodity',
-    id: toWikipediaStyleId(row.commodityTitle),
+    id: idOf(row.commodityTitle),
     name: row.commodityTitle,
     description: cleanDescription(row.definition),
     code: row.commodityCode,
     includedIn: getAggregationsForType('Product'),
-  }))
-  writeStandardTSV(join(DATA_DIR, 'UNSPSC.Commodities.tsv'), commodityRecords)
+    version: edition.version,
+  })))
+  writeStandardTSV(join(DATA_DIR, versionedFile('UNSPSC.Commodities.tsv', edition)), commodityRecords)
 
   // Write all products combined
   const allProducts: StandardRecord[] = [
@@ -111,9 +124,14 @@ function transformUNSPSC(): void {
     ...classRecords,
     ...commodityRecords,
   ]
-  writeStandardTSV(join(DATA_DIR, 'UNSPSC.Products.tsv'), allProducts)
+  writeStandardTSV(join(DATA_DIR, versionedFile('UNSPSC.Products.tsv', edition)), allProducts)
 
   // Write hierarchy relationships
+  const idByCode = (records: StandardRecord[]) => new Map(records.map(r => [r.code, r.id]))
+  const segmentIds = idByCode(segmentRecords)
+  const familyIds = idByCode(familyRecords)
+  const classIds = idByCode(classRecords)
+  const commodityIds = idByCode(commodityRecords)
   const hierarchyRelationships: Record<string, string>[] = []
 
   // Family -> Segment
@@ -122,10 +140,10 @@ function transformUNSPSC(): void {
       hierarchyRelationships.push({
         fromNs: NS,
         fromType: 'Family',
-        fromId: toWikipediaStyleId(row.familyTitle),
+        fromId: familyIds.get(row.familyCode)!,
         toNs: NS,
         toType: 'Segment',
-        toId: toWikipediaStyleId(row.segmentTitle),
+        toId: segmentIds.get(row.segmentCode) || idOf(row.segmentTitle),
         relationshipType: 'childOf',
       })
     }
@@ -137,10 +155,10 @@ function transformUNSPSC(): void {
       hierarchyRelationships.push({
         fromNs: NS,
         fromType: 'Class',
-        fromId: toWikipediaStyleId(row.classTitle),
+        fromId: classIds.get(row.classCode)!,
         toNs: NS,
         toType: 'Family',
-        toId: toWikipediaStyleId(row.familyTitle),
+        toId: familyIds.get(row.familyCode) || idOf(row.familyTitle),
         relationshipType: 'childOf',
       })
     }
@@ -152,17 +170,17 @@ function transformUNSPSC(): void {
       hierarchyRelationships.push({
         fromNs: NS,
         fromType: 'Commodity',
-        fromId: toWikipediaStyleId(row.commodityTitle),
+        fromId: commodityIds.get(row.commodityCode)!,
         toNs: NS,
         toType: 'Class',
-        toId: toWikipediaStyleId(row.classTitle),
+        toId: classIds.get(row.classCode) || idOf(row.classTitle),
         relationshipType: 'childOf',
       })
     }
   }
 
   writeRelationshipTSV(
-    join(REL_DIR, 'UNSPSC.Hierarchy.tsv'),
+    join(REL_DIR, versionedFile('UNSPSC.Hierarchy.tsv', edition)),
     hierarchyRelationships as any
   )
 }
@@ -171,11 +189,31 @@ export async function transformUNSPSCData(): Promise<void> {
   console.log('=== UNSPSC Transformation ===')
   ensureOutputDirs()
 
-  transformUNSPSC()
+  // The current version, and any other with a UNSPSC.Codes.<version>.tsv source
+  for (const edition of findEditions(SOURCE_DIR, 'UNSPSC.Codes.tsv', 'UNSPSC')) {
+    transformUNSPSC(edition)
+  }
 
   console.log('=== UNSPSC Transformation Complete ===\n')
 }
 
+const EDITIONS = findEditions(SOURCE_DIR, 'UNSPSC.Codes.tsv', 'UNSPSC')
+
+export const transformer: TransformerDescriptor = {
+  name: 'unspsc',
+  description: 'UNSPSC product/service codes',
+  run: transformUNSPSCData,
+  sources: ['UNSPSC'],
+  outputs: EDITIONS.flatMap(edition => [
+    'UNSPSC.Segments.tsv',
+    'UNSPSC.Families.tsv',
+    'UNSPSC.Classes.tsv',
+    'UNSPSC.Commodities.tsv',
+    'UNSPSC.Products.tsv',
+    'relationships/UNSPSC.Hierarchy.tsv',
+  ].map(file => versionedFile(file, edition))),
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformUNSPSCData()
@@ -17,6 +17,8 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.Census
 const SOURCE_DIR = getSourcePath('Census')
@@ -104,13 +106,15 @@ const DIVISIONS = [
   { code: '9', name: 'Pacific', region: '4' },
 ]
 
-interface StateRow {
-  code: string
-  name: string
-  description: string
-  abbreviation: string
-  statens: string
-}
+const STATE_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: { optional: true },
+    abbreviation: {},
+    statens: { optional: true },
+  },
+})
 
 function transformStates(): void {
   console.log('Transforming Census States from source file...')
@@ -121,7 +125,7 @@ function transformStates(): void {
     return
   }
 
-  const data = parseTSV<StateRow>(sourceFile)
+  const data = parseTSV(sourceFile, STATE_SCHEMA)
   console.log(`Loaded ${data.length} states from source`)
 
   const records: StandardRecord[] = data
@@ -185,19 +189,21 @@ function transformDivisions(): void {
     toNs: NS,
     toType: 'Region',
     toId: toWikipediaStyleId(REGIONS.find(r => r.code === division.region)?.name || ''),
-    relationshipType: 'inRegion',
+    relationshipType: 'locatedIn',
   }))
 
   writeRelationshipTSV(join(REL_DIR, 'Census.Division.Region.tsv'), relationships)
 }
 
-interface CountyRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-  state: string
-}
+const COUNTY_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: { optional: true },
+    parent: { optional: true },
+    state: {},
+  },
+})
 
 function transformCounties(): void {
   console.log('Transforming Census Counties from source file...')
@@ -208,7 +214,7 @@ function transformCounties(): void {
     return
   }
 
-  const data = parseTSV<CountyRow>(sourceFile)
+  const data = parseTSV(sourceFile, COUNTY_SCHEMA)
   console.log(`Loaded ${data.length} counties from source`)
 
   const records: StandardRecord[] = data
@@ -236,7 +242,7 @@ function transformCounties(): void {
       toNs: NS,
       toType: 'State',
       toId: toWikipediaStyleId(row.state),
-      relationshipType: 'inState',
+      relationshipType: 'locatedIn',
     }))
 
   writeRelationshipTSV(join(REL_DIR, 'Census.County.State.tsv'), relationships)
@@ -257,15 +263,17 @@ function transformPlaces(): void {
     return
   }
 
-  interface PlaceRow {
-    fips: string
-    name: string
-    state: string
-    type: string
-    population: string
-  }
+  const PLACE_SCHEMA = defineSchema({
+    columns: {
+      fips: {},
+      name: {},
+      state: {},
+      type: {},
+      population: {},
+    },
+  })
 
-  const data = parseTSV<PlaceRow>(sourceFile)
+  const data = parseTSV(sourceFile, PLACE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.fips && row.name)
@@ -420,13 +428,15 @@ function transformCSA(): void {
     return
   }
 
-  interface CSARow {
-    code: string
-    name: string
-    cbsas: string
-  }
+  const CSA_SCHEMA = defineSchema({
+    columns: {
+      code: {},
+      name: {},
+      cbsas: { optional: true },
+    },
+  })
 
-  const data = parseTSV<CSARow>(sourceFile)
+  const data = parseTSV(sourceFile, CSA_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -457,13 +467,15 @@ function transformMSA(): void {
     return
   }
 
-  interface MSARow {
-    code: string
-    name: string
-    cbsa: string
-  }
+  const MSA_SCHEMA = defineSchema({
+    columns: {
+      code: {},
+      name: {},
+      cbsa: {},
+    },
+  })
 
-  const data = parseTSV<MSARow>(sourceFile)
+  const data = parseTSV(sourceFile, MSA_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -509,14 +521,16 @@ function transformCBP(): void {
     return
   }
 
-  interface CBPRow {
-    naics: string
-    establishments: string
-    employment: string
-    payroll: string
-  }
+  const CBP_SCHEMA = defineSchema({
+    columns: {
+      naics: {},
+      establishments: {},
+      employment: {},
+      payroll: {},
+    },
+  })
 
-  const data = parseTSV<CBPRow>(sourceFile)
+  const data = parseTSV(sourceFile, CBP_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.naics)
@@ -571,6 +585,30 @@ export async function transformCensus(): Promise<void> {
   console.log('=== US Census Bureau Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'census',
+  description: 'US Census Bureau geographic and business standards',
+  run: transformCensus,
+  aliases: ['us-census'],
+  sources: ['Census'],
+  outputs: [
+    'Census.States.tsv',
+    'Census.Regions.tsv',
+    'Census.Divisions.tsv',
+    'relationships/Census.Division.Region.tsv',
+    'Census.Counties.tsv',
+    'relationships/Census.County.State.tsv',
+    'Census.Places.tsv',
+    'Census.CBSAs.tsv',
+    'relationships/Census.CBSA.County.tsv',
+    'Census.CSA.tsv',
+    'Census.MSA.tsv',
+    'relationships/Census.MSA.CBSA.tsv',
+    'Census.CBP.tsv',
+    'relationships/Census.CBP.NAICS.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformCensus()
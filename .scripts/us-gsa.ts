@@ -17,6 +17,8 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 // Add GSA namespace
 const NS = NAMESPACES.GSA
@@ -28,14 +30,16 @@ const REL_DIR = getRelationshipsPath()
  * Product Service Code (PSC) interfaces
  * Source: https://www.acquisition.gov/psc-manual
  */
-interface PSCRow {
-  code: string
-  name: string
-  description: string
-  category: string
-  isService: string
-  isProduct: string
-}
+const PSC_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    category: {},
+    isService: {},
+    isProduct: {},
+  },
+})
 
 /**
  * Federal Supply Classification (FSC) interfaces
@@ -48,61 +52,73 @@ interface FSCRow {
   class: string
 }
 
-interface FSCGroupRow {
-  code: string
-  name: string
-}
+const FSC_GROUP_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+  },
+})
 
 /**
  * GSA Schedule interfaces
  * Source: https://www.gsa.gov/buy-through-us/purchasing-programs/gsa-multiple-award-schedule
  */
-interface ScheduleRow {
-  code: string
-  name: string
-  description: string
-  category: string
-}
-
-interface SINRow {
-  code: string
-  name: string
-  description: string
-  schedule: string
-  category: string
-}
+const SCHEDULE_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    category: {},
+  },
+})
+
+const SIN_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    schedule: {},
+    category: {},
+  },
+})
 
 /**
  * Government-Wide Acquisition Contract (GWAC) interfaces
  */
-interface GWACRow {
-  code: string
-  name: string
-  agency: string
-  scope: string
-  ceiling: string
-  orderingProcedures: string
-}
+const GWAC_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    agency: {},
+    scope: {},
+    ceiling: {},
+    orderingProcedures: {},
+  },
+})
 
 /**
  * Blanket Purchase Agreement (BPA) interfaces
  */
-interface BPARow {
-  code: string
-  name: string
-  vendor: string
-  schedule: string
-  scope: string
-}
+const BPA_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    vendor: { optional: true },
+    schedule: {},
+    scope: {},
+  },
+})
 
 /**
  * SAM.gov Entity interfaces
  */
-interface EntityStatusRow {
-  code: string
-  name: string
-  description: string
-}
+const ENTITY_STATUS_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+  },
+})
 
 /**
  * Transform Product Service Codes (PSC)
@@ -118,7 +134,7 @@ function transformPSC(): void {
     return
   }
 
-  const data = parseTSV<PSCRow>(sourceFile)
+  const data = parseTSV(sourceFile, PSC_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -155,7 +171,7 @@ function transformPSC(): void {
   )
 
   // Write PSC to PSC Category relationships
-  const categoryRelationships: Record<string, string>[] = data
+  const categoryRelationships: RelationshipRecord[] = data
     .filter(row => row.code && row.category)
     .map(row => ({
       fromNs: NS,
@@ -164,18 +180,22 @@ function transformPSC(): void {
       toNs: NS,
       toType: 'PSCCategory',
       toId: row.category,
-      relationshipType: 'belongsToCategory',
+      relationshipType: 'belongsTo',
     }))
 
   if (categoryRelationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'GSA.PSC.PSCCategory.tsv'),
-      categoryRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'GSA.PSC.PSCCategory.tsv'), categoryRelationships)
   }
 }
 
+const PSC_CATEGORY_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    type: {},
+  },
+})
+
 /**
  * Transform PSC Categories
  * Categories are the first 2 characters of PSC codes
@@ -189,11 +209,7 @@ function transformPSCCategories(): void {
     return
   }
 
-  const data = parseTSV<{
-    code: string
-    name: string
-    type: string
-  }>(sourceFile)
+  const data = parseTSV(sourceFile, PSC_CATEGORY_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -210,12 +226,14 @@ function transformPSCCategories(): void {
   writeStandardTSV(join(DATA_DIR, 'GSA.PSCCategory.tsv'), records)
 }
 
-interface FSCSourceRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-}
+const FSC_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: {},
+  },
+})
 
 /**
  * Transform Federal Supply Classification (FSC) codes
@@ -230,7 +248,7 @@ function transformFSC(): void {
     return
   }
 
-  const data = parseTSV<FSCSourceRow>(sourceFile)
+  const data = parseTSV(sourceFile, FSC_SCHEMA)
   console.log(`Loaded ${data.length} FSC codes from source`)
 
   const records: StandardRecord[] = data
@@ -249,7 +267,7 @@ function transformFSC(): void {
   console.log(`Wrote ${records.length} FSC codes to GSA.FSCCodes.tsv`)
 
   // Write FSC to FSC Group relationships (parent field)
-  const groupRelationships: Record<string, string>[] = data
+  const groupRelationships: RelationshipRecord[] = data
     .filter(row => row.code && row.parent)
     .map(row => ({
       fromNs: NS,
@@ -258,15 +276,11 @@ function transformFSC(): void {
       toNs: NS,
       toType: 'FSCGroup',
       toId: row.parent,
-      relationshipType: 'belongsToGroup',
+      relationshipType: 'belongsTo',
     }))
 
   if (groupRelationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'GSA.FSC.FSCGroup.tsv'),
-      groupRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'GSA.FSC.FSCGroup.tsv'), groupRelationships)
     console.log(`Wrote ${groupRelationships.length} FSC -> FSC Group relationships`)
   }
 }
@@ -284,7 +298,7 @@ function transformFSCGroups(): void {
     return
   }
 
-  const data = parseTSV<FSCGroupRow>(sourceFile)
+  const data = parseTSV(sourceFile, FSC_GROUP_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -314,7 +328,7 @@ function transformSchedules(): void {
     return
   }
 
-  const data = parseTSV<ScheduleRow>(sourceFile)
+  const data = parseTSV(sourceFile, SCHEDULE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -344,7 +358,7 @@ function transformSINs(): void {
     return
   }
 
-  const data = parseTSV<SINRow>(sourceFile)
+  const data = parseTSV(sourceFile, SIN_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -361,7 +375,7 @@ function transformSINs(): void {
   writeStandardTSV(join(DATA_DIR, 'GSA.SIN.tsv'), records)
 
   // Write SIN to Schedule relationships
-  const scheduleRelationships: Record<string, string>[] = data
+  const scheduleRelationships: RelationshipRecord[] = data
     .filter(row => row.code && row.schedule)
     .map(row => ({
       fromNs: NS,
@@ -370,15 +384,11 @@ function transformSINs(): void {
       toNs: NS,
       toType: 'Schedule',
       toId: row.schedule,
-      relationshipType: 'belongsToSchedule',
+      relationshipType: 'belongsTo',
     }))
 
   if (scheduleRelationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'GSA.SIN.Schedule.tsv'),
-      scheduleRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'GSA.SIN.Schedule.tsv'), scheduleRelationships)
   }
 }
 
@@ -395,7 +405,7 @@ function transformGWACs(): void {
     return
   }
 
-  const data = parseTSV<GWACRow>(sourceFile)
+  const data = parseTSV(sourceFile, GWAC_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -445,7 +455,7 @@ function transformBPAs(): void {
     return
   }
 
-  const data = parseTSV<BPARow>(sourceFile)
+  const data = parseTSV(sourceFile, BPA_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -462,7 +472,7 @@ function transformBPAs(): void {
   writeStandardTSV(join(DATA_DIR, 'GSA.BPA.tsv'), records)
 
   // Write BPA to Schedule relationships
-  const scheduleRelationships: Record<string, string>[] = data
+  const scheduleRelationships: RelationshipRecord[] = data
     .filter(row => row.code && row.schedule)
     .map(row => ({
       fromNs: NS,
@@ -471,15 +481,11 @@ function transformBPAs(): void {
       toNs: NS,
       toType: 'Schedule',
       toId: row.schedule,
-      relationshipType: 'basedOnSchedule',
+      relationshipType: 'basedOn',
     }))
 
   if (scheduleRelationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'GSA.BPA.Schedule.tsv'),
-      scheduleRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'GSA.BPA.Schedule.tsv'), scheduleRelationships)
   }
 }
 
@@ -496,7 +502,7 @@ function transformEntityStatuses(): void {
     return
   }
 
-  const data = parseTSV<EntityStatusRow>(sourceFile)
+  const data = parseTSV(sourceFile, ENTITY_STATUS_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -584,6 +590,33 @@ export async function transformGSA(): Promise<void> {
   console.log('=== GSA Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'gsa',
+  description: 'GSA product service codes, supply classes, and contract vehicles',
+  run: transformGSA,
+  aliases: ['us-gsa'],
+  sources: ['GSA'],
+  outputs: [
+    'GSA.PSC.tsv',
+    'GSA.PSC.Metadata.tsv',
+    'relationships/GSA.PSC.PSCCategory.tsv',
+    'GSA.PSCCategory.tsv',
+    'GSA.FSCCodes.tsv',
+    'relationships/GSA.FSC.FSCGroup.tsv',
+    'GSA.FSCGroup.tsv',
+    'GSA.Schedule.tsv',
+    'GSA.SIN.tsv',
+    'relationships/GSA.SIN.Schedule.tsv',
+    'GSA.GWAC.tsv',
+    'GSA.GWAC.Metadata.tsv',
+    'GSA.BPA.tsv',
+    'relationships/GSA.BPA.Schedule.tsv',
+    'GSA.EntityStatus.tsv',
+    'GSA.UEI.tsv',
+    'GSA.UEI.Specification.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformGSA()
@@ -7,6 +7,7 @@ import {
   writeStandardTSV,
   writeTSV,
   writeRelationshipTSV,
+  disambiguateIds,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -17,47 +18,61 @@ import {
   type StandardRecord,
   type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.SBA
 const SOURCE_DIR = getSourcePath('SBA')
 const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
-interface SizeStandardRow {
-  NAICSCode: string
-  NAICSTitle: string
-  SizeStandard: string
-  SizeType: string
-  Footnotes?: string
-}
-
-interface FootnoteRow {
-  FootnoteCode: string
-  FootnoteText: string
-  ApplicableIndustries?: string
-}
-
-interface ExceptionRow {
-  ExceptionCode: string
-  Description: string
-  ApplicableIndustries?: string
-}
-
-interface BusinessTypeRow {
-  BusinessTypeCode: string
-  BusinessTypeName: string
-  Description: string
-  EligibilityCriteria: string
-  CertificationRequired: string
-}
-
-interface ContractTypeRow {
-  ContractTypeCode: string
-  ContractTypeName: string
-  Description: string
-  Threshold: string
-  ApplicableBusinessTypes: string
-}
+const SIZE_STANDARD_SCHEMA = defineSchema({
+  columns: {
+    NAICSCode: {},
+    NAICSTitle: {},
+    SizeStandard: {},
+    SizeType: { optional: true },
+    Footnotes: { optional: true },
+  },
+})
+
+const FOOTNOTE_SCHEMA = defineSchema({
+  columns: {
+    FootnoteCode: {},
+    FootnoteText: {},
+    ApplicableIndustries: { optional: true },
+  },
+})
+
+const EXCEPTION_SCHEMA = defineSchema({
+  columns: {
+    ExceptionCode: {},
+    Description: {},
+    ApplicableIndustries: { optional: true },
+  },
+})
+
+const BUSINESS_TYPE_SCHEMA = defineSchema({
+  columns: {
+    BusinessTypeCode: {},
+    BusinessTypeName: {},
+    Description: {},
+    EligibilityCriteria: {},
+    CertificationRequired: {},
+  },
+})
+type BusinessTypeRow = SchemaRow<typeof BUSINESS_TYPE_SCHEMA>
+
+const CONTRACT_TYPE_SCHEMA = defineSchema({
+  columns: {
+    ContractTypeCode: {},
+    ContractTypeName: {},
+    Description: {},
+    Threshold: {},
+    ApplicableBusinessTypes: {},
+  },
+})
+type ContractTypeRow = SchemaRow<typeof CONTRACT_TYPE_SCHEMA>
 
 /**
  * Parse size standard value to determine if it's revenue-based or employee-based
@@ -105,9 +120,10 @@ function transformSizeStandards(): void {
     return
   }
 
-  const data = parseTSV<SizeStandardRow>(sourceFile)
+  const data = parseTSV(sourceFile, SIZE_STANDARD_SCHEMA)
 
-  const records: StandardRecord[] = data
+  // Titles repeat across NAICS codes, so ids are made unique before the edges use them
+  const records: StandardRecord[] = disambiguateIds(data
     .filter(row => row.NAICSCode && row.NAICSTitle)
     .map(row => ({
       ns: NS,
@@ -117,7 +133,7 @@ function transformSizeStandards(): void {
       description: `Size Standard: ${cleanSizeStandard(row.SizeStandard)}`,
       code: row.NAICSCode,
       includedIn: getAggregationsForType('SizeStandard'),
-    }))
+    })))
 
   writeStandardTSV(join(DATA_DIR, 'SBA.SizeStandards.tsv'), records)
 
@@ -141,17 +157,15 @@ function transformSizeStandards(): void {
   )
 
   // Create relationships to NAICS codes
-  const naicsRelationships: RelationshipRecord[] = data
-    .filter(row => row.NAICSCode)
-    .map(row => ({
-      fromNs: NS,
-      fromType: 'SizeStandard',
-      fromId: toWikipediaStyleId(row.NAICSTitle),
-      toNs: NAMESPACES.NAICS,
-      toType: 'Industry',
-      toId: row.NAICSCode,
-      relationshipType: 'appliesToNaics',
-    }))
+  const naicsRelationships: RelationshipRecord[] = records.map(record => ({
+    fromNs: NS,
+    fromType: 'SizeStandard',
+    fromId: record.id,
+    toNs: NAMESPACES.NAICS,
+    toType: 'Industry',
+    toId: record.code,
+    relationshipType: 'applicableTo',
+  }))
 
   if (naicsRelationships.length > 0) {
     writeRelationshipTSV(join(REL_DIR, 'SBA.SizeStandard.NAICS.tsv'), naicsRelationships)
@@ -170,7 +184,7 @@ function transformFootnotes(): void {
     return
   }
 
-  const data = parseTSV<FootnoteRow>(sourceFile)
+  const data = parseTSV(sourceFile, FOOTNOTE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.FootnoteCode && row.FootnoteText)
@@ -216,7 +230,7 @@ function transformExceptions(): void {
     return
   }
 
-  const data = parseTSV<ExceptionRow>(sourceFile)
+  const data = parseTSV(sourceFile, EXCEPTION_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.ExceptionCode && row.Description)
@@ -318,7 +332,7 @@ function transformBusinessTypes(): void {
 
   const sourceFile = join(SOURCE_DIR, 'BusinessTypes.tsv')
   const data = existsSync(sourceFile)
-    ? parseTSV<BusinessTypeRow>(sourceFile)
+    ? parseTSV(sourceFile, BUSINESS_TYPE_SCHEMA)
     : standardBusinessTypes
 
   const records: StandardRecord[] = data
@@ -423,7 +437,7 @@ function transformContractTypes(): void {
 
   const sourceFile = join(SOURCE_DIR, 'ContractTypes.tsv')
   const data = existsSync(sourceFile)
-    ? parseTSV<ContractTypeRow>(sourceFile)
+    ? parseTSV(sourceFile, CONTRACT_TYPE_SCHEMA)
     : standardContractTypes
 
   const records: StandardRecord[] = data
@@ -501,6 +515,28 @@ export async function transformSBA(): Promise<void> {
   console.log('=== SBA Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'sba',
+  description: 'SBA size standards, business types, and contract types',
+  run: transformSBA,
+  aliases: ['us-sba'],
+  sources: ['SBA'],
+  outputs: [
+    'SBA.SizeStandards.tsv',
+    'SBA.SizeStandardsExtended.tsv',
+    'relationships/SBA.SizeStandard.NAICS.tsv',
+    'SBA.IndustryFootnotes.tsv',
+    'SBA.IndustryFootnotesExtended.tsv',
+    'SBA.ExceptionCodes.tsv',
+    'SBA.ExceptionCodesExtended.tsv',
+    'SBA.BusinessTypes.tsv',
+    'SBA.BusinessTypesExtended.tsv',
+    'SBA.ContractTypes.tsv',
+    'SBA.ContractTypesExtended.tsv',
+    'relationships/SBA.ContractType.BusinessType.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSBA()
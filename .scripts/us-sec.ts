@@ -5,7 +5,7 @@ import {
   parseTSV,
   parseCSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -14,7 +14,10 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.SEC
 const SOURCE_DIR = getSourcePath('SEC')
@@ -495,7 +498,7 @@ function transformSICMajorGroups(): void {
   writeStandardTSV(join(DATA_DIR, 'SEC.SICMajorGroups.tsv'), records)
 
   // Write relationships between Major Groups and Divisions
-  const relationships: Record<string, string>[] = SIC_MAJOR_GROUPS.map(group => ({
+  const relationships: RelationshipRecord[] = SIC_MAJOR_GROUPS.map(group => ({
     fromNs: NS,
     fromType: 'SICMajorGroup',
     fromId: group.code,
@@ -505,22 +508,20 @@ function transformSICMajorGroups(): void {
     relationshipType: 'childOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'SEC.MajorGroup.Division.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'SEC.MajorGroup.Division.tsv'), relationships)
 }
 
-interface SICRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-  division: string
-  major_group: string
-  industry_group: string
-}
+const SIC_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: { optional: true },
+    division: {},
+    major_group: {},
+    industry_group: { optional: true },
+  },
+})
 
 function transformSICCodes(): void {
   console.log('Transforming SIC Codes from source file...')
@@ -531,7 +532,7 @@ function transformSICCodes(): void {
     return
   }
 
-  const data = parseTSV<SICRow>(sourceFile)
+  const data = parseTSV(sourceFile, SIC_SCHEMA)
   console.log(`Loaded ${data.length} SIC codes from source`)
 
   const records: StandardRecord[] = data
@@ -550,7 +551,7 @@ function transformSICCodes(): void {
   console.log(`Wrote ${records.length} SIC codes to SEC.SICCodes.tsv`)
 
   // Write relationships between SIC Codes and Major Groups
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.code && row.major_group)
     .map(row => ({
       fromNs: NS,
@@ -563,11 +564,7 @@ function transformSICCodes(): void {
     }))
 
   if (relationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'SEC.SICCode.MajorGroup.tsv'),
-      relationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'SEC.SICCode.MajorGroup.tsv'), relationships)
     console.log(`Wrote ${relationships.length} SIC Code -> Major Group relationships`)
   }
 }
@@ -575,7 +572,7 @@ function transformSICCodes(): void {
 function transformFormCategoryRelationships(): void {
   console.log('Creating Form-Category relationships...')
 
-  const relationships: Record<string, string>[] = SEC_FORMS.map(form => ({
+  const relationships: RelationshipRecord[] = SEC_FORMS.map(form => ({
     fromNs: NS,
     fromType: 'FormType',
     fromId: form.code,
@@ -585,11 +582,7 @@ function transformFormCategoryRelationships(): void {
     relationshipType: 'memberOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'SEC.FormType.FilingCategory.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'SEC.FormType.FilingCategory.tsv'), relationships)
 }
 
 export async function transformSEC(): Promise<void> {
@@ -607,6 +600,25 @@ export async function transformSEC(): Promise<void> {
   console.log('=== SEC Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'sec',
+  description: 'SEC filing forms, SIC codes, and filer types',
+  run: transformSEC,
+  aliases: ['us-sec'],
+  sources: ['SEC'],
+  outputs: [
+    'SEC.FormTypes.tsv',
+    'SEC.FilingCategories.tsv',
+    'SEC.FilerTypes.tsv',
+    'SEC.SICDivisions.tsv',
+    'SEC.SICMajorGroups.tsv',
+    'relationships/SEC.MajorGroup.Division.tsv',
+    'SEC.SICCodes.tsv',
+    'relationships/SEC.SICCode.MajorGroup.tsv',
+    'relationships/SEC.FormType.FilingCategory.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformSEC()
@@ -40,8 +40,11 @@ import {
   NAMESPACES,
   parseTSV,
   parseCSV,
+  streamTSV,
   writeStandardTSV,
-  writeTSV,
+  writeRelationshipTSV,
+  createStandardTSVWriter,
+  createRelationshipTSVWriter,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -50,7 +53,10 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema, type SchemaRow } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.USITC
 const SOURCE_DIR = getSourcePath('USITC')
@@ -58,11 +64,13 @@ const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
 // HTS Section (I-XXII)
-interface HTSSectionRow {
-  code: string        // e.g., "I", "II", "III"
-  name: string        // Section name
-  notes: string       // Section notes
-}
+const HTS_SECTION_SCHEMA = defineSchema({
+  columns: {
+    code: {},   // e.g., "I", "II", "III"
+    name: {},   // Section name
+    notes: {},  // Section notes
+  },
+})
 
 // HTS Chapter (01-99)
 interface HTSChapterRow {
@@ -73,18 +81,22 @@ interface HTSChapterRow {
 }
 
 // HTS Heading (4-digit)
-interface HTSHeadingRow {
-  code: string        // e.g., "0101", "0102"
-  name: string        // Heading name
-  chapter: string     // Chapter code
-}
+const HTS_HEADING_SCHEMA = defineSchema({
+  columns: {
+    code: {},     // e.g., "0101", "0102"
+    name: {},     // Heading name
+    chapter: {},  // Chapter code
+  },
+})
 
 // HTS Subheading (6-digit, HS level)
-interface HTSSubheadingRow {
-  code: string        // e.g., "010110", "010120"
-  name: string        // Subheading name
-  heading: string     // Heading code (4-digit)
-}
+const HTS_SUBHEADING_SCHEMA = defineSchema({
+  columns: {
+    code: {},     // e.g., "010110", "010120"
+    name: {},     // Subheading name
+    heading: {},  // Heading code (4-digit)
+  },
+})
 
 // Full HTS Code (8-10 digit)
 interface HTSCodeRow {
@@ -98,21 +110,26 @@ interface HTSCodeRow {
 }
 
 // Special tariff programs
-interface SpecialProgramRow {
-  code: string              // e.g., "A", "A+", "AU", "BH", "CA", "CL", "CO"
-  name: string              // Program name
-  description: string       // Description
-  countries: string         // Eligible countries/regions
-  eligibility: string       // Eligibility requirements
-}
+const SPECIAL_PROGRAM_SCHEMA = defineSchema({
+  columns: {
+    code: {},         // e.g., "A", "A+", "AU", "BH", "CA", "CL", "CO"
+    name: {},         // Program name
+    description: {},  // Description
+    countries: {},    // Eligible countries/regions
+    eligibility: {},  // Eligibility requirements
+  },
+})
+type SpecialProgramRow = SchemaRow<typeof SPECIAL_PROGRAM_SCHEMA>
 
 // Schedule B (Export classification)
-interface ScheduleBRow {
-  code: string              // 10-digit Schedule B code
-  name: string              // Description
-  htsEquivalent: string     // Equivalent HTS import code
-  unit: string              // Unit of quantity
-}
+const SCHEDULE_B_SCHEMA = defineSchema({
+  columns: {
+    code: {},           // 10-digit Schedule B code
+    name: {},           // Description
+    htsEquivalent: {},  // Equivalent HTS import code
+    unit: {},           // Unit of quantity
+  },
+})
 
 /**
  * Get parent code for HTS hierarchy
@@ -175,7 +192,7 @@ function transformHTSSections(): void {
     return
   }
 
-  const data = parseTSV<HTSSectionRow>(sourceFile)
+  const data = parseTSV(sourceFile, HTS_SECTION_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -192,12 +209,14 @@ function transformHTSSections(): void {
   writeStandardTSV(join(DATA_DIR, 'USITC.HTS.Sections.tsv'), records)
 }
 
-interface HTSChapterSourceRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-}
+const HTS_CHAPTER_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: { optional: true },
+  },
+})
 
 /**
  * Transform HTS Chapters (01-99)
@@ -211,7 +230,7 @@ function transformHTSChapters(): void {
     return
   }
 
-  const data = parseTSV<HTSChapterSourceRow>(sourceFile)
+  const data = parseTSV(sourceFile, HTS_CHAPTER_SCHEMA)
   console.log(`Loaded ${data.length} HTS chapters from source`)
 
   const records: StandardRecord[] = data
@@ -242,7 +261,7 @@ function transformHTSHeadings(): void {
     return
   }
 
-  const data = parseTSV<HTSHeadingRow>(sourceFile)
+  const data = parseTSV(sourceFile, HTS_HEADING_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -259,7 +278,7 @@ function transformHTSHeadings(): void {
   writeStandardTSV(join(DATA_DIR, 'USITC.HTS.Headings.tsv'), records)
 
   // Create heading -> chapter relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.code && row.chapter)
     .map(row => ({
       fromNs: NS,
@@ -271,11 +290,7 @@ function transformHTSHeadings(): void {
       relationshipType: 'childOf',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'USITC.Heading.Chapter.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USITC.Heading.Chapter.tsv'), relationships)
 }
 
 /**
@@ -290,7 +305,7 @@ function transformHTSSubheadings(): void {
     return
   }
 
-  const data = parseTSV<HTSSubheadingRow>(sourceFile)
+  const data = parseTSV(sourceFile, HTS_SUBHEADING_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -307,7 +322,7 @@ function transformHTSSubheadings(): void {
   writeStandardTSV(join(DATA_DIR, 'USITC.HTS.Subheadings.tsv'), records)
 
   // Create subheading -> heading relationships
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.code && row.heading)
     .map(row => ({
       fromNs: NS,
@@ -319,18 +334,14 @@ function transformHTSSubheadings(): void {
       relationshipType: 'childOf',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'USITC.Subheading.Heading.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USITC.Subheading.Heading.tsv'), relationships)
 }
 
 /**
  * Transform Full HTS Codes (8-10 digit)
  * This is the main tariff line with duty rates
  */
-function transformHTSCodes(): void {
+async function transformHTSCodes(): Promise<void> {
   console.log('Transforming HTS Codes (full tariff lines)...')
   const sourceFile = join(SOURCE_DIR, 'HTS.Codes.tsv')
 
@@ -339,42 +350,40 @@ function transformHTSCodes(): void {
     return
   }
 
-  const data = parseTSV<HTSCodeRow>(sourceFile)
-
-  const records: StandardRecord[] = data
-    .filter(row => row.code && row.name)
-    .map(row => ({
-      ns: NS,
-      type: 'HTSCode',
-      id: toWikipediaStyleId(`${row.code} ${row.name}`),
-      name: row.name,
-      description: cleanDescription(
-        `${row.name}. Unit: ${row.unit}. General rate: ${row.generalRate}. Special: ${row.specialRate}. Column 2: ${row.column2Rate}`
-      ),
-      code: row.code,
-      includedIn: getAggregationsForType('HTSCode'),
-    }))
-
-  writeStandardTSV(join(DATA_DIR, 'USITC.HTS.Codes.tsv'), records)
-
-  // Create code -> subheading relationships
-  const relationships: Record<string, string>[] = data
-    .filter(row => row.code && row.subheading)
-    .map(row => ({
-      fromNs: NS,
-      fromType: 'HTSCode',
-      fromId: row.code,
-      toNs: NS,
-      toType: 'HTSSubheading',
-      toId: row.subheading,
-      relationshipType: 'childOf',
-    }))
+  // Tariff lines and their code -> subheading relationships are written as the source is read
+  const records = createStandardTSVWriter(join(DATA_DIR, 'USITC.HTS.Codes.tsv'))
+  const relationships = createRelationshipTSVWriter(join(REL_DIR, 'USITC.Code.Subheading.tsv'))
+
+  for await (const row of streamTSV<HTSCodeRow>(sourceFile)) {
+    if (row.code && row.name) {
+      await records.write({
+        ns: NS,
+        type: 'HTSCode',
+        id: toWikipediaStyleId(`${row.code} ${row.name}`),
+        name: row.name,
+        description: cleanDescription(
+          `${row.name}. Unit: ${row.unit}. General rate: ${row.generalRate}. Special: ${row.specialRate}. Column 2: ${row.column2Rate}`
+        ),
+        code: row.code,
+        includedIn: getAggregationsForType('HTSCode'),
+      })
+    }
+
+    if (row.code && row.subheading) {
+      await relationships.write({
+        fromNs: NS,
+        fromType: 'HTSCode',
+        fromId: row.code,
+        toNs: NS,
+        toType: 'HTSSubheading',
+        toId: row.subheading,
+        relationshipType: 'childOf',
+      })
+    }
+  }
 
-  writeTSV(
-    join(REL_DIR, 'USITC.Code.Subheading.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  await records.close()
+  await relationships.close()
 }
 
 /**
@@ -567,7 +576,7 @@ function transformSpecialPrograms(): void {
     return
   }
 
-  const data = parseTSV<SpecialProgramRow>(sourceFile)
+  const data = parseTSV(sourceFile, SPECIAL_PROGRAM_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -596,7 +605,7 @@ function transformScheduleB(): void {
     return
   }
 
-  const data = parseTSV<ScheduleBRow>(sourceFile)
+  const data = parseTSV(sourceFile, SCHEDULE_B_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.code && row.name)
@@ -613,7 +622,7 @@ function transformScheduleB(): void {
   writeStandardTSV(join(DATA_DIR, 'USITC.ScheduleB.tsv'), records)
 
   // Create Schedule B -> HTS relationships (where applicable)
-  const relationships: Record<string, string>[] = data
+  const relationships: RelationshipRecord[] = data
     .filter(row => row.code && row.htsEquivalent)
     .map(row => ({
       fromNs: NS,
@@ -625,11 +634,7 @@ function transformScheduleB(): void {
       relationshipType: 'equivalentTo',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'USITC.ScheduleB.HTS.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USITC.ScheduleB.HTS.tsv'), relationships)
 }
 
 /**
@@ -643,13 +648,34 @@ export async function transformUSITC(): Promise<void> {
   transformHTSChapters()
   transformHTSHeadings()
   transformHTSSubheadings()
-  transformHTSCodes()
+  await transformHTSCodes()
   transformSpecialPrograms()
   transformScheduleB()
 
   console.log('=== USITC Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'usitc',
+  description: 'USITC Harmonized Tariff Schedule and Schedule B',
+  run: transformUSITC,
+  aliases: ['us-usitc'],
+  sources: ['USITC'],
+  outputs: [
+    'USITC.HTS.Sections.tsv',
+    'USITC.HTS.Chapters.tsv',
+    'USITC.HTS.Headings.tsv',
+    'relationships/USITC.Heading.Chapter.tsv',
+    'USITC.HTS.Subheadings.tsv',
+    'relationships/USITC.Subheading.Heading.tsv',
+    'USITC.HTS.Codes.tsv',
+    'relationships/USITC.Code.Subheading.tsv',
+    'USITC.SpecialPrograms.tsv',
+    'USITC.ScheduleB.tsv',
+    'relationships/USITC.ScheduleB.HTS.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformUSITC()
@@ -20,7 +20,6 @@ import {
   parseTSV,
   writeStandardTSV,
   writeRelationshipTSV,
-  writeTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -29,6 +28,8 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.USPTO
 const SOURCE_DIR = getSourcePath('USPTO')
@@ -152,12 +153,14 @@ interface USPCRecord {
   cpcEquivalent?: string
 }
 
-interface CPCSectionSourceRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-}
+const CPC_SECTION_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: {},
+  },
+})
 
 /**
  * Transform CPC Sections
@@ -167,7 +170,7 @@ function transformCPCSections(): void {
 
   const sourceFile = join(SOURCE_DIR, 'cpc_sections.tsv')
   if (existsSync(sourceFile)) {
-    const data = parseTSV<CPCSectionSourceRow>(sourceFile)
+    const data = parseTSV(sourceFile, CPC_SECTION_SCHEMA)
     console.log(`Loaded ${data.length} CPC sections from source`)
 
     const records: StandardRecord[] = data
@@ -235,7 +238,7 @@ function transformCPCClasses(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.CPC.Classes.tsv'), records)
 
   // Create relationships to sections
-  const relationships: Record<string, string>[] = sampleClasses.map(cls => ({
+  const relationships: RelationshipRecord[] = sampleClasses.map(cls => ({
     fromNs: NS,
     fromType: 'CPCClass',
     fromId: cls.code,
@@ -245,11 +248,7 @@ function transformCPCClasses(): void {
     relationshipType: 'partOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.CPC.Class.Section.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.CPC.Class.Section.tsv'), relationships)
 }
 
 /**
@@ -282,7 +281,7 @@ function transformCPCSubclasses(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.CPC.Subclasses.tsv'), records)
 
   // Create relationships to classes
-  const relationships: Record<string, string>[] = sampleSubclasses.map(sub => ({
+  const relationships: RelationshipRecord[] = sampleSubclasses.map(sub => ({
     fromNs: NS,
     fromType: 'CPCSubclass',
     fromId: sub.code,
@@ -292,11 +291,7 @@ function transformCPCSubclasses(): void {
     relationshipType: 'partOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.CPC.Subclass.Class.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.CPC.Subclass.Class.tsv'), relationships)
 }
 
 /**
@@ -329,7 +324,7 @@ function transformCPCGroups(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.CPC.Groups.tsv'), records)
 
   // Create relationships to subclasses
-  const subclassRelationships: Record<string, string>[] = sampleGroups.map(group => ({
+  const subclassRelationships: RelationshipRecord[] = sampleGroups.map(group => ({
     fromNs: NS,
     fromType: 'CPCGroup',
     fromId: group.code,
@@ -339,14 +334,10 @@ function transformCPCGroups(): void {
     relationshipType: 'partOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.CPC.Group.Subclass.tsv'),
-    subclassRelationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.CPC.Group.Subclass.tsv'), subclassRelationships)
 
   // Create parent-child relationships for groups
-  const parentRelationships: Record<string, string>[] = sampleGroups
+  const parentRelationships: RelationshipRecord[] = sampleGroups
     .filter(group => group.parent)
     .map(group => ({
       fromNs: NS,
@@ -358,11 +349,7 @@ function transformCPCGroups(): void {
       relationshipType: 'childOf',
     }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.CPC.Group.Group.tsv'),
-    parentRelationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.CPC.Group.Group.tsv'), parentRelationships)
 }
 
 /**
@@ -417,7 +404,7 @@ function transformUSPCSubclasses(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.USPC.Subclasses.tsv'), records)
 
   // Create relationships to classes
-  const relationships: Record<string, string>[] = sampleSubclasses.map(sub => ({
+  const relationships: RelationshipRecord[] = sampleSubclasses.map(sub => ({
     fromNs: NS,
     fromType: 'USPCSubclass',
     fromId: sub.code,
@@ -427,20 +414,18 @@ function transformUSPCSubclasses(): void {
     relationshipType: 'partOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.USPC.Subclass.Class.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.USPC.Subclass.Class.tsv'), relationships)
 }
 
-interface NiceClassSourceRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-  type: string
-}
+const NICE_CLASS_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: {},
+    type: { optional: true },
+  },
+})
 
 /**
  * Transform Nice Classification
@@ -450,7 +435,7 @@ function transformNiceClasses(): void {
 
   const sourceFile = join(SOURCE_DIR, 'nice_classification.tsv')
   if (existsSync(sourceFile)) {
-    const data = parseTSV<NiceClassSourceRow>(sourceFile)
+    const data = parseTSV(sourceFile, NICE_CLASS_SCHEMA)
     console.log(`Loaded ${data.length} Nice classes from source`)
 
     const records: StandardRecord[] = data
@@ -509,12 +494,14 @@ function transformUSTrademarkClasses(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.USTrademark.Classes.tsv'), records)
 }
 
-interface LocarnoClassSourceRow {
-  code: string
-  name: string
-  description: string
-  parent: string
-}
+const LOCARNO_CLASS_SCHEMA = defineSchema({
+  columns: {
+    code: {},
+    name: {},
+    description: {},
+    parent: {},
+  },
+})
 
 /**
  * Transform Locarno Classification
@@ -524,7 +511,7 @@ function transformLocarnoClasses(): void {
 
   const sourceFile = join(SOURCE_DIR, 'locarno_classification.tsv')
   if (existsSync(sourceFile)) {
-    const data = parseTSV<LocarnoClassSourceRow>(sourceFile)
+    const data = parseTSV(sourceFile, LOCARNO_CLASS_SCHEMA)
     console.log(`Loaded ${data.length} Locarno classes from source`)
 
     const records: StandardRecord[] = data
@@ -585,7 +572,7 @@ function transformLocarnoSubclasses(): void {
   writeStandardTSV(join(DATA_DIR, 'USPTO.Locarno.Subclasses.tsv'), records)
 
   // Create relationships to classes
-  const relationships: Record<string, string>[] = sampleSubclasses.map(sub => ({
+  const relationships: RelationshipRecord[] = sampleSubclasses.map(sub => ({
     fromNs: NS,
     fromType: 'LocarnoSubclass',
     fromId: sub.code,
@@ -595,11 +582,7 @@ function transformLocarnoSubclasses(): void {
     relationshipType: 'partOf',
   }))
 
-  writeTSV(
-    join(REL_DIR, 'USPTO.Locarno.Subclass.Class.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'USPTO.Locarno.Subclass.Class.tsv'), relationships)
 }
 
 /**
@@ -636,6 +619,32 @@ export async function transformUSPTO(): Promise<void> {
   console.log('  - https://www.wipo.int/classifications/locarno/en/')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'uspto',
+  description: 'USPTO patent, trademark, and design classifications',
+  run: transformUSPTO,
+  aliases: ['us-uspto'],
+  sources: ['USPTO'],
+  outputs: [
+    'USPTO.CPCSections.tsv',
+    'USPTO.CPC.Classes.tsv',
+    'relationships/USPTO.CPC.Class.Section.tsv',
+    'USPTO.CPC.Subclasses.tsv',
+    'relationships/USPTO.CPC.Subclass.Class.tsv',
+    'USPTO.CPC.Groups.tsv',
+    'relationships/USPTO.CPC.Group.Subclass.tsv',
+    'relationships/USPTO.CPC.Group.Group.tsv',
+    'USPTO.USPC.Classes.tsv',
+    'USPTO.USPC.Subclasses.tsv',
+    'relationships/USPTO.USPC.Subclass.Class.tsv',
+    'USPTO.NiceClasses.tsv',
+    'USPTO.USTrademark.Classes.tsv',
+    'USPTO.LocarnoClasses.tsv',
+    'USPTO.Locarno.Subclasses.tsv',
+    'relationships/USPTO.Locarno.Subclass.Class.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformUSPTO()
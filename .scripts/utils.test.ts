@@ -3,8 +3,35 @@
  * Run with: bun test .scripts/utils.test.ts
  */
 
-import { describe, test, expect } from 'bun:test'
-import { toWikipediaStyleId } from './utils'
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  toWikipediaStyleId,
+  tokenizeCSV,
+  readCSV,
+  parseTSV,
+  parseDataTSV,
+  streamCSV,
+  streamTSV,
+  streamDataTSV,
+  writeStandardTSV,
+  createStandardTSVWriter,
+  writeRelationshipTSV,
+  createRelationshipTSVWriter,
+  rewriteDataTSV,
+  streamEntities,
+  escapeForTSV,
+  unescapeTSV,
+  cleanDescription,
+  createIdDisambiguator,
+  getCollisionsPath,
+  disambiguateIds,
+  type StandardRecord,
+  type RelationshipRecord,
+} from './utils'
+import { entityFixture } from './test-fixtures'
 
 describe('toWikipediaStyleId', () => {
   describe('basic transformations', () => {
@@ -136,3 +163,519 @@ describe('toWikipediaStyleId', () => {
     })
   })
 })
+
+describe('tokenizeCSV', () => {
+  const fields = (content: string, options = {}) => tokenizeCSV(content, options).rows.map(r => r.fields)
+
+  test('splits simple rows', () => {
+    expect(fields('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']])
+  })
+
+  test('handles CRLF line endings and a trailing newline', () => {
+    expect(fields('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']])
+  })
+
+  test('keeps delimiters inside quoted fields', () => {
+    expect(fields('name,code\n"Aachen, Stadt",AAH')).toEqual([['name', 'code'], ['Aachen, Stadt', 'AAH']])
+  })
+
+  test('unescapes doubled quotes', () => {
+    expect(fields('a\n"He said ""hi"""')).toEqual([['a'], ['He said "hi"']])
+  })
+
+  test('keeps line breaks inside quoted fields', () => {
+    const result = tokenizeCSV('a,b\n"line 1\nline 2",x\n3,4')
+    expect(result.rows.map(r => r.fields)).toEqual([['a', 'b'], ['line 1\nline 2', 'x'], ['3', '4']])
+    expect(result.rows.map(r => r.line)).toEqual([1, 2, 4])
+  })
+
+  test('preserves empty fields', () => {
+    expect(fields('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']])
+  })
+
+  test('supports a custom delimiter and quote', () => {
+    expect(fields("a;b\n'x;y';z", { delimiter: ';', quote: "'" })).toEqual([['a', 'b'], ['x;y', 'z']])
+  })
+
+  test('reports unterminated quotes', () => {
+    const result = tokenizeCSV('a,b\n"open,1\n2,3')
+    expect(result.errors).toEqual([{ line: 2, message: 'Unterminated quoted field' }])
+  })
+
+  test('reports stray quotes and text after a closing quote', () => {
+    const result = tokenizeCSV('a,b\nab"c,1\n"x"y,2')
+    expect(result.errors.map(e => e.line)).toEqual([2, 3])
+    expect(result.rows[1].fields).toEqual(['ab"c', '1'])
+    expect(result.rows[2].fields).toEqual(['xy', '2'])
+  })
+})
+
+async function withFile(content: string | Buffer, fn: (path: string) => void | Promise<void>): Promise<void> {
+  const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+  try {
+    const path = join(dir, 'test.txt')
+    writeFileSync(path, content)
+    await fn(path)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterator) items.push(item)
+  return items
+}
+
+describe('readCSV', () => {
+  test('maps rows to header keys and strips a BOM', async () => {
+    await withFile('\uFEFFCountry,Location\nDE,AAH\n', path => {
+      expect(readCSV(path).records).toEqual([{ Country: 'DE', Location: 'AAH' }])
+    })
+  })
+
+  test('decodes latin1 files', async () => {
+    await withFile(Buffer.from('Name\nK\xf6ln\n', 'latin1'), path => {
+      expect(readCSV(path, { encoding: 'latin1' }).records).toEqual([{ Name: 'Köln' }])
+    })
+  })
+
+  test('reports rows with the wrong number of fields', async () => {
+    await withFile('a,b\n1,2\n3\n4,5,6', path => {
+      const { records, errors } = readCSV(path)
+      expect(records).toHaveLength(3)
+      expect(records[1]).toEqual({ a: '3', b: '' })
+      expect(errors).toEqual([
+        { line: 3, message: 'Expected 2 fields but found 1' },
+        { line: 4, message: 'Expected 2 fields but found 3' },
+      ])
+    })
+  })
+})
+
+describe('streamCSV', () => {
+  test('yields the same records as readCSV across chunk boundaries', async () => {
+    // Large enough to span several read chunks, with quotes and CRLFs at arbitrary offsets
+    const rows = ['code,name,note']
+    for (let i = 0; i < 5000; i++) {
+      rows.push(`${i},"Name ${i}, ""quoted""","line 1\r\nline 2"`)
+    }
+    await withFile(rows.join('\r\n'), async path => {
+      const streamed = await collect(streamCSV(path))
+      expect(streamed).toHaveLength(5000)
+      expect(streamed).toEqual(readCSV(path).records)
+      expect(streamed[4999]).toEqual({ code: '4999', name: 'Name 4999, "quoted"', note: 'line 1\r\nline 2' })
+    })
+  })
+
+  test('decodes latin1 files', async () => {
+    await withFile(Buffer.from('Name\nK\xf6ln\n', 'latin1'), async path => {
+      expect(await collect(streamCSV(path, { encoding: 'latin1' }))).toEqual([{ Name: 'Köln' }])
+    })
+  })
+})
+
+describe('streamTSV', () => {
+  test('yields the same records as parseTSV', async () => {
+    const rows = ['\uFEFFcode\tname']
+    for (let i = 0; i < 5000; i++) {
+      rows.push(`${i}\t"Name ${i}\nsecond line"`)
+    }
+    await withFile(rows.join('\n') + '\n\n', async path => {
+      const streamed = await collect(streamTSV(path))
+      expect(streamed).toHaveLength(5000)
+      expect(streamed).toEqual(parseTSV(path))
+    })
+  })
+
+  test('keeps backslashes of source files, unlike streamDataTSV', async () => {
+    await withFile('path\tpattern\nC:\\new\ta\\tb\n', async path => {
+      expect(await collect(streamTSV(path))).toEqual([{ path: 'C:\\new', pattern: 'a\\tb' }])
+      expect(await collect(streamDataTSV(path))).toEqual([{ path: 'C:\new', pattern: 'a\tb' }])
+    })
+  })
+})
+
+describe('createStandardTSVWriter', () => {
+  const records: StandardRecord[] = [
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Farming', name: 'Farming', description: 'Crops\tand animals', code: '11' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Mining', name: 'Mining', description: '', code: '21', includedIn: 'business.org.ai' },
+  ]
+
+  test('writes the same file as writeStandardTSV', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      writeStandardTSV(join(dir, 'batch.tsv'), records)
+
+      const writer = createStandardTSVWriter(join(dir, 'nested', 'stream.tsv'))
+      for (const record of records) {
+        await writer.write(record)
+      }
+      await writer.close()
+
+      expect(writer.count).toBe(2)
+      expect(readFileSync(join(dir, 'nested', 'stream.tsv'), 'utf-8')).toBe(readFileSync(join(dir, 'batch.tsv'), 'utf-8'))
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('replaces the file only when closed', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      const filePath = join(dir, 'stream.tsv')
+      writeStandardTSV(filePath, records.slice(0, 1))
+      const previous = readFileSync(filePath, 'utf-8')
+
+      const writer = createStandardTSVWriter(filePath)
+      await writer.write(records[0])
+      await writer.write(records[1])
+      expect(readFileSync(filePath, 'utf-8')).toBe(previous)
+
+      await writer.close()
+      expect(readFileSync(filePath, 'utf-8').split('\n')).toHaveLength(3)
+      expect(existsSync(`${filePath}.tmp`)).toBe(false)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('does not create a file when nothing was written', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      const writer = createStandardTSVWriter(join(dir, 'empty.tsv'))
+      await writer.close()
+      expect(existsSync(join(dir, 'empty.tsv'))).toBe(false)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('rewriteDataTSV', () => {
+  const records: StandardRecord[] = [
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Farming', name: 'Farming', description: 'Crops\tand animals', code: '11' },
+    { ns: 'naics.org.ai', type: 'Industry', id: 'Mining', name: 'Mining', description: '', code: '21' },
+  ]
+
+  test('writes changed records back only when fixing', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      const filePath = join(dir, 'Industries.tsv')
+      writeStandardTSV(filePath, records)
+      const previous = readFileSync(filePath, 'utf-8')
+      const rename = (record: Record<string, string>) => {
+        if (record.id === 'Mining') record.name = 'Mining and quarrying'
+      }
+
+      await rewriteDataTSV(filePath, rename)
+      expect(readFileSync(filePath, 'utf-8')).toBe(previous)
+
+      await rewriteDataTSV(filePath, rename, true)
+      const rows = parseDataTSV<Record<string, string>>(filePath)
+      expect(rows.map(row => row.name)).toEqual(['Farming', 'Mining and quarrying'])
+      expect(rows[0].description).toBe('Crops\tand animals')
+      expect(existsSync(`${filePath}.tmp`)).toBe(false)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('streamEntities', () => {
+  test('yields each entity once, from the first file, and skips non-entity files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      writeFileSync(join(dir, 'A.Industries.tsv'), entityFixture([
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Farming', name: 'Farming' },
+        { ns: 'naics.org.ai', type: 'Industry', id: '', name: 'No id' },
+      ]))
+      writeFileSync(join(dir, 'B.Industries.tsv'), entityFixture([
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Farming', name: 'Farming (again)' },
+        { ns: 'naics.org.ai', type: 'Industry', id: 'Mining', name: 'Mining' },
+      ]))
+      writeFileSync(join(dir, 'Graph.Types.tsv'), 'type\tcanonicalDomain\nIndustry\tnaics.org.ai')
+
+      const duplicates: string[] = []
+      const entities = []
+      for await (const { file, record } of streamEntities(dir, { onDuplicate: (record, file) => duplicates.push(`${file} ${record.id}`) })) {
+        entities.push(`${file} ${record.id} ${record.name}`)
+      }
+      expect(entities).toEqual(['A.Industries.tsv Farming Farming', 'B.Industries.tsv Mining Mining'])
+      expect(duplicates).toEqual(['B.Industries.tsv Farming'])
+
+      const onlyB = []
+      for await (const { record } of streamEntities(dir, { files: file => file.startsWith('B.') })) onlyB.push(record.name)
+      expect(onlyB).toEqual(['Farming (again)', 'Mining'])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('escapeForTSV', () => {
+  test('escapes backslashes, tabs and line breaks', () => {
+    expect(escapeForTSV('a\tb\nc\r\nd\\e')).toBe('a\\tb\\nc\\r\\nd\\\\e')
+  })
+
+  test('quotes values with double quotes or surrounding whitespace', () => {
+    expect(escapeForTSV('5" pipe')).toBe('"5"" pipe"')
+    expect(escapeForTSV(' padded ')).toBe('" padded "')
+    expect(escapeForTSV('plain value')).toBe('plain value')
+  })
+
+  test('is reversed by unescapeTSV', () => {
+    expect(unescapeTSV('a\\tb\\nc\\\\n')).toBe('a\tb\nc\\n')
+  })
+
+  test('unescapeTSV keeps unknown escapes', () => {
+    expect(unescapeTSV('C:\\Users\\x')).toBe('C:\\Users\\x')
+  })
+})
+
+describe('cleanDescription', () => {
+  test('collapses whitespace within paragraphs', () => {
+    expect(cleanDescription('  one\ttwo\n three  ')).toBe('one two three')
+  })
+
+  test('keeps paragraph breaks', () => {
+    expect(cleanDescription('First paragraph\nwraps.\r\n\r\n\n  Second  one.\n')).toBe('First paragraph wraps.\n\nSecond one.')
+  })
+})
+
+describe('writeStandardTSV round trip', () => {
+  // Small deterministic PRNG so failures are reproducible
+  function random(seed: number): () => number {
+    return () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296
+      return seed / 4294967296
+    }
+  }
+
+  const ALPHABET = ['a', 'Z', '0', ' ', '\t', '\n', '\r', '\\', '"', "'", 't', 'n', ',', 'é', '\u00a0', '\uFEFF', '→']
+
+  function randomString(next: () => number): string {
+    const length = Math.floor(next() * 12)
+    let value = ''
+    for (let i = 0; i < length; i++) {
+      value += ALPHABET[Math.floor(next() * ALPHABET.length)]
+    }
+    return value
+  }
+
+  test('reads back every record exactly as written', () => {
+    const next = random(42)
+    const fields = ['ns', 'type', 'id', 'name', 'description', 'code', 'sameAs', 'includedIn', 'version'] as const
+    const records: StandardRecord[] = []
+    for (let i = 0; i < 500; i++) {
+      const record = {} as Record<(typeof fields)[number], string>
+      for (const field of fields) {
+        record[field] = randomString(next)
+      }
+      // The first column must not be blank, otherwise the whole line would be blank
+      record.ns = `ns${i}${record.ns}`
+      records.push(record)
+    }
+
+    const dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    try {
+      const path = join(dir, 'roundtrip.tsv')
+      writeStandardTSV(path, records)
+      expect(parseDataTSV<StandardRecord>(path)).toEqual(records)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('createIdDisambiguator', () => {
+  const record = (id: string, code: string, type = 'Code') => ({ ns: 'icd.org.ai', type, id, name: id, code })
+
+  test('keeps the first id and appends the code to later duplicates', () => {
+    const ids = createIdDisambiguator()
+    expect(ids.apply(record('Cholera', 'A00')).id).toBe('Cholera')
+    expect(ids.apply(record('Cholera', 'A00.9')).id).toBe('Cholera_(A00.9)')
+    expect(ids.collisions).toEqual([
+      { ns: 'icd.org.ai', type: 'Code', collidingId: 'Cholera', assignedId: 'Cholera_(A00.9)', code: 'A00.9', name: 'Cholera', keptCode: 'A00' },
+    ])
+  })
+
+  test('falls back to a counter without a code or when the code suffix is taken', () => {
+    const ids = createIdDisambiguator()
+    ids.apply(record('Other', ''))
+    expect(ids.apply(record('Other', '')).id).toBe('Other_(2)')
+    expect(ids.apply(record('Other', '')).id).toBe('Other_(3)')
+
+    ids.apply(record('Same', 'X1'))
+    expect(ids.apply(record('Same', 'X1')).id).toBe('Same_(X1)')
+    expect(ids.apply(record('Same', 'X1')).id).toBe('Same_(X1)_(2)')
+  })
+
+  test('only treats the same ns and type as a collision', () => {
+    const ids = createIdDisambiguator()
+    ids.apply(record('Cholera', 'A00'))
+    expect(ids.apply(record('Cholera', 'A00', 'Category')).id).toBe('Cholera')
+    expect(ids.collisions).toEqual([])
+  })
+})
+
+describe('writeStandardTSV id collisions', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'utils-'))
+    filePath = join(dir, 'SBA.SizeStandards.tsv')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const records: StandardRecord[] = [
+    { ns: 'us.org.ai', type: 'SizeStandard', id: 'Soybean_Farming', name: 'Soybean Farming', description: '', code: '111110' },
+    { ns: 'us.org.ai', type: 'SizeStandard', id: 'Soybean_Farming', name: 'Soybean Farming', description: '', code: '111110A' },
+  ]
+
+  test('writes disambiguated ids and a collision report', () => {
+    writeStandardTSV(filePath, records)
+
+    expect(parseTSV<StandardRecord>(filePath).map(r => r.id))
+      .toEqual(['Soybean_Farming', 'Soybean_Farming_(111110A)'])
+    expect(parseTSV(join(getCollisionsPath(filePath), 'SBA.SizeStandards.tsv'))).toEqual([{
+      ns: 'us.org.ai',
+      type: 'SizeStandard',
+      collidingId: 'Soybean_Farming',
+      assignedId: 'Soybean_Farming_(111110A)',
+      code: '111110A',
+      name: 'Soybean Farming',
+      keptCode: '111110',
+    }])
+  })
+
+  test('the streaming writer applies the same rule', async () => {
+    const writer = createStandardTSVWriter(filePath)
+    for (const record of records) await writer.write(record)
+    await writer.close()
+
+    expect(parseTSV<StandardRecord>(filePath).map(r => r.id))
+      .toEqual(['Soybean_Farming', 'Soybean_Farming_(111110A)'])
+    expect(existsSync(join(getCollisionsPath(filePath), 'SBA.SizeStandards.tsv'))).toBe(true)
+  })
+
+  test('removes a stale report once the collisions are gone', () => {
+    writeStandardTSV(filePath, records)
+    writeStandardTSV(filePath, records.slice(0, 1))
+    expect(existsSync(join(getCollisionsPath(filePath), 'SBA.SizeStandards.tsv'))).toBe(false)
+  })
+
+  test('disambiguateIds gives relationships the final ids and keeps the report', () => {
+    const unique = disambiguateIds(records)
+    expect(unique.map(r => r.id)).toEqual(['Soybean_Farming', 'Soybean_Farming_(111110A)'])
+    expect(records[1].id).toBe('Soybean_Farming')
+
+    writeStandardTSV(filePath, unique)
+    expect(parseTSV<StandardRecord>(filePath).map(r => r.id)).toEqual(unique.map(r => r.id))
+    expect(parseTSV(join(getCollisionsPath(filePath), 'SBA.SizeStandards.tsv')).map(c => c.assignedId))
+      .toEqual(['Soybean_Farming_(111110A)'])
+  })
+
+  test('keeps reports next to the data root of the output', () => {
+    expect(getCollisionsPath(join(dir, '.data', 'relationships', 'SBA.SizeStandard.NAICS.tsv')))
+      .toBe(join(dir, '.build', 'collisions'))
+    expect(getCollisionsPath(filePath)).toBe(join(dir, '.build', 'collisions'))
+  })
+})
+
+describe('writeRelationshipTSV properties', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'utils-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const skill = (importance?: number | string): RelationshipRecord => ({
+    fromNs: 'onet.org.ai',
+    fromType: 'Occupation',
+    fromId: '11-1011.00',
+    toNs: 'onet.org.ai',
+    toType: 'Skill',
+    toId: '2.A.1.a',
+    relationshipType: 'requiresSkill',
+    properties: importance === undefined ? undefined : { importance },
+  })
+
+  test('writes the declared property columns after the standard ones', () => {
+    const path = join(dir, 'ONET.Occupation.Skill.tsv')
+    writeRelationshipTSV(path, [skill(3.75)])
+
+    expect(readFileSync(path, 'utf-8')).toBe(
+      'fromNs\tfromType\tfromId\ttoNs\ttoType\ttoId\trelationshipType\timportance\n' +
+      'onet.org.ai\tOccupation\t11-1011.00\tonet.org.ai\tSkill\t2.A.1.a\trequiresSkill\t3.75'
+    )
+  })
+
+  test('writes booleans and leaves optional values empty', () => {
+    const path = join(dir, 'SIC.NAICS.Crosswalk.tsv')
+    const crosswalk: RelationshipRecord = {
+      fromNs: 'us.org.ai',
+      fromType: 'SICCode',
+      fromId: 'Wheat',
+      toNs: 'naics.org.ai',
+      toType: 'Industry',
+      toId: 'Wheat_Farming',
+      relationshipType: 'mapsTo',
+      properties: { partial: false, vintage: 'SIC 1987 to NAICS 1997' },
+    }
+    writeRelationshipTSV(path, [crosswalk])
+    expect(parseTSV(path)[0]).toMatchObject({ partial: 'false', vintage: 'SIC 1987 to NAICS 1997' })
+
+    const related = join(dir, 'ONET.Occupation.Occupation.tsv')
+    writeRelationshipTSV(related, [{ ...skill(), toType: 'Occupation', relationshipType: 'relatedTo', properties: { relatednessScore: undefined } }])
+    expect(parseTSV(related)[0].relatednessScore).toBe('')
+  })
+
+  test('rejects undeclared, missing and mistyped properties', () => {
+    const path = join(dir, 'ONET.Occupation.Skill.tsv')
+
+    expect(() => writeRelationshipTSV(path, [skill(3.75), { ...skill(3.75), properties: { importance: 3.75, level: 4 } }]))
+      .toThrow(`${path}: undeclared property level in row 2`)
+    const crosswalkPath = join(dir, 'SIC.NAICS.Crosswalk.tsv')
+    expect(() => writeRelationshipTSV(crosswalkPath, [{ ...skill(), toNs: 'naics.org.ai', relationshipType: 'mapsTo', fromType: 'SICCode', toType: 'Industry', properties: { vintage: 'SIC 1987 to NAICS 1997' } }]))
+      .toThrow(`${crosswalkPath}: missing value in property partial of row 1`)
+    expect(() => writeRelationshipTSV(path, [skill('3.75')]))
+      .toThrow('invalid number "3.75" in property importance')
+    expect(() => writeRelationshipTSV(path, [skill(NaN)]))
+      .toThrow('invalid number')
+    expect(() => writeRelationshipTSV(join(dir, 'ONET.Occupation.Tool.tsv'), [skill(3.75)]))
+      .toThrow('undeclared property importance')
+  })
+
+  test('rejects unregistered relationship types and endpoint types', () => {
+    const path = join(dir, 'ONET.Occupation.Skill.tsv')
+
+    expect(() => writeRelationshipTSV(path, [{ ...skill(3.75), relationshipType: 'requires_skill' }]))
+      .toThrow(`${path}: unknown relationship type "requires_skill" (register it in relationship-types.ts) in row 1`)
+    expect(() => writeRelationshipTSV(path, [{ ...skill(3.75), relationshipType: 'maps_to' }]))
+      .toThrow('legacy relationship type "maps_to" (use mapsTo)')
+    expect(() => writeRelationshipTSV(path, [{ ...skill(3.75), toType: 'Tool' }]))
+      .toThrow('relationship type requiresSkill does not allow toType Tool')
+  })
+
+  test('the streaming writer produces the same file', async () => {
+    writeRelationshipTSV(join(dir, 'ONET.Occupation.Skill.tsv'), [skill(3.75), skill(4)])
+
+    const streamPath = join(dir, 'stream', 'ONET.Occupation.Skill.tsv')
+    const writer = createRelationshipTSVWriter(streamPath)
+    await writer.write(skill(3.75))
+    await writer.write(skill(4))
+    await writer.close()
+
+    expect(readFileSync(streamPath, 'utf-8')).toBe(readFileSync(join(dir, 'ONET.Occupation.Skill.tsv'), 'utf-8'))
+    await expect(createRelationshipTSVWriter(streamPath).write(skill('3.75'))).rejects.toThrow('invalid number')
+  })
+})
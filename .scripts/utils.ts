@@ -1,7 +1,12 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
-import { join, dirname } from 'path'
-
-// Canonical namespaces for each source (authoritative domains)
+import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync, rmSync, renameSync, createReadStream, createWriteStream, type WriteStream } from 'fs'
+import { once } from 'events'
+import { join, dirname, basename } from 'path'
+import { createRowMapper, type SourceSchema, type SchemaRow } from './schema'
+import { RELATIONSHIP_HEADERS, getRelationshipProperties, formatPropertyValue, type RelationshipPropertyValue } from './relationship-schemas'
+import { checkRelationshipType } from './relationship-types'
+import type { Domain } from './domains'
+
+// Canonical namespaces for each source (authoritative domains), from the registry in domains.ts
 export const NAMESPACES = {
   // US Government (canonical)
   ONET: 'onet.org.ai',
@@ -30,6 +35,9 @@ export const NAMESPACES = {
   LOCODE: 'un.org.ai',
   M49: 'un.org.ai',
 
+  // Standards without a domain of their own (canonical)
+  Standards: 'standards.org.ai',
+
   // Web & Internet (canonical)
   IANA: 'iana.org.ai',
   W3C: 'w3.org.ai',
@@ -76,6 +84,7 @@ export const NAMESPACES = {
   Services: 'services.org.ai',
   Skills: 'skills.org.ai',
   Process: 'process.org.ai',
+  Tasks: 'tasks.org.ai',
 
   // Aggregation domains
   Web: 'web.org.ai',
@@ -83,7 +92,8 @@ export const NAMESPACES = {
   Logistics: 'logistics.org.ai',
   Business: 'business.org.ai',
   Manufacturing: 'manufacturing.org.ai',
-} as const
+  Retail: 'retail.org.ai',
+} as const satisfies Record<string, Domain>
 
 // Standard output columns
 export interface StandardRecord {
@@ -95,6 +105,7 @@ export interface StandardRecord {
   code: string            // Original code from source
   sameAs?: string         // Link to canonical source (for superset items)
   includedIn?: string     // Pipe-separated aggregation domains this belongs to
+  version?: string        // Edition of a versioned classification (e.g., '2022' for NAICS 2022), see vintages.ts
 }
 
 // Helper to build full $id URL
@@ -108,9 +119,9 @@ export function buildSameAs(canonicalNs: string, type: string, id: string): stri
 }
 
 // Type-to-domain mappings for aggregation
-export const TYPE_AGGREGATIONS: Record<string, string[]> = {
+export const TYPE_AGGREGATIONS: Record<string, Domain[]> = {
   // Process types
-  Process: ['business.org.ai', 'manufacturing.org.ai', 'process.org.ai'],
+  Process: ['business.org.ai', 'manufacturing.org.ai', 'healthcare.org.ai', 'finance.org.ai', 'retail.org.ai', 'logistics.org.ai', 'process.org.ai'],
   Category: ['business.org.ai', 'process.org.ai'],
   ProcessGroup: ['business.org.ai', 'process.org.ai'],
   Activity: ['business.org.ai', 'process.org.ai'],
@@ -120,7 +131,7 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   Sector: ['business.org.ai', 'industries.org.ai'],
 
   // Occupation types (ONET)
-  Occupation: ['business.org.ai', 'occupations.org.ai'],
+  Occupation: ['business.org.ai', 'manufacturing.org.ai', 'healthcare.org.ai', 'finance.org.ai', 'retail.org.ai', 'tech.org.ai', 'occupations.org.ai'],
   Skill: ['business.org.ai', 'skills.org.ai', 'education.org.ai'],
   Ability: ['business.org.ai', 'education.org.ai'],
   Knowledge: ['business.org.ai', 'education.org.ai'],
@@ -131,7 +142,7 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   Technology: ['business.org.ai', 'tech.org.ai'],
   JobZone: ['business.org.ai', 'education.org.ai'],
   AlternateTitle: ['business.org.ai', 'occupations.org.ai'],
-  Task: ['business.org.ai', 'process.org.ai'],
+  Task: ['business.org.ai', 'manufacturing.org.ai', 'tech.org.ai', 'tasks.org.ai'],
   ReportedTitle: ['business.org.ai', 'occupations.org.ai'],
   Tool: ['business.org.ai', 'manufacturing.org.ai'],
   DWA: ['business.org.ai', 'occupations.org.ai'],
@@ -145,18 +156,18 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   EmergingTask: ['business.org.ai', 'tech.org.ai'],
 
   // Product types
-  Product: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
-  Segment: ['business.org.ai', 'products.org.ai'],
-  Family: ['business.org.ai', 'products.org.ai'],
-  Class: ['business.org.ai', 'products.org.ai'],
+  Product: ['business.org.ai', 'manufacturing.org.ai', 'products.org.ai', 'retail.org.ai'],
+  Segment: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
+  Family: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
+  Class: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
   Commodity: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
-  Brick: ['business.org.ai', 'products.org.ai'],
+  Brick: ['business.org.ai', 'products.org.ai', 'retail.org.ai'],
   Group: ['business.org.ai', 'products.org.ai'],
   Subclass: ['business.org.ai', 'products.org.ai'],
   Detail: ['business.org.ai', 'products.org.ai'],
 
   // Service types
-  Service: ['business.org.ai', 'services.org.ai'],
+  Service: ['business.org.ai', 'retail.org.ai', 'healthcare.org.ai', 'finance.org.ai', 'services.org.ai'],
   ServiceCategory: ['business.org.ai', 'services.org.ai'],
   SkillCategory: ['business.org.ai', 'skills.org.ai', 'education.org.ai'],
   ProcessCategory: ['business.org.ai', 'process.org.ai'],
@@ -181,10 +192,16 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
 
   // Healthcare types
   Resource: ['healthcare.org.ai'],
+  DataType: ['healthcare.org.ai'],
   Code: ['healthcare.org.ai'],
+  Concept: ['healthcare.org.ai'],
+  Drug: ['healthcare.org.ai'],
 
   // Finance types
   Message: ['finance.org.ai'],
+  BusinessArea: ['finance.org.ai'],
+  RegistrationAuthority: ['finance.org.ai'],
+  MerchantCategoryCode: ['finance.org.ai', 'retail.org.ai'],
   Currency: ['finance.org.ai'],
 
   // Geography types
@@ -192,6 +209,8 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   Region: ['business.org.ai'],
   SubRegion: ['business.org.ai'],
   Subdivision: ['business.org.ai'],
+  State: ['business.org.ai'],
+  County: ['business.org.ai'],
   Timezone: ['business.org.ai', 'tech.org.ai'],
   Zone: ['business.org.ai', 'tech.org.ai'],
 
@@ -199,11 +218,16 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   Language: ['business.org.ai', 'education.org.ai'],
   CareerCluster: ['education.org.ai', 'business.org.ai'],
   SubCluster: ['education.org.ai', 'business.org.ai'],
+  Level: ['education.org.ai'],
+  Field: ['education.org.ai'],
+  Framework: ['education.org.ai'],
 
   // Web/Tech types
   Type: ['web.org.ai', 'tech.org.ai'],
   Property: ['web.org.ai', 'tech.org.ai'],
   Element: ['web.org.ai', 'tech.org.ai'],
+  Selector: ['web.org.ai', 'tech.org.ai'],
+  Role: ['web.org.ai'],
   Guideline: ['web.org.ai', 'tech.org.ai'],
   SuccessCriterion: ['web.org.ai', 'tech.org.ai'],
   Technique: ['web.org.ai', 'tech.org.ai'],
@@ -212,14 +236,14 @@ export const TYPE_AGGREGATIONS: Record<string, string[]> = {
   EnumerationMember: ['web.org.ai', 'tech.org.ai'],
 
   // EDI/Logistics types
-  TransactionSet: ['logistics.org.ai', 'edi.org.ai'],
+  TransactionSet: ['logistics.org.ai', 'business.org.ai', 'edi.org.ai'],
   Location: ['logistics.org.ai', 'business.org.ai'],
   DataElement: ['logistics.org.ai', 'edi.org.ai'],
   Document: ['logistics.org.ai', 'edi.org.ai'],
   BusinessProcess: ['logistics.org.ai', 'business.org.ai'],
   ParticipantScheme: ['logistics.org.ai', 'business.org.ai'],
   Codelist: ['logistics.org.ai', 'business.org.ai'],
-  EDIFACTMessage: ['logistics.org.ai', 'edi.org.ai'],
+  EDIFACTMessage: ['logistics.org.ai', 'business.org.ai', 'edi.org.ai'],
   EDIFACTCategory: ['logistics.org.ai', 'edi.org.ai'],
   SPSC: ['business.org.ai', 'products.org.ai'],
   StructureLevel: ['business.org.ai', 'products.org.ai'],
@@ -243,7 +267,8 @@ export interface RelationshipRecord {
   toNs: string
   toType: string
   toId: string
-  relationshipType?: string
+  relationshipType: string  // Registered in relationship-types.ts
+  properties?: Record<string, RelationshipPropertyValue | undefined>  // Declared per file in relationship-schemas.ts
 }
 
 /**
@@ -277,9 +302,25 @@ export function toWikipediaStyleId(str: string): string {
 }
 
 /**
- * Parse a TSV file into an array of objects
+ * Parse a TSV file into an array of objects.
+ * With a schema, headers are checked and normalized and values coerced (see schema.ts).
+ */
+export function parseTSV<S extends SourceSchema>(filePath: string, schema: S): SchemaRow<S>[]
+export function parseTSV<T = Record<string, string>>(filePath: string): T[]
+export function parseTSV(filePath: string, schema?: SourceSchema): unknown[] {
+  return readTSVRecords(filePath, schema, false)
+}
+
+/**
+ * Parse a TSV file written by writeTSV or createTSVWriter, reversing their
+ * backslash escapes (see escapeForTSV). Other files are read with parseTSV,
+ * which keeps backslashes as they are.
  */
-export function parseTSV<T = Record<string, string>>(filePath: string): T[] {
+export function parseDataTSV<T = Record<string, string>>(filePath: string): T[] {
+  return readTSVRecords(filePath, undefined, true) as T[]
+}
+
+function readTSVRecords(filePath: string, schema: SourceSchema | undefined, unescape: boolean): unknown[] {
   let content = readFileSync(filePath, 'utf-8')
 
   // Remove BOM if present
@@ -287,41 +328,133 @@ export function parseTSV<T = Record<string, string>>(filePath: string): T[] {
     content = content.substring(1)
   }
 
-  // Split into lines, but handle quoted fields with embedded newlines
-  const allLines: string[] = []
-  let currentLine = ''
-  let inQuotes = false
+  const splitter = createTSVLineSplitter()
+  const allLines = [...splitter.push(content), ...splitter.end()]
 
-  for (let i = 0; i < content.length; i++) {
-    const char = content[i]
-    const nextChar = content[i + 1]
+  if (allLines.length === 0 && !schema) return []
 
-    if (char === '"') {
-      inQuotes = !inQuotes
-      currentLine += char
-    } else if ((char === '\n' || char === '\r') && !inQuotes) {
-      if (currentLine.trim()) {
-        allLines.push(currentLine)
-      }
-      currentLine = ''
-      // Skip \r\n combinations
-      if (char === '\r' && nextChar === '\n') {
-        i++
+  const headers = allLines.length > 0 ? parseTSVHeaders(allLines[0]) : []
+  const mapRow = schema ? createRowMapper(schema, headers, filePath) : undefined
+  const records: unknown[] = []
+
+  for (let i = 1; i < allLines.length; i++) {
+    const record = parseTSVRecord<Record<string, string>>(headers, allLines[i], unescape)
+    records.push(mapRow ? mapRow(record, i) : record)
+  }
+
+  return records
+}
+
+/**
+ * Stream a TSV file as objects, one row at a time, without loading the whole file
+ */
+export function streamTSV<S extends SourceSchema>(filePath: string, schema: S): AsyncGenerator<SchemaRow<S>>
+export function streamTSV<T = Record<string, string>>(filePath: string): AsyncGenerator<T>
+export function streamTSV(filePath: string, schema?: SourceSchema): AsyncGenerator<unknown> {
+  return streamTSVRecords(filePath, schema, false)
+}
+
+/**
+ * Stream a TSV file written by writeTSV or createTSVWriter, reversing their
+ * backslash escapes like parseDataTSV
+ */
+export function streamDataTSV<T = Record<string, string>>(filePath: string): AsyncGenerator<T> {
+  return streamTSVRecords(filePath, undefined, true) as AsyncGenerator<T>
+}
+
+async function* streamTSVRecords(filePath: string, schema: SourceSchema | undefined, unescape: boolean): AsyncGenerator<unknown> {
+  const splitter = createTSVLineSplitter()
+  let headers: string[] | undefined
+  let mapRow: ((raw: Record<string, string>, rowNumber: number) => unknown) | undefined
+  let rowNumber = 0
+
+  const toRecords = function* (lines: string[]): Generator<unknown> {
+    for (const line of lines) {
+      if (!headers) {
+        headers = parseTSVHeaders(line)
+        mapRow = schema ? createRowMapper(schema, headers, filePath) : undefined
+      } else {
+        const record = parseTSVRecord<Record<string, string>>(headers, line, unescape)
+        rowNumber++
+        yield mapRow ? mapRow(record, rowNumber) : record
       }
-    } else {
-      currentLine += char
     }
   }
 
-  // Add the last line if not empty
-  if (currentLine.trim()) {
-    allLines.push(currentLine)
+  for await (const chunk of readTextChunks(filePath, 'utf-8')) {
+    yield* toRecords(splitter.push(chunk))
   }
+  yield* toRecords(splitter.end())
 
-  if (allLines.length === 0) return []
+  // A schema also rejects a file without a header row
+  if (!headers && schema) {
+    createRowMapper(schema, [], filePath)
+  }
+}
 
-  // Parse header row
-  const headers = parseTSVLine(allLines[0]).map(h => {
+/**
+ * Read a text file in decoded chunks, with any BOM removed
+ */
+async function* readTextChunks(filePath: string, encoding: BufferEncoding): AsyncGenerator<string> {
+  let first = true
+  for await (const chunk of createReadStream(filePath, { encoding })) {
+    let text = chunk as string
+    if (first) {
+      first = false
+      if (text.charCodeAt(0) === 0xFEFF) {
+        text = text.substring(1)
+      }
+    }
+    yield text
+  }
+}
+
+/**
+ * Split TSV content into non-blank lines, keeping quoted fields with embedded newlines
+ * together. Content can be pushed in chunks; end() flushes the last line.
+ */
+function createTSVLineSplitter(): { push(chunk: string): string[]; end(): string[] } {
+  let currentLine = ''
+  let inQuotes = false
+
+  return {
+    push(chunk: string): string[] {
+      const lines: string[] = []
+
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i]
+
+        if (char === '"') {
+          inQuotes = !inQuotes
+          currentLine += char
+        } else if ((char === '\n' || char === '\r') && !inQuotes) {
+          // \r\n leaves an empty line behind, which is skipped like any blank line
+          if (currentLine.trim()) {
+            lines.push(currentLine)
+          }
+          currentLine = ''
+        } else {
+          currentLine += char
+        }
+      }
+
+      return lines
+    },
+
+    end(): string[] {
+      // Add the last line if not empty
+      const lines = currentLine.trim() ? [currentLine] : []
+      currentLine = ''
+      return lines
+    },
+  }
+}
+
+/**
+ * Parse the header row of a TSV file
+ */
+function parseTSVHeaders(line: string): string[] {
+  return parseTSVLine(line).map(h => {
     // Trim and remove surrounding quotes if present
     let header = h.trim()
     // Remove BOM character if present anywhere in the header (some files have it inside quotes)
@@ -338,29 +471,26 @@ export function parseTSV<T = Record<string, string>>(filePath: string): T[] {
     }
     return header.trim()
   })
+}
 
-  const records: T[] = []
-
-  for (let i = 1; i < allLines.length; i++) {
-    const values = parseTSVLine(allLines[i])
-    const record: Record<string, string> = {}
-
-    for (let j = 0; j < headers.length; j++) {
-      let value = values[j] || ''
-      // Remove surrounding quotes if present
-      value = value.trim()
-      if (value.startsWith('"') && value.endsWith('"')) {
-        value = value.substring(1, value.length - 1)
-        // Unescape any escaped quotes
-        value = value.replace(/""/g, '"')
-      }
-      record[headers[j]] = value
+/**
+ * Parse a TSV data row into an object keyed by headers
+ */
+function parseTSVRecord<T>(headers: string[], line: string, unescape: boolean): T {
+  const values = parseTSVLine(line)
+  const record: Record<string, string> = {}
+
+  for (let j = 0; j < headers.length; j++) {
+    let value = values[j] || ''
+    // Remove surrounding quotes if present (doubled quotes were already unescaped by parseTSVLine)
+    value = value.trim()
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.substring(1, value.length - 1)
     }
-
-    records.push(record as T)
+    record[headers[j]] = unescape ? unescapeTSV(value) : value
   }
 
-  return records
+  return record as T
 }
 
 /**
@@ -399,55 +529,397 @@ function parseTSVLine(line: string): string[] {
 }
 
 /**
- * Parse a CSV file into an array of objects
+ * Options for reading delimited text (RFC 4180 CSV by default)
+ */
+export interface CSVOptions {
+  delimiter?: string          // Field separator (default ',')
+  quote?: string              // Quote character (default '"'); doubled inside a quoted field to escape it
+  encoding?: BufferEncoding   // File encoding (default 'utf-8'; UN LOCODE ships in 'latin1')
+  trim?: boolean              // Trim surrounding whitespace from unquoted values (default true)
+}
+
+/**
+ * A malformed row found while reading a CSV file
  */
-export function parseCSV<T = Record<string, string>>(filePath: string): T[] {
-  const content = readFileSync(filePath, 'utf-8')
-  const lines = content.split('\n').filter(line => line.trim())
+export interface CSVRowError {
+  line: number     // 1-based line where the row starts
+  message: string
+}
 
-  if (lines.length === 0) return []
+export interface CSVParseResult<T> {
+  headers: string[]
+  records: T[]
+  errors: CSVRowError[]
+}
 
-  // Simple CSV parsing (doesn't handle quoted commas perfectly)
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = []
-    let current = ''
-    let inQuotes = false
+type CSVRow = { line: number; fields: string[] }
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i]
+/**
+ * Split CSV content into rows of fields following RFC 4180:
+ * - fields are separated by the delimiter and rows by CRLF or LF
+ * - quoted fields may contain delimiters, line breaks and doubled quotes
+ * Rows that consist only of whitespace are skipped.
+ */
+export function tokenizeCSV(content: string, options: CSVOptions = {}): { rows: CSVRow[]; errors: CSVRowError[] } {
+  const tokenizer = createCSVTokenizer(options)
+  const pushed = tokenizer.push(content)
+  const ended = tokenizer.end()
+  return { rows: [...pushed.rows, ...ended.rows], errors: [...pushed.errors, ...ended.errors] }
+}
 
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim())
-        current = ''
+/**
+ * Incremental CSV tokenizer. Content can be pushed in chunks of any size; each call
+ * returns the rows and errors completed so far, and end() flushes the last row.
+ */
+function createCSVTokenizer(options: CSVOptions): {
+  push(chunk: string): { rows: CSVRow[]; errors: CSVRowError[] }
+  end(): { rows: CSVRow[]; errors: CSVRowError[] }
+} {
+  const delimiter = options.delimiter ?? ','
+  const quote = options.quote ?? '"'
+  const trim = options.trim ?? true
+
+  let rows: CSVRow[] = []
+  let errors: CSVRowError[] = []
+
+  let fields: string[] = []
+  let field = ''
+  let quoted = false      // current field started with a quote
+  let inQuotes = false    // currently inside the quoted section
+  let line = 1
+  let rowLine = 1
+  let pending = ''        // trailing character whose meaning depends on the next chunk
+
+  const endField = (): void => {
+    fields.push(quoted || !trim ? field : field.trim())
+    field = ''
+    quoted = false
+  }
+
+  const endRow = (): void => {
+    endField()
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields })
+    }
+    fields = []
+  }
+
+  const consume = (content: string, final: boolean): void => {
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]
+
+      // A closing quote or \r needs a look at the next character
+      if (!final && i === content.length - 1 && (char === '\r' || (inQuotes && char === quote))) {
+        pending = char
+        return
+      }
+
+      if (inQuotes) {
+        if (char === quote) {
+          if (content[i + 1] === quote) {
+            field += quote
+            i++
+          } else {
+            inQuotes = false
+          }
+        } else {
+          if (char === '\n') line++
+          field += char
+        }
+        continue
+      }
+
+      if (char === quote) {
+        if (!quoted && field.trim() === '') {
+          field = ''
+          quoted = true
+          inQuotes = true
+        } else {
+          errors.push({ line, message: `Unexpected quote in field ${fields.length + 1}` })
+          field += char
+        }
+      } else if (char === delimiter) {
+        endField()
+      } else if (char === '\n' || char === '\r') {
+        endRow()
+        if (char === '\r' && content[i + 1] === '\n') i++
+        line++
+        rowLine = line
       } else {
-        current += char
+        if (quoted && !(trim && /\s/.test(char))) {
+          errors.push({ line, message: `Unexpected text after closing quote in field ${fields.length + 1}` })
+          quoted = false
+        }
+        if (!quoted) field += char
       }
     }
-    result.push(current.trim())
+  }
+
+  const drain = (): { rows: CSVRow[]; errors: CSVRowError[] } => {
+    const result = { rows, errors }
+    rows = []
+    errors = []
     return result
   }
 
-  const headers = parseCSVLine(lines[0])
-  const records: T[] = []
+  return {
+    push(chunk: string) {
+      const content = pending + chunk
+      pending = ''
+      consume(content, false)
+      return drain()
+    },
+
+    end() {
+      const content = pending
+      pending = ''
+      consume(content, true)
+
+      if (inQuotes) {
+        errors.push({ line: rowLine, message: 'Unterminated quoted field' })
+      }
+      if (field !== '' || fields.length > 0 || quoted) {
+        endRow()
+      }
+      return drain()
+    },
+  }
+}
+
+/**
+ * Map a tokenized row to an object keyed by headers, reporting a wrong field count
+ */
+function toCSVRecord<T>(headers: string[], row: CSVRow, errors: CSVRowError[]): T {
+  if (row.fields.length !== headers.length) {
+    errors.push({ line: row.line, message: `Expected ${headers.length} fields but found ${row.fields.length}` })
+  }
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i])
-    const record: Record<string, string> = {}
+  const record: Record<string, string> = {}
+  for (let j = 0; j < headers.length; j++) {
+    record[headers[j]] = row.fields[j] ?? ''
+  }
+  return record as T
+}
 
-    for (let j = 0; j < headers.length; j++) {
-      record[headers[j]] = (values[j] || '').trim()
+/**
+ * Read a CSV file into objects keyed by the header row, reporting malformed rows
+ */
+export function readCSV<T = Record<string, string>>(filePath: string, options: CSVOptions = {}): CSVParseResult<T> {
+  let content = readFileSync(filePath).toString(options.encoding ?? 'utf-8')
+
+  // Remove BOM if present
+  if (content.charCodeAt(0) === 0xFEFF) {
+    content = content.substring(1)
+  }
+
+  const { rows, errors } = tokenizeCSV(content, options)
+  if (rows.length === 0) return { headers: [], records: [], errors }
+
+  const headers = rows[0].fields.map(h => h.trim())
+  const records = rows.slice(1).map(row => toCSVRecord<T>(headers, row, errors))
+
+  errors.sort((a, b) => a.line - b.line)
+  return { headers, records, errors }
+}
+
+/**
+ * Parse a CSV file into an array of objects, logging any malformed rows.
+ * With a schema, headers are checked and normalized and values coerced (see schema.ts).
+ */
+export function parseCSV<S extends SourceSchema>(filePath: string, options: CSVOptions, schema: S): SchemaRow<S>[]
+export function parseCSV<T = Record<string, string>>(filePath: string, options?: CSVOptions): T[]
+export function parseCSV(filePath: string, options: CSVOptions = {}, schema?: SourceSchema): unknown[] {
+  const { headers, records, errors } = readCSV(filePath, options)
+  logCSVErrors(filePath, errors)
+
+  if (!schema) return records
+  const mapRow = createRowMapper(schema, headers, filePath)
+  return records.map((record, i) => mapRow(record, i + 1))
+}
+
+/**
+ * Stream a CSV file as objects, one row at a time, without loading the whole file.
+ * Malformed rows are logged once the file has been read, as with parseCSV.
+ */
+export function streamCSV<S extends SourceSchema>(filePath: string, options: CSVOptions, schema: S): AsyncGenerator<SchemaRow<S>>
+export function streamCSV<T = Record<string, string>>(filePath: string, options?: CSVOptions): AsyncGenerator<T>
+export async function* streamCSV(filePath: string, options: CSVOptions = {}, schema?: SourceSchema): AsyncGenerator<unknown> {
+  const tokenizer = createCSVTokenizer(options)
+  const errors: CSVRowError[] = []
+  let headers: string[] | undefined
+  let mapRow: ((raw: Record<string, string>, rowNumber: number) => unknown) | undefined
+  let rowNumber = 0
+
+  const toRecords = function* (result: { rows: CSVRow[]; errors: CSVRowError[] }): Generator<unknown> {
+    errors.push(...result.errors)
+    for (const row of result.rows) {
+      if (!headers) {
+        headers = row.fields.map(h => h.trim())
+        mapRow = schema ? createRowMapper(schema, headers, filePath) : undefined
+      } else {
+        const record = toCSVRecord<Record<string, string>>(headers, row, errors)
+        rowNumber++
+        yield mapRow ? mapRow(record, rowNumber) : record
+      }
     }
+  }
 
-    records.push(record as T)
+  for await (const chunk of readTextChunks(filePath, options.encoding ?? 'utf-8')) {
+    yield* toRecords(tokenizer.push(chunk))
   }
+  yield* toRecords(tokenizer.end())
 
-  return records
+  logCSVErrors(filePath, errors.sort((a, b) => a.line - b.line))
+
+  // A schema also rejects a file without a header row
+  if (!headers && schema) {
+    createRowMapper(schema, [], filePath)
+  }
+}
+
+function logCSVErrors(filePath: string, errors: CSVRowError[]): void {
+  if (errors.length === 0) return
+
+  console.log(`Warning: ${errors.length} malformed rows in ${filePath}`)
+  for (const error of errors.slice(0, 10)) {
+    console.log(`  line ${error.line}: ${error.message}`)
+  }
+  if (errors.length > 10) {
+    console.log(`  ... and ${errors.length - 10} more`)
+  }
 }
 
 /**
- * Write records to a TSV file
+ * A record whose (ns, type, id) was already used earlier in the same output file
+ */
+export interface IdCollision {
+  ns: string
+  type: string
+  collidingId: string   // The id both records produced
+  assignedId: string    // The disambiguated id given to the later record
+  code: string
+  name: string
+  keptCode: string      // Code of the earlier record, which keeps the plain id
+}
+
+/**
+ * Detects duplicate (ns, type, id) triples in an output file and disambiguates them.
+ *
+ * Disambiguation rule: the first record keeps its id. Each later record with the
+ * same id gets the Wikipedia-style suffix `_(code)`, e.g. `Other_(0101290010)`. If
+ * that is also taken, or the record has no code, `_(2)`, `_(3)`, ... is appended
+ * instead. Records are seen in output order, so the result is the same on every run.
+ *
+ * The writers apply the rule as a last resort. A transform that builds relationships
+ * from its entity ids calls disambiguateIds first, so its edges use the final ids.
+ */
+export function createIdDisambiguator(): {
+  apply<T extends IdFields>(record: T): T
+  collisions: IdCollision[]
+} {
+  const used = new Map<string, string>()   // ns, type and id -> code of the record holding it
+  const collisions: IdCollision[] = []
+
+  return {
+    collisions,
+
+    apply(record) {
+      const ns = record.ns || ''
+      const type = record.type || ''
+      const id = record.id || ''
+      const code = record.code || ''
+
+      const holder = used.get(entityKey(ns, type, id))
+      if (holder === undefined) {
+        used.set(entityKey(ns, type, id), code)
+        // Renamed by disambiguateIds before the file was written
+        const resolved = resolvedIds.get(entityKey(ns, type, id))
+        if (resolved) collisions.push(resolved)
+        return record
+      }
+
+      let assignedId = code ? `${id}_(${toWikipediaStyleId(code)})` : ''
+      if (!assignedId || used.has(entityKey(ns, type, assignedId))) {
+        const base = assignedId || id
+        let n = 2
+        while (used.has(entityKey(ns, type, `${base}_(${n})`))) n++
+        assignedId = `${base}_(${n})`
+      }
+
+      used.set(entityKey(ns, type, assignedId), code)
+      collisions.push({ ns, type, collidingId: id, assignedId, code, name: record.name || '', keptCode: holder })
+      return { ...record, id: assignedId }
+    },
+  }
+}
+
+interface IdFields {
+  ns?: string
+  type?: string
+  id?: string
+  code?: string
+  name?: string
+}
+
+// Collisions resolved by disambiguateIds, keyed by ns, type and assigned id
+const resolvedIds = new Map<string, IdCollision>()
+// Ids a writer had to rename, whose relationships cannot tell the records apart
+const renamedOnWrite = new Set<string>()
+
+/**
+ * Give records unique (ns, type, id) triples with the rule of createIdDisambiguator,
+ * before building relationships from their ids. Writing the records afterwards
+ * still reports the collisions for the output file.
+ */
+export function disambiguateIds<T extends IdFields>(records: T[]): T[] {
+  const ids = createIdDisambiguator()
+  const unique = records.map(record => ids.apply(record))
+  for (const collision of ids.collisions) {
+    resolvedIds.set(entityKey(collision.ns, collision.type, collision.assignedId), collision)
+  }
+  return unique
+}
+
+// Outputs keyed by ns, type and id get duplicate ids disambiguated
+function hasEntityColumns(cols: string[]): boolean {
+  return cols.includes('ns') && cols.includes('type') && cols.includes('id')
+}
+
+/**
+ * Write the collision report for an output file to .build/collisions next to its
+ * data root, or remove a stale one if the file no longer has collisions
+ */
+function reportIdCollisions(filePath: string, collisions: IdCollision[]): void {
+  const reportPath = join(getCollisionsPath(filePath), basename(filePath))
+
+  if (collisions.length === 0) {
+    rmSync(reportPath, { force: true })
+    return
+  }
+
+  const renamed = collisions.filter(c => resolvedIds.get(entityKey(c.ns, c.type, c.assignedId)) !== c)
+  for (const collision of renamed) {
+    renamedOnWrite.add(entityKey(collision.ns, collision.type, collision.collidingId))
+  }
+
+  console.log(`Warning: ${collisions.length} duplicate ids in ${filePath} were disambiguated (see ${reportPath})`)
+  writeTSV(reportPath, collisions as unknown as Record<string, string>[], [
+    'ns', 'type', 'collidingId', 'assignedId', 'code', 'name', 'keptCode'
+  ])
+}
+
+/**
+ * Warn about relationships pointing at an id that a writer had to rename: they may
+ * belong to the renamed record instead
+ */
+function reportAmbiguousEdges(filePath: string, count: number): void {
+  if (count === 0) return
+  console.log(`Warning: ${count} relationships in ${filePath} point at ids renamed on write; disambiguate the ids with disambiguateIds before building relationships`)
+}
+
+/**
+ * Write records to a TSV file.
+ * Records with ns, type and id columns are checked for duplicate ids (see createIdDisambiguator).
  */
 export function writeTSV(filePath: string, records: Record<string, string | undefined>[], headers?: string[]): void {
   if (records.length === 0) {
@@ -463,24 +935,30 @@ export function writeTSV(filePath: string, records: Record<string, string | unde
 
   // Use provided headers or infer from first record
   const cols = headers || Object.keys(records[0])
+  const ids = hasEntityColumns(cols) ? createIdDisambiguator() : undefined
 
   const lines = [
     cols.join('\t'),
-    ...records.map(record =>
-      cols.map(col => escapeForTSV(record[col] || '')).join('\t')
-    )
+    ...records.map(record => {
+      const row = ids ? ids.apply(record) : record
+      return cols.map(col => escapeForTSV(row[col] || '')).join('\t')
+    })
   ]
 
   writeFileSync(filePath, lines.join('\n'), 'utf-8')
   console.log(`Wrote ${records.length} records to ${filePath}`)
+
+  if (ids) {
+    reportIdCollisions(filePath, ids.collisions)
+  }
 }
 
-/**
- * Write standard records (with ns, type, id, name, description, code, sameAs, includedIn)
- */
-export function writeStandardTSV(filePath: string, records: StandardRecord[]): void {
-  // Convert records to include optional fields as empty strings
-  const normalizedRecords = records.map(r => ({
+export const STANDARD_HEADERS = ['ns', 'type', 'id', 'name', 'description', 'code', 'sameAs', 'includedIn', 'version']
+export { RELATIONSHIP_HEADERS }
+
+// Convert records to include optional fields as empty strings
+function toStandardRow(r: StandardRecord): Record<string, string> {
+  return {
     ns: r.ns,
     type: r.type,
     id: r.id,
@@ -489,38 +967,248 @@ export function writeStandardTSV(filePath: string, records: StandardRecord[]): v
     code: r.code,
     sameAs: r.sameAs || '',
     includedIn: r.includedIn || '',
-  }))
-  writeTSV(filePath, normalizedRecords, ['ns', 'type', 'id', 'name', 'description', 'code', 'sameAs', 'includedIn'])
+    version: r.version || '',
+  }
+}
+
+/**
+ * Write standard records (with ns, type, id, name, description, code, sameAs, includedIn, version)
+ */
+export function writeStandardTSV(filePath: string, records: StandardRecord[]): void {
+  writeTSV(filePath, records.map(toStandardRow), STANDARD_HEADERS)
+}
+
+/**
+ * Convert relationship records to rows with the file's declared property columns,
+ * rejecting unregistered relationship types and undeclared, missing or mistyped
+ * property values
+ */
+function createRelationshipRowMapper(filePath: string): {
+  headers: string[]
+  toRow(r: RelationshipRecord, rowNumber: number): Record<string, string>
+  readonly ambiguous: number
+} {
+  const declared = getRelationshipProperties(filePath)
+  const properties = Object.entries(declared)
+  let ambiguous = 0
+
+  return {
+    headers: [...RELATIONSHIP_HEADERS, ...properties.map(([name]) => name)],
+    get ambiguous() {
+      return ambiguous
+    },
+    toRow(r, rowNumber) {
+      const row: Record<string, string> = {
+        fromNs: r.fromNs,
+        fromType: r.fromType,
+        fromId: r.fromId,
+        toNs: r.toNs,
+        toType: r.toType,
+        toId: r.toId,
+        relationshipType: r.relationshipType,
+      }
+
+      const problem = checkRelationshipType(r.relationshipType, r.fromType, r.toType)
+      if (problem) {
+        throw new Error(`${filePath}: ${problem} in row ${rowNumber}`)
+      }
+      if (renamedOnWrite.has(entityKey(r.fromNs, r.fromType, r.fromId)) || renamedOnWrite.has(entityKey(r.toNs, r.toType, r.toId))) {
+        ambiguous++
+      }
+
+      for (const name of Object.keys(r.properties || {})) {
+        if (!(name in declared)) {
+          throw new Error(`${filePath}: undeclared property ${name} in row ${rowNumber} (declare it in relationship-schemas.ts)`)
+        }
+      }
+      for (const [name, spec] of properties) {
+        try {
+          row[name] = formatPropertyValue(r.properties?.[name], spec)
+        } catch (e) {
+          throw new Error(`${filePath}: ${(e as Error).message} in property ${name} of row ${rowNumber}`)
+        }
+      }
+      return row
+    },
+  }
 }
 
 /**
  * Write relationship records
  */
 export function writeRelationshipTSV(filePath: string, records: RelationshipRecord[]): void {
-  writeTSV(filePath, records as unknown as Record<string, string>[], [
-    'fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType'
-  ])
+  const mapper = createRelationshipRowMapper(filePath)
+  writeTSV(filePath, records.map((r, i) => mapper.toRow(r, i + 1)), mapper.headers)
+  reportAmbiguousEdges(filePath, mapper.ambiguous)
 }
 
 /**
- * Escape a value for TSV (replace tabs and newlines)
+ * Incremental TSV writer for outputs too large to hold in memory.
+ * Produces the same file as writeTSV given the same records in the same order.
  */
-function escapeForTSV(value: string): string {
-  return value
-    .replace(/\t/g, ' ')
-    .replace(/\n/g, ' ')
-    .replace(/\r/g, '')
+export interface TSVWriter<T> {
+  write(record: T): Promise<void>
+  close(): Promise<void>
+  readonly count: number
 }
 
 /**
- * Clean and normalize description text
+ * Open a TSV writer. Rows go to `<file>.tmp`, created on the first write, which
+ * replaces the file only when the writer is closed, so a transform that fails
+ * midway never leaves a truncated file behind. Closing a writer that received
+ * no records skips the file, like writeTSV.
+ */
+export function createTSVWriter(filePath: string, headers?: string[]): TSVWriter<Record<string, string | undefined>> {
+  const tmpPath = `${filePath}.tmp`
+  let stream: WriteStream | undefined
+  let failure: Error | undefined
+  let cols = headers
+  let ids: ReturnType<typeof createIdDisambiguator> | undefined
+  let count = 0
+
+  return {
+    get count() {
+      return count
+    },
+
+    async write(record) {
+      if (failure) throw failure
+
+      let chunk: string
+      if (!stream) {
+        // Ensure directory exists
+        const dir = dirname(filePath)
+        if (!existsSync(dir)) {
+          mkdirSync(dir, { recursive: true })
+        }
+        stream = createWriteStream(tmpPath, { encoding: 'utf-8' })
+        stream.on('error', e => { failure = e })
+        cols = cols || Object.keys(record)
+        ids = hasEntityColumns(cols) ? createIdDisambiguator() : undefined
+        chunk = cols.join('\t')
+      } else {
+        chunk = ''
+      }
+
+      const row = ids ? ids.apply(record) : record
+      chunk += '\n' + cols!.map(col => escapeForTSV(row[col] || '')).join('\t')
+      count++
+
+      // Wait for the stream to drain so buffered output stays bounded
+      if (!stream.write(chunk)) {
+        await once(stream, 'drain')
+      }
+    },
+
+    async close() {
+      if (!stream) {
+        console.log(`Skipping ${filePath} - no records`)
+        return
+      }
+      if (failure) throw failure
+      stream.end()
+      await once(stream, 'finish')
+      renameSync(tmpPath, filePath)
+      console.log(`Wrote ${count} records to ${filePath}`)
+
+      if (ids) {
+        reportIdCollisions(filePath, ids.collisions)
+      }
+    },
+  }
+}
+
+/**
+ * Open an incremental writer for standard records
+ */
+export function createStandardTSVWriter(filePath: string): TSVWriter<StandardRecord> {
+  const writer = createTSVWriter(filePath, STANDARD_HEADERS)
+  return {
+    get count() {
+      return writer.count
+    },
+    write: record => writer.write(toStandardRow(record)),
+    close: () => writer.close(),
+  }
+}
+
+/**
+ * Open an incremental writer for relationship records
+ */
+export function createRelationshipTSVWriter(filePath: string): TSVWriter<RelationshipRecord> {
+  const mapper = createRelationshipRowMapper(filePath)
+  const writer = createTSVWriter(filePath, mapper.headers)
+  return {
+    get count() {
+      return writer.count
+    },
+    write: async record => writer.write(mapper.toRow(record, writer.count + 1)),
+    async close() {
+      await writer.close()
+      reportAmbiguousEdges(filePath, mapper.ambiguous)
+    },
+  }
+}
+
+/**
+ * Stream the records of a .data file through a function that may change them.
+ * With fix, the changed records are written back to the file, which createTSVWriter
+ * replaces only once every record has been read.
+ */
+export async function rewriteDataTSV(
+  filePath: string,
+  update: (record: Record<string, string>) => void,
+  fix: boolean = false
+): Promise<void> {
+  const writer = fix ? createTSVWriter(filePath) : undefined
+  for await (const record of streamDataTSV(filePath)) {
+    update(record)
+    await writer?.write(record)
+  }
+  await writer?.close()
+}
+
+const TSV_ESCAPES: Record<string, string> = { '\\': '\\\\', '\t': '\\t', '\n': '\\n', '\r': '\\r' }
+const TSV_UNESCAPES: Record<string, string> = { '\\': '\\', t: '\t', n: '\n', r: '\r' }
+
+/**
+ * Escape a value for TSV so that parseDataTSV reads back exactly the same string.
+ *
+ * Escaping convention for files written by writeTSV:
+ * - backslash, tab, newline and carriage return are written as \\, \t, \n and \r
+ * - values containing a double quote, or with leading or trailing whitespace, are
+ *   wrapped in double quotes with embedded quotes doubled ("5"" pipe")
+ */
+export function escapeForTSV(value: string): string {
+  const escaped = value.replace(/[\\\t\n\r]/g, char => TSV_ESCAPES[char])
+  if (escaped.includes('"') || escaped !== escaped.trim()) {
+    return `"${escaped.replace(/"/g, '""')}"`
+  }
+  return escaped
+}
+
+/**
+ * Reverse the backslash escapes of escapeForTSV. Backslashes not followed by
+ * one of the escape letters are kept as they are.
+ */
+export function unescapeTSV(value: string): string {
+  if (!value.includes('\\')) return value
+  return value.replace(/\\([\\tnr])/g, (_, char: string) => TSV_UNESCAPES[char])
+}
+
+/**
+ * Clean and normalize description text.
+ * Whitespace within a paragraph collapses to single spaces; paragraphs separated by
+ * blank lines stay separated by one blank line.
  */
 export function cleanDescription(text: string | undefined): string {
   if (!text) return ''
   return text
-    .replace(/\s+/g, ' ')
-    .replace(/[\t\n\r]/g, ' ')
-    .trim()
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n')
 }
 
 /**
@@ -537,6 +1225,20 @@ export function getDataPath(): string {
   return join(process.cwd(), '.data')
 }
 
+/**
+ * Get the directory for the id collision reports of an output file (see
+ * createIdDisambiguator): .build/collisions next to the .data directory holding
+ * the file, or next to the file itself outside of a .data directory
+ */
+export function getCollisionsPath(filePath: string): string {
+  let dir = dirname(filePath)
+  while (basename(dir) !== '.data' && dirname(dir) !== dir) {
+    dir = dirname(dir)
+  }
+  const root = basename(dir) === '.data' ? dirname(dir) : dirname(filePath)
+  return join(root, '.build', 'collisions')
+}
+
 /**
  * Get the relationships output directory path
  */
@@ -558,3 +1260,53 @@ export function ensureOutputDirs(): void {
     mkdirSync(relPath, { recursive: true })
   }
 }
+
+/**
+ * List the .tsv files of a directory in name order, or none when it does not exist
+ */
+export function listDataFiles(dir: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir).filter(f => f.endsWith('.tsv')).sort()
+}
+
+/**
+ * Key an entity by ns, type and id (or another value unique within the type, such as a code)
+ */
+export function entityKey(ns: string, type: string, value: string): string {
+  return `${ns}\t${type}\t${value}`
+}
+
+export interface EntityScanOptions {
+  files?: (file: string) => boolean                                  // entity files to read, all by default
+  onDuplicate?: (record: Record<string, string>, file: string) => void
+}
+
+/**
+ * Stream the entities of every entity file in a data directory, with the file each
+ * comes from. Files without ns, type and id columns (such as the Graph.* indexes)
+ * are skipped. An entity written by several files is yielded once, from the first
+ * file in name order; later copies go to onDuplicate.
+ */
+export async function* streamEntities(
+  dataDir: string = getDataPath(),
+  options: EntityScanOptions = {}
+): AsyncGenerator<{ file: string; record: Record<string, string> }> {
+  const seen = new Set<string>()
+
+  for (const file of listDataFiles(dataDir)) {
+    if (options.files && !options.files(file)) continue
+
+    for await (const record of streamDataTSV(join(dataDir, file))) {
+      if (!('ns' in record && 'type' in record && 'id' in record)) break
+      if (!record.ns || !record.type || !record.id) continue
+
+      const key = entityKey(record.ns, record.type, record.id)
+      if (seen.has(key)) {
+        options.onDuplicate?.(record, file)
+        continue
+      }
+      seen.add(key)
+      yield { file, record }
+    }
+  }
+}
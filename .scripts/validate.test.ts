@@ -3,7 +3,9 @@
  *
  * Validates that all generated .data files comply with the expected format:
  * - Entity files: ns, type, id, name, description, code columns
- * - Relationship files: fromNs, fromType, fromId, toNs, toType, toId, relationshipType columns
+ * - Relationship files: fromNs, fromType, fromId, toNs, toType, toId, relationshipType columns,
+ *   followed by the property columns declared in relationship-schemas.ts
+ * - Relationship types are registered in relationship-types.ts
  * - IDs follow Wikipedia-style naming (Title_Case_With_Underscores)
  * - Namespaces are valid
  * - No empty required fields
@@ -13,6 +15,8 @@ import { describe, it, expect, beforeAll } from 'bun:test'
 import { readdirSync, readFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import { NAMESPACES } from './utils'
+import { getRelationshipProperties, isValidPropertyText } from './relationship-schemas'
+import { checkRelationshipType } from './relationship-types'
 
 const DATA_DIR = join(process.cwd(), '.data')
 const REL_DIR = join(DATA_DIR, 'relationships')
@@ -392,6 +396,54 @@ describe('Relationship File Format Validation', () => {
           throw new Error(`Rows with inconsistent column count: ${inconsistentRows.slice(0, 5).join(', ')}`)
         }
       })
+
+      it('should use registered relationship types', () => {
+        if (isLFS) return
+        if (parsed.rows.length === 0) return
+
+        const typeIndex = parsed.headers.indexOf('relationshipType')
+        if (typeIndex < 0) return
+        const fromTypeIndex = parsed.headers.indexOf('fromType')
+        const toTypeIndex = parsed.headers.indexOf('toType')
+
+        const problems = new Set<string>()
+        for (const row of parsed.rows) {
+          const problem = checkRelationshipType(row[typeIndex], row[fromTypeIndex], row[toTypeIndex])
+          if (problem) problems.add(problem)
+          if (problems.size >= 10) break
+        }
+
+        if (problems.size > 0) {
+          throw new Error(`Relationship type problems: ${[...problems].slice(0, 5).join(', ')}`)
+        }
+      })
+
+      it('should have the declared property columns with valid values', () => {
+        if (isLFS) return
+        if (parsed.rows.length === 0) return
+
+        // Files with fromCode/toCode endpoints predate property schemas
+        if (RELATIONSHIP_COLUMNS.some((col, i) => parsed.headers[i] !== col)) return
+
+        const properties = Object.entries(getRelationshipProperties(fileName))
+        const extraColumns = parsed.headers.slice(RELATIONSHIP_COLUMNS.length)
+        expect(extraColumns).toEqual(properties.map(([name]) => name))
+
+        const invalidValues: string[] = []
+        for (let i = 0; i < parsed.rows.length; i++) {
+          for (const [name, spec] of properties) {
+            const value = parsed.rows[i][parsed.headers.indexOf(name)] ?? ''
+            if (!isValidPropertyText(value, spec)) {
+              invalidValues.push(`row ${i + 2}: ${name} "${value}" is not a valid ${spec.type}`)
+            }
+          }
+          if (invalidValues.length >= 10) break
+        }
+
+        if (invalidValues.length > 0) {
+          throw new Error(`Invalid property values: ${invalidValues.slice(0, 5).join(', ')}`)
+        }
+      })
     })
   }
 })
@@ -8,26 +8,10 @@
 
 import { readdir, readFile } from 'fs/promises'
 import { join } from 'path'
+import { ownedDomains } from './domains'
 
-// Domains we own
-const OWNED_DOMAINS = new Set([
-  'standards.org.ai',
-  'us.org.ai',
-  // UN/International
-  'un.org.ai',
-  // Industry standards orgs
-  'gs1.org.ai',
-  'onet.org.ai',
-  'naics.org.ai',
-  'iso.org.ai',
-  'iana.org.ai',
-  // W3C
-  'w3.org.ai',
-  // Specific standards we own
-  'schema.org.ai',
-  'apqc.org.ai',
-  // Add more owned domains here as needed
-])
+// Domains we own, from the registry in domains.ts
+const OWNED_DOMAINS = new Set<string>(ownedDomains())
 
 // Domains we DON'T own - should be changed to us.org.ai or standards.org.ai
 const KNOWN_UNOWNED: Record<string, string> = {
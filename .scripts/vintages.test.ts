@@ -0,0 +1,53 @@
+/**
+ * Unit tests for vintages.ts
+ * Run with: bun test .scripts/vintages.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { currentEdition, versionedFile, versionedId, findEditions } from './vintages'
+
+describe('versionedFile and versionedId', () => {
+  const edition2017 = { version: '2017', current: false }
+
+  test('suffix files and ids of other editions with their version', () => {
+    expect(versionedFile('NAICS.Industries.tsv', edition2017)).toBe('NAICS.Industries.2017.tsv')
+    expect(versionedId('Soybean_Farming', edition2017)).toBe('Soybean_Farming_(2017)')
+    expect(versionedId('', edition2017)).toBe('')
+  })
+
+  test('leave the current edition unversioned', () => {
+    expect(versionedFile('NAICS.Industries.tsv', currentEdition('NAICS'))).toBe('NAICS.Industries.tsv')
+    expect(versionedId('Soybean_Farming', currentEdition('NAICS'))).toBe('Soybean_Farming')
+  })
+})
+
+describe('findEditions', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'vintages-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('finds versioned source files next to the current one, oldest first', () => {
+    for (const file of ['NAICS.Industries.tsv', 'NAICS.Industries.2017.tsv', 'NAICS.Industries.2012.tsv', 'NAICS.Industries.2022.tsv', 'NAICS.Industries.draft 2027.tsv', 'NAICS.Descriptions.2017.tsv']) {
+      writeFileSync(join(dir, file), '')
+    }
+
+    expect(findEditions(dir, 'NAICS.Industries.tsv', 'NAICS')).toEqual([
+      { version: '2022', current: true },
+      { version: '2012', current: false },
+      { version: '2017', current: false },
+    ])
+  })
+
+  test('returns only the current edition when the directory is missing', () => {
+    expect(findEditions(join(dir, 'missing'), 'UNSPSC.Codes.tsv', 'UNSPSC')).toEqual([{ version: 'v26', current: true }])
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Classification vintages
+ *
+ * NAICS is revised every five years, SOC about every ten, and UNSPSC in numbered
+ * versions. Data coded in an older edition stays in use, so the transforms ingest
+ * every edition they find side by side:
+ *
+ *   - every record carries its edition in `version`
+ *   - the current edition is read from the unversioned source file and keeps the
+ *     unversioned output files and ids (NAICS.Industries.tsv, Soybean_Farming)
+ *   - another edition is read from the source file suffixed with its version
+ *     (.source/NAICS/NAICS.Industries.2017.tsv), written to output files suffixed
+ *     the same way (NAICS.Industries.2017.tsv), and its ids are disambiguated
+ *     with the version (Soybean_Farming_(2017)), so editions never collide on
+ *     (ns, type, id)
+ *
+ * concordances.ts links the editions through the official concordance tables, which
+ * also give the codes and titles of an old edition that has no source file of its own.
+ */
+
+import { existsSync, readdirSync } from 'fs'
+
+// Version of the edition each transform reads from its unversioned source file.
+// Replacing that file with a newer edition means bumping its version here.
+export const CURRENT_EDITIONS = {
+  NAICS: '2022',
+  SOC: '2018',
+  UNSPSC: 'v26',
+} as const
+
+export type VersionedClassification = keyof typeof CURRENT_EDITIONS
+
+export interface Edition {
+  version: string
+  current: boolean
+}
+
+/**
+ * The current edition of a classification
+ */
+export function currentEdition(classification: VersionedClassification): Edition {
+  return { version: CURRENT_EDITIONS[classification], current: true }
+}
+
+/**
+ * The file of an edition: NAICS.Industries.tsv -> NAICS.Industries.2017.tsv
+ */
+export function versionedFile(file: string, edition: Edition): string {
+  if (edition.current) return file
+  const dot = file.lastIndexOf('.')
+  return `${file.slice(0, dot)}.${edition.version}${file.slice(dot)}`
+}
+
+/**
+ * The id of an entity in an edition: Soybean_Farming -> Soybean_Farming_(2017)
+ */
+export function versionedId(id: string, edition: Edition): string {
+  return edition.current || !id ? id : `${id}_(${edition.version})`
+}
+
+/**
+ * The editions of a classification found next to its source file: the current
+ * edition, then every `<name>.<version>.<ext>` file, oldest first
+ */
+export function findEditions(dir: string, file: string, classification: VersionedClassification): Edition[] {
+  const dot = file.lastIndexOf('.')
+  const stem = file.slice(0, dot)
+  const extension = file.slice(dot)
+
+  const versions = existsSync(dir)
+    ? readdirSync(dir)
+      .filter(f => f.startsWith(`${stem}.`) && f.endsWith(extension))
+      .map(f => f.slice(stem.length + 1, f.length - extension.length))
+      .filter(version => /^[A-Za-z0-9_-]+$/.test(version) && version !== CURRENT_EDITIONS[classification])
+      .sort()
+    : []
+
+  return [currentEdition(classification), ...versions.map(version => ({ version, current: false }))]
+}
@@ -20,6 +20,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.W3C
 const SOURCE_DIR = getSourcePath('W3C')
@@ -315,7 +316,7 @@ function transformWCAGTechniques(data: WCAGData): void {
   console.log('Transforming WCAG Techniques...')
 
   const techniquesMap = new Map<string, { id: string; title: string }>()
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
 
   // Extract all techniques from success criteria
   for (const principle of data.principles) {
@@ -339,7 +340,7 @@ function transformWCAGTechniques(data: WCAGData): void {
                 toType: 'WCAG.SuccessCriterion',
                 toId: criterionId,
                 relationshipType: 'sufficientFor',
-                techniqueCategory: 'Sufficient',
+                properties: { techniqueCategory: 'Sufficient' },
               })
             }
 
@@ -358,8 +359,10 @@ function transformWCAGTechniques(data: WCAGData): void {
                         toType: 'WCAG.SuccessCriterion',
                         toId: criterionId,
                         relationshipType: 'sufficientFor',
-                        techniqueCategory: 'Sufficient',
-                        situation: situation.title || '',
+                        properties: {
+                          techniqueCategory: 'Sufficient',
+                          situation: situation.title || '',
+                        },
                       })
                     }
                   }
@@ -382,7 +385,7 @@ function transformWCAGTechniques(data: WCAGData): void {
                 toType: 'WCAG.SuccessCriterion',
                 toId: criterionId,
                 relationshipType: 'advisoryFor',
-                techniqueCategory: 'Advisory',
+                properties: { techniqueCategory: 'Advisory' },
               })
             }
           }
@@ -401,7 +404,7 @@ function transformWCAGTechniques(data: WCAGData): void {
                 toType: 'WCAG.SuccessCriterion',
                 toId: criterionId,
                 relationshipType: 'failureFor',
-                techniqueCategory: 'Failure',
+                properties: { techniqueCategory: 'Failure' },
               })
             }
           }
@@ -440,11 +443,7 @@ function transformWCAGTechniques(data: WCAGData): void {
   )
 
   // Write relationships
-  writeTSV(
-    join(REL_DIR, 'WCAG.Technique.SuccessCriterion.tsv'),
-    relationships,
-    ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType', 'techniqueCategory', 'situation']
-  )
+  writeRelationshipTSV(join(REL_DIR, 'WCAG.Technique.SuccessCriterion.tsv'), relationships)
 }
 
 /**
@@ -1235,6 +1234,31 @@ export async function transformW3CAccessibility(): Promise<void> {
   }
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-accessibility',
+  description: 'W3C Web Accessibility standards (WCAG, ARIA, ATAG)',
+  run: transformW3CAccessibility,
+  group: 'w3c',
+  sources: ['W3C'],
+  outputs: [
+    'W3C.WCAG.Principles.tsv',
+    'W3C.WCAG.Guidelines.tsv',
+    'relationships/WCAG.Guideline.Principle.tsv',
+    'W3C.WCAG.SuccessCriteria.tsv',
+    'relationships/WCAG.SuccessCriterion.Guideline.tsv',
+    'W3C.WCAG.SuccessCriteria.Levels.tsv',
+    'W3C.WCAG.Techniques.tsv',
+    'W3C.WCAG.Techniques.Metadata.tsv',
+    'relationships/WCAG.Technique.SuccessCriterion.tsv',
+    'W3C.ARIA.Roles.tsv',
+    'W3C.ARIA.Roles.Metadata.tsv',
+    'W3C.ARIA.States.tsv',
+    'W3C.ARIA.States.Metadata.tsv',
+    'W3C.ARIA.Properties.tsv',
+    'W3C.ARIA.Properties.Metadata.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CAccessibility().catch(console.error)
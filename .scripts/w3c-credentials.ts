@@ -17,6 +17,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.W3C
 const DATA_DIR = getDataPath()
@@ -692,6 +693,28 @@ export async function transformW3CCredentials(): Promise<void> {
   console.log('\n=== W3C Credentials Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-credentials',
+  description: 'W3C Verifiable Credentials and DID',
+  run: transformW3CCredentials,
+  group: 'w3c',
+  outputs: [
+    'W3C.VCTypes.tsv',
+    'W3C.ProofTypes.tsv',
+    'W3C.StatusTypes.tsv',
+    'W3C.VCProperties.tsv',
+    'W3C.DIDProperties.tsv',
+    'W3C.DIDServiceTypes.tsv',
+    'W3C.VerificationMethodTypes.tsv',
+    'W3C.DIDMethods.tsv',
+    'W3C.AuthenticatorTypes.tsv',
+    'W3C.WebAuthnCeremonies.tsv',
+    'W3C.WebAuthnExtensions.tsv',
+    'W3C.AttestationTypes.tsv',
+    'relationships/W3C.Credentials.relationships.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CCredentials().catch(console.error)
@@ -4,6 +4,7 @@ import {
   parseTSV,
   writeStandardTSV,
   writeTSV,
+  writeRelationshipTSV,
   toWikipediaStyleId,
   cleanDescription,
   getSourcePath,
@@ -12,7 +13,10 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
   type StandardRecord,
+  type RelationshipRecord,
 } from './utils'
+import { defineSchema } from './schema'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.W3C
 const SOURCE_DIR = getSourcePath('W3C')
@@ -20,47 +24,59 @@ const DATA_DIR = getDataPath()
 const REL_DIR = getRelationshipsPath()
 
 // Interface definitions for source data
-interface CSSPropertyRow {
-  name: string
-  syntax: string
-  initial: string
-  inherited: string
-  animatable: string
-  specification: string
-}
-
-interface CSSSelectorRow {
-  pattern: string
-  type: string
-  specificity: string
-  description: string
-}
-
-interface CSSFunctionRow {
-  name: string
-  parameters: string
-  returnType: string
-  description: string
-}
-
-interface CSSAtRuleRow {
-  name: string
-  syntax: string
-  description: string
-}
-
-interface CSSDataTypeRow {
-  name: string
-  syntax: string
-  description: string
-}
-
-interface CSSUnitRow {
-  name: string
-  type: string
-  relativeTo: string
-  description: string
-}
+const CSS_PROPERTY_SCHEMA = defineSchema({
+  columns: {
+    name: {},
+    syntax: {},
+    initial: {},
+    inherited: {},
+    animatable: {},
+    specification: {},
+  },
+})
+
+const CSS_SELECTOR_SCHEMA = defineSchema({
+  columns: {
+    pattern: {},
+    type: {},
+    specificity: {},
+    description: {},
+  },
+})
+
+const CSS_FUNCTION_SCHEMA = defineSchema({
+  columns: {
+    name: {},
+    parameters: {},
+    returnType: {},
+    description: {},
+  },
+})
+
+const CSS_AT_RULE_SCHEMA = defineSchema({
+  columns: {
+    name: {},
+    syntax: {},
+    description: {},
+  },
+})
+
+const CSS_DATA_TYPE_SCHEMA = defineSchema({
+  columns: {
+    name: {},
+    syntax: {},
+    description: {},
+  },
+})
+
+const CSS_UNIT_SCHEMA = defineSchema({
+  columns: {
+    name: {},
+    type: {},
+    relativeTo: {},
+    description: {},
+  },
+})
 
 /**
  * Transform CSS Properties
@@ -68,7 +84,7 @@ interface CSSUnitRow {
  */
 function transformCSSProperties(): void {
   console.log('Transforming W3C CSS Properties...')
-  const data = parseTSV<CSSPropertyRow>(join(SOURCE_DIR, 'W3C.CSS.Properties.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.Properties.tsv'), CSS_PROPERTY_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.name)
@@ -115,7 +131,7 @@ function transformCSSProperties(): void {
  */
 function transformCSSSelectors(): void {
   console.log('Transforming W3C CSS Selectors...')
-  const data = parseTSV<CSSSelectorRow>(join(SOURCE_DIR, 'W3C.CSS.Selectors.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.Selectors.tsv'), CSS_SELECTOR_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.pattern)
@@ -160,7 +176,7 @@ function transformCSSSelectors(): void {
  */
 function transformCSSFunctions(): void {
   console.log('Transforming W3C CSS Functions...')
-  const data = parseTSV<CSSFunctionRow>(join(SOURCE_DIR, 'W3C.CSS.Functions.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.Functions.tsv'), CSS_FUNCTION_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.name)
@@ -205,7 +221,7 @@ function transformCSSFunctions(): void {
  */
 function transformCSSAtRules(): void {
   console.log('Transforming W3C CSS At-Rules...')
-  const data = parseTSV<CSSAtRuleRow>(join(SOURCE_DIR, 'W3C.CSS.AtRules.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.AtRules.tsv'), CSS_AT_RULE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.name)
@@ -247,7 +263,7 @@ function transformCSSAtRules(): void {
  */
 function transformCSSDataTypes(): void {
   console.log('Transforming W3C CSS Data Types...')
-  const data = parseTSV<CSSDataTypeRow>(join(SOURCE_DIR, 'W3C.CSS.DataTypes.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.DataTypes.tsv'), CSS_DATA_TYPE_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.name)
@@ -289,7 +305,7 @@ function transformCSSDataTypes(): void {
  */
 function transformCSSUnits(): void {
   console.log('Transforming W3C CSS Units...')
-  const data = parseTSV<CSSUnitRow>(join(SOURCE_DIR, 'W3C.CSS.Units.tsv'))
+  const data = parseTSV(join(SOURCE_DIR, 'W3C.CSS.Units.tsv'), CSS_UNIT_SCHEMA)
 
   const records: StandardRecord[] = data
     .filter(row => row.name)
@@ -328,7 +344,7 @@ function transformCSSUnits(): void {
   )
 
   // Create relationships: Units to Data Types
-  const unitTypeRelationships: Record<string, string>[] = []
+  const unitTypeRelationships: RelationshipRecord[] = []
 
   for (const row of data) {
     if (row.name && row.type) {
@@ -364,11 +380,7 @@ function transformCSSUnits(): void {
   }
 
   if (unitTypeRelationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'W3C.CSS.Unit.DataType.tsv'),
-      unitTypeRelationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'W3C.CSS.Unit.DataType.tsv'), unitTypeRelationships)
   }
 }
 
@@ -392,7 +404,7 @@ function createCSSRelationships(): void {
     'background-color': ['<color>'],
   }
 
-  const relationships: Record<string, string>[] = []
+  const relationships: RelationshipRecord[] = []
 
   for (const [property, dataTypes] of Object.entries(propertyDataTypeMap)) {
     for (const dataType of dataTypes) {
@@ -409,11 +421,7 @@ function createCSSRelationships(): void {
   }
 
   if (relationships.length > 0) {
-    writeTSV(
-      join(REL_DIR, 'W3C.CSS.Property.DataType.tsv'),
-      relationships,
-      ['fromNs', 'fromType', 'fromId', 'toNs', 'toType', 'toId', 'relationshipType']
-    )
+    writeRelationshipTSV(join(REL_DIR, 'W3C.CSS.Property.DataType.tsv'), relationships)
   }
 }
 
@@ -436,6 +444,30 @@ export async function transformW3CCSS(): Promise<void> {
   console.log('=== W3C CSS Transformation Complete ===\n')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-css',
+  description: 'W3C CSS properties and values',
+  run: transformW3CCSS,
+  group: 'w3c',
+  sources: ['W3C'],
+  outputs: [
+    'W3C.CSS.Properties.tsv',
+    'W3C.CSS.Properties.Extended.tsv',
+    'W3C.CSS.Selectors.tsv',
+    'W3C.CSS.Selectors.Extended.tsv',
+    'W3C.CSS.Functions.tsv',
+    'W3C.CSS.Functions.Extended.tsv',
+    'W3C.CSS.AtRules.tsv',
+    'W3C.CSS.AtRules.Extended.tsv',
+    'W3C.CSS.DataTypes.tsv',
+    'W3C.CSS.DataTypes.Extended.tsv',
+    'W3C.CSS.Units.tsv',
+    'W3C.CSS.Units.Extended.tsv',
+    'relationships/W3C.CSS.Unit.DataType.tsv',
+    'relationships/W3C.CSS.Property.DataType.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CCSS()
@@ -19,6 +19,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 // Use W3C namespace from NAMESPACES
 const NS = NAMESPACES.W3C
@@ -923,6 +924,22 @@ export async function transformW3CHTML(): Promise<void> {
   console.log('\n=== W3C Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-html',
+  description: 'W3C HTML elements and attributes',
+  run: transformW3CHTML,
+  group: 'w3c',
+  outputs: [
+    'W3C.HTMLElements.tsv',
+    'W3C.HTMLAttributes.tsv',
+    'W3C.HTMLEvents.tsv',
+    'W3C.DOMInterfaces.tsv',
+    'relationships/W3C.DOMInterface.Inheritance.tsv',
+    'W3C.SVGElements.tsv',
+    'W3C.SVGAttributes.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CHTML().catch(console.error)
@@ -18,6 +18,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.W3C
 const DATA_DIR = getDataPath()
@@ -918,6 +919,28 @@ export async function transformW3CSemantic(): Promise<void> {
   console.log('\n=== W3C Semantic Web Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-semantic',
+  description: 'W3C Semantic Web vocabularies (RDF, OWL, SKOS)',
+  run: transformW3CSemantic,
+  group: 'w3c',
+  outputs: [
+    'W3C.RDF.tsv',
+    'W3C.RDFS.tsv',
+    'W3C.OWL.tsv',
+    'relationships/OWL.Property.Class.tsv',
+    'W3C.SKOS.tsv',
+    'W3C.DCAT.tsv',
+    'W3C.PROV.tsv',
+    'W3C.FOAF.tsv',
+    'W3C.DublinCore.tsv',
+    'W3C.SHACL.tsv',
+    'W3C.VoID.tsv',
+    'W3C.SPARQL.tsv',
+    'W3C.JSONLD.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CSemantic().catch(console.error)
@@ -17,6 +17,7 @@ import {
   ensureOutputDirs,
   getAggregationsForType,
 } from './utils'
+import type { TransformerDescriptor } from './registry'
 
 const NS = NAMESPACES.W3C
 const DATA_DIR = getDataPath()
@@ -856,6 +857,26 @@ export async function transformW3CWoT(): Promise<void> {
   console.log('\n=== W3C WoT Transformation Complete ===')
 }
 
+export const transformer: TransformerDescriptor = {
+  name: 'w3c-wot',
+  description: 'W3C Web of Things (Thing Descriptions, protocols)',
+  run: transformW3CWoT,
+  group: 'w3c',
+  outputs: [
+    'W3C.TDVocabulary.tsv',
+    'W3C.PropertyAffordances.tsv',
+    'W3C.ActionAffordances.tsv',
+    'W3C.EventAffordances.tsv',
+    'W3C.ProtocolBindings.tsv',
+    'W3C.OperationTypes.tsv',
+    'W3C.SecuritySchemes.tsv',
+    'W3C.OAuth2Flows.tsv',
+    'W3C.SecurityLocations.tsv',
+    'W3C.DataTypes.tsv',
+    'relationships/W3C.WoT.relationships.tsv',
+  ],
+}
+
 // Run if called directly
 if (import.meta.main) {
   transformW3CWoT().catch(console.error)